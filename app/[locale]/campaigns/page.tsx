@@ -9,7 +9,19 @@ import { getCurrentUser, signOut } from "@/lib/auth"
 import { supabase } from "@/lib/supabase"
 import { isRecoverySessionActive, isResetPasswordRoute } from "@/lib/recovery-session"
 import type { User } from "@/types/auth"
-import type { ContentType, Character, Environment, Mission, GeneratedContent } from "@/types/rpg"
+import type {
+  ContentType,
+  Character,
+  Environment,
+  Mission,
+  MagicItem,
+  Monster,
+  Faction,
+  GeneratedContent,
+  CampaignEntryReference,
+  ContinuityIssue,
+  ContinuityReport,
+} from "@/types/rpg"
 import type { LibraryContentItem } from "@/components/rpg/library-card"
 import { Button } from "@/components/ui/button"
 import {
@@ -31,6 +43,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select"
+import { useQuotaErrorMessage } from "@/components/generator/generation-quota"
 
 type Campaign = {
   id: string
@@ -59,6 +72,9 @@ const CONTENT_TYPE_ICONS: Record<ContentType, string> = {
   character: "🎭",
   environment: "🗺️",
   mission: "⚔️",
+  item: "💎",
+  monster: "🐉",
+  faction: "🏛️",
 }
 
 function getContentName(item: { type: ContentType; content_data: GeneratedContent } | null): string {
@@ -69,6 +85,15 @@ function getContentName(item: { type: ContentType; content_data: GeneratedConten
   if (item.type === "environment") {
     return (item.content_data as Environment)?.name || "Unknown"
   }
+  if (item.type === "item") {
+    return (item.content_data as MagicItem)?.name || "Unknown"
+  }
+  if (item.type === "monster") {
+    return (item.content_data as Monster)?.name || "Unknown"
+  }
+  if (item.type === "faction") {
+    return (item.content_data as Faction)?.name || "Unknown"
+  }
   return (item.content_data as Mission)?.title || "Unknown"
 }
 
@@ -84,6 +109,7 @@ export default function CampaignsPage() {
   const t = useTranslations()
   const locale = useLocale()
   const router = useRouter()
+  const getQuotaErrorMessage = useQuotaErrorMessage()
   const [user, setUser] = useState<User | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [campaigns, setCampaigns] = useState<Campaign[]>([])
@@ -116,6 +142,9 @@ export default function CampaignsPage() {
   const [libraryType, setLibraryType] = useState<ContentType | "all">("all")
   const [isLoadingLibrary, setIsLoadingLibrary] = useState(false)
   const [addingContentId, setAddingContentId] = useState<string | null>(null)
+  const [continuityReport, setContinuityReport] = useState<ContinuityReport | null>(null)
+  const [isCheckingContinuity, setIsCheckingContinuity] = useState(false)
+  const [highlightedContentId, setHighlightedContentId] = useState<string | null>(null)
 
   useEffect(() => {
     if (typeof window === "undefined") return
@@ -290,11 +319,18 @@ export default function CampaignsPage() {
   }, [user, fetchCampaigns])
 
   useEffect(() => {
+    setContinuityReport(null)
     if (selectedCampaignId) {
       fetchCampaignDetails(selectedCampaignId)
     }
   }, [selectedCampaignId, fetchCampaignDetails])
 
+  useEffect(() => {
+    if (!highlightedContentId) return
+    const timeout = setTimeout(() => setHighlightedContentId(null), 2000)
+    return () => clearTimeout(timeout)
+  }, [highlightedContentId])
+
   useEffect(() => {
     if (isAddContentOpen && libraryContent.length === 0) {
       fetchLibraryContent()
@@ -702,6 +738,61 @@ export default function CampaignsPage() {
     await persistOrder(withSequence)
   }
 
+  async function handleCheckContinuity() {
+    if (!selectedCampaignId) return
+    setIsCheckingContinuity(true)
+    setError(null)
+
+    try {
+      const accessToken = await getAccessToken()
+      if (!accessToken) {
+        throw new Error(t("errors.unauthorized"))
+      }
+
+      const response = await fetch(`/api/campaigns/${selectedCampaignId}/continuity`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: t("errors.generic") }))
+        throw new Error(getQuotaErrorMessage(response.status, errorData) || errorData.error || t("errors.generic"))
+      }
+
+      const result = await response.json()
+      setContinuityReport(result.data as ContinuityReport)
+    } catch (err) {
+      console.error("Continuity check error:", err)
+      setError(err instanceof Error ? err.message : t("errors.generic"))
+    } finally {
+      setIsCheckingContinuity(false)
+    }
+  }
+
+  function handleJumpToEntry(entry: CampaignEntryReference) {
+    if (entry.kind === "session") {
+      router.push(`/sessions?note=${entry.id}`)
+      return
+    }
+    document.getElementById(`campaign-content-${entry.id}`)?.scrollIntoView({ behavior: "smooth", block: "center" })
+    setHighlightedContentId(entry.id)
+  }
+
+  function getContinuityIssueText(issue: ContinuityIssue): string {
+    switch (issue.kind) {
+      case "name_collision":
+        return t("campaigns.continuityNameCollision", { count: issue.entries.length, name: issue.name ?? "" })
+      case "dangling_npc":
+        return t("campaigns.continuityDanglingNpc", { name: issue.name ?? "" })
+      case "dangling_location":
+        return t("campaigns.continuityDanglingLocation", { name: issue.name ?? "" })
+      default:
+        return issue.description ?? ""
+    }
+  }
+
   async function handleSignOut() {
     const result = await signOut()
     if (!result.error) {
@@ -773,6 +864,9 @@ export default function CampaignsPage() {
                   <SelectItem value="character">{t("generator.contentType.character")}</SelectItem>
                   <SelectItem value="environment">{t("generator.contentType.environment")}</SelectItem>
                   <SelectItem value="mission">{t("generator.contentType.mission")}</SelectItem>
+                  <SelectItem value="item">{t("generator.contentType.item")}</SelectItem>
+                  <SelectItem value="monster">{t("generator.contentType.monster")}</SelectItem>
+                  <SelectItem value="faction">{t("generator.contentType.faction")}</SelectItem>
                 </SelectContent>
               </Select>
 
@@ -1135,6 +1229,7 @@ export default function CampaignsPage() {
                         return (
                           <div
                             key={item.contentId}
+                            id={`campaign-content-${item.contentId}`}
                             draggable
                             onDragStart={(event) => handleDragStart(event, index)}
                             onDragOver={(event) => handleDragOver(event, index)}
@@ -1143,7 +1238,7 @@ export default function CampaignsPage() {
                               setDragOverIndex(null)
                             }}
                             onDrop={() => handleDrop(index)}
-                            className={`rounded-xl border-2 p-4 shadow-sm transition-colors ${dragOverIndex === index
+                            className={`rounded-xl border-2 p-4 shadow-sm transition-colors ${dragOverIndex === index || highlightedContentId === item.contentId
                               ? "border-primary/60 bg-primary/10"
                               : "border-primary/10 bg-background/60"
                               }`}
@@ -1220,6 +1315,83 @@ export default function CampaignsPage() {
                 )}
               </CardContent>
             </Card>
+
+            <Card className="parchment ornate-border border-2 border-primary/20 shadow-lg">
+              <CardHeader className="border-b border-primary/10">
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="font-display text-2xl font-bold text-primary flex items-center gap-2">
+                      <span className="text-2xl">🔎</span>
+                      {t("campaigns.continuityTitle")}
+                    </CardTitle>
+                    <CardDescription className="font-body text-sm text-muted-foreground">
+                      {t("campaigns.continuityDescription")}
+                    </CardDescription>
+                  </div>
+                  <Button
+                    variant="outline"
+                    className="font-body"
+                    onClick={handleCheckContinuity}
+                    disabled={!selectedCampaign || isCheckingContinuity}
+                  >
+                    {isCheckingContinuity ? t("campaigns.continuityChecking") : t("campaigns.continuityCheck")}
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="p-6 space-y-4">
+                {!continuityReport ? (
+                  <p className="text-sm text-muted-foreground font-body">
+                    {selectedCampaign ? t("campaigns.continuityNotRun") : t("campaigns.selectCampaign")}
+                  </p>
+                ) : (
+                  <>
+                    <p className="text-sm text-muted-foreground font-body">
+                      {continuityReport.issues.length === 0
+                        ? t("campaigns.continuityNoIssues", { count: continuityReport.checkedEntries })
+                        : t("campaigns.continuityIssueCount", {
+                          count: continuityReport.issues.length,
+                          entries: continuityReport.checkedEntries,
+                        })}
+                    </p>
+                    {continuityReport.contradictionError && (
+                      <Alert variant="destructive">
+                        <AlertDescription className="font-body text-sm">
+                          {t("campaigns.continuityModelError", { message: continuityReport.contradictionError })}
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                    {continuityReport.issues.map((issue, issueIndex) => (
+                      <div
+                        key={`${issue.kind}-${issueIndex}`}
+                        className="rounded-lg border border-primary/10 bg-background/60 p-3 space-y-2"
+                      >
+                        <div className="flex items-start gap-2">
+                          <span className="shrink-0 rounded-full border border-primary/30 bg-primary/10 px-2 py-0.5 text-xs font-semibold text-primary">
+                            {t(`campaigns.continuityKind.${issue.kind}`)}
+                          </span>
+                          <p className="text-sm font-body text-foreground">{getContinuityIssueText(issue)}</p>
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                          {issue.entries.map((entry) => (
+                            <Button
+                              key={`${entry.kind}-${entry.id}`}
+                              variant="outline"
+                              size="sm"
+                              className="font-body"
+                              title={t("campaigns.continuityJumpHint", { title: entry.title })}
+                              onClick={() => handleJumpToEntry(entry)}
+                            >
+                              <span className="mr-1">{entry.type ? CONTENT_TYPE_ICONS[entry.type] : "📜"}</span>
+                              {entry.title}
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </>
+                )}
+              </CardContent>
+            </Card>
           </div>
         </div>
       </div>
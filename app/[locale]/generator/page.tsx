@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useState, useRef, useMemo } from "react"
+import { useEffect, useState, useRef } from "react"
 import { useTranslations, useLocale } from 'next-intl'
 import { useRouter } from '@/i18n/routing'
 import { getCurrentUser, signOut } from "@/lib/auth"
@@ -19,10 +19,16 @@ import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
 import { AdvancedFormField } from "@/components/generator/advanced-form-field"
 import { ExampleListSidebar } from "@/components/generator/example-list-sidebar"
+import { GenerationQuota, useQuotaErrorMessage } from "@/components/generator/generation-quota"
+import { CandidateComparisonModal } from "@/components/generator/candidate-comparison-modal"
+import { MAX_CANDIDATES } from "@/lib/candidates"
 import {
   advancedCharacterInputSchema,
   advancedEnvironmentInputSchema,
   advancedMissionInputSchema,
+  advancedItemInputSchema,
+  advancedMonsterInputSchema,
+  advancedFactionInputSchema,
 } from "@/lib/schemas/advanced-input"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { AnimatedBanner } from "@/components/ui/animated-banner"
@@ -30,8 +36,13 @@ import { NavigationDropdown } from "@/components/ui/navigation-dropdown"
 import { CharacterCard } from "@/components/rpg/character-card"
 import { EnvironmentCard } from "@/components/rpg/environment-card"
 import { MissionCard } from "@/components/rpg/mission-card"
-import type { ContentType, GeneratedContent, Character, Environment, Mission, AdvancedCharacterInput, AdvancedEnvironmentInput, AdvancedMissionInput, AdvancedGenerationParams } from "@/types/rpg"
+import { ItemCard } from "@/components/rpg/item-card"
+import { MonsterCard } from "@/components/rpg/monster-card"
+import { FactionCard } from "@/components/rpg/faction-card"
+import type { ContentType, GeneratedContent, Character, Environment, Mission, MagicItem, Monster, Faction, RulesCorrection, CampaignContextSource, CharacterClass, AdvancedCharacterInput, AdvancedEnvironmentInput, AdvancedMissionInput, AdvancedItemInput, AdvancedMonsterInput, AdvancedFactionInput, AdvancedGenerationParams, GenerationProvenance, GenerationCandidate } from "@/types/rpg"
 import { DND_REFERENCE } from "@/lib/dnd-reference"
+import { defaultLocale, isLocale, localeNames, locales, type Locale } from "@/i18n/config"
+import { completePartialContent } from "@/lib/partial-content"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 
 interface GeneratorState {
@@ -46,6 +57,9 @@ interface GeneratorPreferences {
   advancedCharacterInput?: AdvancedCharacterInput
   advancedEnvironmentInput?: AdvancedEnvironmentInput
   advancedMissionInput?: AdvancedMissionInput
+  advancedItemInput?: AdvancedItemInput
+  advancedMonsterInput?: AdvancedMonsterInput
+  advancedFactionInput?: AdvancedFactionInput
   generationParams?: AdvancedGenerationParams
 }
 
@@ -120,10 +134,26 @@ const normalizeAdvancedMissionInput = (input: unknown): AdvancedMissionInput =>
   return result.success ? result.data : {}
 }
 
+const normalizeAdvancedItemInput = (input: unknown): AdvancedItemInput => {
+  const result = advancedItemInputSchema.safeParse(input ?? {})
+  return result.success ? result.data : {}
+}
+
+const normalizeAdvancedMonsterInput = (input: unknown): AdvancedMonsterInput => {
+  const result = advancedMonsterInputSchema.safeParse(input ?? {})
+  return result.success ? result.data : {}
+}
+
+const normalizeAdvancedFactionInput = (input: unknown): AdvancedFactionInput => {
+  const result = advancedFactionInputSchema.safeParse(input ?? {})
+  return result.success ? result.data : {}
+}
+
 export default function GeneratorPage() {
   const t = useTranslations()
   const locale = useLocale()
   const router = useRouter()
+  const getQuotaErrorMessage = useQuotaErrorMessage()
   const [user, setUser] = useState<User | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [scenario, setScenario] = useState("")
@@ -131,8 +161,14 @@ export default function GeneratorPage() {
   const [isGenerating, setIsGenerating] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [generatedContent, setGeneratedContent] = useState<GeneratedContent | null>(null)
+  const [streamingContent, setStreamingContent] = useState<GeneratedContent | null>(null) // Partial content while the model is still writing
   const [scenarioUsedForGeneration, setScenarioUsedForGeneration] = useState<string>("") // Store scenario used for generation
+  const [outputLanguage, setOutputLanguage] = useState<Locale>(isLocale(locale) ? locale : defaultLocale) // Language to generate in; defaults to the UI locale
+  const [languageUsedForGeneration, setLanguageUsedForGeneration] = useState<Locale | null>(null) // Language the current content was generated in
   const [isSaving, setIsSaving] = useState(false)
+  const [isGeneratingAdventure, setIsGeneratingAdventure] = useState(false)
+  const [adventureResult, setAdventureResult] = useState<{ title: string; locationCount: number; npcCount: number; campaignError?: string | null } | null>(null)
+  const [addAdventureToCampaign, setAddAdventureToCampaign] = useState(true) // Append the adventure to the selected campaign
   const [saveSuccess, setSaveSuccess] = useState(false)
   const [saveError, setSaveError] = useState<string | null>(null)
   const [generationSuccess, setGenerationSuccess] = useState(false)
@@ -145,11 +181,23 @@ export default function GeneratorPage() {
   const [templateDescription, setTemplateDescription] = useState("")
   const [isSavingTemplate, setIsSavingTemplate] = useState(false)
   const [regeneratingSection, setRegeneratingSection] = useState<string | null>(null)
+  const [regenerationInstructions, setRegenerationInstructions] = useState("") // Optional direction for section regeneration
+  const [rulesCorrections, setRulesCorrections] = useState<RulesCorrection[]>([]) // Applied by the 5e rules validator to the last generated character
+  const [contextSources, setContextSources] = useState<CampaignContextSource[]>([]) // Campaign entries the server put in the last prompt
+  const [generationProvenance, setGenerationProvenance] = useState<GenerationProvenance | null>(null) // Saved with the content
+  const [quotaRefreshKey, setQuotaRefreshKey] = useState(0) // Bumped after each generation to reload the remaining quota
+  const [candidateCount, setCandidateCount] = useState(1) // Candidates per generation; above 1 they are compared before keeping one
+  const [candidateRun, setCandidateRun] = useState<{ candidates: GenerationCandidate[]; language: Locale; contextSources: CampaignContextSource[]; failed: number } | null>(null)
+  const [candidateProgress, setCandidateProgress] = useState<{ done: number; total: number } | null>(null)
+  const [showCandidateModal, setShowCandidateModal] = useState(false)
   const [advancedMode, setAdvancedMode] = useState(false)
   const [showExamples, setShowExamples] = useState(false)
   const [advancedCharacterInput, setAdvancedCharacterInput] = useState<AdvancedCharacterInput>({})
   const [advancedEnvironmentInput, setAdvancedEnvironmentInput] = useState<AdvancedEnvironmentInput>({})
   const [advancedMissionInput, setAdvancedMissionInput] = useState<AdvancedMissionInput>({})
+  const [advancedItemInput, setAdvancedItemInput] = useState<AdvancedItemInput>({})
+  const [advancedMonsterInput, setAdvancedMonsterInput] = useState<AdvancedMonsterInput>({})
+  const [advancedFactionInput, setAdvancedFactionInput] = useState<AdvancedFactionInput>({})
   const [generationParams, setGenerationParams] = useState<AdvancedGenerationParams>(() => ({
     ...DEFAULT_GENERATION_PARAMS,
   }))
@@ -173,37 +221,17 @@ export default function GeneratorPage() {
     if (item.content.type === "environment") {
       return (item.content.content_data as Environment).name
     }
-    return (item.content.content_data as Mission).title
-  }
-
-  const campaignContext = useMemo(() => {
-    if (!selectedCampaignDetails) return ""
-    const lines: string[] = []
-    lines.push(`Campaign: ${selectedCampaignDetails.name}`)
-    if (selectedCampaignDetails.description) {
-      lines.push(`Description: ${selectedCampaignDetails.description}`)
+    if (item.content.type === "item") {
+      return (item.content.content_data as MagicItem).name
     }
-    if (selectedCampaignDetails.settings && Object.keys(selectedCampaignDetails.settings).length > 0) {
-      const rawSettings = JSON.stringify(selectedCampaignDetails.settings)
-      const settingsText = rawSettings.length > 500 ? `${rawSettings.slice(0, 500)}...` : rawSettings
-      lines.push(`Settings: ${settingsText}`)
+    if (item.content.type === "monster") {
+      return (item.content.content_data as Monster).name
     }
-    if (selectedCampaignDetails.content && selectedCampaignDetails.content.length > 0) {
-      const contentSummary = selectedCampaignDetails.content
-        .slice(0, 5)
-        .map((entry) => {
-          if (!entry.content) return "Unknown"
-          const name = getCampaignContentName(entry)
-          return `${entry.content.type}: ${name}`
-        })
-        .join("; ")
-      const extra = selectedCampaignDetails.content.length > 5
-        ? ` (and ${selectedCampaignDetails.content.length - 5} more)`
-        : ""
-      lines.push(`Linked content: ${contentSummary}${extra}`)
+    if (item.content.type === "faction") {
+      return (item.content.content_data as Faction).name
     }
-    return lines.join("\n")
-  }, [selectedCampaignDetails, t])
+    return (item.content.content_data as Mission).title
+  }
 
   useEffect(() => {
     // SECURITY: Check recovery session SYNCHRONOUSLY before any async operations
@@ -275,6 +303,9 @@ export default function GeneratorPage() {
           setAdvancedCharacterInput(normalizeAdvancedCharacterInput(parsed.advancedCharacterInput))
           setAdvancedEnvironmentInput(normalizeAdvancedEnvironmentInput(parsed.advancedEnvironmentInput))
           setAdvancedMissionInput(normalizeAdvancedMissionInput(parsed.advancedMissionInput))
+          setAdvancedItemInput(normalizeAdvancedItemInput(parsed.advancedItemInput))
+          setAdvancedMonsterInput(normalizeAdvancedMonsterInput(parsed.advancedMonsterInput))
+          setAdvancedFactionInput(normalizeAdvancedFactionInput(parsed.advancedFactionInput))
           setGenerationParams(normalizeGenerationParams(parsed.generationParams))
         }
       }
@@ -296,6 +327,9 @@ export default function GeneratorPage() {
         advancedCharacterInput,
         advancedEnvironmentInput,
         advancedMissionInput,
+        advancedItemInput,
+        advancedMonsterInput,
+        advancedFactionInput,
         generationParams: normalizeGenerationParams(generationParams),
       }
       localStorage.setItem(`generator_preferences_${user.id}`, JSON.stringify(preferences))
@@ -307,6 +341,9 @@ export default function GeneratorPage() {
     advancedCharacterInput,
     advancedEnvironmentInput,
     advancedMissionInput,
+    advancedItemInput,
+    advancedMonsterInput,
+    advancedFactionInput,
     generationParams,
     user,
     hasRestoredPreferences,
@@ -340,6 +377,9 @@ export default function GeneratorPage() {
       setAdvancedCharacterInput({})
       setAdvancedEnvironmentInput({})
       setAdvancedMissionInput({})
+      setAdvancedItemInput({})
+      setAdvancedMonsterInput({})
+      setAdvancedFactionInput({})
       setGenerationParams({ ...DEFAULT_GENERATION_PARAMS })
       setAdvancedFieldErrors({})
       setHasRestoredPreferences(false)
@@ -356,6 +396,9 @@ export default function GeneratorPage() {
     if (!hasRestoredState.current) return
 
     setGeneratedContent(null)
+    setRulesCorrections([])
+    setContextSources([])
+    setGenerationProvenance(null)
     setGenerationSuccess(false)
     setSaveSuccess(false)
     setSaveError(null)
@@ -363,6 +406,7 @@ export default function GeneratorPage() {
     setShowSaveBanner(false)
     setScenario("")
     setScenarioUsedForGeneration("") // Clear stored scenario too
+    setLanguageUsedForGeneration(null)
     setAdvancedFieldErrors({})
   }, [contentType])
 
@@ -587,12 +631,14 @@ export default function GeneratorPage() {
           contentType,
           section,
           currentContent: generatedContent,
+          language: languageUsedForGeneration ?? outputLanguage,
+          instructions: regenerationInstructions.trim() || undefined,
         }),
       })
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ error: "Unknown error" }))
-        throw new Error(errorData.error || "Failed to regenerate section")
+        throw new Error(getQuotaErrorMessage(response.status, errorData) || errorData.error || "Failed to regenerate section")
       }
 
       const reader = response.body?.getReader()
@@ -603,6 +649,7 @@ export default function GeneratorPage() {
       const decoder = new TextDecoder()
       let buffer = ""
       let regeneratedData: any = null
+      let sectionCorrections: RulesCorrection[] = []
 
       while (true) {
         const { done, value } = await reader.read()
@@ -618,6 +665,7 @@ export default function GeneratorPage() {
               const parsed = JSON.parse(line)
               if (parsed.section === section && parsed.data) {
                 regeneratedData = parsed.data
+                sectionCorrections = Array.isArray(parsed.corrections) ? parsed.corrections : []
               }
             } catch {
               // JSON is incomplete, continue reading
@@ -631,6 +679,7 @@ export default function GeneratorPage() {
           const parsed = JSON.parse(buffer)
           if (parsed.section === section && parsed.data) {
             regeneratedData = parsed.data
+            sectionCorrections = Array.isArray(parsed.corrections) ? parsed.corrections : []
           }
         } catch (err) {
           console.error("Failed to parse final regeneration data:", err)
@@ -646,6 +695,8 @@ export default function GeneratorPage() {
         ...generatedContent,
         [section]: regeneratedData,
       })
+      // Corrections for the regenerated section replace the ones from its previous version
+      setRulesCorrections((prev) => [...prev.filter((c) => c.field !== section), ...sectionCorrections])
 
       setGenerationSuccess(true)
       setShowGenerationBanner(true)
@@ -654,6 +705,7 @@ export default function GeneratorPage() {
       console.error("Regeneration error:", err)
     } finally {
       setRegeneratingSection(null)
+      setQuotaRefreshKey((key) => key + 1)
     }
   }
 
@@ -674,13 +726,25 @@ export default function GeneratorPage() {
           ? advancedCharacterInputSchema
           : contentType === "environment"
             ? advancedEnvironmentInputSchema
-            : advancedMissionInputSchema
+            : contentType === "item"
+              ? advancedItemInputSchema
+              : contentType === "monster"
+                ? advancedMonsterInputSchema
+                : contentType === "faction"
+                  ? advancedFactionInputSchema
+                  : advancedMissionInputSchema
       const input =
         contentType === "character"
           ? advancedCharacterInput
           : contentType === "environment"
             ? advancedEnvironmentInput
-            : advancedMissionInput
+            : contentType === "item"
+              ? advancedItemInput
+              : contentType === "monster"
+                ? advancedMonsterInput
+                : contentType === "faction"
+                  ? advancedFactionInput
+                  : advancedMissionInput
       const result = schema.safeParse(input)
       if (!result.success) {
         const byPath = result.error.issues.reduce(
@@ -713,6 +777,10 @@ export default function GeneratorPage() {
     setIsGenerating(true)
     setError(null)
     setGeneratedContent(null)
+    setRulesCorrections([])
+    setContextSources([])
+    setGenerationProvenance(null)
+    setCandidateRun(null)
     setSaveSuccess(false)
     setSaveError(null)
 
@@ -724,30 +792,44 @@ export default function GeneratorPage() {
         throw new Error("Not authenticated. Please sign in again.")
       }
 
+      const requestBody = {
+        scenario: scenario.trim(),
+        contentType,
+        language: outputLanguage,
+        ...(selectedCampaignId ? { campaignId: selectedCampaignId } : {}),
+        ...(advancedMode && {
+          advancedInput: contentType === 'character'
+            ? advancedCharacterInput
+            : contentType === 'environment'
+              ? advancedEnvironmentInput
+              : contentType === 'item'
+                ? advancedItemInput
+                : contentType === 'monster'
+                  ? advancedMonsterInput
+                  : contentType === 'faction'
+                    ? advancedFactionInput
+                    : advancedMissionInput,
+          generationParams,
+        }),
+      }
+
+      if (candidateCount > 1) {
+        await generateCandidates(accessToken, requestBody)
+        return
+      }
+
       const response = await fetch("/api/generate", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
           "Authorization": `Bearer ${accessToken}`,
         },
-        body: JSON.stringify({
-          scenario: scenario.trim(),
-          contentType,
-          ...(campaignContext ? { campaignContext } : {}),
-          ...(advancedMode && {
-            advancedInput: contentType === 'character'
-              ? advancedCharacterInput
-              : contentType === 'environment'
-                ? advancedEnvironmentInput
-                : advancedMissionInput,
-            generationParams,
-          }),
-        }),
+        body: JSON.stringify(requestBody),
       })
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ error: "Unknown error" }))
-        throw new Error(errorData.error || "Failed to generate content")
+        throw new Error(getQuotaErrorMessage(response.status, errorData) || errorData.error || "Failed to generate content")
       }
 
       const reader = response.body?.getReader()
@@ -759,53 +841,240 @@ export default function GeneratorPage() {
       let buffer = ""
       let parsedContent: GeneratedContent | null = null
 
+      // The response is newline-delimited JSON: partial events while generating, then one complete event
+      const handleStreamLine = (line: string) => {
+        if (!line.trim()) return
+        let event: {
+          event?: string
+          content?: unknown
+          corrections?: RulesCorrection[]
+          language?: string
+          contextSources?: CampaignContextSource[]
+          provenance?: GenerationProvenance
+          error?: string
+          message?: string
+        }
+        try {
+          event = JSON.parse(line)
+        } catch {
+          console.error("Failed to parse generation event:", line.slice(0, 200))
+          return
+        }
+        if (event.event === "partial" && event.content && typeof event.content === "object") {
+          setStreamingContent(completePartialContent(contentType, event.content))
+        } else if (event.event === "complete" && event.content) {
+          parsedContent = event.content as GeneratedContent
+          setGeneratedContent(parsedContent)
+          setRulesCorrections(Array.isArray(event.corrections) ? event.corrections : [])
+          setLanguageUsedForGeneration(isLocale(event.language) ? event.language : outputLanguage)
+          setContextSources(Array.isArray(event.contextSources) ? event.contextSources : [])
+          setGenerationProvenance(event.provenance ?? null)
+        } else if (event.event === "error") {
+          throw new Error(event.message || event.error || "Failed to generate content")
+        }
+      }
+
       while (true) {
         const { done, value } = await reader.read()
         if (done) break
 
         buffer += decoder.decode(value, { stream: true })
-
-        try {
-          const content = JSON.parse(buffer)
-          parsedContent = content.content
-          setGeneratedContent(parsedContent)
-          buffer = ""
-          break
-        } catch {
-          // JSON is incomplete, continue reading
-        }
+        const lines = buffer.split("\n")
+        buffer = lines.pop() || ""
+        lines.forEach(handleStreamLine)
       }
 
-      if (!parsedContent && buffer.trim()) {
-        try {
-          const content = JSON.parse(buffer)
-          parsedContent = content.content
-          setGeneratedContent(parsedContent)
-        } catch (err) {
-          console.error("Failed to parse final content:", err)
-          throw new Error("Failed to parse generated content")
-        }
+      if (buffer.trim()) {
+        handleStreamLine(buffer)
       }
 
       if (!parsedContent) {
         throw new Error("No content was generated")
       }
 
-      setGenerationSuccess(true)
-      setShowGenerationBanner(true)
-
-      setTimeout(() => {
-        generatedContentRef.current?.scrollIntoView({
-          behavior: 'smooth',
-          block: 'start',
-          inline: 'nearest'
-        })
-      }, 300)
+      showGeneratedContent()
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to generate content. Please try again.")
       console.error(err)
     } finally {
       setIsGenerating(false)
+      setCandidateProgress(null)
+      setQuotaRefreshKey((key) => key + 1)
+      setStreamingContent(null)
+    }
+  }
+
+  function showGeneratedContent() {
+    setGenerationSuccess(true)
+    setShowGenerationBanner(true)
+
+    setTimeout(() => {
+      generatedContentRef.current?.scrollIntoView({
+        behavior: 'smooth',
+        block: 'start',
+        inline: 'nearest'
+      })
+    }, 300)
+  }
+
+  // Several candidates of the same request, generated in parallel and opened side by side once they are all done
+  async function generateCandidates(accessToken: string, requestBody: object) {
+    setCandidateProgress({ done: 0, total: candidateCount })
+
+    const response = await fetch("/api/generate/candidates", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify({ ...requestBody, count: candidateCount }),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: "Unknown error" }))
+      throw new Error(getQuotaErrorMessage(response.status, errorData) || errorData.error || "Failed to generate content")
+    }
+
+    const reader = response.body?.getReader()
+    if (!reader) {
+      throw new Error("No response body")
+    }
+
+    const decoder = new TextDecoder()
+    let buffer = ""
+    const candidates: (GenerationCandidate | null)[] = Array.from({ length: candidateCount }, () => null)
+    let language: Locale = outputLanguage
+    let runContextSources: CampaignContextSource[] = []
+    let lastError: string | null = null
+
+    // The response is newline-delimited JSON: one event per candidate as it finishes, then one complete event
+    const handleStreamLine = (line: string) => {
+      if (!line.trim()) return
+      let event: {
+        event?: string
+        index?: number
+        content?: unknown
+        corrections?: RulesCorrection[]
+        provenance?: GenerationProvenance
+        language?: string
+        contextSources?: CampaignContextSource[]
+        error?: string
+        message?: string
+      }
+      try {
+        event = JSON.parse(line)
+      } catch {
+        console.error("Failed to parse candidate event:", line.slice(0, 200))
+        return
+      }
+      if (event.event === "candidate-complete" && typeof event.index === "number" && event.content && event.provenance) {
+        candidates[event.index] = {
+          content: event.content as GeneratedContent,
+          corrections: Array.isArray(event.corrections) ? event.corrections : [],
+          provenance: event.provenance,
+        }
+        setCandidateProgress((progress) => progress && { ...progress, done: progress.done + 1 })
+      } else if (event.event === "candidate-error") {
+        lastError = event.message || event.error || "Failed to generate content"
+        setCandidateProgress((progress) => progress && { ...progress, done: progress.done + 1 })
+      } else if (event.event === "complete") {
+        if (isLocale(event.language)) language = event.language
+        runContextSources = Array.isArray(event.contextSources) ? event.contextSources : []
+      }
+    }
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split("\n")
+      buffer = lines.pop() || ""
+      lines.forEach(handleStreamLine)
+    }
+
+    if (buffer.trim()) {
+      handleStreamLine(buffer)
+    }
+
+    const generated = candidates.filter((candidate): candidate is GenerationCandidate => candidate !== null)
+    if (generated.length === 0) {
+      throw new Error(lastError || "No content was generated")
+    }
+
+    // A single surviving candidate has nothing to compare against, so it is kept directly
+    const run = { candidates: generated, language, contextSources: runContextSources, failed: candidateCount - generated.length }
+    setCandidateRun(run)
+    if (generated.length === 1) {
+      handleSelectCandidate(generated[0], run)
+    } else {
+      setShowCandidateModal(true)
+    }
+  }
+
+  function handleSelectCandidate(selection: GenerationCandidate, run = candidateRun) {
+    if (!run) return
+    setGeneratedContent(selection.content)
+    setRulesCorrections(selection.corrections)
+    setGenerationProvenance(selection.provenance)
+    setLanguageUsedForGeneration(run.language)
+    setContextSources(run.contextSources)
+    setSaveSuccess(false)
+    setSaveError(null)
+    setShowCandidateModal(false)
+    showGeneratedContent()
+  }
+
+  async function handleGenerateAdventure() {
+    if (!scenario.trim()) {
+      setError("Please describe what you want to generate")
+      return
+    }
+
+    setIsGeneratingAdventure(true)
+    setError(null)
+    setAdventureResult(null)
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      const accessToken = session?.access_token
+
+      if (!accessToken) {
+        throw new Error("Not authenticated. Please sign in again.")
+      }
+
+      const response = await fetch("/api/generate/adventure", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({
+          scenario: scenario.trim(),
+          language: outputLanguage,
+          ...(selectedCampaignId ? { campaignId: selectedCampaignId, addToCampaign: addAdventureToCampaign } : {}),
+          ...(advancedMode && { advancedInput: advancedMissionInput, generationParams }),
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: "Unknown error" }))
+        throw new Error(getQuotaErrorMessage(response.status, errorData) || errorData.error || "Failed to generate adventure")
+      }
+
+      const result = await response.json()
+      setAdventureResult({
+        title: result.data.mission.content_data.title,
+        locationCount: result.data.environments.length,
+        npcCount: result.data.characters.length,
+        campaignError: result.data.campaignError,
+      })
+    } catch (err) {
+      console.error("Adventure generation error:", err)
+      setError(err instanceof Error ? err.message : "Failed to generate adventure")
+    } finally {
+      setIsGeneratingAdventure(false)
+      setQuotaRefreshKey((key) => key + 1)
     }
   }
 
@@ -849,6 +1118,8 @@ export default function GeneratorPage() {
           type: contentType,
           scenario: scenarioToSave,
           contentData: generatedContent,
+          ...(languageUsedForGeneration ? { language: languageUsedForGeneration } : {}),
+          ...(generationProvenance ? { generation_metadata: generationProvenance } : {}),
         }),
       })
 
@@ -902,10 +1173,61 @@ export default function GeneratorPage() {
   const handleInsertToAdvanced = (field: "class" | "race" | "background", value: string) => {
     if (contentType === "character") setAdvancedCharacterInput((prev) => ({ ...prev, [field]: value }))
   }
+  const displayedContent = generatedContent ?? streamingContent
+  const isStreamingContent = !generatedContent && !!streamingContent
+
+  // Multiclass rows replace the single class/level fields; toggling converts between the two forms
+  const handleToggleMulticlass = (enabled: boolean) => {
+    setAdvancedFieldErrors({})
+    if (enabled) {
+      const { class: className, level, subclass, ...rest } = advancedCharacterInput
+      setAdvancedCharacterInput({
+        ...rest,
+        classes: [
+          { name: className ?? '', level: level ?? 1, subclass },
+          { name: '', level: 1 },
+        ],
+      })
+      return
+    }
+    const { classes, ...rest } = advancedCharacterInput
+    const totalLevel = (classes || []).reduce((sum, c) => sum + (c.level || 0), 0)
+    setAdvancedCharacterInput({
+      ...rest,
+      class: classes?.[0]?.name || undefined,
+      subclass: classes?.[0]?.subclass,
+      level: totalLevel > 0 ? Math.min(20, totalLevel) : undefined,
+    })
+  }
+
+  const handleUpdateMulticlassRow = (index: number, changes: Partial<CharacterClass>) => {
+    setAdvancedCharacterInput({
+      ...advancedCharacterInput,
+      classes: advancedCharacterInput.classes?.map((c, idx) => (idx === index ? { ...c, ...changes } : c)),
+    })
+  }
+
+  const handleAddMulticlassRow = () => {
+    setAdvancedCharacterInput({
+      ...advancedCharacterInput,
+      classes: [...(advancedCharacterInput.classes || []), { name: '', level: 1 }],
+    })
+  }
+
+  const handleRemoveMulticlassRow = (index: number) => {
+    setAdvancedCharacterInput({
+      ...advancedCharacterInput,
+      classes: advancedCharacterInput.classes?.filter((_, idx) => idx !== index),
+    })
+  }
+
   const handleResetAdvancedDefaults = () => {
     setAdvancedCharacterInput({})
     setAdvancedEnvironmentInput({})
     setAdvancedMissionInput({})
+    setAdvancedItemInput({})
+    setAdvancedMonsterInput({})
+    setAdvancedFactionInput({})
     setGenerationParams({ ...DEFAULT_GENERATION_PARAMS })
     setAdvancedFieldErrors({})
   }
@@ -995,7 +1317,7 @@ export default function GeneratorPage() {
                     <Label className="font-body text-sm font-semibold text-muted-foreground uppercase tracking-wider">
                       {t('generator.contentTypeLabel')}
                     </Label>
-                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
                       {[
                         {
                           value: "character" as ContentType,
@@ -1021,6 +1343,30 @@ export default function GeneratorPage() {
                           color: "from-red-500/20 to-orange-500/20",
                           borderColor: "border-red-500/50",
                         },
+                        {
+                          value: "item" as ContentType,
+                          icon: "💎",
+                          label: t('generator.contentType.item'),
+                          desc: t('generator.contentTypeDesc.item'),
+                          color: "from-amber-500/20 to-yellow-500/20",
+                          borderColor: "border-amber-500/50",
+                        },
+                        {
+                          value: "monster" as ContentType,
+                          icon: "🐉",
+                          label: t('generator.contentType.monster'),
+                          desc: t('generator.contentTypeDesc.monster'),
+                          color: "from-rose-500/20 to-red-500/20",
+                          borderColor: "border-rose-500/50",
+                        },
+                        {
+                          value: "faction" as ContentType,
+                          icon: "🏛️",
+                          label: t('generator.contentType.faction'),
+                          desc: t('generator.contentTypeDesc.faction'),
+                          color: "from-indigo-500/20 to-sky-500/20",
+                          borderColor: "border-indigo-500/50",
+                        },
                       ].map((type) => (
                         <button
                           key={type.value}
@@ -1124,7 +1470,13 @@ export default function GeneratorPage() {
                             ? t('generator.placeholderCharacter')
                             : contentType === "environment"
                               ? t('generator.placeholderEnvironment')
-                              : t('generator.placeholderMission')
+                              : contentType === "item"
+                                ? t('generator.placeholderItem')
+                                : contentType === "monster"
+                                  ? t('generator.placeholderMonster')
+                                  : contentType === "faction"
+                                    ? t('generator.placeholderFaction')
+                                    : t('generator.placeholderMission')
                         }
                         rows={8}
                         disabled={isGenerating}
@@ -1219,6 +1571,49 @@ export default function GeneratorPage() {
                     )}
                   </div>
 
+                  <div className="space-y-3">
+                    <Label htmlFor="output-language" className="font-body text-lg font-semibold">
+                      {t('generator.outputLanguageLabel')}
+                    </Label>
+                    <select
+                      id="output-language"
+                      value={outputLanguage}
+                      onChange={(event) => setOutputLanguage(event.target.value as Locale)}
+                      className="w-full rounded-lg border-2 border-primary/20 bg-background px-4 py-3 text-base font-body focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:border-primary shadow-sm"
+                    >
+                      {locales.map((code) => (
+                        <option key={code} value={code}>
+                          {localeNames[code]}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="text-sm text-muted-foreground font-body">
+                      {t('generator.outputLanguageHelp')}
+                    </p>
+                  </div>
+
+                  <div className="space-y-3">
+                    <Label htmlFor="candidate-count" className="font-body text-lg font-semibold">
+                      {t('generator.candidateCountLabel')}
+                    </Label>
+                    <select
+                      id="candidate-count"
+                      value={candidateCount}
+                      onChange={(event) => setCandidateCount(Number(event.target.value))}
+                      disabled={isGenerating}
+                      className="w-full rounded-lg border-2 border-primary/20 bg-background px-4 py-3 text-base font-body focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:border-primary shadow-sm"
+                    >
+                      {Array.from({ length: MAX_CANDIDATES }, (_, index) => index + 1).map((count) => (
+                        <option key={count} value={count}>
+                          {count === 1 ? t('generator.candidateCountSingle') : t('generator.candidateCountOption', { count })}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="text-sm text-muted-foreground font-body">
+                      {t('generator.candidateCountHelp')}
+                    </p>
+                  </div>
+
                   {/* Advanced Mode Fields */}
                   {advancedMode && (
                     <div className="space-y-6 pt-4 border-t border-primary/20">
@@ -1244,51 +1639,85 @@ export default function GeneratorPage() {
                           <div className="space-y-4 p-4 bg-gradient-to-r from-purple-500/10 to-blue-500/10 rounded-xl border-2 border-purple-500/30">
                             <h4 className="font-display text-lg font-semibold mb-3">{t('generator.advancedFields.character.title')}</h4>
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                              <AdvancedFormField
-                                htmlFor="char-level"
-                                label={t('generator.advancedFields.character.level')}
-                                help={t('generator.advancedFields.character.levelHelp')}
-                                error={advancedFieldErrors['level']}
-                              >
-                                <Input
-                                  id="char-level"
-                                  type="number"
-                                  min="1"
-                                  max="20"
-                                  value={advancedCharacterInput.level || ''}
-                                  onChange={(e) => setAdvancedCharacterInput({
-                                    ...advancedCharacterInput,
-                                    level: e.target.value ? parseInt(e.target.value) : undefined
-                                  })}
-                                  placeholder="1-20"
-                                  className="font-body"
-                                />
-                              </AdvancedFormField>
-                              <AdvancedFormField
-                                htmlFor="char-class"
-                                label={t('generator.advancedFields.character.class')}
-                                help={t('generator.advancedFields.character.classHelp')}
-                                error={advancedFieldErrors['class']}
-                              >
-                                <select
-                                  id="char-class"
-                                  value={advancedCharacterInput.class ?? ''}
-                                  onChange={(e) =>
-                                    setAdvancedCharacterInput({
-                                      ...advancedCharacterInput,
-                                      class: e.target.value || undefined,
-                                    })
-                                  }
-                                  className="w-full rounded-lg border-2 border-primary/20 bg-background px-3 py-2 font-body"
-                                >
-                                  <option value="">{t('common.select')}</option>
-                                  {DND_REFERENCE.classes.map((cls) => (
-                                    <option key={cls} value={cls}>
-                                      {t(`generator.dnd.classes.${cls}`)}
-                                    </option>
-                                  ))}
-                                </select>
-                              </AdvancedFormField>
+                              {!advancedCharacterInput.classes && (
+                                <>
+                                  <AdvancedFormField
+                                    htmlFor="char-level"
+                                    label={t('generator.advancedFields.character.level')}
+                                    help={t('generator.advancedFields.character.levelHelp')}
+                                    error={advancedFieldErrors['level']}
+                                  >
+                                    <Input
+                                      id="char-level"
+                                      type="number"
+                                      min="1"
+                                      max="20"
+                                      value={advancedCharacterInput.level || ''}
+                                      onChange={(e) => setAdvancedCharacterInput({
+                                        ...advancedCharacterInput,
+                                        level: e.target.value ? parseInt(e.target.value) : undefined
+                                      })}
+                                      placeholder="1-20"
+                                      className="font-body"
+                                    />
+                                  </AdvancedFormField>
+                                  <AdvancedFormField
+                                    htmlFor="char-class"
+                                    label={t('generator.advancedFields.character.class')}
+                                    help={t('generator.advancedFields.character.classHelp')}
+                                    error={advancedFieldErrors['class']}
+                                  >
+                                    <select
+                                      id="char-class"
+                                      value={advancedCharacterInput.class ?? ''}
+                                      onChange={(e) =>
+                                        setAdvancedCharacterInput({
+                                          ...advancedCharacterInput,
+                                          class: e.target.value || undefined,
+                                          // A subclass only carries over if it belongs to the new class
+                                          subclass: DND_REFERENCE.subclasses[e.target.value]?.includes(advancedCharacterInput.subclass ?? '')
+                                            ? advancedCharacterInput.subclass
+                                            : undefined,
+                                        })
+                                      }
+                                      className="w-full rounded-lg border-2 border-primary/20 bg-background px-3 py-2 font-body"
+                                    >
+                                      <option value="">{t('common.select')}</option>
+                                      {DND_REFERENCE.classes.map((cls) => (
+                                        <option key={cls} value={cls}>
+                                          {t(`generator.dnd.classes.${cls}`)}
+                                        </option>
+                                      ))}
+                                    </select>
+                                  </AdvancedFormField>
+                                  <AdvancedFormField
+                                    htmlFor="char-subclass"
+                                    label={t('generator.advancedFields.character.subclass')}
+                                    help={t('generator.advancedFields.character.subclassHelp')}
+                                    error={advancedFieldErrors['subclass']}
+                                  >
+                                    <select
+                                      id="char-subclass"
+                                      value={advancedCharacterInput.subclass ?? ''}
+                                      onChange={(e) =>
+                                        setAdvancedCharacterInput({
+                                          ...advancedCharacterInput,
+                                          subclass: e.target.value || undefined,
+                                        })
+                                      }
+                                      disabled={!advancedCharacterInput.class}
+                                      className="w-full rounded-lg border-2 border-primary/20 bg-background px-3 py-2 font-body disabled:opacity-50"
+                                    >
+                                      <option value="">{t('common.select')}</option>
+                                      {(DND_REFERENCE.subclasses[advancedCharacterInput.class ?? ''] ?? []).map((subclass) => (
+                                        <option key={subclass} value={subclass}>
+                                          {t(`generator.dnd.subclasses.${subclass}`)}
+                                        </option>
+                                      ))}
+                                    </select>
+                                  </AdvancedFormField>
+                                </>
+                              )}
                               <AdvancedFormField
                                 htmlFor="char-race"
                                 label={t('generator.advancedFields.character.race')}
@@ -1339,6 +1768,172 @@ export default function GeneratorPage() {
                                   ))}
                                 </select>
                               </AdvancedFormField>
+                              <AdvancedFormField
+                                htmlFor="char-alignment"
+                                label={t('generator.advancedFields.character.alignment')}
+                                help={t('generator.advancedFields.character.alignmentHelp')}
+                                error={advancedFieldErrors['alignment']}
+                              >
+                                <select
+                                  id="char-alignment"
+                                  value={advancedCharacterInput.alignment ?? ''}
+                                  onChange={(e) =>
+                                    setAdvancedCharacterInput({
+                                      ...advancedCharacterInput,
+                                      alignment: e.target.value || undefined,
+                                    })
+                                  }
+                                  className="w-full rounded-lg border-2 border-primary/20 bg-background px-3 py-2 font-body"
+                                >
+                                  <option value="">{t('common.select')}</option>
+                                  {DND_REFERENCE.alignments.map((alignment) => (
+                                    <option key={alignment} value={alignment}>
+                                      {t(`generator.dnd.alignments.${alignment}`)}
+                                    </option>
+                                  ))}
+                                </select>
+                              </AdvancedFormField>
+                              <AdvancedFormField
+                                htmlFor="char-ideal"
+                                label={t('generator.advancedFields.character.ideal')}
+                                help={t('generator.advancedFields.character.idealHelp')}
+                                error={advancedFieldErrors['ideal']}
+                              >
+                                <Input
+                                  id="char-ideal"
+                                  value={advancedCharacterInput.ideal ?? ''}
+                                  onChange={(e) => setAdvancedCharacterInput({
+                                    ...advancedCharacterInput,
+                                    ideal: e.target.value || undefined
+                                  })}
+                                  maxLength={200}
+                                  placeholder={t('generator.advancedFields.character.idealPlaceholder')}
+                                  className="font-body"
+                                />
+                              </AdvancedFormField>
+                              <AdvancedFormField
+                                htmlFor="char-bond"
+                                label={t('generator.advancedFields.character.bond')}
+                                help={t('generator.advancedFields.character.bondHelp')}
+                                error={advancedFieldErrors['bond']}
+                              >
+                                <Input
+                                  id="char-bond"
+                                  value={advancedCharacterInput.bond ?? ''}
+                                  onChange={(e) => setAdvancedCharacterInput({
+                                    ...advancedCharacterInput,
+                                    bond: e.target.value || undefined
+                                  })}
+                                  maxLength={200}
+                                  placeholder={t('generator.advancedFields.character.bondPlaceholder')}
+                                  className="font-body"
+                                />
+                              </AdvancedFormField>
+                              <AdvancedFormField
+                                htmlFor="char-flaw"
+                                label={t('generator.advancedFields.character.flaw')}
+                                help={t('generator.advancedFields.character.flawHelp')}
+                                error={advancedFieldErrors['flaw']}
+                              >
+                                <Input
+                                  id="char-flaw"
+                                  value={advancedCharacterInput.flaw ?? ''}
+                                  onChange={(e) => setAdvancedCharacterInput({
+                                    ...advancedCharacterInput,
+                                    flaw: e.target.value || undefined
+                                  })}
+                                  maxLength={200}
+                                  placeholder={t('generator.advancedFields.character.flawPlaceholder')}
+                                  className="font-body"
+                                />
+                              </AdvancedFormField>
+                              <AdvancedFormField
+                                label={t('generator.advancedFields.character.multiclass')}
+                                help={t('generator.advancedFields.character.multiclassHelp')}
+                                error={advancedFieldErrors['classes']}
+                                wrapperClassName="md:col-span-2"
+                              >
+                                <div className="space-y-3">
+                                  <label className="flex items-center gap-2 cursor-pointer">
+                                    <input
+                                      type="checkbox"
+                                      checked={!!advancedCharacterInput.classes}
+                                      onChange={(e) => handleToggleMulticlass(e.target.checked)}
+                                      className="rounded"
+                                    />
+                                    <span className="text-sm font-body">{t('generator.advancedFields.character.multiclassEnable')}</span>
+                                  </label>
+                                  {advancedCharacterInput.classes?.map((entry, idx) => (
+                                    <div key={idx} className="grid grid-cols-1 sm:grid-cols-[1fr_5rem_1fr_auto] gap-2 items-center">
+                                      <select
+                                        aria-label={t('generator.advancedFields.character.class')}
+                                        value={entry.name}
+                                        onChange={(e) => handleUpdateMulticlassRow(idx, { name: e.target.value, subclass: undefined })}
+                                        className="w-full rounded-lg border-2 border-primary/20 bg-background px-3 py-2 font-body"
+                                      >
+                                        <option value="">{t('common.select')}</option>
+                                        {DND_REFERENCE.classes.map((cls) => (
+                                          <option key={cls} value={cls}>
+                                            {t(`generator.dnd.classes.${cls}`)}
+                                          </option>
+                                        ))}
+                                      </select>
+                                      <Input
+                                        type="number"
+                                        min="1"
+                                        max="20"
+                                        aria-label={t('generator.advancedFields.character.classLevel')}
+                                        value={entry.level || ''}
+                                        onChange={(e) => handleUpdateMulticlassRow(idx, { level: e.target.value ? parseInt(e.target.value) : 0 })}
+                                        className="font-body"
+                                      />
+                                      <select
+                                        aria-label={t('generator.advancedFields.character.subclass')}
+                                        value={entry.subclass ?? ''}
+                                        onChange={(e) => handleUpdateMulticlassRow(idx, { subclass: e.target.value || undefined })}
+                                        disabled={!entry.name}
+                                        className="w-full rounded-lg border-2 border-primary/20 bg-background px-3 py-2 font-body disabled:opacity-50"
+                                      >
+                                        <option value="">{t('generator.advancedFields.character.subclassPlaceholder')}</option>
+                                        {(DND_REFERENCE.subclasses[entry.name] ?? []).map((subclass) => (
+                                          <option key={subclass} value={subclass}>
+                                            {t(`generator.dnd.subclasses.${subclass}`)}
+                                          </option>
+                                        ))}
+                                      </select>
+                                      <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => handleRemoveMulticlassRow(idx)}
+                                        disabled={advancedCharacterInput.classes!.length <= 2}
+                                        title={t('generator.advancedFields.character.removeClass')}
+                                      >
+                                        ✕
+                                      </Button>
+                                    </div>
+                                  ))}
+                                  {advancedCharacterInput.classes && (
+                                    <div className="flex items-center justify-between gap-3">
+                                      <Button
+                                        type="button"
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={handleAddMulticlassRow}
+                                        disabled={advancedCharacterInput.classes.length >= 4}
+                                        className="font-body"
+                                      >
+                                        + {t('generator.advancedFields.character.addClass')}
+                                      </Button>
+                                      <span className="text-xs font-body text-muted-foreground">
+                                        {t('generator.advancedFields.character.totalLevel', {
+                                          level: advancedCharacterInput.classes.reduce((sum, c) => sum + (c.level || 0), 0),
+                                        })}
+                                      </span>
+                                    </div>
+                                  )}
+                                </div>
+                              </AdvancedFormField>
 
                             </div>
                           </div>
@@ -1538,24 +2133,195 @@ export default function GeneratorPage() {
                           </div>
                         )}
 
-                        {/* Generation Parameters (temperature, tone, complexity) */}
-                        <div className="space-y-4 p-4 bg-gradient-to-r from-amber-500/10 to-yellow-500/10 rounded-xl border-2 border-amber-500/30">
-                          <h4 className="font-display text-lg font-semibold mb-3">{t('generator.advancedFields.generation.title')}</h4>
-                          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                            <div className="space-y-2">
-                              <Label htmlFor="gen-temperature" className="font-body text-sm font-semibold">
-                                {t('generator.advancedFields.generation.temperature')}
-                              </Label>
-                              <div className="flex items-center gap-2">
-                                <span className="text-xs text-muted-foreground">{t('generator.advancedFields.generation.temperatureLow')}</span>
-                                <input
-                                  id="gen-temperature"
-                                  type="range"
-                                  min="0.1"
-                                  max="1.5"
-                                  step="0.1"
-                                  value={generationParams.temperature ?? 0.8}
-                                  onChange={(e) => setGenerationParams({
+                        {/* Item Advanced Fields */}
+                        {contentType === 'item' && (
+                          <div className="space-y-4 p-4 bg-gradient-to-r from-amber-500/10 to-yellow-500/10 rounded-xl border-2 border-amber-500/30">
+                            <h4 className="font-display text-lg font-semibold mb-3">{t('generator.advancedFields.item.title')}</h4>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                              <AdvancedFormField
+                                htmlFor="item-rarity"
+                                label={t('generator.advancedFields.item.rarity')}
+                                help={t('generator.advancedFields.item.rarityHelp')}
+                                error={advancedFieldErrors['rarity']}
+                              >
+                                <select
+                                  id="item-rarity"
+                                  value={advancedItemInput.rarity || ''}
+                                  onChange={(e) => setAdvancedItemInput({
+                                    ...advancedItemInput,
+                                    rarity: e.target.value ? e.target.value as AdvancedItemInput['rarity'] : undefined
+                                  })}
+                                  className="w-full px-3 py-2 rounded-lg border-2 border-primary/20 bg-background font-body"
+                                >
+                                  <option value="">{t('generator.advancedFields.item.rarityHelp')}</option>
+                                  {DND_REFERENCE.itemRarities.map((rarity) => (
+                                    <option key={rarity} value={rarity}>{t(`rpg.item.rarities.${rarity}`)}</option>
+                                  ))}
+                                </select>
+                              </AdvancedFormField>
+                              <AdvancedFormField
+                                htmlFor="item-attunement"
+                                label={t('generator.advancedFields.item.attunement')}
+                                help={t('generator.advancedFields.item.attunementHelp')}
+                                error={advancedFieldErrors['requiresAttunement']}
+                              >
+                                <select
+                                  id="item-attunement"
+                                  value={advancedItemInput.requiresAttunement === undefined ? '' : String(advancedItemInput.requiresAttunement)}
+                                  onChange={(e) => setAdvancedItemInput({
+                                    ...advancedItemInput,
+                                    requiresAttunement: e.target.value ? e.target.value === 'true' : undefined
+                                  })}
+                                  className="w-full px-3 py-2 rounded-lg border-2 border-primary/20 bg-background font-body"
+                                >
+                                  <option value="">{t('generator.advancedFields.item.attunementAny')}</option>
+                                  <option value="true">{t('generator.advancedFields.item.attunementRequired')}</option>
+                                  <option value="false">{t('generator.advancedFields.item.attunementNone')}</option>
+                                </select>
+                              </AdvancedFormField>
+                            </div>
+                          </div>
+                        )}
+
+                        {/* Monster Advanced Fields */}
+                        {contentType === 'monster' && (
+                          <div className="space-y-4 p-4 bg-gradient-to-r from-rose-500/10 to-red-500/10 rounded-xl border-2 border-rose-500/30">
+                            <h4 className="font-display text-lg font-semibold mb-3">{t('generator.advancedFields.monster.title')}</h4>
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                              <AdvancedFormField
+                                htmlFor="monster-cr"
+                                label={t('generator.advancedFields.monster.challengeRating')}
+                                help={t('generator.advancedFields.monster.challengeRatingHelp')}
+                                error={advancedFieldErrors['challengeRating']}
+                              >
+                                <select
+                                  id="monster-cr"
+                                  value={advancedMonsterInput.challengeRating || ''}
+                                  onChange={(e) => setAdvancedMonsterInput({
+                                    ...advancedMonsterInput,
+                                    challengeRating: e.target.value || undefined
+                                  })}
+                                  className="w-full px-3 py-2 rounded-lg border-2 border-primary/20 bg-background font-body"
+                                >
+                                  <option value="">{t('generator.advancedFields.monster.challengeRatingHelp')}</option>
+                                  {DND_REFERENCE.challengeRatings.map((cr) => (
+                                    <option key={cr} value={cr}>{t('rpg.monster.challengeShort', { cr })}</option>
+                                  ))}
+                                </select>
+                              </AdvancedFormField>
+                              <AdvancedFormField
+                                htmlFor="monster-size"
+                                label={t('generator.advancedFields.monster.size')}
+                                help={t('generator.advancedFields.monster.sizeHelp')}
+                                error={advancedFieldErrors['size']}
+                              >
+                                <select
+                                  id="monster-size"
+                                  value={advancedMonsterInput.size || ''}
+                                  onChange={(e) => setAdvancedMonsterInput({
+                                    ...advancedMonsterInput,
+                                    size: e.target.value ? e.target.value as AdvancedMonsterInput['size'] : undefined
+                                  })}
+                                  className="w-full px-3 py-2 rounded-lg border-2 border-primary/20 bg-background font-body"
+                                >
+                                  <option value="">{t('generator.advancedFields.monster.sizeHelp')}</option>
+                                  {DND_REFERENCE.creatureSizes.map((size) => (
+                                    <option key={size} value={size}>{t(`rpg.monster.sizes.${size}`)}</option>
+                                  ))}
+                                </select>
+                              </AdvancedFormField>
+                              <AdvancedFormField
+                                htmlFor="monster-legendary"
+                                label={t('generator.advancedFields.monster.legendary')}
+                                help={t('generator.advancedFields.monster.legendaryHelp')}
+                                error={advancedFieldErrors['legendary']}
+                              >
+                                <select
+                                  id="monster-legendary"
+                                  value={advancedMonsterInput.legendary === undefined ? '' : String(advancedMonsterInput.legendary)}
+                                  onChange={(e) => setAdvancedMonsterInput({
+                                    ...advancedMonsterInput,
+                                    legendary: e.target.value ? e.target.value === 'true' : undefined
+                                  })}
+                                  className="w-full px-3 py-2 rounded-lg border-2 border-primary/20 bg-background font-body"
+                                >
+                                  <option value="">{t('generator.advancedFields.monster.legendaryAny')}</option>
+                                  <option value="true">{t('generator.advancedFields.monster.legendaryYes')}</option>
+                                  <option value="false">{t('generator.advancedFields.monster.legendaryNo')}</option>
+                                </select>
+                              </AdvancedFormField>
+                            </div>
+                          </div>
+                        )}
+
+                        {/* Faction Advanced Fields */}
+                        {contentType === 'faction' && (
+                          <div className="space-y-4 p-4 bg-gradient-to-r from-indigo-500/10 to-sky-500/10 rounded-xl border-2 border-indigo-500/30">
+                            <h4 className="font-display text-lg font-semibold mb-3">{t('generator.advancedFields.faction.title')}</h4>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                              <AdvancedFormField
+                                htmlFor="faction-influence"
+                                label={t('generator.advancedFields.faction.influence')}
+                                help={t('generator.advancedFields.faction.influenceHelp')}
+                                error={advancedFieldErrors['influence']}
+                              >
+                                <select
+                                  id="faction-influence"
+                                  value={advancedFactionInput.influence || ''}
+                                  onChange={(e) => setAdvancedFactionInput({
+                                    ...advancedFactionInput,
+                                    influence: e.target.value ? e.target.value as AdvancedFactionInput['influence'] : undefined
+                                  })}
+                                  className="w-full px-3 py-2 rounded-lg border-2 border-primary/20 bg-background font-body"
+                                >
+                                  <option value="">{t('generator.advancedFields.faction.influenceHelp')}</option>
+                                  {DND_REFERENCE.factionInfluences.map((influence) => (
+                                    <option key={influence} value={influence}>{t(`rpg.faction.influences.${influence}`)}</option>
+                                  ))}
+                                </select>
+                              </AdvancedFormField>
+                              <AdvancedFormField
+                                htmlFor="faction-leaders"
+                                label={t('generator.advancedFields.faction.leaderCount')}
+                                help={t('generator.advancedFields.faction.leaderCountHelp')}
+                                error={advancedFieldErrors['leaderCount']}
+                              >
+                                <Input
+                                  id="faction-leaders"
+                                  type="number"
+                                  min="1"
+                                  max="5"
+                                  value={advancedFactionInput.leaderCount || ''}
+                                  onChange={(e) => setAdvancedFactionInput({
+                                    ...advancedFactionInput,
+                                    leaderCount: e.target.value ? parseInt(e.target.value) : undefined
+                                  })}
+                                  placeholder="1-5"
+                                  className="font-body"
+                                />
+                              </AdvancedFormField>
+                            </div>
+                          </div>
+                        )}
+
+                        {/* Generation Parameters (temperature, tone, complexity) */}
+                        <div className="space-y-4 p-4 bg-gradient-to-r from-amber-500/10 to-yellow-500/10 rounded-xl border-2 border-amber-500/30">
+                          <h4 className="font-display text-lg font-semibold mb-3">{t('generator.advancedFields.generation.title')}</h4>
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div className="space-y-2">
+                              <Label htmlFor="gen-temperature" className="font-body text-sm font-semibold">
+                                {t('generator.advancedFields.generation.temperature')}
+                              </Label>
+                              <div className="flex items-center gap-2">
+                                <span className="text-xs text-muted-foreground">{t('generator.advancedFields.generation.temperatureLow')}</span>
+                                <input
+                                  id="gen-temperature"
+                                  type="range"
+                                  min="0.1"
+                                  max="1.5"
+                                  step="0.1"
+                                  value={generationParams.temperature ?? 0.8}
+                                  onChange={(e) => setGenerationParams({
                                     ...generationParams,
                                     temperature: parseFloat(e.target.value),
                                   })}
@@ -1616,17 +2382,94 @@ export default function GeneratorPage() {
                     </div>
                   )}
 
-                  <div className="flex justify-end gap-4 pt-2">
+                  {contentType === "mission" && adventureResult && (
+                    <Alert className="animate-in fade-in slide-in-from-top-2">
+                      <AlertDescription className="font-body space-y-2">
+                        <p>
+                          {t('generator.adventureSaved', {
+                            title: adventureResult.title,
+                            locations: adventureResult.locationCount,
+                            npcs: adventureResult.npcCount,
+                          })}
+                        </p>
+                        {adventureResult.campaignError && (
+                          <p className="text-destructive">{t('generator.adventureCampaignError')}</p>
+                        )}
+                        <Button variant="outline" size="sm" className="font-body" onClick={() => router.push("/library")}>
+                          📚 {t('generator.adventureOpenLibrary')}
+                        </Button>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  <div className="flex flex-wrap items-center justify-end gap-4 pt-2">
+                    <GenerationQuota refreshKey={quotaRefreshKey} className="mr-auto" />
+                    {candidateRun && candidateRun.candidates.length > 1 && (
+                      <>
+                        {candidateRun.failed > 0 && (
+                          <span className="text-sm text-muted-foreground font-body">
+                            {t('generator.candidatesFailed', { failed: candidateRun.failed })}
+                          </span>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="lg"
+                          onClick={() => setShowCandidateModal(true)}
+                          disabled={isGenerating}
+                          className="font-display text-lg px-6 py-6"
+                        >
+                          <span className="mr-2 text-xl">🔀</span>
+                          {t('generator.compareCandidates', { count: candidateRun.candidates.length })}
+                        </Button>
+                      </>
+                    )}
+                    {contentType === "mission" && (
+                      <>
+                        {selectedCampaignId && (
+                          <label className="flex items-center gap-2 text-sm font-body text-muted-foreground">
+                            <input
+                              type="checkbox"
+                              checked={addAdventureToCampaign}
+                              onChange={(e) => setAddAdventureToCampaign(e.target.checked)}
+                              disabled={isGeneratingAdventure}
+                            />
+                            {t('generator.adventureAddToCampaign')}
+                          </label>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="lg"
+                          onClick={handleGenerateAdventure}
+                          disabled={isGenerating || isGeneratingAdventure || !scenario.trim()}
+                          className="font-display text-lg px-6 py-6"
+                          title={t('generator.generateAdventureHelp')}
+                        >
+                          {isGeneratingAdventure ? (
+                            <>
+                              <span className="mr-2 text-xl animate-spin">⚡</span>
+                              {t('generator.generatingAdventure')}
+                            </>
+                          ) : (
+                            <>
+                              <span className="mr-2 text-xl">🗺️</span>
+                              {t('generator.generateAdventure')}
+                            </>
+                          )}
+                        </Button>
+                      </>
+                    )}
                     <Button
                       onClick={handleGenerate}
-                      disabled={isGenerating || !scenario.trim()}
+                      disabled={isGenerating || isGeneratingAdventure || !scenario.trim()}
                       size="lg"
                       className="min-w-[200px] font-display text-lg px-8 py-6 bg-gradient-to-r from-primary to-primary/80 hover:from-primary/90 hover:to-primary/70 shadow-lg hover:shadow-xl transition-all transform hover:scale-105 disabled:transform-none disabled:opacity-50"
                     >
                       {isGenerating ? (
                         <>
                           <span className="mr-2 text-xl animate-spin">⚡</span>
-                          {t('generator.generating')}
+                          {candidateProgress
+                            ? t('generator.generatingCandidates', candidateProgress)
+                            : t('generator.generating')}
                         </>
                       ) : (
                         <>
@@ -1759,6 +2602,108 @@ export default function GeneratorPage() {
                         </button>
                       </>
                     )}
+                    {contentType === "item" && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setScenario(t('generator.examples.item.example1.scenario'))
+                          }}
+                          className="text-left text-primary hover:underline w-full text-base transition-colors"
+                          disabled={isGenerating}
+                        >
+                          &quot;{t('generator.examples.item.example1.text')}&quot;
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setScenario(t('generator.examples.item.example2.scenario'))
+                          }}
+                          className="text-left text-primary hover:underline w-full text-base transition-colors"
+                          disabled={isGenerating}
+                        >
+                          &quot;{t('generator.examples.item.example2.text')}&quot;
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setScenario(t('generator.examples.item.example3.scenario'))
+                          }}
+                          className="text-left text-primary hover:underline w-full text-base transition-colors"
+                          disabled={isGenerating}
+                        >
+                          &quot;{t('generator.examples.item.example3.text')}&quot;
+                        </button>
+                      </>
+                    )}
+                    {contentType === "monster" && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setScenario(t('generator.examples.monster.example1.scenario'))
+                          }}
+                          className="text-left text-primary hover:underline w-full text-base transition-colors"
+                          disabled={isGenerating}
+                        >
+                          &quot;{t('generator.examples.monster.example1.text')}&quot;
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setScenario(t('generator.examples.monster.example2.scenario'))
+                          }}
+                          className="text-left text-primary hover:underline w-full text-base transition-colors"
+                          disabled={isGenerating}
+                        >
+                          &quot;{t('generator.examples.monster.example2.text')}&quot;
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setScenario(t('generator.examples.monster.example3.scenario'))
+                          }}
+                          className="text-left text-primary hover:underline w-full text-base transition-colors"
+                          disabled={isGenerating}
+                        >
+                          &quot;{t('generator.examples.monster.example3.text')}&quot;
+                        </button>
+                      </>
+                    )}
+                    {contentType === "faction" && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setScenario(t('generator.examples.faction.example1.scenario'))
+                          }}
+                          className="text-left text-primary hover:underline w-full text-base transition-colors"
+                          disabled={isGenerating}
+                        >
+                          &quot;{t('generator.examples.faction.example1.text')}&quot;
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setScenario(t('generator.examples.faction.example2.scenario'))
+                          }}
+                          className="text-left text-primary hover:underline w-full text-base transition-colors"
+                          disabled={isGenerating}
+                        >
+                          &quot;{t('generator.examples.faction.example2.text')}&quot;
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setScenario(t('generator.examples.faction.example3.scenario'))
+                          }}
+                          className="text-left text-primary hover:underline w-full text-base transition-colors"
+                          disabled={isGenerating}
+                        >
+                          &quot;{t('generator.examples.faction.example3.text')}&quot;
+                        </button>
+                      </>
+                    )}
                   </CardContent>
                 </Card>
               </div>
@@ -1779,7 +2724,7 @@ export default function GeneratorPage() {
         })()}
 
 
-        {isGenerating && !generatedContent && (
+        {isGenerating && !displayedContent && (
           <Card className="parchment ornate-border animate-in fade-in border-2 border-primary/30">
             <CardContent className="p-12 text-center">
               <div className="space-y-6">
@@ -1806,12 +2751,12 @@ export default function GeneratorPage() {
           </Card>
         )}
 
-        {generatedContent && (
+        {displayedContent && (
           <div ref={generatedContentRef} className="space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-500 scroll-mt-8">
             <div className="flex items-center justify-between gap-4">
               <Button
                 onClick={handleSaveContent}
-                disabled={isSaving || !generatedContent}
+                disabled={isSaving || !generatedContent || isStreamingContent}
                 size="lg"
                 className="font-display text-lg min-w-[180px]"
               >
@@ -1827,6 +2772,12 @@ export default function GeneratorPage() {
                   </>
                 )}
               </Button>
+              {isStreamingContent && (
+                <span className="flex items-center gap-2 text-sm text-muted-foreground font-body animate-pulse">
+                  <span>⚡</span>
+                  {t('generator.generating')}
+                </span>
+              )}
               {saveError && (
                 <Alert variant="destructive" className="flex-1 animate-in fade-in slide-in-from-top-2">
                   <AlertDescription className="font-body">
@@ -1836,14 +2787,54 @@ export default function GeneratorPage() {
               )}
             </div>
 
-            {contentType === "character" && "name" in generatedContent && "race" in generatedContent && (
+            {contextSources.length > 0 && !isStreamingContent && (
+              <Alert className="border-sky-500/40 bg-sky-500/5 animate-in fade-in slide-in-from-top-2">
+                <AlertDescription className="font-body">
+                  <details>
+                    <summary className="cursor-pointer font-semibold">
+                      🗺️ {t('generator.contextSources', { count: contextSources.length })}
+                    </summary>
+                    <p className="mt-2 text-xs text-muted-foreground">{t('generator.contextSourcesHelp')}</p>
+                    <ul className="mt-2 space-y-1 text-sm list-disc pl-5">
+                      {contextSources.map((source) => (
+                        <li key={`${source.kind}-${source.id}`}>
+                          <span className="text-muted-foreground">
+                            {source.kind === "session" ? t('generator.contextSourceSession') : t(`generator.contentType.${source.type}`)}:
+                          </span>{" "}
+                          {source.title}
+                          {source.score === 0 && <span className="text-xs text-muted-foreground"> ({t('generator.contextSourceUnranked')})</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {generatedContent && !isStreamingContent && (
+              <div className="space-y-1">
+                <Label htmlFor="regeneration-instructions" className="font-body text-sm">{t('generator.regenerationGuidance')}</Label>
+                <Input
+                  id="regeneration-instructions"
+                  value={regenerationInstructions}
+                  onChange={(e) => setRegenerationInstructions(e.target.value)}
+                  placeholder={t('generator.regenerationGuidancePlaceholder')}
+                  maxLength={500}
+                  disabled={!!regeneratingSection}
+                  className="font-body"
+                />
+                <p className="text-xs text-muted-foreground font-body">{t('generator.regenerationGuidanceHelp')}</p>
+              </div>
+            )}
+
+            {contentType === "character" && "name" in displayedContent && "race" in displayedContent && (
               <>
                 <div className="mb-4 flex flex-wrap gap-2">
                   <Button
                     variant="outline"
                     size="sm"
                     onClick={() => handleRegenerateSection("spells")}
-                    disabled={!!regeneratingSection}
+                    disabled={!!regeneratingSection || isStreamingContent}
                     className="font-body"
                   >
                     {regeneratingSection === "spells" ? "⏳" : "🔄"} {t('generator.regenerateSpells')}
@@ -1852,7 +2843,7 @@ export default function GeneratorPage() {
                     variant="outline"
                     size="sm"
                     onClick={() => handleRegenerateSection("traits")}
-                    disabled={!!regeneratingSection}
+                    disabled={!!regeneratingSection || isStreamingContent}
                     className="font-body"
                   >
                     {regeneratingSection === "traits" ? "⏳" : "🔄"} {t('generator.regenerateTraits')}
@@ -1861,23 +2852,79 @@ export default function GeneratorPage() {
                     variant="outline"
                     size="sm"
                     onClick={() => handleRegenerateSection("classFeatures")}
-                    disabled={!!regeneratingSection}
+                    disabled={!!regeneratingSection || isStreamingContent}
                     className="font-body"
                   >
                     {regeneratingSection === "classFeatures" ? "⏳" : "🔄"} {t('generator.regenerateClassFeatures')}
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRegenerateSection("equipment")}
+                    disabled={!!regeneratingSection || isStreamingContent}
+                    className="font-body"
+                  >
+                    {regeneratingSection === "equipment" ? "⏳" : "🔄"} {t('generator.regenerateEquipment')}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRegenerateSection("ideals")}
+                    disabled={!!regeneratingSection || isStreamingContent}
+                    className="font-body"
+                  >
+                    {regeneratingSection === "ideals" ? "⏳" : "🔄"} {t('generator.regenerateIdeals')}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRegenerateSection("bonds")}
+                    disabled={!!regeneratingSection || isStreamingContent}
+                    className="font-body"
+                  >
+                    {regeneratingSection === "bonds" ? "⏳" : "🔄"} {t('generator.regenerateBonds')}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRegenerateSection("flaws")}
+                    disabled={!!regeneratingSection || isStreamingContent}
+                    className="font-body"
+                  >
+                    {regeneratingSection === "flaws" ? "⏳" : "🔄"} {t('generator.regenerateFlaws')}
+                  </Button>
                 </div>
-                <CharacterCard character={generatedContent as Character} isLoading={regeneratingSection !== null} />
+                {rulesCorrections.length > 0 && !isStreamingContent && (
+                  <Alert className="mb-4 border-amber-500/40 bg-amber-500/5 animate-in fade-in slide-in-from-top-2">
+                    <AlertDescription className="font-body">
+                      <details>
+                        <summary className="cursor-pointer font-semibold">
+                          📏 {t('generator.rulesCorrections', { count: rulesCorrections.length })}
+                        </summary>
+                        <p className="mt-2 text-xs text-muted-foreground">{t('generator.rulesCorrectionsHelp')}</p>
+                        <ul className="mt-2 space-y-1 text-sm list-disc pl-5">
+                          {rulesCorrections.map((correction, idx) => (
+                            <li key={idx}>
+                              {correction.flagged && <span title={t('generator.rulesCorrectionFlagged')}>⚠️ </span>}
+                              {correction.message}
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    </AlertDescription>
+                  </Alert>
+                )}
+                <CharacterCard character={displayedContent as Character} isLoading={regeneratingSection !== null} />
               </>
             )}
-            {contentType === "environment" && "name" in generatedContent && "description" in generatedContent && !("race" in generatedContent) && !("title" in generatedContent) && (
+            {contentType === "environment" && "name" in displayedContent && "description" in displayedContent && !("race" in displayedContent) && !("title" in displayedContent) && (
               <>
                 <div className="mb-4 flex flex-wrap gap-2">
                   <Button
                     variant="outline"
                     size="sm"
                     onClick={() => handleRegenerateSection("npcs")}
-                    disabled={!!regeneratingSection}
+                    disabled={!!regeneratingSection || isStreamingContent}
                     className="font-body"
                   >
                     {regeneratingSection === "npcs" ? "⏳" : "🔄"} {t('generator.regenerateNPCs')}
@@ -1886,7 +2933,7 @@ export default function GeneratorPage() {
                     variant="outline"
                     size="sm"
                     onClick={() => handleRegenerateSection("features")}
-                    disabled={!!regeneratingSection}
+                    disabled={!!regeneratingSection || isStreamingContent}
                     className="font-body"
                   >
                     {regeneratingSection === "features" ? "⏳" : "🔄"} {t('generator.regenerateFeatures')}
@@ -1895,23 +2942,23 @@ export default function GeneratorPage() {
                     variant="outline"
                     size="sm"
                     onClick={() => handleRegenerateSection("adventureHooks")}
-                    disabled={!!regeneratingSection}
+                    disabled={!!regeneratingSection || isStreamingContent}
                     className="font-body"
                   >
                     {regeneratingSection === "adventureHooks" ? "⏳" : "🔄"} {t('generator.regenerateHooks')}
                   </Button>
                 </div>
-                <EnvironmentCard environment={generatedContent as Environment} isLoading={regeneratingSection !== null} />
+                <EnvironmentCard environment={displayedContent as Environment} isLoading={regeneratingSection !== null} />
               </>
             )}
-            {contentType === "mission" && "title" in generatedContent && "description" in generatedContent && (
+            {contentType === "mission" && "title" in displayedContent && "description" in displayedContent && (
               <>
                 <div className="mb-4 flex flex-wrap gap-2">
                   <Button
                     variant="outline"
                     size="sm"
                     onClick={() => handleRegenerateSection("objectives")}
-                    disabled={!!regeneratingSection}
+                    disabled={!!regeneratingSection || isStreamingContent}
                     className="font-body"
                   >
                     {regeneratingSection === "objectives" ? "⏳" : "🔄"} {t('generator.regenerateObjectives')}
@@ -1920,7 +2967,7 @@ export default function GeneratorPage() {
                     variant="outline"
                     size="sm"
                     onClick={() => handleRegenerateSection("rewards")}
-                    disabled={!!regeneratingSection}
+                    disabled={!!regeneratingSection || isStreamingContent}
                     className="font-body"
                   >
                     {regeneratingSection === "rewards" ? "⏳" : "🔄"} {t('generator.regenerateRewards')}
@@ -1929,19 +2976,132 @@ export default function GeneratorPage() {
                     variant="outline"
                     size="sm"
                     onClick={() => handleRegenerateSection("relatedNPCs")}
-                    disabled={!!regeneratingSection}
+                    disabled={!!regeneratingSection || isStreamingContent}
                     className="font-body"
                   >
                     {regeneratingSection === "relatedNPCs" ? "⏳" : "🔄"} {t('generator.regenerateNPCs')}
                   </Button>
                 </div>
-                <MissionCard mission={generatedContent as Mission} isLoading={regeneratingSection !== null} />
+                <MissionCard mission={displayedContent as Mission} isLoading={regeneratingSection !== null} />
+              </>
+            )}
+            {contentType === "item" && "rarity" in displayedContent && "description" in displayedContent && (
+              <>
+                <div className="mb-4 flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRegenerateSection("properties")}
+                    disabled={!!regeneratingSection || isStreamingContent}
+                    className="font-body"
+                  >
+                    {regeneratingSection === "properties" ? "⏳" : "🔄"} {t('generator.regenerateProperties')}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRegenerateSection("charges")}
+                    disabled={!!regeneratingSection || isStreamingContent}
+                    className="font-body"
+                  >
+                    {regeneratingSection === "charges" ? "⏳" : "🔄"} {t('generator.regenerateCharges')}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRegenerateSection("lore")}
+                    disabled={!!regeneratingSection || isStreamingContent}
+                    className="font-body"
+                  >
+                    {regeneratingSection === "lore" ? "⏳" : "🔄"} {t('generator.regenerateLore')}
+                  </Button>
+                </div>
+                <ItemCard item={displayedContent as MagicItem} isLoading={regeneratingSection !== null} />
+              </>
+            )}
+            {contentType === "monster" && "challengeRating" in displayedContent && "actions" in displayedContent && (
+              <>
+                <div className="mb-4 flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRegenerateSection("actions")}
+                    disabled={!!regeneratingSection || isStreamingContent}
+                    className="font-body"
+                  >
+                    {regeneratingSection === "actions" ? "⏳" : "🔄"} {t('generator.regenerateActions')}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRegenerateSection("traits")}
+                    disabled={!!regeneratingSection || isStreamingContent}
+                    className="font-body"
+                  >
+                    {regeneratingSection === "traits" ? "⏳" : "🔄"} {t('generator.regenerateTraits')}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRegenerateSection("tactics")}
+                    disabled={!!regeneratingSection || isStreamingContent}
+                    className="font-body"
+                  >
+                    {regeneratingSection === "tactics" ? "⏳" : "🔄"} {t('generator.regenerateTactics')}
+                  </Button>
+                </div>
+                <MonsterCard monster={displayedContent as Monster} isLoading={regeneratingSection !== null} />
+              </>
+            )}
+            {contentType === "faction" && "ideology" in displayedContent && "goals" in displayedContent && (
+              <>
+                <div className="mb-4 flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRegenerateSection("leadership")}
+                    disabled={!!regeneratingSection || isStreamingContent}
+                    className="font-body"
+                  >
+                    {regeneratingSection === "leadership" ? "⏳" : "🔄"} {t('generator.regenerateLeadership')}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRegenerateSection("goals")}
+                    disabled={!!regeneratingSection || isStreamingContent}
+                    className="font-body"
+                  >
+                    {regeneratingSection === "goals" ? "⏳" : "🔄"} {t('generator.regenerateGoals')}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRegenerateSection("secrets")}
+                    disabled={!!regeneratingSection || isStreamingContent}
+                    className="font-body"
+                  >
+                    {regeneratingSection === "secrets" ? "⏳" : "🔄"} {t('generator.regenerateSecrets')}
+                  </Button>
+                </div>
+                <FactionCard faction={displayedContent as Faction} isLoading={regeneratingSection !== null} />
               </>
             )}
           </div>
         )}
       </div>
 
+      {/* Candidate Comparison Modal: keep one candidate or combine sections */}
+      {candidateRun && showCandidateModal && (
+        <CandidateComparisonModal
+          contentType={candidateRun.candidates[0].provenance.contentType}
+          candidates={candidateRun.candidates}
+          isOpen={showCandidateModal}
+          onClose={() => setShowCandidateModal(false)}
+          onSelect={(selection) => handleSelectCandidate(selection)}
+        />
+      )}
+
       {/* Template Modal */}
       {showTemplateModal && (
         <div
@@ -7,8 +7,9 @@ import { getCurrentUser, signOut } from "@/lib/auth"
 import { supabase } from "@/lib/supabase"
 import { isRecoverySessionActive, isResetPasswordRoute } from "@/lib/recovery-session"
 import type { User } from "@/types/auth"
-import type { ContentType, Character, Environment, Mission } from "@/types/rpg"
+import type { ContentType, Character, Environment, Mission, MagicItem, Monster, Faction } from "@/types/rpg"
 import type { LibraryContentItem } from "@/components/rpg/library-card"
+import type { Locale } from "@/i18n/config"
 import { Button } from "@/components/ui/button"
 import {
   Card,
@@ -22,6 +23,7 @@ import { NavigationDropdown } from "@/components/ui/navigation-dropdown"
 import { LibraryCard } from "@/components/rpg/library-card"
 import { ContentDetailModal } from "@/components/rpg/content-detail-modal"
 import { ContentComparisonModal } from "@/components/rpg/content-comparison-modal"
+import { useQuotaErrorMessage } from "@/components/generator/generation-quota"
 
 const SEARCH_HISTORY_KEY = "syg-library-search-history"
 const MAX_RECENT_SEARCHES = 10
@@ -38,6 +40,7 @@ export default function LibraryPage() {
   const t = useTranslations()
   const locale = useLocale()
   const router = useRouter()
+  const getQuotaErrorMessage = useQuotaErrorMessage()
   const [user, setUser] = useState<User | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [content, setContent] = useState<LibraryContentItem[]>([])
@@ -262,6 +265,12 @@ export default function LibraryPage() {
       return (item.content_data as Character).name
     } else if (item.type === "environment") {
       return (item.content_data as Environment).name
+    } else if (item.type === "item") {
+      return (item.content_data as MagicItem).name
+    } else if (item.type === "monster") {
+      return (item.content_data as Monster).name
+    } else if (item.type === "faction") {
+      return (item.content_data as Faction).name
     } else {
       return (item.content_data as Mission).title
     }
@@ -553,7 +562,7 @@ export default function LibraryPage() {
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ error: "Unknown error" }))
-        throw new Error(errorData.error || "Failed to generate variation")
+        throw new Error(getQuotaErrorMessage(response.status, errorData) || errorData.error || "Failed to generate variation")
       }
 
       const result = await response.json()
@@ -573,6 +582,86 @@ export default function LibraryPage() {
     }
   }
 
+  async function handleRegenerateWithSameSettings(item: LibraryContentItem) {
+    try {
+      setError(null)
+      const { data: { session } } = await supabase.auth.getSession()
+      const accessToken = session?.access_token
+
+      if (!accessToken) {
+        throw new Error("Not authenticated")
+      }
+
+      const response = await fetch(`/api/content/${item.id}/rerun`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: "Unknown error" }))
+        throw new Error(getQuotaErrorMessage(response.status, errorData) || errorData.message || errorData.error || "Failed to regenerate content")
+      }
+
+      const result = await response.json()
+
+      // Refresh content list and all content for counts
+      await fetchContent()
+      await fetchAllContent()
+
+      // Open the new item in the detail modal
+      if (result.data?.content) {
+        setSelectedItem(result.data.content)
+        setIsModalOpen(true)
+      }
+    } catch (err) {
+      console.error("Regenerate with same settings error:", err)
+      setError(err instanceof Error ? err.message : "Failed to regenerate content")
+    }
+  }
+
+  async function handleTranslate(item: LibraryContentItem, language: Locale) {
+    try {
+      setError(null)
+      const { data: { session } } = await supabase.auth.getSession()
+      const accessToken = session?.access_token
+
+      if (!accessToken) {
+        throw new Error("Not authenticated")
+      }
+
+      const response = await fetch(`/api/content/${item.id}/translate`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ language }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: "Unknown error" }))
+        throw new Error(getQuotaErrorMessage(response.status, errorData) || errorData.error || "Failed to translate content")
+      }
+
+      const result = await response.json()
+
+      // Refresh content list and all content for counts
+      await fetchContent()
+      await fetchAllContent()
+
+      // Open the translation in the detail modal
+      if (result.data?.content) {
+        setSelectedItem(result.data.content)
+        setIsModalOpen(true)
+      }
+    } catch (err) {
+      console.error("Translation error:", err)
+      setError(err instanceof Error ? err.message : "Failed to translate content")
+    }
+  }
+
   async function handleDelete(id: string) {
     try {
       const { data: { session } } = await supabase.auth.getSession()
@@ -783,6 +872,9 @@ export default function LibraryPage() {
     characters: allContent.filter(item => item.type === "character").length,
     environments: allContent.filter(item => item.type === "environment").length,
     missions: allContent.filter(item => item.type === "mission").length,
+    items: allContent.filter(item => item.type === "item").length,
+    monsters: allContent.filter(item => item.type === "monster").length,
+    factions: allContent.filter(item => item.type === "faction").length,
     favorites: allContent.filter(item => item.is_favorite).length,
   }
 
@@ -874,6 +966,9 @@ export default function LibraryPage() {
                     { value: "character" as const, label: t('generator.contentType.character'), icon: "🎭", count: counts.characters, color: "from-purple-500/20 to-pink-500/20 border-purple-500/50" },
                     { value: "environment" as const, label: t('generator.contentType.environment'), icon: "🗺️", count: counts.environments, color: "from-green-500/20 to-emerald-500/20 border-green-500/50" },
                     { value: "mission" as const, label: t('generator.contentType.mission'), icon: "⚔️", count: counts.missions, color: "from-red-500/20 to-orange-500/20 border-red-500/50" },
+                    { value: "item" as const, label: t('generator.contentType.item'), icon: "💎", count: counts.items, color: "from-amber-500/20 to-yellow-500/20 border-amber-500/50" },
+                    { value: "monster" as const, label: t('generator.contentType.monster'), icon: "🐉", count: counts.monsters, color: "from-rose-500/20 to-red-500/20 border-rose-500/50" },
+                    { value: "faction" as const, label: t('generator.contentType.faction'), icon: "🏛️", count: counts.factions, color: "from-indigo-500/20 to-sky-500/20 border-indigo-500/50" },
                   ].map((filter) => (
                     <button
                       key={filter.value}
@@ -1342,6 +1437,7 @@ export default function LibraryPage() {
         {/* Content Detail Modal */}
         {selectedItem && (
           <ContentDetailModal
+            key={selectedItem.id}
             item={selectedItem}
             isOpen={isModalOpen}
             onClose={() => {
@@ -1356,6 +1452,8 @@ export default function LibraryPage() {
               setSelectedItem(updatedItem)
             }}
             onGenerateVariation={handleGenerateVariation}
+            onTranslate={handleTranslate}
+            onRegenerateWithSameSettings={handleRegenerateWithSameSettings}
             onCampaignsUpdated={fetchCampaigns}
           />
         )}
@@ -18,6 +18,8 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { NavigationDropdown } from "@/components/ui/navigation-dropdown"
+import { GenerationQuota } from "@/components/generator/generation-quota"
+import { TokenUsage } from "@/components/generator/token-usage"
 
 interface ProfileSettings {
   displayName: string
@@ -492,6 +494,32 @@ export default function ProfilePage() {
           </Card>
         </div>
 
+        {/* Generation Quota */}
+        <Card className="parchment ornate-border">
+          <CardHeader>
+            <CardTitle className="font-display text-3xl">{t('quota.title')}</CardTitle>
+            <CardDescription className="font-body text-base">
+              {t('quota.description')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <GenerationQuota variant="detailed" />
+          </CardContent>
+        </Card>
+
+        {/* Token Usage */}
+        <Card className="parchment ornate-border">
+          <CardHeader>
+            <CardTitle className="font-display text-3xl">{t('usage.title')}</CardTitle>
+            <CardDescription className="font-body text-base">
+              {t('usage.description')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TokenUsage />
+          </CardContent>
+        </Card>
+
         {/* Spacer for fixed button */}
         <div className="h-20" />
       </div>
@@ -8,7 +8,7 @@ import { supabase } from "@/lib/supabase"
 import { isRecoverySessionActive, isResetPasswordRoute } from "@/lib/recovery-session"
 import { formatDateDayMonthYearShort, formatDateTimeMedium } from "@/lib/date"
 import type { User } from "@/types/auth"
-import type { ContentType, Character, Environment, Mission, GeneratedContent } from "@/types/rpg"
+import type { ContentType, Character, Environment, Mission, MagicItem, Monster, Faction, GeneratedContent } from "@/types/rpg"
 import type { LibraryContentItem } from "@/components/rpg/library-card"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
@@ -39,6 +39,9 @@ const CONTENT_TYPE_ICONS: Record<ContentType, string> = {
   character: "C",
   environment: "E",
   mission: "M",
+  item: "I",
+  monster: "B",
+  faction: "F",
 }
 
 function getContentName(item: { type: ContentType; content_data: GeneratedContent } | null): string {
@@ -49,6 +52,15 @@ function getContentName(item: { type: ContentType; content_data: GeneratedConten
   if (item.type === "environment") {
     return (item.content_data as Environment)?.name || "Unknown"
   }
+  if (item.type === "item") {
+    return (item.content_data as MagicItem)?.name || "Unknown"
+  }
+  if (item.type === "monster") {
+    return (item.content_data as Monster)?.name || "Unknown"
+  }
+  if (item.type === "faction") {
+    return (item.content_data as Faction)?.name || "Unknown"
+  }
   return (item.content_data as Mission)?.title || "Unknown"
 }
 
@@ -307,8 +319,11 @@ export default function SessionNotesPage() {
       const list = sortNotes(result.data || [])
       setNotes(list)
 
+      // A note can be opened directly with ?note=<id>, e.g. from the campaign continuity check
+      const requestedNoteId = new URLSearchParams(window.location.search).get("note")
+      const requestedNote = requestedNoteId ? list.find((note) => note.id === requestedNoteId) : undefined
       if (!activeNoteIdRef.current && list.length > 0) {
-        selectNote(list[0])
+        selectNote(requestedNote ?? list[0])
       }
 
       if (list.length === 0) {
@@ -0,0 +1,86 @@
+/**
+ * API Route for Aggregate Token Usage (admins only)
+ *
+ * GET: Model calls, tokens and estimated cost of all users over the last `days` days (default 30, at most 90),
+ * per day and broken down by user, content type, operation/section and model (see lib/usage.ts).
+ * Admins have `app_metadata.role` "admin"; everyone else gets 403.
+ */
+
+import { NextRequest } from 'next/server'
+import { requireVerifiedEmail, createServerClient } from '@/lib/supabase-server'
+import { MAX_USAGE_DAYS, isUsageAdmin, summarizeTokenUsage } from '@/lib/usage'
+
+const DEFAULT_USAGE_DAYS = 30
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate user and require email verification
+    const user = await requireVerifiedEmail(request)
+
+    if (!isUsageAdmin(user)) {
+      return new Response(
+        JSON.stringify({ error: 'Admin access required' }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Get query parameters
+    const { searchParams } = new URL(request.url)
+    const days = Number(searchParams.get('days') ?? DEFAULT_USAGE_DAYS)
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_USAGE_DAYS) {
+      return new Response(
+        JSON.stringify({ error: `days must be a whole number from 1 to ${MAX_USAGE_DAYS}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Create authenticated Supabase client
+    const authHeader = request.headers.get('authorization')
+    let supabase = await createServerClient()
+
+    if (authHeader?.startsWith('Bearer ')) {
+      const token = authHeader.substring(7)
+      const { createClient } = await import('@supabase/supabase-js')
+      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ''
+      const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
+      supabase = createClient(supabaseUrl, supabaseAnonKey, {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      })
+    }
+
+    // Unfiltered: the token_usage policy lets admins read every user's rows
+    const summary = await summarizeTokenUsage(supabase, days)
+
+    return new Response(
+      JSON.stringify({
+        data: summary,
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+  } catch (error: any) {
+    console.error('Fetch aggregate usage error:', error)
+
+    // Handle authentication and verification errors
+    if (error.status === 401 || error.status === 403) {
+      return new Response(
+        JSON.stringify({
+          error: error.message || 'Unauthorized',
+        }),
+        { status: error.status, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to fetch usage',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
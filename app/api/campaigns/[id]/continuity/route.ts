@@ -0,0 +1,105 @@
+/**
+ * API Route for Campaign Continuity Checks
+ *
+ * POST: Scans the campaign's content and session notes for name collisions, dangling mission
+ * relatedNPCs/relatedLocations references and model-detected contradictions (see lib/continuity.ts)
+ */
+
+import { NextRequest } from 'next/server'
+import { requireVerifiedEmail, createServerClient } from '@/lib/supabase-server'
+import { checkCampaignContinuity } from '@/lib/continuity'
+import { consumeGenerationQuota, quotaExceededResponse } from '@/lib/quotas'
+import { createUsageRecorder, withUsageRecording } from '@/lib/usage'
+import { defaultLocale, isLocale } from '@/i18n/config'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireVerifiedEmail(request)
+    const { id: campaignId } = await params
+
+    if (!campaignId) {
+      return new Response(
+        JSON.stringify({ error: 'Missing campaign ID' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const authHeader = request.headers.get('authorization')
+    let supabase = await createServerClient()
+
+    if (authHeader?.startsWith('Bearer ')) {
+      const token = authHeader.substring(7)
+      const { createClient } = await import('@supabase/supabase-js')
+      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ''
+      const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
+      supabase = createClient(supabaseUrl, supabaseAnonKey, {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      })
+    }
+
+    // A missing or foreign campaign is a 404 before the check counts against the quota
+    const campaignCheck = await supabase
+      .from('campaigns')
+      .select('id')
+      .eq('id', campaignId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (campaignCheck.error || !campaignCheck.data) {
+      return new Response(
+        JSON.stringify({ error: 'Campaign not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const quota = await consumeGenerationQuota(supabase, user, 'campaigns/continuity')
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota)
+    }
+
+    // Contradiction descriptions are written in the UI locale (next-intl cookie)
+    const cookieLocale = request.cookies.get('NEXT_LOCALE')?.value
+    const language = isLocale(cookieLocale) ? cookieLocale : defaultLocale
+
+    const report = await withUsageRecording(createUsageRecorder(supabase, user, 'campaigns/continuity'), () =>
+      checkCampaignContinuity(supabase, user.id, campaignId, language)
+    )
+    if (!report) {
+      return new Response(
+        JSON.stringify({ error: 'Campaign not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({ data: report }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+  } catch (error: any) {
+    console.error('Continuity check error:', error)
+
+    if (error.status === 401 || error.status === 403) {
+      return new Response(
+        JSON.stringify({
+          error: error.message || 'Unauthorized',
+        }),
+        { status: error.status, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to check campaign continuity',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
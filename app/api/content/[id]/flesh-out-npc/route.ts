@@ -0,0 +1,189 @@
+/**
+ * API Route for fleshing out an NPC into a character
+ *
+ * POST: Generates a full character from an NPC entry (`npc`) of a saved environment or mission,
+ * saves it to the library and links it: the character is `located_in` the environment, or the mission `involves` it
+ */
+
+import { NextRequest } from 'next/server'
+import { requireVerifiedEmail, createServerClient } from '@/lib/supabase-server'
+import { generateRPGContent } from '@/lib/ai'
+import { consumeGenerationQuota, quotaExceededResponse } from '@/lib/quotas'
+import { createUsageRecorder, withUsageRecording } from '@/lib/usage'
+import { getReferenceName } from '@/lib/content-references'
+import { isLocale } from '@/i18n/config'
+import type { Character, Environment, Mission } from '@/types/rpg'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authenticate user and require email verification
+    const user = await requireVerifiedEmail(request)
+
+    const { id: parentId } = await params
+
+    // Parse request body
+    const body = await request.json()
+    const { npc } = body as { npc?: string }
+    const trimmedNpc = typeof npc === 'string' ? npc.trim() : ''
+
+    if (!parentId || !trimmedNpc) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields: content ID or npc' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Create authenticated Supabase client
+    const authHeader = request.headers.get('authorization')
+    let supabase = await createServerClient()
+
+    if (authHeader?.startsWith('Bearer ')) {
+      const token = authHeader.substring(7)
+      const { createClient } = await import('@supabase/supabase-js')
+      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ''
+      const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
+      supabase = createClient(supabaseUrl, supabaseAnonKey, {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      })
+    }
+
+    // Load the environment or mission the NPC comes from
+    const { data: parentRow, error: parentError } = await supabase
+      .from('generated_content')
+      .select('id, type, content_data, language')
+      .eq('id', parentId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (parentError || !parentRow) {
+      return new Response(
+        JSON.stringify({ error: 'Content not found or access denied' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (parentRow.type !== 'environment' && parentRow.type !== 'mission') {
+      return new Response(
+        JSON.stringify({ error: 'Only environment and mission NPCs can be fleshed out' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const isEnvironment = parentRow.type === 'environment'
+    const environment = parentRow.content_data as Environment
+    const mission = parentRow.content_data as Mission
+    const npcs = (isEnvironment ? environment.npcs : mission.relatedNPCs) || []
+
+    if (!npcs.some((entry) => entry.trim().toLowerCase() === trimmedNpc.toLowerCase())) {
+      return new Response(
+        JSON.stringify({ error: `NPC is not part of this ${parentRow.type}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Generate the character with the environment or mission as context
+    const npcName = getReferenceName(trimmedNpc)
+    const parentName = isEnvironment ? environment.name : mission.title
+    const scenario = isEnvironment
+      ? `${trimmedNpc}, an NPC found in the location "${parentName}".`
+      : `${trimmedNpc}, an NPC involved in the mission "${parentName}".`
+    const parentContext = (isEnvironment
+      ? [
+          `Location: ${environment.name}`,
+          environment.description ? `Description: ${environment.description}` : '',
+          environment.currentConflict ? `Current conflict: ${environment.currentConflict}` : '',
+          `NPCs here: ${npcs.join('; ')}`,
+        ]
+      : [
+          `Mission: ${mission.title}`,
+          mission.description ? `Description: ${mission.description}` : '',
+          mission.context ? `Context: ${mission.context}` : '',
+          `NPCs involved: ${npcs.join('; ')}`,
+          mission.relatedLocations?.length ? `Locations: ${mission.relatedLocations.join('; ')}` : '',
+        ]
+    ).filter(Boolean).join('\n')
+    const language = isLocale(parentRow.language) ? parentRow.language : undefined
+
+    const quota = await consumeGenerationQuota(supabase, user, 'content/flesh-out-npc')
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota)
+    }
+
+    const generated = await withUsageRecording(createUsageRecorder(supabase, user, 'content/flesh-out-npc'), () =>
+      generateRPGContent(scenario, 'character', undefined, undefined, parentContext, language)
+    )
+    const character: Character = { ...(generated.content as Character), name: npcName }
+
+    const { data: savedCharacter, error: insertError } = await supabase
+      .from('generated_content')
+      .insert({
+        user_id: user.id,
+        type: 'character',
+        scenario_input: scenario,
+        content_data: character,
+        generation_metadata: generated.provenance,
+        ...(language ? { language } : {}),
+      })
+      .select()
+      .single()
+
+    if (insertError || !savedCharacter) {
+      console.error('Supabase insert error:', insertError)
+      return new Response(
+        JSON.stringify({
+          error: 'Failed to save character',
+          message: insertError?.message || 'Unknown error',
+        }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Link character -> environment or mission -> character; the character is already saved, so a failed link is not fatal
+    const { data: link, error: linkError } = await supabase
+      .from('content_links')
+      .insert({
+        user_id: user.id,
+        source_content_id: isEnvironment ? savedCharacter.id : parentId,
+        target_content_id: isEnvironment ? parentId : savedCharacter.id,
+        link_type: isEnvironment ? 'located_in' : 'involves',
+      })
+      .select()
+      .single()
+
+    if (linkError) {
+      console.error('Supabase link insert error:', linkError)
+    }
+
+    return new Response(
+      JSON.stringify({ data: { character: savedCharacter, link: link ?? null } }),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    )
+  } catch (error: any) {
+    console.error('Flesh out NPC error:', error)
+
+    // Handle authentication and verification errors
+    if (error.status === 401 || error.status === 403) {
+      return new Response(
+        JSON.stringify({
+          error: error.message || 'Unauthorized',
+        }),
+        { status: error.status, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to flesh out NPC',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
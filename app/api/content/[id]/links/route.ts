@@ -162,7 +162,7 @@ export async function POST(
     const body = await request.json()
     const { targetContentId, linkType } = body as {
       targetContentId: string
-      linkType: 'related' | 'part_of' | 'uses' | 'located_in' | 'involves'
+      linkType: 'related' | 'part_of' | 'uses' | 'located_in' | 'involves' | 'translation_of'
     }
 
     if (!targetContentId || !linkType) {
@@ -179,7 +179,7 @@ export async function POST(
       )
     }
 
-    if (!['related', 'part_of', 'uses', 'located_in', 'involves'].includes(linkType)) {
+    if (!['related', 'part_of', 'uses', 'located_in', 'involves', 'translation_of'].includes(linkType)) {
       return new Response(
         JSON.stringify({ error: 'Invalid link type' }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
@@ -0,0 +1,184 @@
+/**
+ * API Route for promoting a mission reward item into a magic item
+ *
+ * POST: Generates a full magic item from a reward item name of a saved mission,
+ * written in the mission's language, saves it to the library and links the mission to it
+ */
+
+import { NextRequest } from 'next/server'
+import { requireVerifiedEmail, createServerClient } from '@/lib/supabase-server'
+import { generateRPGContent } from '@/lib/ai'
+import { consumeGenerationQuota, quotaExceededResponse } from '@/lib/quotas'
+import { createUsageRecorder, withUsageRecording } from '@/lib/usage'
+import { isLocale } from '@/i18n/config'
+import type { Mission, MagicItem } from '@/types/rpg'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authenticate user and require email verification
+    const user = await requireVerifiedEmail(request)
+
+    const { id: missionId } = await params
+
+    // Parse request body
+    const body = await request.json()
+    const { itemName } = body as { itemName?: string }
+    const trimmedName = typeof itemName === 'string' ? itemName.trim() : ''
+
+    if (!missionId || !trimmedName) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields: content ID or itemName' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Create authenticated Supabase client
+    const authHeader = request.headers.get('authorization')
+    let supabase = await createServerClient()
+
+    if (authHeader?.startsWith('Bearer ')) {
+      const token = authHeader.substring(7)
+      const { createClient } = await import('@supabase/supabase-js')
+      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ''
+      const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
+      supabase = createClient(supabaseUrl, supabaseAnonKey, {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      })
+    }
+
+    // Load the mission the item comes from
+    const { data: missionRow, error: missionError } = await supabase
+      .from('generated_content')
+      .select('id, type, content_data, language')
+      .eq('id', missionId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (missionError || !missionRow) {
+      return new Response(
+        JSON.stringify({ error: 'Mission not found or access denied' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (missionRow.type !== 'mission') {
+      return new Response(
+        JSON.stringify({ error: 'Only mission rewards can be promoted to items' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const mission = missionRow.content_data as Mission
+    const rewardItems = [
+      ...(mission.rewards?.items || []),
+      ...(mission.choiceBasedRewards || []).flatMap((choice) => choice.rewards?.items || []),
+    ]
+    const powerfulItem = (mission.powerfulItems || []).find(
+      (item) => item.name.trim().toLowerCase() === trimmedName.toLowerCase()
+    )
+
+    if (!powerfulItem && !rewardItems.some((item) => item.trim().toLowerCase() === trimmedName.toLowerCase())) {
+      return new Response(
+        JSON.stringify({ error: 'Item is not part of this mission' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const quota = await consumeGenerationQuota(supabase, user, 'content/promote-item')
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota)
+    }
+
+    // Generate the full item with the mission as context
+    const scenario = `A magic item named "${trimmedName}" awarded in the mission "${mission.title}".`
+    const missionContext = [
+      `Mission: ${mission.title}`,
+      mission.description ? `Description: ${mission.description}` : '',
+      mission.context ? `Context: ${mission.context}` : '',
+      powerfulItem ? `Item status: ${powerfulItem.status}` : '',
+    ].filter(Boolean).join('\n')
+    // Written in the mission's language
+    const language = isLocale(missionRow.language) ? missionRow.language : undefined
+
+    const generated = await withUsageRecording(createUsageRecorder(supabase, user, 'content/promote-item'), () =>
+      generateRPGContent(scenario, 'item', undefined, undefined, missionContext, language)
+    )
+    const item: MagicItem = {
+      ...(generated.content as MagicItem),
+      name: trimmedName,
+      ...(powerfulItem ? { status: powerfulItem.status } : {}),
+    }
+
+    const { data: savedItem, error: insertError } = await supabase
+      .from('generated_content')
+      .insert({
+        user_id: user.id,
+        type: 'item',
+        scenario_input: scenario,
+        content_data: item,
+        generation_metadata: generated.provenance,
+        ...(language ? { language } : {}),
+      })
+      .select()
+      .single()
+
+    if (insertError || !savedItem) {
+      console.error('Supabase insert error:', insertError)
+      return new Response(
+        JSON.stringify({
+          error: 'Failed to save item',
+          message: insertError?.message || 'Unknown error',
+        }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Link mission -> item; the item is already saved, so a failed link is not fatal
+    const { data: link, error: linkError } = await supabase
+      .from('content_links')
+      .insert({
+        user_id: user.id,
+        source_content_id: missionId,
+        target_content_id: savedItem.id,
+        link_type: 'involves',
+      })
+      .select()
+      .single()
+
+    if (linkError) {
+      console.error('Supabase link insert error:', linkError)
+    }
+
+    return new Response(
+      JSON.stringify({ data: { item: savedItem, link: link ?? null } }),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    )
+  } catch (error: any) {
+    console.error('Promote item error:', error)
+
+    // Handle authentication and verification errors
+    if (error.status === 401 || error.status === 403) {
+      return new Response(
+        JSON.stringify({
+          error: error.message || 'Unauthorized',
+        }),
+        { status: error.status, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to promote item',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * API Route for regenerating saved content with the same settings
+ *
+ * POST: Reruns the generation recorded in an item's generation_metadata (scenario, advanced input, temperature, tone,
+ * complexity and language) and saves the result as a new item. When the original was generated with a campaign,
+ * the context is rebuilt from that campaign as it is now; `contextMatches` tells whether it hashes the same.
+ * The recorded prompt version is reused while it is still registered (otherwise the latest one is); the model is the
+ * one currently configured. The new item's provenance records both.
+ */
+
+import { NextRequest } from 'next/server'
+import { requireVerifiedEmail, createServerClient } from '@/lib/supabase-server'
+import { generateRPGContent } from '@/lib/ai'
+import { consumeGenerationQuota, quotaExceededResponse } from '@/lib/quotas'
+import { createUsageRecorder, withUsageRecording } from '@/lib/usage'
+import { buildCampaignContext } from '@/lib/campaign-context'
+import { listPromptVersions, parsePromptId } from '@/lib/prompts'
+import { isLocale } from '@/i18n/config'
+import type { ContentType, GenerationProvenance } from '@/types/rpg'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authenticate user and require email verification
+    const user = await requireVerifiedEmail(request)
+
+    const { id: originalContentId } = await params
+
+    if (!originalContentId) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required field: content ID' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Create authenticated Supabase client
+    const authHeader = request.headers.get('authorization')
+    let supabase = await createServerClient()
+
+    if (authHeader?.startsWith('Bearer ')) {
+      const token = authHeader.substring(7)
+      const { createClient } = await import('@supabase/supabase-js')
+      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ''
+      const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
+      supabase = createClient(supabaseUrl, supabaseAnonKey, {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      })
+    }
+
+    const { data: originalContent, error: fetchError } = await supabase
+      .from('generated_content')
+      .select('type, scenario_input, language, generation_metadata')
+      .eq('id', originalContentId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (fetchError || !originalContent) {
+      return new Response(
+        JSON.stringify({ error: 'Content not found or access denied' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const provenance = originalContent.generation_metadata as GenerationProvenance | null
+    if (!provenance || typeof provenance.scenario !== 'string') {
+      return new Response(
+        JSON.stringify({
+          error: 'No generation settings recorded',
+          message: 'This content was saved without its generation settings, so it cannot be regenerated with the same settings.',
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const quota = await consumeGenerationQuota(supabase, user, 'content/rerun')
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota)
+    }
+
+    // A deleted campaign leaves the generation without context; contextMatches reports it
+    const builtContext = provenance.campaignId
+      ? await buildCampaignContext(supabase, user.id, provenance.campaignId, provenance.scenario)
+      : null
+    const language = [provenance.language, originalContent.language].find(isLocale)
+    const contentType = originalContent.type as ContentType
+
+    const recordedPrompt = provenance.promptVersion ? parsePromptId(provenance.promptVersion) : null
+    const promptVersion = recordedPrompt?.name === contentType && listPromptVersions(contentType).includes(recordedPrompt.version)
+      ? recordedPrompt.version
+      : undefined
+
+    const generated = await withUsageRecording(createUsageRecorder(supabase, user, 'content/rerun'), () =>
+      generateRPGContent(
+        provenance.scenario,
+        contentType,
+        provenance.advancedInput,
+        { temperature: provenance.temperature, tone: provenance.tone, complexity: provenance.complexity },
+        builtContext?.context,
+        language,
+        promptVersion
+      )
+    )
+    const generationMetadata: GenerationProvenance = builtContext
+      ? { ...generated.provenance, campaignId: provenance.campaignId }
+      : generated.provenance
+
+    const { data: savedContent, error: insertError } = await supabase
+      .from('generated_content')
+      .insert({
+        user_id: user.id,
+        type: originalContent.type,
+        scenario_input: originalContent.scenario_input,
+        content_data: generated.content,
+        language: generationMetadata.language,
+        generation_metadata: generationMetadata,
+      })
+      .select()
+      .single()
+
+    if (insertError || !savedContent) {
+      console.error('Supabase insert error:', insertError)
+      return new Response(
+        JSON.stringify({
+          error: 'Failed to save content',
+          message: insertError?.message || 'Unknown error',
+        }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({
+        data: {
+          content: savedContent,
+          contextMatches: generationMetadata.campaignContextHash === provenance.campaignContextHash,
+        },
+      }),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    )
+  } catch (error: any) {
+    console.error('Rerun generation error:', error)
+
+    // Handle authentication and verification errors
+    if (error.status === 401 || error.status === 403) {
+      return new Response(
+        JSON.stringify({
+          error: error.message || 'Unauthorized',
+        }),
+        { status: error.status, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to regenerate content',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
@@ -1,12 +1,15 @@
 /**
  * API Route for Updating and Deleting Generated Content
  * 
- * PATCH: Updates content fields (favorite, tags, notes)
+ * PATCH: Updates content fields (favorite, tags, notes, locked_fields, content_data - characters are checked against 5e rules)
  * DELETE: Removes content by ID with authentication
  */
 
 import { NextRequest } from 'next/server'
 import { requireVerifiedEmail, createServerClient } from '@/lib/supabase-server'
+import { validateCharacter } from '@/lib/dnd-rules'
+import { getLockedFields } from '@/lib/field-locks'
+import type { Character, ContentType, RulesCorrection } from '@/types/rpg'
 
 const MAX_CONTENT_KEY_CHANGES = 6
 
@@ -83,10 +86,11 @@ export async function PATCH(
 
     // Parse request body
     const body = await request.json()
-    const { is_favorite, tags, notes, content_data, change_summary } = body as {
+    const { is_favorite, tags, notes, locked_fields, content_data, change_summary } = body as {
       is_favorite?: boolean
       tags?: string[]
       notes?: string
+      locked_fields?: string[]
       content_data?: Record<string, unknown>
       change_summary?: string
     }
@@ -96,6 +100,7 @@ export async function PATCH(
       is_favorite?: boolean
       tags?: string[]
       notes?: string
+      locked_fields?: string[]
       content_data?: Record<string, unknown>
     } = {}
 
@@ -108,6 +113,9 @@ export async function PATCH(
     if (typeof notes === 'string') {
       updates.notes = notes
     }
+    if (Array.isArray(locked_fields)) {
+      updates.locked_fields = locked_fields
+    }
     if (content_data != null && typeof content_data === 'object' && !Array.isArray(content_data)) {
       updates.content_data = content_data
     }
@@ -139,7 +147,7 @@ export async function PATCH(
 
     const { data: existingContent, error: existingError } = await supabase
       .from('generated_content')
-      .select('id, content_data, is_favorite, tags, notes')
+      .select('id, type, content_data, is_favorite, tags, notes')
       .eq('id', id)
       .eq('user_id', user.id)
       .single()
@@ -162,6 +170,19 @@ export async function PATCH(
       )
     }
 
+    // Only fields that exist on this content type can be locked
+    if (updates.locked_fields) {
+      updates.locked_fields = getLockedFields(existingContent.type as ContentType, updates.locked_fields)
+    }
+
+    // Edited characters go through the same rules validator as generated ones
+    let corrections: RulesCorrection[] = []
+    if (updates.content_data && existingContent.type === 'character') {
+      const validated = validateCharacter(updates.content_data as unknown as Character)
+      updates.content_data = validated.character as unknown as Record<string, unknown>
+      corrections = validated.corrections
+    }
+
     const hasFavoriteUpdate = Object.prototype.hasOwnProperty.call(updates, 'is_favorite')
     const hasTagsUpdate = Object.prototype.hasOwnProperty.call(updates, 'tags')
     const hasNotesUpdate = Object.prototype.hasOwnProperty.call(updates, 'notes')
@@ -212,7 +233,8 @@ export async function PATCH(
       // Check which column is missing
       const missingColumn = error.message.includes('is_favorite') ? 'is_favorite' :
                            error.message.includes('notes') ? 'notes' :
-                           error.message.includes('tags') ? 'tags' : 'unknown'
+                           error.message.includes('tags') ? 'tags' :
+                           error.message.includes('locked_fields') ? 'locked_fields' : 'unknown'
       
       return new Response(
         JSON.stringify({
@@ -271,6 +293,7 @@ export async function PATCH(
       JSON.stringify({
         success: true,
         data,
+        corrections,
         message: 'Content updated successfully',
       }),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
@@ -0,0 +1,161 @@
+/**
+ * API Route for translating saved content
+ *
+ * POST: Translates a library item into another supported language (`language`),
+ * saves the translation as a new item and links it to the original with a `translation_of` link
+ */
+
+import { NextRequest } from 'next/server'
+import { requireVerifiedEmail, createServerClient } from '@/lib/supabase-server'
+import { translateContent } from '@/lib/ai'
+import { consumeGenerationQuota, quotaExceededResponse } from '@/lib/quotas'
+import { createUsageRecorder, withUsageRecording } from '@/lib/usage'
+import { isLocale, localeNames } from '@/i18n/config'
+import type { ContentType, GeneratedContent } from '@/types/rpg'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authenticate user and require email verification
+    const user = await requireVerifiedEmail(request)
+
+    const { id: originalContentId } = await params
+
+    // Parse request body
+    const body = await request.json()
+    const { language } = body as { language?: string }
+
+    if (!originalContentId || !language) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields: content ID or language' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!isLocale(language)) {
+      return new Response(
+        JSON.stringify({ error: 'Unsupported language' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Create authenticated Supabase client
+    const authHeader = request.headers.get('authorization')
+    let supabase = await createServerClient()
+
+    if (authHeader?.startsWith('Bearer ')) {
+      const token = authHeader.substring(7)
+      const { createClient } = await import('@supabase/supabase-js')
+      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ''
+      const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
+      supabase = createClient(supabaseUrl, supabaseAnonKey, {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      })
+    }
+
+    // Load the content to translate
+    const { data: originalContent, error: fetchError } = await supabase
+      .from('generated_content')
+      .select('type, content_data, scenario_input, language')
+      .eq('id', originalContentId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (fetchError || !originalContent) {
+      return new Response(
+        JSON.stringify({ error: 'Content not found or access denied' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (originalContent.language === language) {
+      return new Response(
+        JSON.stringify({ error: 'Content is already in this language' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const quota = await consumeGenerationQuota(supabase, user, 'content/translate')
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota)
+    }
+
+    const translated = await withUsageRecording(createUsageRecorder(supabase, user, 'content/translate'), () =>
+      translateContent(
+        originalContent.content_data as GeneratedContent,
+        originalContent.type as ContentType,
+        language
+      )
+    )
+
+    const { data: savedContent, error: insertError } = await supabase
+      .from('generated_content')
+      .insert({
+        user_id: user.id,
+        type: originalContent.type,
+        scenario_input: `${originalContent.scenario_input} (${localeNames[language]})`,
+        content_data: translated,
+        language,
+      })
+      .select()
+      .single()
+
+    if (insertError || !savedContent) {
+      console.error('Supabase insert error:', insertError)
+      return new Response(
+        JSON.stringify({
+          error: 'Failed to save translation',
+          message: insertError?.message || 'Unknown error',
+        }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Link translation -> original; the translation is already saved, so a failed link is not fatal
+    const { data: link, error: linkError } = await supabase
+      .from('content_links')
+      .insert({
+        user_id: user.id,
+        source_content_id: savedContent.id,
+        target_content_id: originalContentId,
+        link_type: 'translation_of',
+      })
+      .select()
+      .single()
+
+    if (linkError) {
+      console.error('Supabase link insert error:', linkError)
+    }
+
+    return new Response(
+      JSON.stringify({ data: { content: savedContent, link: link ?? null } }),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    )
+  } catch (error: any) {
+    console.error('Translate content error:', error)
+
+    // Handle authentication and verification errors
+    if (error.status === 401 || error.status === 403) {
+      return new Response(
+        JSON.stringify({
+          error: error.message || 'Unauthorized',
+        }),
+        { status: error.status, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to translate content',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
@@ -1,13 +1,14 @@
 /**
  * API Route for Saving and Fetching Generated Content
  * 
- * POST: Saves generated content to Supabase with validation
+ * POST: Saves generated content to Supabase with validation, with its generation provenance when given
  * GET: Fetches user's saved content with filtering, search, and pagination
  */
 
 import { NextRequest } from 'next/server'
 import { requireVerifiedEmail, createServerClient } from '@/lib/supabase-server'
-import type { ContentType, GeneratedContent } from '@/types/rpg'
+import { isLocale, type Locale } from '@/i18n/config'
+import type { ContentType, GeneratedContent, GenerationProvenance } from '@/types/rpg'
 
 export async function GET(request: NextRequest) {
   try {
@@ -45,62 +46,77 @@ export async function GET(request: NextRequest) {
     const dateFrom = searchParams.get('dateFrom') // ISO date string
     const dateTo = searchParams.get('dateTo') // ISO date string
     
-    // Try to select with new columns first, fallback to basic columns if migration hasn't run
-    let query = supabase
-      .from('generated_content')
-      .select('id, type, scenario_input, content_data, created_at, is_favorite, tags, notes', { count: 'exact' })
-      .eq('user_id', user.id)
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1)
+    // Favorites, tags and notes come with the library migration; language, locked_fields and generation_metadata with
+    // later ones. Missing columns fail the query with 42703, so it is retried without the later columns first and only
+    // then with the basic columns, rather than losing favorites, tags and notes over one unrun migration.
+    const libraryColumns = 'id, type, scenario_input, content_data, created_at, is_favorite, tags, notes'
+    const buildLibraryQuery = (columns: string) => {
+      let query = supabase
+        .from('generated_content')
+        .select(columns, { count: 'exact' })
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1)
     
-    // Apply favorite filter (only works after migration)
-    if (favorite === 'true') {
-      query = query.eq('is_favorite', true)
-    }
+      // Apply favorite filter (only works after migration)
+      if (favorite === 'true') {
+        query = query.eq('is_favorite', true)
+      }
 
-    // Apply type filter
-    if (type && ['character', 'environment', 'mission'].includes(type)) {
-      query = query.eq('type', type)
-    }
+      // Apply type filter
+      if (type && ['character', 'environment', 'mission', 'item', 'monster', 'faction'].includes(type)) {
+        query = query.eq('type', type)
+      }
 
-    // Apply date range filter
-    if (dateFrom) {
-      try {
-        const fromDate = new Date(dateFrom)
-        if (!isNaN(fromDate.getTime())) {
-          query = query.gte('created_at', fromDate.toISOString())
+      // Apply date range filter
+      if (dateFrom) {
+        try {
+          const fromDate = new Date(dateFrom)
+          if (!isNaN(fromDate.getTime())) {
+            query = query.gte('created_at', fromDate.toISOString())
+          }
+        } catch (err) {
+          console.error('Invalid dateFrom parameter:', err)
         }
-      } catch (err) {
-        console.error('Invalid dateFrom parameter:', err)
       }
-    }
-    if (dateTo) {
-      try {
-        const toDate = new Date(dateTo)
-        if (!isNaN(toDate.getTime())) {
-          // Add one day and subtract 1ms to include the entire end date
-          const endOfDay = new Date(toDate)
-          endOfDay.setDate(endOfDay.getDate() + 1)
-          endOfDay.setMilliseconds(endOfDay.getMilliseconds() - 1)
-          query = query.lte('created_at', endOfDay.toISOString())
+      if (dateTo) {
+        try {
+          const toDate = new Date(dateTo)
+          if (!isNaN(toDate.getTime())) {
+            // Add one day and subtract 1ms to include the entire end date
+            const endOfDay = new Date(toDate)
+            endOfDay.setDate(endOfDay.getDate() + 1)
+            endOfDay.setMilliseconds(endOfDay.getMilliseconds() - 1)
+            query = query.lte('created_at', endOfDay.toISOString())
+          }
+        } catch (err) {
+          console.error('Invalid dateTo parameter:', err)
         }
-      } catch (err) {
-        console.error('Invalid dateTo parameter:', err)
       }
-    }
 
-    // Apply search filter (search in scenario_input and notes only)
-    // Note: content_data is JSONB and tags is TEXT[] - can't use ::text cast in PostgREST OR queries
-    // content_data and tags will be searched client-side after fetching
-    if (search.trim()) {
-      const searchPattern = `%${search}%`
-      // Only search in text columns (scenario_input and notes)
-      // JSONB (content_data) and TEXT[] (tags) will be filtered client-side
-      const orQueryString = `scenario_input.ilike.${searchPattern},notes.ilike.${searchPattern}`
-      query = query.or(orQueryString)
+      // Apply search filter (search in scenario_input and notes only)
+      // Note: content_data is JSONB and tags is TEXT[] - can't use ::text cast in PostgREST OR queries
+      // content_data and tags will be searched client-side after fetching
+      if (search.trim()) {
+        const searchPattern = `%${search}%`
+        // Only search in text columns (scenario_input and notes)
+        // JSONB (content_data) and TEXT[] (tags) will be filtered client-side
+        const orQueryString = `scenario_input.ilike.${searchPattern},notes.ilike.${searchPattern}`
+        query = query.or(orQueryString)
+      }
+
+      return query
     }
 
-    let { data, error, count } = await query
+    let { data, error, count } = await buildLibraryQuery(`${libraryColumns}, language, locked_fields, generation_metadata`)
+
+    // A later migration has not run: keep the library columns
+    if (error && error.code === '42703') {
+      const libraryResult = await buildLibraryQuery(libraryColumns)
+      data = libraryResult.data
+      error = libraryResult.error
+      count = libraryResult.count
+    }
     
     // If error is due to missing columns (migration not run), retry with basic columns only
     if (error && error.code === '42703') {
@@ -114,7 +130,7 @@ export async function GET(request: NextRequest) {
         .range(offset, offset + limit - 1)
 
       // Apply type filter
-      if (type && ['character', 'environment', 'mission'].includes(type)) {
+      if (type && ['character', 'environment', 'mission', 'item', 'monster', 'faction'].includes(type)) {
         fallbackQuery = fallbackQuery.eq('type', type)
       }
 
@@ -133,6 +149,7 @@ export async function GET(request: NextRequest) {
         is_favorite: false,
         tags: [],
         notes: '',
+        language: null,
       })) || null
       error = fallbackResult.error
       count = fallbackResult.count
@@ -219,11 +236,11 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (!['character', 'environment', 'mission'].includes(type)) {
+    if (!['character', 'environment', 'mission', 'item', 'monster', 'faction'].includes(type)) {
       return new Response(
         JSON.stringify({ 
           error: 'Invalid content type',
-          message: 'Content type must be character, environment, or mission.'
+          message: 'Content type must be character, environment, mission, item, monster, or faction.'
         }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
       )
@@ -260,6 +277,36 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (type === 'item' && !('name' in contentData && 'rarity' in contentData && 'description' in contentData)) {
+      return new Response(
+        JSON.stringify({ 
+          error: 'Invalid item data structure',
+          message: 'Item data must include name, rarity, and description.'
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (type === 'monster' && !('name' in contentData && 'challengeRating' in contentData && 'actions' in contentData)) {
+      return new Response(
+        JSON.stringify({ 
+          error: 'Invalid monster data structure',
+          message: 'Monster data must include name, challengeRating, and actions.'
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (type === 'faction' && !('name' in contentData && 'ideology' in contentData && 'goals' in contentData)) {
+      return new Response(
+        JSON.stringify({ 
+          error: 'Invalid faction data structure',
+          message: 'Faction data must include name, ideology, and goals.'
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
     // Save to Supabase
     // Create a client with the user's access token for proper RLS
     const authHeader = request.headers.get('authorization')
@@ -281,10 +328,12 @@ export async function POST(request: NextRequest) {
     }
 
     // Get optional fields
-    const { tags, notes, is_favorite } = body as {
+    const { tags, notes, is_favorite, language, generation_metadata } = body as {
       tags?: string[]
       notes?: string
       is_favorite?: boolean
+      language?: string
+      generation_metadata?: GenerationProvenance
     }
     
     // Build insert object - include new fields (will work after migration is run)
@@ -296,6 +345,8 @@ export async function POST(request: NextRequest) {
       tags?: string[]
       notes?: string
       is_favorite?: boolean
+      language?: Locale
+      generation_metadata?: GenerationProvenance
     } = {
       user_id: user.id,
       type,
@@ -307,6 +358,11 @@ export async function POST(request: NextRequest) {
     if (tags) insertData.tags = tags
     if (notes !== undefined) insertData.notes = notes
     if (is_favorite !== undefined) insertData.is_favorite = is_favorite
+    if (isLocale(language)) insertData.language = language
+    // Provenance from the generate route's complete event; anything that is not an object is ignored
+    if (generation_metadata && typeof generation_metadata === 'object' && !Array.isArray(generation_metadata)) {
+      insertData.generation_metadata = generation_metadata
+    }
     
     const { data, error } = await supabase
       .from('generated_content')
@@ -0,0 +1,247 @@
+/**
+ * API Route for One-Shot Adventure Generation
+ *
+ * POST: Generates a mission from one scenario, plus an environment for each of its related locations and a
+ * character for each of its related NPCs (see generateAdventureBundle). Everything is saved to the library and
+ * linked: locations are `part_of` the mission, the mission `involves` each NPC and NPCs are `located_in` the
+ * locations that list them. With `campaignId`, the campaign context is built from the entries most relevant to the
+ * scenario, and unless `addToCampaign` is false the mission, locations and NPCs are appended to the campaign in that order.
+ */
+
+import { NextRequest } from 'next/server'
+import { requireVerifiedEmail, createServerClient } from '@/lib/supabase-server'
+import { MAX_ADVENTURE_GENERATIONS, generateAdventureBundle } from '@/lib/ai'
+import { consumeGenerationQuota, quotaExceededResponse } from '@/lib/quotas'
+import { createUsageRecorder, withUsageRecording } from '@/lib/usage'
+import { buildCampaignContext } from '@/lib/campaign-context'
+import { isLocale } from '@/i18n/config'
+import type {
+  AdvancedGenerationParams,
+  AdvancedMissionInput,
+  CampaignContextSource,
+  ContentType,
+  GeneratedContent,
+  GenerationProvenance,
+} from '@/types/rpg'
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate user and require email verification
+    const user = await requireVerifiedEmail(request)
+
+    // Parse request body
+    const body = await request.json()
+    const { scenario, advancedInput, generationParams, campaignContext, language: requestedLanguage, campaignId, addToCampaign } = body as {
+      scenario: string
+      advancedInput?: AdvancedMissionInput
+      generationParams?: AdvancedGenerationParams
+      campaignContext?: string
+      language?: string
+      campaignId?: string
+      addToCampaign?: boolean
+    }
+
+    if (typeof scenario !== 'string' || !scenario.trim()) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required field: scenario' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Create authenticated Supabase client
+    const authHeader = request.headers.get('authorization')
+    let supabase = await createServerClient()
+
+    if (authHeader?.startsWith('Bearer ')) {
+      const token = authHeader.substring(7)
+      const { createClient } = await import('@supabase/supabase-js')
+      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ''
+      const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
+      supabase = createClient(supabaseUrl, supabaseAnonKey, {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      })
+    }
+
+    // Campaign context: built from the campaign when one is given, else the caller's own context text
+    let adventureContext = typeof campaignContext === 'string' ? campaignContext : undefined
+    let contextSources: CampaignContextSource[] = []
+    if (campaignId) {
+      const builtContext = await buildCampaignContext(supabase, user.id, campaignId, scenario.trim())
+      if (!builtContext) {
+        return new Response(
+          JSON.stringify({ error: 'Campaign not found' }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        )
+      }
+      adventureContext = builtContext.context
+      contextSources = builtContext.sources
+    }
+    const targetCampaignId = campaignId && addToCampaign !== false ? campaignId : undefined
+
+    // The number of locations and NPCs is only known once the mission is written, so the most it can take is reserved
+    const quota = await consumeGenerationQuota(supabase, user, 'generate/adventure', MAX_ADVENTURE_GENERATIONS)
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota)
+    }
+
+    // Requested language, else the UI locale (next-intl cookie); detected from the scenario when neither is set
+    const language = [requestedLanguage, request.cookies.get('NEXT_LOCALE')?.value].find(isLocale)
+    const bundle = await withUsageRecording(createUsageRecorder(supabase, user, 'generate/adventure'), () =>
+      generateAdventureBundle(
+        scenario.trim(),
+        advancedInput,
+        generationParams,
+        adventureContext,
+        language
+      )
+    )
+
+    // Save everything in one insert so a failed save leaves no partial adventure behind
+    // Each item keeps the campaign it was built from in its provenance
+    const withCampaign = (provenance: GenerationProvenance): GenerationProvenance =>
+      campaignId ? { ...provenance, campaignId } : provenance
+    const entries: { type: ContentType; scenario: string; content: GeneratedContent; provenance: GenerationProvenance }[] = [
+      { type: 'mission', scenario: scenario.trim(), content: bundle.mission, provenance: withCampaign(bundle.provenance.mission) },
+      ...bundle.environments.map((environment, index) => ({
+        type: 'environment' as const,
+        scenario: `${environment.name} (${bundle.mission.title})`,
+        content: environment,
+        provenance: withCampaign(bundle.provenance.environments[index]),
+      })),
+      ...bundle.characters.map((character, index) => ({
+        type: 'character' as const,
+        scenario: `${character.name} (${bundle.mission.title})`,
+        content: character,
+        provenance: withCampaign(bundle.provenance.characters[index]),
+      })),
+    ]
+
+    const { data: savedRows, error: insertError } = await supabase
+      .from('generated_content')
+      .insert(entries.map((entry) => ({
+        user_id: user.id,
+        type: entry.type,
+        scenario_input: entry.scenario,
+        content_data: entry.content,
+        language: bundle.language,
+        generation_metadata: entry.provenance,
+      })))
+      .select()
+
+    if (insertError || !savedRows || savedRows.length !== entries.length) {
+      console.error('Supabase insert error:', insertError)
+      return new Response(
+        JSON.stringify({
+          error: 'Failed to save adventure',
+          message: insertError?.message || 'Unknown error',
+        }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Rows come back in insert order: mission, environments, characters
+    const [savedMission, ...savedChildren] = savedRows
+    const savedEnvironments = savedChildren.slice(0, bundle.environments.length)
+    const savedCharacters = savedChildren.slice(bundle.environments.length)
+
+    const linkRows = [
+      ...savedEnvironments.map((environment) => ({
+        source_content_id: environment.id,
+        target_content_id: savedMission.id,
+        link_type: 'part_of',
+      })),
+      ...savedCharacters.map((character) => ({
+        source_content_id: savedMission.id,
+        target_content_id: character.id,
+        link_type: 'involves',
+      })),
+      ...savedCharacters.flatMap((character, characterIndex) =>
+        bundle.npcLocations[characterIndex].map((environmentIndex) => ({
+          source_content_id: character.id,
+          target_content_id: savedEnvironments[environmentIndex].id,
+          link_type: 'located_in',
+        }))
+      ),
+    ].map((link) => ({ user_id: user.id, ...link }))
+
+    // The content is already saved, so failed links or campaign assignment are not fatal
+    const { data: links, error: linkError } = await supabase
+      .from('content_links')
+      .insert(linkRows)
+      .select()
+
+    if (linkError) {
+      console.error('Supabase link insert error:', linkError)
+    }
+
+    let campaignError: string | null = null
+    if (targetCampaignId) {
+      const sequenceResult = await supabase
+        .from('campaign_content')
+        .select('sequence')
+        .eq('campaign_id', targetCampaignId)
+        .order('sequence', { ascending: false })
+        .limit(1)
+
+      if (sequenceResult.error) {
+        console.error('Supabase query error:', sequenceResult.error)
+        campaignError = sequenceResult.error.message
+      } else {
+        const lastSequence = sequenceResult.data?.[0]?.sequence
+        const firstSequence = typeof lastSequence === 'number' ? lastSequence + 1 : 0
+
+        const { error } = await supabase
+          .from('campaign_content')
+          .insert(savedRows.map((row, index) => ({
+            campaign_id: targetCampaignId,
+            content_id: row.id,
+            sequence: firstSequence + index,
+            notes: '',
+          })))
+
+        if (error) {
+          console.error('Supabase campaign insert error:', error)
+          campaignError = error.message
+        }
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        data: {
+          mission: savedMission,
+          environments: savedEnvironments,
+          characters: savedCharacters,
+          links: links ?? [],
+          contextSources,
+          ...(targetCampaignId ? { campaignId: targetCampaignId, campaignError } : {}),
+        },
+      }),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    )
+  } catch (error: any) {
+    console.error('Adventure generation error:', error)
+
+    // Handle authentication and verification errors
+    if (error.status === 401 || error.status === 403) {
+      return new Response(
+        JSON.stringify({
+          error: error.message || 'Unauthorized',
+        }),
+        { status: error.status, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to generate adventure',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
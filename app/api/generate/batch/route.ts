@@ -0,0 +1,337 @@
+/**
+ * API Route for Batch Content Generation
+ *
+ * POST: Runs a list of generation jobs ({ scenario, contentType, advancedInput, generationParams }) with bounded
+ * concurrency and streams per-job progress as newline-delimited JSON.
+ * With `campaignId`, each job gets a campaign context built from the entries most relevant to its scenario.
+ * With `autoSave`, every generated item is saved to the library with the shared `tags` and,
+ * when `campaignId` is set, appended to that campaign in job order.
+ */
+
+import { NextRequest } from 'next/server'
+import { requireVerifiedEmail, createServerClient } from '@/lib/supabase-server'
+import { streamRPGContent } from '@/lib/ai'
+import { consumeGenerationQuota, quotaExceededResponse } from '@/lib/quotas'
+import { createUsageRecorder, withUsageRecording } from '@/lib/usage'
+import { buildCampaignContext } from '@/lib/campaign-context'
+import { isLocale } from '@/i18n/config'
+import type { BatchGenerationJob, ContentType, GenerationProvenance } from '@/types/rpg'
+
+// Jobs generated at the same time; the rest wait for a free slot
+const BATCH_CONCURRENCY = 3
+const MAX_BATCH_JOBS = 20
+
+const CONTENT_TYPES: ContentType[] = ['character', 'environment', 'mission', 'item', 'monster', 'faction']
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate user and require email verification
+    const user = await requireVerifiedEmail(request)
+
+    // Parse request body
+    const body = await request.json()
+    const { jobs, language: requestedLanguage, campaignContext, autoSave, tags, campaignId } = body as {
+      jobs: BatchGenerationJob[]
+      language?: string
+      campaignContext?: string
+      autoSave?: boolean
+      tags?: string[]
+      campaignId?: string
+    }
+
+    if (!Array.isArray(jobs) || jobs.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required field: jobs' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (jobs.length > MAX_BATCH_JOBS) {
+      return new Response(
+        JSON.stringify({ error: `A batch can have at most ${MAX_BATCH_JOBS} jobs` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const invalidIndex = jobs.findIndex(
+      (job) => !job || typeof job.scenario !== 'string' || !job.scenario.trim() || !CONTENT_TYPES.includes(job.contentType)
+    )
+    if (invalidIndex !== -1) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid job',
+          message: `Job ${invalidIndex + 1} needs a scenario and a valid contentType.`,
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (tags !== undefined && (!Array.isArray(tags) || tags.some((tag) => typeof tag !== 'string'))) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid tags format' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Create authenticated Supabase client
+    const authHeader = request.headers.get('authorization')
+    let supabase = await createServerClient()
+
+    if (authHeader?.startsWith('Bearer ')) {
+      const token = authHeader.substring(7)
+      const { createClient } = await import('@supabase/supabase-js')
+      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ''
+      const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
+      supabase = createClient(supabaseUrl, supabaseAnonKey, {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      })
+    }
+
+    if (campaignId) {
+      const campaignCheck = await supabase
+        .from('campaigns')
+        .select('id')
+        .eq('id', campaignId)
+        .eq('user_id', user.id)
+        .single()
+
+      if (campaignCheck.error || !campaignCheck.data) {
+        return new Response(
+          JSON.stringify({ error: 'Campaign not found' }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        )
+      }
+    }
+
+    // Saved campaign items are appended after the campaign's current last item, in job order
+    let firstSequence = 0
+    if (campaignId && autoSave) {
+      const sequenceResult = await supabase
+        .from('campaign_content')
+        .select('sequence')
+        .eq('campaign_id', campaignId)
+        .order('sequence', { ascending: false })
+        .limit(1)
+
+      if (sequenceResult.error) {
+        console.error('Supabase query error:', sequenceResult.error)
+        return new Response(
+          JSON.stringify({
+            error: 'Failed to determine campaign order',
+            message: sequenceResult.error.message,
+          }),
+          { status: 500, headers: { 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const lastSequence = sequenceResult.data?.[0]?.sequence
+      firstSequence = typeof lastSequence === 'number' ? lastSequence + 1 : 0
+    }
+
+    const quota = await consumeGenerationQuota(supabase, user, 'generate/batch', jobs.length)
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota)
+    }
+
+    // Requested language, else the UI locale (next-intl cookie); detected per scenario when neither is set
+    const language = [requestedLanguage, request.cookies.get('NEXT_LOCALE')?.value].find(isLocale)
+    const sharedContext = typeof campaignContext === 'string' ? campaignContext : undefined
+    const sharedTags = (tags || []).map((tag) => tag.trim()).filter((tag) => tag.length > 0)
+    const usageRecorder = createUsageRecorder(supabase, user, 'generate/batch')
+
+    // Stream newline-delimited JSON events back:
+    // { event: 'start', total }, then per job { event: 'item-start', index } followed by
+    // { event: 'item-complete', index, type, content, scenario, corrections, language, contextSources, provenance, savedId?, saveError? }
+    // or { event: 'item-error', index, error, message }, and finally { event: 'complete', total, succeeded, failed, savedIds }
+    const stream = new ReadableStream({
+      async start(controller) {
+        const encoder = new TextEncoder()
+        const send = (payload: unknown) => {
+          controller.enqueue(encoder.encode(JSON.stringify(payload) + '\n'))
+        }
+
+        let succeeded = 0
+        let failed = 0
+        const savedIds: (string | null)[] = jobs.map(() => null)
+
+        async function saveItem(
+          index: number,
+          type: ContentType,
+          scenario: string,
+          content: unknown,
+          itemLanguage: string,
+          provenance: GenerationProvenance
+        ): Promise<string> {
+          // Build insert object - tags, language and generation_metadata work after their migrations are run
+          const baseData: Record<string, unknown> = {
+            user_id: user.id,
+            type,
+            scenario_input: scenario,
+            content_data: content,
+          }
+          const insertData: Record<string, unknown> = { ...baseData, language: itemLanguage, generation_metadata: provenance }
+          if (sharedTags.length > 0) insertData.tags = sharedTags
+
+          let { data, error } = await supabase
+            .from('generated_content')
+            .insert(insertData)
+            .select('id')
+            .single()
+
+          // If error is due to missing columns (migration not run), save without the optional columns
+          if (error && (error.code === 'PGRST204' || error.code === '42703')) {
+            const fallbackResult = await supabase
+              .from('generated_content')
+              .insert(baseData)
+              .select('id')
+              .single()
+            data = fallbackResult.data
+            error = fallbackResult.error
+          }
+
+          if (error || !data) {
+            throw new Error(error?.message || 'Failed to save content')
+          }
+
+          if (campaignId) {
+            const { error: campaignError } = await supabase
+              .from('campaign_content')
+              .insert({
+                campaign_id: campaignId,
+                content_id: data.id,
+                sequence: firstSequence + index,
+                notes: '',
+              })
+
+            if (campaignError) {
+              // The item is already saved, so a failed campaign assignment is reported but not fatal
+              console.error('Supabase campaign insert error:', campaignError)
+              throw new Error(`Saved, but not added to the campaign: ${campaignError.message}`)
+            }
+          }
+
+          return data.id as string
+        }
+
+        async function runJob(index: number) {
+          const job = jobs[index]
+          const scenario = job.scenario.trim()
+          send({ event: 'item-start', index })
+
+          try {
+            const builtContext = campaignId ? await buildCampaignContext(supabase, user.id, campaignId, scenario) : null
+            const generation = await withUsageRecording(usageRecorder, () =>
+              streamRPGContent(
+                scenario,
+                job.contentType,
+                job.advancedInput,
+                job.generationParams,
+                builtContext?.context ?? sharedContext,
+                language
+              )
+            )
+            // Partial objects are not forwarded in a batch; drain them so the final object resolves
+            for await (const partial of generation.partialObjectStream) {
+              void partial
+            }
+            const content = await generation.content
+            const corrections = await generation.corrections
+            const generationProvenance = await generation.provenance
+            const provenance = campaignId ? { ...generationProvenance, campaignId } : generationProvenance
+
+            let savedId: string | undefined
+            let saveError: string | undefined
+            if (autoSave) {
+              try {
+                savedId = await saveItem(index, job.contentType, scenario, content, generation.language, provenance)
+                savedIds[index] = savedId
+              } catch (error) {
+                console.error('Batch save error:', error)
+                saveError = error instanceof Error ? error.message : 'Unknown error'
+              }
+            }
+
+            succeeded++
+            send({
+              event: 'item-complete',
+              index,
+              type: job.contentType,
+              content,
+              scenario,
+              corrections,
+              language: generation.language,
+              contextSources: builtContext?.sources ?? [],
+              provenance,
+              ...(savedId ? { savedId } : {}),
+              ...(saveError ? { saveError } : {}),
+            })
+          } catch (error) {
+            console.error(`Batch generation error (job ${index + 1}):`, error)
+            failed++
+            send({
+              event: 'item-error',
+              index,
+              error: 'Failed to generate content',
+              message: error instanceof Error ? error.message : 'Unknown error',
+            })
+          }
+        }
+
+        try {
+          send({ event: 'start', total: jobs.length })
+
+          // Each worker takes the next pending job until none are left
+          let nextIndex = 0
+          const workers = Array.from({ length: Math.min(BATCH_CONCURRENCY, jobs.length) }, async () => {
+            while (nextIndex < jobs.length) {
+              await runJob(nextIndex++)
+            }
+          })
+          await Promise.all(workers)
+
+          send({
+            event: 'complete',
+            total: jobs.length,
+            succeeded,
+            failed,
+            savedIds: savedIds.filter((id): id is string => id !== null),
+          })
+        } finally {
+          controller.close()
+        }
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    })
+  } catch (error: any) {
+    console.error('Batch generation error:', error)
+
+    // Handle authentication and verification errors
+    if (error.status === 401 || error.status === 403) {
+      return new Response(
+        JSON.stringify({
+          error: error.message || 'Unauthorized',
+        }),
+        { status: error.status, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to run batch generation',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
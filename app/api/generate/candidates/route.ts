@@ -0,0 +1,202 @@
+/**
+ * API Route for Multi-Candidate Generation
+ *
+ * POST: Generates `count` candidates (2-4) of the same scenario in parallel, for the generator to keep one or
+ * combine sections from several (see lib/candidates.ts). Takes the same fields as /api/generate.
+ * Candidates share one output language: the first candidate resolves it, the others are generated in it.
+ * Each candidate counts as a generation against the user's quota (see lib/quotas.ts).
+ */
+
+import { NextRequest } from 'next/server'
+import { requireVerifiedEmail, createServerClient } from '@/lib/supabase-server'
+import { streamRPGContent } from '@/lib/ai'
+import { buildCampaignContext } from '@/lib/campaign-context'
+import { MAX_CANDIDATES, MIN_CANDIDATES } from '@/lib/candidates'
+import { consumeGenerationQuota, quotaExceededResponse } from '@/lib/quotas'
+import { createUsageRecorder, withUsageRecording } from '@/lib/usage'
+import { isLocale } from '@/i18n/config'
+import type { ContentType, AdvancedInput, AdvancedGenerationParams, CampaignContextSource } from '@/types/rpg'
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate user and require email verification
+    const user = await requireVerifiedEmail(request)
+
+    // Parse request body
+    const body = await request.json()
+    const { scenario, contentType, advancedInput, generationParams, campaignId, count } = body as {
+      scenario: string
+      contentType: ContentType
+      advancedInput?: AdvancedInput
+      generationParams?: AdvancedGenerationParams
+      campaignContext?: string
+      campaignId?: string
+      language?: string
+      count: number
+    }
+    let campaignContext = typeof body.campaignContext === 'string' ? body.campaignContext : undefined
+
+    if (!scenario || !contentType) {
+      return new Response(
+        JSON.stringify({ error: 'Missing scenario or contentType' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!['character', 'environment', 'mission', 'item', 'monster', 'faction'].includes(contentType)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid contentType' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!Number.isInteger(count) || count < MIN_CANDIDATES || count > MAX_CANDIDATES) {
+      return new Response(
+        JSON.stringify({ error: `count must be an integer from ${MIN_CANDIDATES} to ${MAX_CANDIDATES}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Create authenticated Supabase client
+    const authHeader = request.headers.get('authorization')
+    let supabase = await createServerClient()
+
+    if (authHeader?.startsWith('Bearer ')) {
+      const token = authHeader.substring(7)
+      const { createClient } = await import('@supabase/supabase-js')
+      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ''
+      const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
+      supabase = createClient(supabaseUrl, supabaseAnonKey, {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      })
+    }
+
+    // Campaign context: built from the campaign when one is given, else the caller's own context text
+    let contextSources: CampaignContextSource[] = []
+    if (campaignId) {
+      const builtContext = await buildCampaignContext(supabase, user.id, campaignId, scenario)
+      if (!builtContext) {
+        return new Response(
+          JSON.stringify({ error: 'Campaign not found' }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        )
+      }
+      campaignContext = builtContext.context
+      contextSources = builtContext.sources
+    }
+
+    const quota = await consumeGenerationQuota(supabase, user, 'generate/candidates', count)
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota)
+    }
+
+    // Requested language, else the UI locale (next-intl cookie); detected from the scenario when neither is set
+    const requestedLanguage = [body.language, request.cookies.get('NEXT_LOCALE')?.value].find(isLocale)
+    const usageRecorder = createUsageRecorder(supabase, user, 'generate/candidates')
+    const generations = await withUsageRecording(usageRecorder, async () => {
+      const first = await streamRPGContent(scenario, contentType, advancedInput, generationParams, campaignContext, requestedLanguage)
+      const others = await Promise.all(
+        Array.from({ length: count - 1 }, () =>
+          streamRPGContent(scenario, contentType, advancedInput, generationParams, campaignContext, first.language)
+        )
+      )
+      return [first, ...others]
+    })
+    const language = generations[0].language
+
+    // Stream newline-delimited JSON events back:
+    // { event: 'start', total }, then per candidate, in the order they finish,
+    // { event: 'candidate-complete', index, content, corrections, provenance } or
+    // { event: 'candidate-error', index, error, message }, and finally
+    // { event: 'complete', type, scenario, language, contextSources, succeeded, failed }
+    const stream = new ReadableStream({
+      async start(controller) {
+        const encoder = new TextEncoder()
+        const send = (payload: unknown) => {
+          controller.enqueue(encoder.encode(JSON.stringify(payload) + '\n'))
+        }
+
+        let succeeded = 0
+        let failed = 0
+
+        try {
+          send({ event: 'start', total: count })
+
+          await Promise.all(generations.map(async (generation, index) => {
+            try {
+              // Partial objects are not forwarded for candidates; drain them so the final object resolves
+              for await (const partial of generation.partialObjectStream) {
+                void partial
+              }
+              const content = await generation.content
+              const corrections = await generation.corrections
+              const provenance = await generation.provenance
+
+              succeeded++
+              send({
+                event: 'candidate-complete',
+                index,
+                content,
+                corrections,
+                provenance: campaignId ? { ...provenance, campaignId } : provenance,
+              })
+            } catch (error) {
+              console.error(`Candidate generation error (candidate ${index + 1}):`, error)
+              failed++
+              send({
+                event: 'candidate-error',
+                index,
+                error: 'Failed to generate content',
+                message: error instanceof Error ? error.message : 'Unknown error',
+              })
+            }
+          }))
+
+          send({
+            event: 'complete',
+            type: contentType,
+            scenario,
+            language,
+            contextSources,
+            succeeded,
+            failed,
+          })
+        } finally {
+          controller.close()
+        }
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    })
+  } catch (error: any) {
+    console.error('Candidate generation error:', error)
+
+    // Handle authentication and verification errors
+    if (error.status === 401 || error.status === 403) {
+      return new Response(
+        JSON.stringify({
+          error: error.message || 'Unauthorized',
+        }),
+        { status: error.status, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to generate candidates',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
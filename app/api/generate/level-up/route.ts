@@ -0,0 +1,276 @@
+/**
+ * API Route for Leveling Up a Saved Character
+ *
+ * POST: Advances a character one level - new class features and spells, an optional Ability Score Improvement,
+ * recomputed proficiency, skills and combat stats - saves it and records a content version.
+ * Multiclassed characters level up in `className` (default: the primary class); a new class name multiclasses.
+ * Locked fields (locked_fields) keep their current value: a locked spells list gains no spells, and so on.
+ * The rules validator never edits a locked field; derived values (skill modifiers, combat stats) match what was kept.
+ */
+
+import { NextRequest } from 'next/server'
+import { requireVerifiedEmail, createServerClient } from '@/lib/supabase-server'
+import { generateCharacterLevelUp } from '@/lib/ai'
+import { consumeGenerationQuota, quotaExceededResponse } from '@/lib/quotas'
+import { createUsageRecorder, withUsageRecording } from '@/lib/usage'
+import { getAbilityScoreIncreaseError, getCharacterClasses, getClassRules, getMulticlassPrerequisiteError, validateCharacter, validateLockedCharacter } from '@/lib/dnd-rules'
+import { getLockedFields } from '@/lib/field-locks'
+import type { AbilityScoreIncrease, Character } from '@/types/rpg'
+
+const ABILITY_ABBREVIATIONS: Record<keyof Character['attributes'], string> = {
+  strength: 'STR',
+  dexterity: 'DEX',
+  constitution: 'CON',
+  intelligence: 'INT',
+  wisdom: 'WIS',
+  charisma: 'CHA',
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate user and require email verification
+    const user = await requireVerifiedEmail(request)
+
+    // Parse request body
+    const body = await request.json()
+    const { contentId, className, abilityScoreIncrease } = body as {
+      contentId: string
+      className?: string
+      abilityScoreIncrease?: AbilityScoreIncrease
+    }
+
+    if (!contentId) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required field: contentId' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Create authenticated Supabase client
+    const authHeader = request.headers.get('authorization')
+    let supabase = await createServerClient()
+
+    if (authHeader?.startsWith('Bearer ')) {
+      const token = authHeader.substring(7)
+      const { createClient } = await import('@supabase/supabase-js')
+      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ''
+      const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
+      supabase = createClient(supabaseUrl, supabaseAnonKey, {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      })
+    }
+
+    const { data: existingContent, error: fetchError } = await supabase
+      .from('generated_content')
+      .select('type, content_data, scenario_input, locked_fields')
+      .eq('id', contentId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (fetchError || !existingContent) {
+      return new Response(
+        JSON.stringify({ error: 'Content not found or access denied' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (existingContent.type !== 'character') {
+      return new Response(
+        JSON.stringify({ error: 'Only characters can level up' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const character = existingContent.content_data as Character
+    const newLevel = (Number(character.level) || 1) + 1
+    if (newLevel > 20) {
+      return new Response(
+        JSON.stringify({ error: 'Character is already level 20' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // The class gaining the level: an existing class, or a new one to multiclass into
+    const currentClasses = getCharacterClasses(character)
+    const targetName = className?.trim() || currentClasses[0].name
+    const targetRules = getClassRules(targetName)
+    const existingClass = currentClasses.find((c) => c.name === targetName || (!!targetRules && getClassRules(c.name) === targetRules))
+    const classes = existingClass
+      ? currentClasses.map((c) => (c === existingClass ? { ...c, level: c.level + 1 } : c))
+      : [...currentClasses, { name: targetName, level: 1 }]
+    const leveledClass = classes.find((c) => c.name === (existingClass?.name ?? targetName))!
+
+    if (!existingClass) {
+      const prerequisiteError = getMulticlassPrerequisiteError(character, targetName)
+      if (prerequisiteError) {
+        return new Response(
+          JSON.stringify({ error: 'Multiclass prerequisites not met', message: prerequisiteError }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        )
+      }
+    }
+
+    const lockedFields = getLockedFields('character', existingContent.locked_fields)
+    const hasIncrease = abilityScoreIncrease && Object.keys(abilityScoreIncrease).length > 0
+    if (hasIncrease && lockedFields.includes('attributes')) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid ability score increase', message: 'Attributes are locked on this character.' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+    if (hasIncrease) {
+      const increaseError = getAbilityScoreIncreaseError(character, leveledClass.name, leveledClass.level, abilityScoreIncrease)
+      if (increaseError) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid ability score increase', message: increaseError }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        )
+      }
+    }
+
+    // Nothing to generate when both lists are locked
+    const generatesGains = !lockedFields.includes('classFeatures') || !lockedFields.includes('spells')
+    if (generatesGains) {
+      const quota = await consumeGenerationQuota(supabase, user, 'generate/level-up')
+      if (!quota.allowed) {
+        return quotaExceededResponse(quota)
+      }
+    }
+    const gained = generatesGains
+      ? await withUsageRecording(createUsageRecorder(supabase, user, 'generate/level-up'), () =>
+          generateCharacterLevelUp(existingContent.scenario_input, character, leveledClass.name, leveledClass.level)
+        )
+      : { classFeatures: [], spells: [] }
+    const isMulticlass = classes.length > 1
+
+    // Merge the gains; the validator adds any missing SRD feature and recomputes skills and combat stats
+    const knownFeatures = new Set((character.classFeatures || []).map((f) => f.name.trim().toLowerCase()))
+    const knownSpells = new Set((character.spells || []).map((s) => s.name.trim().toLowerCase()))
+    const newFeatures = gained.classFeatures
+      .filter((f) => !knownFeatures.has(f.name.trim().toLowerCase()))
+      .map((f) => (isMulticlass ? { ...f, className: leveledClass.name } : f))
+    const newSpells = gained.spells.filter((s) => !knownSpells.has(s.name.trim().toLowerCase()))
+    const attributes = { ...character.attributes }
+    if (hasIncrease) {
+      for (const [key, amount] of Object.entries(abilityScoreIncrease) as [keyof Character['attributes'], number][]) {
+        attributes[key] += amount
+      }
+    }
+
+    const validated = validateLockedCharacter({
+      ...character,
+      level: newLevel,
+      classes: isMulticlass ? classes : undefined,
+      attributes,
+      classFeatures: [...(character.classFeatures || []), ...newFeatures],
+      spells: [...(character.spells || []), ...newSpells],
+    }, character, lockedFields)
+    const leveledUp = validated.character
+    const corrections = validated.corrections
+
+    // Change summary, e.g. "Leveled up to 4: Ability Score Improvement; spells Shatter; STR +2; HP 27 -> 35"
+    const leveledUpClass = isMulticlass ? leveledClass.name : undefined
+    const addedFeatures = (leveledUp.classFeatures || [])
+      .filter((f) => f.level === leveledClass.level && (!leveledUpClass || f.className === leveledUpClass))
+      .map((f) => f.name)
+    const addedSpells = leveledUp.spells.filter((s) => !knownSpells.has(s.name.trim().toLowerCase())).map((s) => s.name)
+    const previousHitPoints = validateCharacter(character).character.combatStats?.hitPoints
+    const summaryParts: string[] = []
+    if (addedFeatures.length > 0) summaryParts.push(addedFeatures.join(', '))
+    if (addedSpells.length > 0) summaryParts.push(`spells ${addedSpells.join(', ')}`)
+    if (hasIncrease) {
+      summaryParts.push(
+        Object.entries(abilityScoreIncrease)
+          .map(([key, amount]) => `${ABILITY_ABBREVIATIONS[key as keyof Character['attributes']]} +${amount}`)
+          .join(', ')
+      )
+    }
+    if (previousHitPoints !== undefined && leveledUp.combatStats) {
+      summaryParts.push(`HP ${previousHitPoints} -> ${leveledUp.combatStats.hitPoints}`)
+    }
+    const levelLabel = isMulticlass ? `${newLevel} (${leveledClass.name} ${leveledClass.level})` : `${newLevel}`
+    const changeSummary = `Leveled up to ${levelLabel}${summaryParts.length > 0 ? `: ${summaryParts.join('; ')}` : ''}`
+
+    const { data, error } = await supabase
+      .from('generated_content')
+      .update({ content_data: leveledUp })
+      .eq('id', contentId)
+      .eq('user_id', user.id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Supabase update error:', error)
+      return new Response(
+        JSON.stringify({
+          error: 'Failed to save leveled up character',
+          message: error.message,
+        }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: versionRows, error: versionQueryError } = await supabase
+      .from('content_versions')
+      .select('version_number')
+      .eq('content_id', contentId)
+      .order('version_number', { ascending: false })
+      .limit(1)
+
+    if (versionQueryError) {
+      console.error('Supabase version query error:', versionQueryError)
+    } else {
+      const lastVersion = versionRows?.[0]?.version_number
+      const nextVersion = typeof lastVersion === 'number' ? lastVersion + 1 : 1
+
+      const { error: versionInsertError } = await supabase
+        .from('content_versions')
+        .insert({
+          content_id: contentId,
+          user_id: user.id,
+          version_number: nextVersion,
+          content_data: leveledUp,
+          change_summary: changeSummary,
+          changed_by: user.id,
+        })
+
+      if (versionInsertError) {
+        console.error('Supabase version insert error:', versionInsertError)
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data,
+        corrections,
+        changeSummary,
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+  } catch (error: any) {
+    console.error('Level up error:', error)
+
+    // Handle authentication and verification errors
+    if (error.status === 401 || error.status === 403) {
+      return new Response(
+        JSON.stringify({
+          error: error.message || 'Unauthorized',
+        }),
+        { status: error.status, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to level up character',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
@@ -2,12 +2,20 @@
  * API Route for Regenerating Specific Sections of Generated Content
  * 
  * POST: Regenerates a specific section while keeping the rest of the content intact
+ * The section is written in `language`, defaulting to the user's UI locale and then to detection.
+ * Optional `instructions` give the model free-text direction for the new section.
  */
 
 import { NextRequest } from 'next/server'
-import { getServerUser } from '@/lib/supabase-server'
+import { getServerUser, createServerClient } from '@/lib/supabase-server'
 import { generateRPGContentSection } from '@/lib/ai'
-import type { ContentType } from '@/types/rpg'
+import { consumeGenerationQuota, quotaExceededResponse } from '@/lib/quotas'
+import { createUsageRecorder, withUsageRecording } from '@/lib/usage'
+import { isLocale } from '@/i18n/config'
+import { validateCharacter } from '@/lib/dnd-rules'
+import type { Character, ContentType, RulesCorrection } from '@/types/rpg'
+
+const MAX_INSTRUCTIONS_LENGTH = 500
 
 export async function POST(request: NextRequest) {
   try {
@@ -28,12 +36,16 @@ export async function POST(request: NextRequest) {
       section,
       currentContent,
       sectionIndex,
+      language,
+      instructions,
     } = body as {
       scenario: string
       contentType: ContentType
       section: string
       currentContent: any
       sectionIndex?: number
+      language?: string
+      instructions?: string
     }
 
     if (!scenario || !contentType || !section || !currentContent) {
@@ -43,28 +55,72 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (!['character', 'environment', 'mission'].includes(contentType)) {
+    if (!['character', 'environment', 'mission', 'item', 'monster', 'faction'].includes(contentType)) {
       return new Response(
         JSON.stringify({ error: 'Invalid contentType' }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
       )
     }
 
+    if (instructions !== undefined && (typeof instructions !== 'string' || instructions.length > MAX_INSTRUCTIONS_LENGTH)) {
+      return new Response(
+        JSON.stringify({ error: `Instructions must be a string of at most ${MAX_INSTRUCTIONS_LENGTH} characters` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Create authenticated Supabase client
+    const authHeader = request.headers.get('authorization')
+    let supabase = await createServerClient()
+
+    if (authHeader?.startsWith('Bearer ')) {
+      const token = authHeader.substring(7)
+      const { createClient } = await import('@supabase/supabase-js')
+      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ''
+      const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
+      supabase = createClient(supabaseUrl, supabaseAnonKey, {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      })
+    }
+
+    const quota = await consumeGenerationQuota(supabase, user, 'generate/regenerate')
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota)
+    }
+
     // Generate the specific section (sectionIndex used for single-NPC npcs)
-    const regeneratedSection = await generateRPGContentSection(
-      scenario,
-      contentType,
-      section,
-      currentContent,
-      sectionIndex
+    const regeneratedSection = await withUsageRecording(createUsageRecorder(supabase, user, 'generate/regenerate'), () =>
+      generateRPGContentSection(
+        scenario,
+        contentType,
+        section,
+        currentContent,
+        sectionIndex,
+        [language, request.cookies.get('NEXT_LOCALE')?.value].find(isLocale),
+        instructions
+      )
     )
 
+    // Characters: run the 5e rules validator on the merged result and keep the corrected section
+    let sectionData: unknown = regeneratedSection
+    let corrections: RulesCorrection[] | undefined
+    if (contentType === 'character') {
+      const validated = validateCharacter({ ...currentContent, [section]: regeneratedSection } as Character)
+      sectionData = validated.character[section as keyof Character]
+      corrections = validated.corrections.filter((c) => c.field === section)
+    }
+
     // Build response; include index when regenerating a single array item (e.g. npcs[i])
-    const payload: { section: string; data: unknown; index?: number } = {
+    const payload: { section: string; data: unknown; index?: number; corrections?: RulesCorrection[] } = {
       section,
-      data: regeneratedSection,
+      data: sectionData,
     }
     if (typeof sectionIndex === 'number') payload.index = sectionIndex
+    if (corrections) payload.corrections = corrections
 
     // Stream the response back
     const stream = new ReadableStream({
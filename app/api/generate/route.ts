@@ -1,13 +1,26 @@
 /**
  * API Route for AI Content Generation
  * 
- * Uses Vercel AI SDK with OpenAI GPT-4o-mini for real-time streaming
+ * Uses Vercel AI SDK with the configured AI provider (see lib/ai-provider.ts).
+ * Streams partial objects as newline-delimited JSON so the generator can render fields as they arrive.
+ * Content is written in `language` (a UI locale), defaulting to the user's UI locale and then to detection.
+ * With `campaignId`, the campaign context is built on the server from the campaign entries most relevant to the scenario
+ * (see lib/campaign-context.ts) and the entries used are returned as `contextSources`.
+ * The complete event carries the generation `provenance`, which the client saves with the content.
+ * Counts against the user's generation quota (see lib/quotas.ts); 429 with Retry-After when a limit is reached.
  */
 
 import { NextRequest } from 'next/server'
-import { requireVerifiedEmail } from '@/lib/supabase-server'
-import { generateRPGContent } from '@/lib/ai'
-import type { ContentType, AdvancedInput, AdvancedGenerationParams } from '@/types/rpg'
+import { requireVerifiedEmail, createServerClient } from '@/lib/supabase-server'
+import { streamRPGContent } from '@/lib/ai'
+import { buildCampaignContext } from '@/lib/campaign-context'
+import { consumeGenerationQuota, quotaExceededResponse } from '@/lib/quotas'
+import { createUsageRecorder, withUsageRecording } from '@/lib/usage'
+import { isLocale } from '@/i18n/config'
+import type { ContentType, AdvancedInput, AdvancedGenerationParams, CampaignContextSource } from '@/types/rpg'
+
+// Minimum interval between partial object events
+const PARTIAL_THROTTLE_MS = 75
 
 export async function POST(request: NextRequest) {
   let advancedInput: AdvancedInput | undefined
@@ -28,6 +41,8 @@ export async function POST(request: NextRequest) {
       advancedInput?: AdvancedInput
       generationParams?: AdvancedGenerationParams
       campaignContext?: string
+      campaignId?: string
+      language?: string
     }
     scenario = parsed.scenario
     contentType = parsed.contentType
@@ -42,45 +57,108 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (!['character', 'environment', 'mission'].includes(contentType)) {
+    if (!['character', 'environment', 'mission', 'item', 'monster', 'faction'].includes(contentType)) {
       return new Response(
         JSON.stringify({ error: 'Invalid contentType' }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
       )
     }
 
-    // Generate content using OpenAI (requires OPENAI_API_KEY to be configured)
-    const content = await generateRPGContent(scenario, contentType, advancedInput, generationParams, campaignContext)
-    
-    // Stream the response back
+    // Create authenticated Supabase client
+    const authHeader = request.headers.get('authorization')
+    let supabase = await createServerClient()
+
+    if (authHeader?.startsWith('Bearer ')) {
+      const token = authHeader.substring(7)
+      const { createClient } = await import('@supabase/supabase-js')
+      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ''
+      const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
+      supabase = createClient(supabaseUrl, supabaseAnonKey, {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      })
+    }
+
+    // Campaign context: built from the campaign when one is given, else the caller's own context text
+    let contextSources: CampaignContextSource[] = []
+    if (parsed.campaignId) {
+      const builtContext = await buildCampaignContext(supabase, user.id, parsed.campaignId, scenario)
+      if (!builtContext) {
+        return new Response(
+          JSON.stringify({ error: 'Campaign not found' }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        )
+      }
+      campaignContext = builtContext.context
+      contextSources = builtContext.sources
+    }
+
+    const quota = await consumeGenerationQuota(supabase, user, 'generate')
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota)
+    }
+
+    // Generate content using the configured AI provider (see lib/ai-provider.ts)
+    // Requested language, else the UI locale (next-intl cookie); detected from the scenario when neither is set
+    const language = [parsed.language, request.cookies.get('NEXT_LOCALE')?.value].find(isLocale)
+    const resolvedContentType = contentType
+    const resolvedScenario = scenario
+    const generation = await withUsageRecording(createUsageRecorder(supabase, user, 'generate'), () =>
+      streamRPGContent(resolvedScenario, resolvedContentType, advancedInput, generationParams, campaignContext, language)
+    )
+
+    // Stream newline-delimited JSON events back:
+    // { event: 'partial', content } while the model writes, then
+    // { event: 'complete', type, content, scenario, corrections, language, contextSources, provenance }
     const stream = new ReadableStream({
       async start(controller) {
         const encoder = new TextEncoder()
-        
-        const responseData = {
-          type: contentType,
-          content,
-          scenario,
+        const send = (payload: unknown) => {
+          controller.enqueue(encoder.encode(JSON.stringify(payload) + '\n'))
         }
-        
-        const contentStr = JSON.stringify(responseData)
-        
-        // Send in chunks for streaming effect
-        const chunkSize = 100
-        for (let i = 0; i < contentStr.length; i += chunkSize) {
-          const chunk = contentStr.slice(i, i + chunkSize)
-          controller.enqueue(encoder.encode(chunk))
-          // Small delay for streaming effect
-          await new Promise((resolve) => setTimeout(resolve, 20))
+
+        try {
+          let lastSentAt = 0
+          for await (const partial of generation.partialObjectStream) {
+            // Throttle partial updates - each event carries the whole partial object
+            const now = Date.now()
+            if (now - lastSentAt < PARTIAL_THROTTLE_MS) continue
+            lastSentAt = now
+            send({ event: 'partial', content: partial })
+          }
+
+          const content = await generation.content
+          const corrections = await generation.corrections
+          const provenance = await generation.provenance
+          send({
+            event: 'complete',
+            type: resolvedContentType,
+            content,
+            scenario: resolvedScenario,
+            corrections,
+            language: generation.language,
+            contextSources,
+            provenance: parsed.campaignId ? { ...provenance, campaignId: parsed.campaignId } : provenance,
+          })
+        } catch (error) {
+          console.error('Streaming generation error:', error)
+          send({
+            event: 'error',
+            error: 'Failed to generate content',
+            message: error instanceof Error ? error.message : 'Unknown error',
+          })
+        } finally {
+          controller.close()
         }
-        
-        controller.close()
       },
     })
 
     return new Response(stream, {
       headers: {
-        'Content-Type': 'text/plain; charset=utf-8',
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
         'Cache-Control': 'no-cache',
         'Connection': 'keep-alive',
       },
@@ -2,11 +2,17 @@
  * API Route for Generating Content Variations
  * 
  * POST: Generates a variation of an existing content item
+ * Written in `language`, defaulting to the original's language, then the user's UI locale, then detection.
+ * Fields locked on the original (locked_fields) are kept unchanged in the variation.
  */
 
 import { NextRequest } from 'next/server'
 import { requireVerifiedEmail, createServerClient } from '@/lib/supabase-server'
-import { generateContentVariation } from '@/lib/ai'
+import { generateContentVariation, resolveOutputLanguage } from '@/lib/ai'
+import { consumeGenerationQuota, quotaExceededResponse } from '@/lib/quotas'
+import { createUsageRecorder, withUsageRecording } from '@/lib/usage'
+import { isLocale } from '@/i18n/config'
+import { getLockedFields } from '@/lib/field-locks'
 import type { ContentType } from '@/types/rpg'
 
 export async function POST(request: NextRequest) {
@@ -16,10 +22,11 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body = await request.json()
-    const { originalContentId, contentType, variationPrompt } = body as {
+    const { originalContentId, contentType, variationPrompt, language } = body as {
       originalContentId: string
       contentType: ContentType
       variationPrompt?: string
+      language?: string
     }
 
     if (!originalContentId || !contentType) {
@@ -29,7 +36,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (!['character', 'environment', 'mission'].includes(contentType)) {
+    if (!['character', 'environment', 'mission', 'item', 'monster', 'faction'].includes(contentType)) {
       return new Response(
         JSON.stringify({ error: 'Invalid contentType' }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
@@ -57,7 +64,7 @@ export async function POST(request: NextRequest) {
     // Fetch the original content
     const { data: originalContent, error: fetchError } = await supabase
       .from('generated_content')
-      .select('content_data, scenario_input')
+      .select('content_data, scenario_input, language, locked_fields')
       .eq('id', originalContentId)
       .eq('user_id', user.id)
       .single()
@@ -69,12 +76,25 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const quota = await consumeGenerationQuota(supabase, user, 'generate/variation')
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota)
+    }
+
     // Generate the variation
-    const variationContent = await generateContentVariation(
-      originalContent.content_data,
-      contentType,
-      originalContent.scenario_input,
-      variationPrompt
+    const variationLanguage = await resolveOutputLanguage(
+      [language, originalContent.language, request.cookies.get('NEXT_LOCALE')?.value].find(isLocale),
+      originalContent.scenario_input
+    )
+    const variation = await withUsageRecording(createUsageRecorder(supabase, user, 'generate/variation'), () =>
+      generateContentVariation(
+        originalContent.content_data,
+        contentType,
+        originalContent.scenario_input,
+        variationPrompt,
+        variationLanguage,
+        getLockedFields(contentType, originalContent.locked_fields)
+      )
     )
 
     // Save the variation to database
@@ -84,7 +104,9 @@ export async function POST(request: NextRequest) {
         user_id: user.id,
         type: contentType,
         scenario_input: `${originalContent.scenario_input} (Variation)`,
-        content_data: variationContent,
+        content_data: variation.content,
+        language: variationLanguage,
+        generation_metadata: variation.provenance,
       })
       .select()
       .single()
@@ -107,6 +129,8 @@ export async function POST(request: NextRequest) {
           type: savedContent.type,
           scenario_input: savedContent.scenario_input,
           content_data: savedContent.content_data,
+          language: savedContent.language,
+          generation_metadata: savedContent.generation_metadata,
           created_at: savedContent.created_at,
         }
       }),
@@ -44,7 +44,7 @@ export async function GET(request: NextRequest) {
       .order('updated_at', { ascending: false })
 
     // Apply type filter
-    if (type && ['character', 'environment', 'mission'].includes(type)) {
+    if (type && ['character', 'environment', 'mission', 'item', 'monster', 'faction'].includes(type)) {
       query = query.eq('type', type)
     }
 
@@ -114,7 +114,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (!['character', 'environment', 'mission'].includes(type)) {
+    if (!['character', 'environment', 'mission', 'item', 'monster', 'faction'].includes(type)) {
       return new Response(
         JSON.stringify({ 
           error: 'Invalid content type',
@@ -0,0 +1,159 @@
+"use client"
+
+import { useState } from "react"
+import { useTranslations } from "next-intl"
+import { Button } from "@/components/ui/button"
+import { ComparisonModalFrame, ContentTypeCard } from "@/components/rpg/content-comparison-modal"
+import { getCandidateSections, mergeCandidates } from "@/lib/candidates"
+import { cn } from "@/lib/utils"
+import type { ContentType, GenerationCandidate } from "@/types/rpg"
+
+interface CandidateComparisonModalProps {
+  contentType: ContentType
+  candidates: GenerationCandidate[]
+  isOpen: boolean
+  onClose: () => void
+  // Called with the kept candidate, or with the combination of several
+  onSelect: (selection: GenerationCandidate) => void
+}
+
+const GRID_COLUMNS: Record<number, string> = {
+  2: "md:grid-cols-2",
+  3: "md:grid-cols-2 xl:grid-cols-3",
+  4: "md:grid-cols-2 xl:grid-cols-4",
+}
+
+function getCandidateName(candidate: GenerationCandidate): string {
+  const content = candidate.content as { name?: string; title?: string }
+  return content.title || content.name || ""
+}
+
+function CandidatePicker({
+  label,
+  count,
+  value,
+  isAvailable,
+  onChange,
+}: {
+  label: string
+  count: number
+  value: number
+  isAvailable: (index: number) => boolean
+  onChange: (index: number) => void
+}) {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <span className="text-sm font-body font-semibold">{label}</span>
+      <div className="flex gap-1">
+        {Array.from({ length: count }, (_, index) => (
+          <button
+            key={index}
+            type="button"
+            onClick={() => onChange(index)}
+            disabled={!isAvailable(index)}
+            className={cn(
+              "h-8 w-8 rounded-md border-2 text-sm font-body transition-all disabled:cursor-not-allowed disabled:opacity-40",
+              value === index ? "border-primary bg-primary/10 font-semibold" : "border-border hover:border-primary/50"
+            )}
+          >
+            {index + 1}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export function CandidateComparisonModal({
+  contentType,
+  candidates,
+  isOpen,
+  onClose,
+  onSelect,
+}: CandidateComparisonModalProps) {
+  const t = useTranslations()
+  const sections = getCandidateSections(contentType, candidates)
+  // Combining: the candidate each section comes from, and the one for everything else; null while just comparing
+  const [sources, setSources] = useState<Record<string, number> | null>(null)
+  const [baseIndex, setBaseIndex] = useState(0)
+
+  const startCombining = () => {
+    setSources(Object.fromEntries(sections.map((section) => [section, baseIndex])))
+  }
+
+  const hasSection = (index: number, section: string) =>
+    Object.prototype.hasOwnProperty.call(candidates[index].content, section)
+
+  return (
+    <ComparisonModalFrame
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t("comparison.candidatesTitle")}
+      subtitle={t("comparison.candidatesSubtitle", { count: candidates.length })}
+      contentKey={candidates.map((candidate) => candidate.provenance.generatedAt).join(":")}
+      wide={candidates.length > 2}
+      headerActions={
+        <Button
+          variant={sources ? "default" : "outline"}
+          size="sm"
+          onClick={() => (sources ? setSources(null) : startCombining())}
+          className="font-body"
+        >
+          🧩 {t("comparison.combineSections")}
+        </Button>
+      }
+    >
+      {sources && (
+        <div className="border-b border-border bg-muted/20 p-4 space-y-4">
+          <p className="text-sm text-muted-foreground font-body">{t("comparison.combineHelp")}</p>
+          <div className="grid gap-x-8 gap-y-2 md:grid-cols-2">
+            <CandidatePicker
+              label={t("comparison.combineBase")}
+              count={candidates.length}
+              value={baseIndex}
+              isAvailable={() => true}
+              onChange={setBaseIndex}
+            />
+            {sections.map((section) => (
+              <CandidatePicker
+                key={section}
+                label={t(`library.lockableFields.${section}`)}
+                count={candidates.length}
+                value={sources[section]}
+                isAvailable={(index) => hasSection(index, section)}
+                onChange={(index) => setSources({ ...sources, [section]: index })}
+              />
+            ))}
+          </div>
+          <div className="flex justify-end">
+            <Button
+              onClick={() => onSelect(mergeCandidates(contentType, candidates, sources, baseIndex))}
+              className="font-body"
+            >
+              {t("comparison.useCombined")}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className={cn("grid grid-cols-1 gap-0", GRID_COLUMNS[candidates.length])}>
+        {candidates.map((candidate, index) => (
+          <div key={index} className="bg-background border-b md:border-r border-border">
+            <div className="p-4">
+              <div className="mb-4 pb-4 border-b border-border flex items-start justify-between gap-3">
+                <h3 className="font-display text-xl font-bold">
+                  {t("comparison.candidate", { index: index + 1 })}: {getCandidateName(candidate)}
+                </h3>
+                <Button size="sm" onClick={() => onSelect(candidate)} className="shrink-0 font-body">
+                  {t("comparison.keepCandidate")}
+                </Button>
+              </div>
+
+              <ContentTypeCard type={contentType} content={candidate.content} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </ComparisonModalFrame>
+  )
+}
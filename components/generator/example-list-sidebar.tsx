@@ -3,12 +3,17 @@
 import { useState } from "react"
 import { useTranslations } from "next-intl"
 import { DND_REFERENCE } from "@/lib/dnd-reference"
+import { SRD_SPELLS } from "@/lib/srd-spells"
 import type { ContentType } from "@/types/rpg"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
 import { cn } from "@/lib/utils"
 
 type AdvancedField = "class" | "race" | "background"
 
+// Classes with a spell list to filter the spells by
+const SPELLCASTING_CLASSES = DND_REFERENCE.classes.filter((name) => SRD_SPELLS.some((spell) => spell.classes.includes(name)))
+
 interface ExampleListSidebarProps {
   contentType: ContentType
   onInsertToScenario: (text: string) => void
@@ -76,8 +81,15 @@ export function ExampleListSidebar({
 }: ExampleListSidebarProps) {
   const t = useTranslations("generator")
   const [openMenuId, setOpenMenuId] = useState<string | null>(null)
+  const [spellClass, setSpellClass] = useState("")
+  const [spellQuery, setSpellQuery] = useState("")
 
   const isCharacter = contentType === "character"
+  const query = spellQuery.trim().toLowerCase()
+  const filteredSpells = SRD_SPELLS.filter(
+    (spell) => (!spellClass || spell.classes.includes(spellClass)) && (!query || spell.name.toLowerCase().includes(query))
+  )
+  const spellLevels = [...new Set(filteredSpells.map((spell) => spell.level))]
 
   return (
     <Card className="sticky top-24 h-fit max-h-[calc(100vh-8rem)] overflow-hidden flex flex-col border-2 border-primary/20">
@@ -188,47 +200,77 @@ export function ExampleListSidebar({
           </ul>
         </section>
 
-        {/* Spells */}
+        {/* Spells: the SRD spell list, filtered by class spell list and name */}
         <section>
           <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-2">
             {t("exampleListSpells")}
           </h4>
-          <div className="space-y-3">
-            {DND_REFERENCE.spellsByLevel.map(({ level, levelLabel, spells }) => (
-              <div key={level}>
-                <div className="text-[11px] font-medium text-muted-foreground/90 mb-1">
-                  {level === 0 ? t("exampleListSpellCantrip") : levelLabel}
-                </div>
-                <ul className="space-y-0.5">
-                  {spells.map((name) => {
-                    const id = `spell-${level}-${name}`
-                    return (
-                      <li key={id} className="relative">
-                        <button
-                          type="button"
-                          onClick={() => setOpenMenuId(openMenuId === id ? null : id)}
-                          className="w-full rounded px-2 py-1.5 text-left text-sm font-body hover:bg-primary/10 transition-colors flex items-center justify-between gap-2"
-                        >
-                          <span>{name}</span>
-                          <span className="text-muted-foreground">⋯</span>
-                        </button>
-                        {openMenuId === id && (
-                          <ItemMenu
-                            name={name}
-                            advancedField={null}
-                            advancedFieldLabel={null}
-                            onInsertToScenario={onInsertToScenario}
-                            onInsertToAdvanced={onInsertToAdvanced}
-                            onClose={() => setOpenMenuId(null)}
-                          />
-                        )}
-                      </li>
-                    )
-                  })}
-                </ul>
-              </div>
-            ))}
+          <div className="space-y-2 mb-3">
+            <select
+              value={spellClass}
+              onChange={(e) => setSpellClass(e.target.value)}
+              aria-label={t("exampleListSpellClass")}
+              className="w-full rounded-md border border-input bg-background px-2 py-1.5 text-sm font-body"
+            >
+              <option value="">{t("exampleListSpellAllClasses")}</option>
+              {SPELLCASTING_CLASSES.map((name) => (
+                <option key={name} value={name}>
+                  {t(`dnd.classes.${name}`)}
+                </option>
+              ))}
+            </select>
+            <Input
+              value={spellQuery}
+              onChange={(e) => setSpellQuery(e.target.value)}
+              placeholder={t("exampleListSpellSearch")}
+              aria-label={t("exampleListSpellSearch")}
+            />
           </div>
+          {spellLevels.length === 0 ? (
+            <p className="text-xs text-muted-foreground font-body">{t("exampleListSpellNoResults")}</p>
+          ) : (
+            <div className="space-y-3">
+              {spellLevels.map((level) => (
+                <div key={level}>
+                  <div className="text-[11px] font-medium text-muted-foreground/90 mb-1">
+                    {level === 0 ? t("exampleListSpellCantrip") : t("exampleListSpellLevel", { level })}
+                  </div>
+                  <ul className="space-y-0.5">
+                    {filteredSpells
+                      .filter((spell) => spell.level === level)
+                      .map((spell) => {
+                        const id = `spell-${spell.name}`
+                        return (
+                          <li key={id} className="relative">
+                            <button
+                              type="button"
+                              onClick={() => setOpenMenuId(openMenuId === id ? null : id)}
+                              title={`${spell.castingTime} · ${spell.range} · ${spell.components} · ${spell.duration}`}
+                              className="w-full rounded px-2 py-1.5 text-left text-sm font-body hover:bg-primary/10 transition-colors flex items-center justify-between gap-2"
+                            >
+                              <span>{spell.name}</span>
+                              <span className="text-[11px] text-muted-foreground">
+                                {[spell.concentration && "C", spell.ritual && "R"].filter(Boolean).join(" ")} ⋯
+                              </span>
+                            </button>
+                            {openMenuId === id && (
+                              <ItemMenu
+                                name={spell.name}
+                                advancedField={null}
+                                advancedFieldLabel={null}
+                                onInsertToScenario={onInsertToScenario}
+                                onInsertToAdvanced={onInsertToAdvanced}
+                                onClose={() => setOpenMenuId(null)}
+                              />
+                            )}
+                          </li>
+                        )
+                      })}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
         </section>
       </CardContent>
     </Card>
@@ -0,0 +1,126 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useLocale, useTranslations } from "next-intl"
+import { supabase } from "@/lib/supabase"
+import { formatDateTimeMedium } from "@/lib/date"
+import type { QuotaStatus, QuotaWindow, QuotaWindowId } from "@/lib/quotas"
+import { cn } from "@/lib/utils"
+
+interface GenerationQuotaProps {
+  // Changing it reloads the quota, e.g. after a generation
+  refreshKey?: number
+  // "summary" is one line for the generator; "detailed" shows each window with its reset time
+  variant?: "summary" | "detailed"
+  className?: string
+}
+
+/**
+ * Body of a 429 from an AI route (see quotaExceededResponse in lib/quotas.ts)
+ */
+interface QuotaErrorData {
+  exceeded?: QuotaWindowId
+  quota?: QuotaStatus
+}
+
+/**
+ * Localized message for a refused generation, or null when the response is not a 429
+ */
+export function useQuotaErrorMessage() {
+  const t = useTranslations("quota")
+  const locale = useLocale()
+
+  return (status: number, errorData: unknown): string | null => {
+    if (status !== 429) return null
+    const data = (errorData || {}) as QuotaErrorData
+    const exceeded = data.exceeded || "minute"
+    const quotaWindow = data.quota?.[exceeded]
+    return t(`exceeded.${exceeded}`, {
+      limit: quotaWindow?.limit ?? 0,
+      time: quotaWindow ? formatDateTimeMedium(quotaWindow.resetsAt, locale) : "",
+    })
+  }
+}
+
+function QuotaMeter({ label, usage }: { label: string; usage: QuotaWindow }) {
+  const t = useTranslations("quota")
+  const locale = useLocale()
+  const usedPercent = usage.limit > 0 ? Math.min(100, (usage.used / usage.limit) * 100) : 100
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-baseline justify-between gap-2 font-body">
+        <span className="text-sm font-semibold">{label}</span>
+        <span className="text-sm text-muted-foreground">
+          {t("remaining", { remaining: usage.remaining, limit: usage.limit })}
+        </span>
+      </div>
+      <div className="h-2 overflow-hidden rounded-full bg-muted">
+        <div
+          className={cn("h-full rounded-full", usage.remaining === 0 ? "bg-destructive" : "bg-primary")}
+          style={{ width: `${usedPercent}%` }}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground font-body">
+        {t("resetsAt", { time: formatDateTimeMedium(usage.resetsAt, locale) })}
+      </p>
+    </div>
+  )
+}
+
+export function GenerationQuota({ refreshKey = 0, variant = "summary", className }: GenerationQuotaProps) {
+  const t = useTranslations("quota")
+  const [quota, setQuota] = useState<QuotaStatus | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function loadQuota() {
+      try {
+        const { data: { session } } = await supabase.auth.getSession()
+        const accessToken = session?.access_token
+        if (!accessToken) return
+
+        const response = await fetch("/api/quota", {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+          },
+        })
+        if (!response.ok) return
+
+        const result = await response.json()
+        if (!cancelled) setQuota(result.data)
+      } catch (err) {
+        console.error("Failed to load generation quota", err)
+      }
+    }
+
+    loadQuota()
+    return () => {
+      cancelled = true
+    }
+  }, [refreshKey])
+
+  if (!quota) return null
+
+  if (variant === "summary") {
+    return (
+      <p className={cn("text-sm text-muted-foreground font-body", className)}>
+        {t("summary", { day: quota.day.remaining, month: quota.month.remaining })}
+      </p>
+    )
+  }
+
+  return (
+    <div className={cn("space-y-5", className)}>
+      <p className="font-display text-lg font-semibold">
+        {t("plan", { plan: t(`plans.${quota.plan}`) })}
+      </p>
+      <QuotaMeter label={t("today")} usage={quota.day} />
+      <QuotaMeter label={t("thisMonth")} usage={quota.month} />
+      <p className="text-sm text-muted-foreground font-body">
+        {t("rateLimit", { limit: quota.minute.limit })}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useLocale, useTranslations } from "next-intl"
+import { supabase } from "@/lib/supabase"
+import { formatDateWithLocale } from "@/lib/date"
+import type { UsageSummary, UsageTotals } from "@/lib/usage"
+import { cn } from "@/lib/utils"
+
+const RANGE_OPTIONS = [7, 30, 90] as const
+
+function UsageBreakdown({ title, rows }: { title: string; rows: { label: string; totals: UsageTotals }[] }) {
+  const t = useTranslations("usage")
+  const locale = useLocale()
+  const numberFormat = new Intl.NumberFormat(locale)
+  const costFormat = new Intl.NumberFormat(locale, { style: "currency", currency: "USD", maximumFractionDigits: 4 })
+  const maxTokens = Math.max(1, ...rows.map((row) => row.totals.totalTokens))
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-display text-lg font-semibold">{title}</h3>
+      {rows.map((row) => (
+        <div key={row.label} className="space-y-1">
+          <div className="flex items-baseline justify-between gap-2 text-sm font-body">
+            <span className="font-semibold">{row.label}</span>
+            <span className="text-muted-foreground">
+              {t("breakdownValue", {
+                tokens: numberFormat.format(row.totals.totalTokens),
+                calls: row.totals.calls,
+                cost: costFormat.format(row.totals.estimatedCost),
+              })}
+            </span>
+          </div>
+          <div className="h-2 overflow-hidden rounded-full bg-muted/30">
+            <div
+              className="h-full rounded-full bg-primary"
+              style={{ width: `${(row.totals.totalTokens / maxTokens) * 100}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function TokenUsage({ className }: { className?: string }) {
+  const t = useTranslations()
+  const locale = useLocale()
+  const [days, setDays] = useState<(typeof RANGE_OPTIONS)[number]>(30)
+  const [summary, setSummary] = useState<UsageSummary | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [loadFailed, setLoadFailed] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function loadUsage() {
+      setIsLoading(true)
+      setLoadFailed(false)
+      try {
+        const { data: { session } } = await supabase.auth.getSession()
+        const accessToken = session?.access_token
+        if (!accessToken) return
+
+        const response = await fetch(`/api/usage?days=${days}`, {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+          },
+        })
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({ error: "Unknown error" }))
+          throw new Error(errorData.error || "Failed to load usage")
+        }
+
+        const result = await response.json()
+        if (!cancelled) setSummary(result.data)
+      } catch (err) {
+        console.error("Failed to load token usage", err)
+        if (!cancelled) setLoadFailed(true)
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    loadUsage()
+    return () => {
+      cancelled = true
+    }
+  }, [days])
+
+  const numberFormat = new Intl.NumberFormat(locale)
+  const costFormat = new Intl.NumberFormat(locale, { style: "currency", currency: "USD", maximumFractionDigits: 4 })
+  // Days are UTC dates; format them at UTC noon so no time zone moves them to another day
+  const formatDay = (date: string, options: Intl.DateTimeFormatOptions) =>
+    formatDateWithLocale(`${date}T12:00:00Z`, locale, { ...options, timeZone: "UTC" })
+  const maxDayTokens = Math.max(1, ...(summary?.days || []).map((day) => day.totalTokens))
+
+  return (
+    <div className={cn("space-y-6", className)}>
+      <div className="flex flex-wrap gap-2">
+        {RANGE_OPTIONS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setDays(option)}
+            className={cn(
+              "rounded-md border-2 px-3 py-1.5 text-sm font-body transition-all",
+              days === option ? "border-primary bg-primary/10" : "border-border hover:border-primary/50"
+            )}
+          >
+            {t("usage.range", { days: option })}
+          </button>
+        ))}
+      </div>
+
+      {loadFailed && <p className="text-sm text-destructive font-body">{t("usage.loadError")}</p>}
+
+      {isLoading && !summary && (
+        <p className="text-sm text-muted-foreground font-body">{t("common.loading")}</p>
+      )}
+
+      {summary && (
+        <>
+          <div className="grid grid-cols-3 gap-3">
+            {[
+              { label: t("usage.calls"), value: numberFormat.format(summary.total.calls) },
+              { label: t("usage.tokens"), value: numberFormat.format(summary.total.totalTokens) },
+              { label: t("usage.estimatedCost"), value: costFormat.format(summary.total.estimatedCost) },
+            ].map((stat) => (
+              <div key={stat.label} className="rounded-lg border-2 border-border p-4 text-center">
+                <div className="font-display text-2xl font-bold">{stat.value}</div>
+                <div className="mt-1 text-sm text-muted-foreground font-body">{stat.label}</div>
+              </div>
+            ))}
+          </div>
+
+          {summary.total.calls === 0 ? (
+            <p className="text-sm text-muted-foreground font-body">{t("usage.empty")}</p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <h3 className="font-display text-lg font-semibold">{t("usage.perDay")}</h3>
+                <div className="flex h-40 items-end gap-px" role="img" aria-label={t("usage.perDay")}>
+                  {summary.days.map((day) => (
+                    <div
+                      key={day.date}
+                      className="flex h-full flex-1 flex-col justify-end"
+                      title={t("usage.dayTooltip", {
+                        date: formatDay(day.date, { dateStyle: "medium" }),
+                        tokens: numberFormat.format(day.totalTokens),
+                        prompt: numberFormat.format(day.promptTokens),
+                        completion: numberFormat.format(day.completionTokens),
+                        cost: costFormat.format(day.estimatedCost),
+                      })}
+                    >
+                      <div className="bg-primary" style={{ height: `${(day.completionTokens / maxDayTokens) * 100}%` }} />
+                      <div className="bg-primary/40" style={{ height: `${(day.promptTokens / maxDayTokens) * 100}%` }} />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-between text-xs text-muted-foreground font-body">
+                  <span>{formatDay(summary.days[0].date, { day: "numeric", month: "short" })}</span>
+                  <span className="flex gap-3">
+                    <span><span className="mr-1 inline-block h-2 w-2 rounded-sm bg-primary/40" />{t("usage.promptTokens")}</span>
+                    <span><span className="mr-1 inline-block h-2 w-2 rounded-sm bg-primary" />{t("usage.completionTokens")}</span>
+                  </span>
+                  <span>{formatDay(summary.days[summary.days.length - 1].date, { day: "numeric", month: "short" })}</span>
+                </div>
+              </div>
+
+              <div className="grid gap-6 md:grid-cols-2">
+                <UsageBreakdown
+                  title={t("usage.byContentType")}
+                  rows={summary.byContentType.map(({ contentType, ...totals }) => ({
+                    label: contentType ? t(`generator.contentType.${contentType}`) : t("usage.noContentType"),
+                    totals,
+                  }))}
+                />
+                <UsageBreakdown
+                  title={t("usage.byOperation")}
+                  rows={summary.byOperation.map(({ operation, section, ...totals }) => ({
+                    label: section
+                      ? t("usage.sectionOperation", { section })
+                      : t(`usage.operations.${operation}`),
+                    totals,
+                  }))}
+                />
+              </div>
+
+              <p className="text-xs text-muted-foreground font-body">{t("usage.costNote")}</p>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
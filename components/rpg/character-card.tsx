@@ -11,6 +11,8 @@ import {
 } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import type { Character } from "@/types/rpg"
+import { computeCombatStats } from "@/lib/dnd-rules"
+import { enrichSpell } from "@/lib/srd-spells"
 import { StatBar } from "./stat-bar"
 import { SkillBar } from "./skill-bar"
 import { ClassBadge } from "./class-badge"
@@ -55,6 +57,7 @@ export function CharacterCard({ character, isLoading = false, onRegenerateSectio
     classFeatures: boolean
     history: boolean
     personality: boolean
+    equipment: boolean
   }>({
     spells: false,
     traits: false,
@@ -62,6 +65,7 @@ export function CharacterCard({ character, isLoading = false, onRegenerateSectio
     classFeatures: false,
     history: false,
     personality: false,
+    equipment: false,
   })
 
   useEffect(() => {
@@ -73,6 +77,7 @@ export function CharacterCard({ character, isLoading = false, onRegenerateSectio
         classFeatures: true,
         history: true,
         personality: true,
+        equipment: true,
       })
     }
   
@@ -174,6 +179,22 @@ export function CharacterCard({ character, isLoading = false, onRegenerateSectio
 
   const classTheme = getClassTheme(character.class)
 
+  // Recomputed rather than read from combatStats so regenerated sections (equipment, skills) stay in sync
+  const combatStats = computeCombatStats(character)
+  const combatTiles = [
+    { label: t('rpg.combat.armorClass'), value: `${combatStats.armorClass}`, icon: '🛡️' },
+    { label: t('rpg.combat.hitPoints'), value: `${combatStats.hitPoints}`, detail: combatStats.hitDice, icon: '❤️' },
+    { label: t('rpg.combat.speed'), value: t('rpg.combat.speedValue', { speed: combatStats.speed }), icon: '🥾' },
+    { label: t('rpg.combat.initiative'), value: formatModifier(combatStats.initiative), icon: '⚡' },
+    { label: t('rpg.combat.meleeAttack'), value: formatModifier(combatStats.meleeAttackBonus), icon: '⚔️' },
+    { label: t('rpg.combat.rangedAttack'), value: formatModifier(combatStats.rangedAttackBonus), icon: '🏹' },
+  ]
+  const passiveScores = [
+    { label: t('rpg.combat.passivePerception'), value: combatStats.passivePerception },
+    { label: t('rpg.combat.passiveInvestigation'), value: combatStats.passiveInvestigation },
+    { label: t('rpg.combat.passiveInsight'), value: combatStats.passiveInsight },
+  ]
+
   return (
     <Card className="parchment ornate-border border-2 border-primary/20 print-card">
       {/* Character Header */}
@@ -183,7 +204,17 @@ export function CharacterCard({ character, isLoading = false, onRegenerateSectio
             <CardTitle className="font-display text-4xl mb-3">{character.name}</CardTitle>
             <div className="flex flex-wrap items-center gap-3">
               <RaceBadge race={character.race} size="md" />
-              <ClassBadge className={character.class} level={character.level} size="md" />
+              <ClassBadge className={character.class} level={character.level} classes={character.classes} size="md" />
+              {character.subclass && (
+                <span className="px-3 py-1.5 text-sm rounded-lg border-2 border-primary/30 bg-primary/10 font-semibold text-primary">
+                  {character.subclass}
+                </span>
+              )}
+              {character.alignment && (
+                <span className="px-3 py-1.5 text-sm rounded-lg border border-border bg-muted/50 font-semibold" title={t('rpg.alignment')}>
+                  ⚖️ {character.alignment}
+                </span>
+              )}
               <span className="px-3 py-1.5 text-sm rounded-lg border border-border bg-muted/50 font-semibold">
                 {character.background}
               </span>
@@ -202,6 +233,61 @@ export function CharacterCard({ character, isLoading = false, onRegenerateSectio
       </CardHeader>
 
       <CardContent className="p-6 space-y-4">
+        {/* Combat Statistics (derived from class, level and attributes) */}
+        <div className="border-2 border-red-500/30 rounded-xl overflow-hidden bg-gradient-to-br from-red-500/10 via-red-500/5 to-transparent">
+          <div className="p-4">
+            <div className="flex items-center gap-3 mb-4">
+              <div className="w-10 h-10 rounded-lg bg-red-500/20 border-2 border-red-500/30 flex items-center justify-center text-xl flex-shrink-0">
+                ⚔️
+              </div>
+              <div className="text-left">
+                <h3 className="font-display text-xl font-semibold">{t('rpg.combat.title')}</h3>
+                <p className="text-xs text-muted-foreground font-body mt-0.5">{t('rpg.combat.subtitle')}</p>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-2">
+              {combatTiles.map((tile) => (
+                <div key={tile.label} className="p-3 rounded-lg bg-gradient-to-r from-background/80 to-background/50 border-2 border-red-500/20 text-center">
+                  <div className="text-xs font-body text-muted-foreground font-semibold uppercase tracking-wide">{tile.icon} {tile.label}</div>
+                  <div className="text-2xl font-display font-bold">{tile.value}</div>
+                  {tile.detail && <div className="text-xs text-muted-foreground font-body">{tile.detail}</div>}
+                </div>
+              ))}
+            </div>
+            <div className="mt-3 flex flex-wrap gap-2 text-sm font-body">
+              {passiveScores.map((score) => (
+                <span key={score.label} className="px-3 py-1.5 rounded-lg border border-border bg-muted/50">
+                  {score.label} <strong>{score.value}</strong>
+                </span>
+              ))}
+              {combatStats.spellSaveDC !== undefined && (
+                <span className="px-3 py-1.5 rounded-lg border border-indigo-500/30 bg-indigo-500/10">
+                  {t('rpg.combat.spellSaveDC')} <strong>{combatStats.spellSaveDC}</strong>
+                </span>
+              )}
+              {combatStats.spellAttackBonus !== undefined && (
+                <span className="px-3 py-1.5 rounded-lg border border-indigo-500/30 bg-indigo-500/10">
+                  {t('rpg.combat.spellAttack')} <strong>{formatModifier(combatStats.spellAttackBonus)}</strong>
+                  {combatStats.spellcastingAbility && ` (${combatStats.spellcastingAbility})`}
+                </span>
+              )}
+            </div>
+            {combatStats.spellSlots.length > 0 && (
+              <div className="mt-3">
+                <div className="text-xs font-body text-muted-foreground mb-2 font-semibold uppercase tracking-wide">{t('rpg.combat.spellSlots')}</div>
+                <div className="flex flex-wrap gap-2">
+                  {combatStats.spellSlots.map((slot) => (
+                    <div key={slot.level} className="px-3 py-1.5 rounded-lg border-2 border-indigo-500/30 bg-indigo-500/10 text-sm font-body">
+                      <span className="text-muted-foreground">{t('rpg.combat.slotLevel', { level: slot.level })}</span>{' '}
+                      <strong>{'●'.repeat(slot.slots)}</strong>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
         {/* Top Section: Ability Scores and Skills */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 items-start print-grid-1">
           {/* Ability Scores - Left Column */}
@@ -510,7 +596,7 @@ export function CharacterCard({ character, isLoading = false, onRegenerateSectio
                                 >
                                   <div className="flex items-start gap-3 mb-3">
                                     <div className="px-3 py-1.5 bg-gradient-to-br from-primary/30 to-primary/20 text-primary border-2 border-primary/40 rounded-lg text-xs font-bold flex-shrink-0 shadow-sm">
-                                      {t('rpg.level')} {feature.level}
+                                      {feature.className ? `${feature.className} ` : ''}{t('rpg.level')} {feature.level}
                                     </div>
                                     <h4 className="font-display font-semibold text-base text-foreground group-hover:text-primary transition-colors flex-1">
                                       {feature.name}
@@ -622,11 +708,11 @@ export function CharacterCard({ character, isLoading = false, onRegenerateSectio
             {expandedSections.spells && (
               <div className="p-4 pt-0">
                 {(() => {
-                  // Group spells by level
+                  // Group spells by level; SRD details fill in spells saved before they were tracked
                   const spellsByLevel = character.spells.reduce((acc, spell) => {
                     const level = spell.level || 0
                     if (!acc[level]) acc[level] = []
-                    acc[level].push(spell)
+                    acc[level].push(enrichSpell(spell))
                     return acc
                   }, {} as Record<number, typeof character.spells>)
 
@@ -666,13 +752,52 @@ export function CharacterCard({ character, isLoading = false, onRegenerateSectio
                                   className={`p-4 rounded-lg bg-gradient-to-br from-background/80 to-background/50 border-2 ${border} hover:shadow-lg transition-all group`}
                                 >
                                   <div className="flex items-start justify-between mb-3">
-                                    <h4 className="font-display font-semibold text-base text-foreground group-hover:text-primary transition-colors flex-1">
-                                      {spell.name}
-                                    </h4>
-                                    <div className={`px-2 py-1 rounded-lg border-2 ${border} bg-gradient-to-br ${bgFrom} ${bgTo} ${textColor} text-xs font-bold flex-shrink-0 shadow-sm`}>
-                                      {t('rpg.level')} {spell.level}
+                                    <div className="flex-1">
+                                      <h4 className="font-display font-semibold text-base text-foreground group-hover:text-primary transition-colors">
+                                        {spell.name}
+                                      </h4>
+                                      {spell.school && (
+                                        <p className="text-xs font-body italic text-muted-foreground">
+                                          {t(`rpg.spell.schools.${spell.school}`)}
+                                        </p>
+                                      )}
+                                    </div>
+                                    <div className="flex items-center gap-1 flex-shrink-0">
+                                      {spell.concentration && (
+                                        <span className="px-1.5 py-1 rounded-lg border border-border bg-muted/50 text-xs font-bold" title={t('rpg.spell.concentration')}>
+                                          C
+                                        </span>
+                                      )}
+                                      {spell.ritual && (
+                                        <span className="px-1.5 py-1 rounded-lg border border-border bg-muted/50 text-xs font-bold" title={t('rpg.spell.ritual')}>
+                                          R
+                                        </span>
+                                      )}
+                                      <div className={`px-2 py-1 rounded-lg border-2 ${border} bg-gradient-to-br ${bgFrom} ${bgTo} ${textColor} text-xs font-bold shadow-sm`}>
+                                        {t('rpg.level')} {spell.level}
+                                      </div>
                                     </div>
                                   </div>
+                                  {spell.offClassList && (
+                                    <div className="mb-2 px-2 py-1 rounded-lg border border-amber-500/40 bg-amber-500/10 text-amber-700 dark:text-amber-400 text-xs font-semibold" title={t('rpg.spell.offClassListHint')}>
+                                      ⚠️ {t('rpg.spell.offClassList')}
+                                    </div>
+                                  )}
+                                  {spell.castingTime && (
+                                    <div className="grid grid-cols-2 gap-x-3 gap-y-1 mb-2 text-xs font-body">
+                                      {([
+                                        ['castingTime', spell.castingTime],
+                                        ['range', spell.range],
+                                        ['components', spell.components],
+                                        ['duration', spell.duration],
+                                      ] as const).map(([key, value]) => value && (
+                                        <div key={key}>
+                                          <span className="font-semibold text-foreground">{t(`rpg.spell.${key}`)}:</span>{' '}
+                                          <span className="text-muted-foreground">{value}</span>
+                                        </div>
+                                      ))}
+                                    </div>
+                                  )}
                                   <p className="text-sm font-body text-muted-foreground leading-relaxed">
                                     {spell.description}
                                   </p>
@@ -690,6 +815,133 @@ export function CharacterCard({ character, isLoading = false, onRegenerateSectio
           </div>
         )}
 
+        {/* Equipment Section */}
+        {character.equipment && (() => {
+          const equipment = character.equipment
+          const itemCount = equipment.weapons.length + equipment.armor.length + equipment.gear.length
+          const coins = (['pp', 'gp', 'ep', 'sp', 'cp'] as const).filter((coin) => equipment.currency?.[coin] > 0)
+          const encumbranceColors: Record<string, string> = {
+            unencumbered: 'border-green-500/30 bg-green-500/10 text-green-700 dark:text-green-400',
+            encumbered: 'border-yellow-500/30 bg-yellow-500/10 text-yellow-700 dark:text-yellow-400',
+            heavilyEncumbered: 'border-orange-500/30 bg-orange-500/10 text-orange-700 dark:text-orange-400',
+            overloaded: 'border-red-500/30 bg-red-500/10 text-red-700 dark:text-red-400',
+          }
+          return (
+            <div className="border-2 border-stone-500/30 rounded-xl overflow-hidden bg-gradient-to-br from-stone-500/10 via-stone-500/5 to-transparent">
+              <div
+                role="button"
+                tabIndex={0}
+                onClick={() => toggleSection("equipment")}
+                onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); toggleSection("equipment"); } }}
+                className="w-full p-4 hover:bg-stone-500/10 transition-colors flex items-center justify-between cursor-pointer"
+              >
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-stone-500/20 border-2 border-stone-500/30 flex items-center justify-center text-xl flex-shrink-0">
+                    🎒
+                  </div>
+                  <div className="text-left">
+                    <h3 className="font-display text-xl font-semibold flex items-center gap-2">
+                      {t('rpg.equipment.title')}
+                    </h3>
+                    <p className="text-xs text-muted-foreground font-body mt-0.5">
+                      {t('rpg.equipment.itemCount', { count: itemCount })}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {onRegenerateSection && (
+                    <Button variant="ghost" size="sm" onClick={(e) => { e.stopPropagation(); onRegenerateSection('equipment') }} disabled={!!regeneratingSection} className="shrink-0 no-print" title={regenerateLabel?.('equipment')}>
+                      {regeneratingSection === 'equipment' ? '⏳' : '↻'}
+                    </Button>
+                  )}
+                  {equipment.encumbrance && (
+                    <span className={`px-2 py-1 border rounded text-xs font-bold ${encumbranceColors[equipment.encumbrance]}`}>
+                      {t(`rpg.equipment.encumbranceLevels.${equipment.encumbrance}`)}
+                    </span>
+                  )}
+                  <span className="text-muted-foreground font-body text-lg transition-transform">
+                    {expandedSections.equipment ? "▼" : "▶"}
+                  </span>
+                </div>
+              </div>
+              {expandedSections.equipment && (
+                <div className="p-4 pt-0 space-y-4">
+                  {equipment.weapons.length > 0 && (
+                    <div>
+                      <h4 className="font-display font-semibold mb-2">⚔️ {t('rpg.equipment.weapons')}</h4>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        {equipment.weapons.map((weapon, idx) => (
+                          <div key={idx} className="p-3 rounded-lg bg-gradient-to-r from-background/80 to-background/50 border-2 border-stone-500/20">
+                            <div className="flex items-start justify-between gap-2">
+                              <span className="font-display font-semibold">{weapon.name}</span>
+                              <span className="px-2 py-0.5 rounded border border-red-500/30 bg-red-500/10 text-red-700 dark:text-red-400 text-xs font-bold flex-shrink-0">
+                                {weapon.damage} {weapon.damageType}
+                              </span>
+                            </div>
+                            {weapon.properties.length > 0 && (
+                              <div className="mt-2 flex flex-wrap gap-1">
+                                {weapon.properties.map((property, pIdx) => (
+                                  <span key={pIdx} className="px-2 py-0.5 rounded bg-muted/50 border border-border text-xs font-body">{property}</span>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {equipment.armor.length > 0 && (
+                    <div>
+                      <h4 className="font-display font-semibold mb-2">🛡️ {t('rpg.equipment.armor')}</h4>
+                      <div className="flex flex-wrap gap-2">
+                        {equipment.armor.map((piece, idx) => (
+                          <div key={idx} className="px-3 py-2 rounded-lg bg-gradient-to-r from-background/80 to-background/50 border-2 border-stone-500/20 text-sm font-body">
+                            <span className="font-semibold">{piece.name}</span>{' '}
+                            <span className="text-muted-foreground">
+                              ({t(`rpg.equipment.armorCategories.${piece.category}`)}, {piece.category === 'shield' ? t('rpg.equipment.shieldBonus', { bonus: piece.armorClass }) : t('rpg.equipment.baseArmorClass', { ac: piece.armorClass })})
+                            </span>
+                            {piece.stealthDisadvantage && (
+                              <span className="ml-2 text-xs text-orange-600 dark:text-orange-400">{t('rpg.equipment.stealthDisadvantage')}</span>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {equipment.gear.length > 0 && (
+                    <div>
+                      <h4 className="font-display font-semibold mb-2">🧰 {t('rpg.equipment.gear')}</h4>
+                      <ul className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1 text-sm font-body">
+                        {equipment.gear.map((item, idx) => (
+                          <li key={idx} className="flex items-center justify-between gap-2 border-b border-border/50 py-1">
+                            <span>{item.name}</span>
+                            {item.quantity > 1 && <span className="text-muted-foreground text-xs font-bold">×{item.quantity}</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  <div className="flex flex-wrap items-center gap-2 text-sm font-body">
+                    <span className="font-display font-semibold mr-1">💰 {t('rpg.equipment.currency')}</span>
+                    {coins.length > 0 ? coins.map((coin) => (
+                      <span key={coin} className="px-2 py-1 rounded-lg border border-amber-500/30 bg-amber-500/10 font-semibold">
+                        {equipment.currency[coin]} {t(`rpg.equipment.coins.${coin}`)}
+                      </span>
+                    )) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </div>
+                  {equipment.carryingCapacity !== undefined && equipment.totalWeight !== undefined && (
+                    <p className="text-xs text-muted-foreground font-body">
+                      {t('rpg.equipment.carried', { weight: equipment.totalWeight, capacity: equipment.carryingCapacity })}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )
+        })()}
+
         {/* Background Information */}
         <div className="space-y-4">
           {/* History */}
@@ -780,6 +1032,50 @@ export function CharacterCard({ character, isLoading = false, onRegenerateSectio
             )}
           </div>
 
+          {/* Ideals, Bonds and Flaws */}
+          {[character.ideals, character.bonds, character.flaws].some((entries) => entries && entries.length > 0) && (
+            <div className="border-2 border-rose-500/30 rounded-xl overflow-hidden bg-gradient-to-br from-rose-500/10 via-rose-500/5 to-transparent">
+              <div className="p-4">
+                <div className="flex items-center gap-3 mb-3">
+                  <div className="w-10 h-10 rounded-lg bg-rose-500/20 border-2 border-rose-500/30 flex items-center justify-center text-xl flex-shrink-0">
+                    🧭
+                  </div>
+                  <div className="text-left">
+                    <h3 className="font-display text-xl font-semibold">{t('rpg.personalityProfile.title')}</h3>
+                    <p className="text-xs text-muted-foreground font-body mt-0.5">{t('rpg.personalityProfile.subtitle')}</p>
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  {([
+                    { id: 'ideals', title: t('rpg.personalityProfile.ideals'), entries: character.ideals },
+                    { id: 'bonds', title: t('rpg.personalityProfile.bonds'), entries: character.bonds },
+                    { id: 'flaws', title: t('rpg.personalityProfile.flaws'), entries: character.flaws },
+                  ] as const).map((group) => (
+                    <div key={group.id} className="p-3 rounded-lg bg-gradient-to-r from-background/80 to-background/50 border-2 border-rose-500/20">
+                      <div className="flex items-center justify-between gap-2 mb-2">
+                        <h4 className="font-display text-base font-semibold text-rose-700 dark:text-rose-400">{group.title}</h4>
+                        {onRegenerateSection && (
+                          <Button variant="ghost" size="sm" onClick={() => onRegenerateSection(group.id)} disabled={!!regeneratingSection} className="shrink-0 no-print" title={regenerateLabel?.(group.id)}>
+                            {regeneratingSection === group.id ? '⏳' : '↻'}
+                          </Button>
+                        )}
+                      </div>
+                      {group.entries && group.entries.length > 0 ? (
+                        <ul className="space-y-1.5">
+                          {group.entries.map((entry, idx) => (
+                            <li key={idx} className="text-sm font-body text-foreground leading-relaxed">{entry}</li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <p className="text-sm font-body text-muted-foreground italic">—</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Voice Description */}
           {character.voiceDescription && (
             <div className="border-2 border-cyan-500/30 rounded-xl overflow-hidden bg-gradient-to-br from-cyan-500/10 via-cyan-500/5 to-transparent">
@@ -1,8 +1,12 @@
 "use client"
 
+import type { CharacterClass } from "@/types/rpg"
+
 interface ClassBadgeProps {
   className: string
   level: number
+  /** Multiclass breakdown; when it has more than one class each class gets its own colored segment */
+  classes?: CharacterClass[]
   size?: "sm" | "md" | "lg"
 }
 
@@ -21,8 +25,10 @@ const classColors: Record<string, { bg: string; text: string; border: string }>
   Wizard: { bg: "bg-cyan-500/20", text: "text-cyan-600 dark:text-cyan-400", border: "border-cyan-500/50" },
 }
 
-export function ClassBadge({ className, level, size = "md" }: ClassBadgeProps) {
-  const colors = classColors[className] || { bg: "bg-primary/20", text: "text-primary", border: "border-primary/50" }
+const defaultColors = { bg: "bg-primary/20", text: "text-primary", border: "border-primary/50" }
+
+export function ClassBadge({ className, level, classes, size = "md" }: ClassBadgeProps) {
+  const colors = classColors[className] || defaultColors
   
   const sizeClasses = {
     sm: "px-2 py-1 text-xs",
@@ -30,6 +36,29 @@ export function ClassBadge({ className, level, size = "md" }: ClassBadgeProps) {
     lg: "px-4 py-2 text-base",
   }
 
+  if (classes && classes.length > 1) {
+    return (
+      <div className={`inline-flex flex-wrap items-center rounded-lg border-2 border-primary/50 overflow-hidden font-semibold ${size === "sm" ? "text-xs" : size === "lg" ? "text-base" : "text-sm"}`}>
+        {classes.map((cls, idx) => {
+          const clsColors = classColors[cls.name] || defaultColors
+          return (
+            <div
+              key={`${cls.name}-${idx}`}
+              className={`inline-flex items-center gap-1.5 ${sizeClasses[size]} ${clsColors.bg} ${clsColors.text} ${idx > 0 ? `border-l-2 ${clsColors.border}` : ""}`}
+              title={cls.subclass}
+            >
+              <span className="font-display">{cls.name}</span>
+              <span>{cls.level}</span>
+            </div>
+          )
+        })}
+        <div className={`inline-flex items-center ${sizeClasses[size]} bg-background/60 text-muted-foreground border-l-2 border-primary/50`}>
+          Level {level}
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className={`inline-flex items-center gap-2 rounded-lg border-2 ${colors.border} ${colors.bg} ${sizeClasses[size]} font-semibold ${colors.text}`}>
       <span className="font-display">{className}</span>
@@ -1,14 +1,18 @@
 "use client"
 
-import { useEffect, useLayoutEffect, useRef } from "react"
+import { useEffect, useLayoutEffect, useRef, type ReactNode } from "react"
 import { useLocale, useTranslations } from "next-intl"
 import { Button } from "@/components/ui/button"
 import { CharacterCard } from "@/components/rpg/character-card"
 import { EnvironmentCard } from "@/components/rpg/environment-card"
 import { MissionCard } from "@/components/rpg/mission-card"
+import { ItemCard } from "@/components/rpg/item-card"
+import { MonsterCard } from "@/components/rpg/monster-card"
+import { FactionCard } from "@/components/rpg/faction-card"
 import type { LibraryContentItem } from "./library-card"
-import type { Character, Environment, Mission } from "@/types/rpg"
+import type { Character, ContentType, Environment, GeneratedContent, Mission, MagicItem, Monster, Faction } from "@/types/rpg"
 import { formatDateWithLocale } from "@/lib/date"
+import { cn } from "@/lib/utils"
 
 interface ContentComparisonModalProps {
   items: [LibraryContentItem, LibraryContentItem]
@@ -16,10 +20,33 @@ interface ContentComparisonModalProps {
   onClose: () => void
 }
 
-export function ContentComparisonModal({ items, isOpen, onClose }: ContentComparisonModalProps) {
+interface ComparisonModalFrameProps {
+  isOpen: boolean
+  onClose: () => void
+  title: string
+  subtitle: string
+  // The content scrolls back to the top when it changes
+  contentKey: string
+  // Room for up to four columns instead of two
+  wide?: boolean
+  headerActions?: ReactNode
+  children: ReactNode
+}
+
+/**
+ * Layout of a side-by-side comparison: overlay, header and a single scroll area for the columns
+ */
+export function ComparisonModalFrame({
+  isOpen,
+  onClose,
+  title,
+  subtitle,
+  contentKey,
+  wide = false,
+  headerActions,
+  children,
+}: ComparisonModalFrameProps) {
   const t = useTranslations()
-  const locale = useLocale()
-  const [item1, item2] = items
 
   const modalRef = useRef<HTMLDivElement | null>(null)
   const scrollAreaRef = useRef<HTMLDivElement | null>(null)
@@ -73,7 +100,7 @@ export function ContentComparisonModal({ items, isOpen, onClose }: ContentCompar
     if (!isOpen) return
     modalRef.current?.focus()
     if (scrollAreaRef.current) scrollAreaRef.current.scrollTop = 0
-  }, [isOpen, item1.id, item2.id])
+  }, [isOpen, contentKey])
 
   // ESC fecha
   useEffect(() => {
@@ -86,15 +113,6 @@ export function ContentComparisonModal({ items, isOpen, onClose }: ContentCompar
 
   if (!isOpen) return null
 
-  const formatDate = (dateString: string): string =>
-    formatDateWithLocale(dateString, locale, { year: "numeric", month: "short", day: "numeric" })
-
-  const getContentName = (item: LibraryContentItem): string => {
-    if (item.type === "character") return (item.content_data as Character).name
-    if (item.type === "environment") return (item.content_data as Environment).name
-    return (item.content_data as Mission).title
-  }
-
   return (
     <>
       {/* overlay */}
@@ -104,69 +122,109 @@ export function ContentComparisonModal({ items, isOpen, onClose }: ContentCompar
       <div
         ref={modalRef}
         tabIndex={-1}
-        className="
-    fixed left-1/2 top-4 md:top-6 z-[9999]
-    w-[min(1100px,calc(100vw-2rem))]
-    h-[min(86dvh,calc(100dvh-2rem))]
-    -translate-x-1/2
-    bg-background rounded-2xl shadow-2xl
-    flex flex-col min-h-0 overflow-hidden outline-none
-  "
+        className={cn(
+          "fixed left-1/2 top-4 md:top-6 z-[9999] h-[min(86dvh,calc(100dvh-2rem))] -translate-x-1/2",
+          "bg-background rounded-2xl shadow-2xl flex flex-col min-h-0 overflow-hidden outline-none",
+          wide ? "w-[min(1600px,calc(100vw-2rem))]" : "w-[min(1100px,calc(100vw-2rem))]"
+        )}
       >
 
         {/* header */}
-        <div className="shrink-0 bg-background/95 backdrop-blur-sm border-b border-border p-3 flex items-center justify-between shadow-md">
+        <div className="shrink-0 bg-background/95 backdrop-blur-sm border-b border-border p-3 flex items-center justify-between gap-3 shadow-md">
           <div>
-            <h2 className="font-display text-xl font-bold">{t("comparison.title")}</h2>
-            <p className="font-body text-sm text-muted-foreground">
-              {t("comparison.comparing")} {item1.type}s
-            </p>
+            <h2 className="font-display text-xl font-bold">{title}</h2>
+            <p className="font-body text-sm text-muted-foreground">{subtitle}</p>
           </div>
 
-          <Button variant="outline" size="sm" onClick={onClose} className="font-body">
-            ✕ {t("comparison.close")}
-          </Button>
+          <div className="flex items-center gap-2">
+            {headerActions}
+            <Button variant="outline" size="sm" onClick={onClose} className="font-body">
+              ✕ {t("comparison.close")}
+            </Button>
+          </div>
         </div>
 
         {/* conteúdo com scroll único */}
         <div ref={scrollAreaRef} className="flex-1 min-h-0 overflow-y-auto overscroll-contain">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-0">
-            {/* Left */}
-            <div className="bg-background md:border-r border-border">
-              <div className="p-4">
-                <div className="mb-4 pb-4 border-b border-border">
-                  <h3 className="font-display text-xl font-bold mb-1">
-                    {t("comparison.item1")}: {getContentName(item1)}
-                  </h3>
-                  <p className="font-body text-sm text-muted-foreground">{formatDate(item1.created_at)}</p>
-                </div>
-
-                {item1.type === "character" && <CharacterCard character={item1.content_data as Character} />}
-                {item1.type === "environment" && <EnvironmentCard environment={item1.content_data as Environment} />}
-                {item1.type === "mission" && <MissionCard mission={item1.content_data as Mission} />}
-              </div>
-            </div>
+          {children}
 
-            {/* Right */}
-            <div className="bg-background">
-              <div className="p-4">
-                <div className="mb-4 pb-4 border-b border-border">
-                  <h3 className="font-display text-xl font-bold mb-1">
-                    {t("comparison.item2")}: {getContentName(item2)}
-                  </h3>
-                  <p className="font-body text-sm text-muted-foreground">{formatDate(item2.created_at)}</p>
-                </div>
-
-                {item2.type === "character" && <CharacterCard character={item2.content_data as Character} />}
-                {item2.type === "environment" && <EnvironmentCard environment={item2.content_data as Environment} />}
-                {item2.type === "mission" && <MissionCard mission={item2.content_data as Mission} />}
-              </div>
+          <div className="h-10" />
+        </div>
+      </div>
+    </>
+  )
+}
+
+/**
+ * The card for a content item of any type
+ */
+export function ContentTypeCard({ type, content }: { type: ContentType; content: GeneratedContent }) {
+  return (
+    <>
+      {type === "character" && <CharacterCard character={content as Character} />}
+      {type === "environment" && <EnvironmentCard environment={content as Environment} />}
+      {type === "mission" && <MissionCard mission={content as Mission} />}
+      {type === "item" && <ItemCard item={content as MagicItem} />}
+      {type === "monster" && <MonsterCard monster={content as Monster} />}
+      {type === "faction" && <FactionCard faction={content as Faction} />}
+    </>
+  )
+}
+
+export function ContentComparisonModal({ items, isOpen, onClose }: ContentComparisonModalProps) {
+  const t = useTranslations()
+  const locale = useLocale()
+  const [item1, item2] = items
+
+  const formatDate = (dateString: string): string =>
+    formatDateWithLocale(dateString, locale, { year: "numeric", month: "short", day: "numeric" })
+
+  const getContentName = (item: LibraryContentItem): string => {
+    if (item.type === "character") return (item.content_data as Character).name
+    if (item.type === "environment") return (item.content_data as Environment).name
+    if (item.type === "item") return (item.content_data as MagicItem).name
+    if (item.type === "monster") return (item.content_data as Monster).name
+    if (item.type === "faction") return (item.content_data as Faction).name
+    return (item.content_data as Mission).title
+  }
+
+  return (
+    <ComparisonModalFrame
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t("comparison.title")}
+      subtitle={`${t("comparison.comparing")} ${item1.type}s`}
+      contentKey={`${item1.id}:${item2.id}`}
+    >
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-0">
+        {/* Left */}
+        <div className="bg-background md:border-r border-border">
+          <div className="p-4">
+            <div className="mb-4 pb-4 border-b border-border">
+              <h3 className="font-display text-xl font-bold mb-1">
+                {t("comparison.item1")}: {getContentName(item1)}
+              </h3>
+              <p className="font-body text-sm text-muted-foreground">{formatDate(item1.created_at)}</p>
             </div>
+
+            <ContentTypeCard type={item1.type} content={item1.content_data} />
           </div>
+        </div>
 
-          <div className="h-10" />
+        {/* Right */}
+        <div className="bg-background">
+          <div className="p-4">
+            <div className="mb-4 pb-4 border-b border-border">
+              <h3 className="font-display text-xl font-bold mb-1">
+                {t("comparison.item2")}: {getContentName(item2)}
+              </h3>
+              <p className="font-body text-sm text-muted-foreground">{formatDate(item2.created_at)}</p>
+            </div>
+
+            <ContentTypeCard type={item2.type} content={item2.content_data} />
+          </div>
         </div>
       </div>
-    </>
+    </ComparisonModalFrame>
   )
 }
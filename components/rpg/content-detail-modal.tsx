@@ -10,13 +10,21 @@ import { Label } from "@/components/ui/label"
 import { CharacterCard } from "@/components/rpg/character-card"
 import { EnvironmentCard } from "@/components/rpg/environment-card"
 import { MissionCard } from "@/components/rpg/mission-card"
+import { ItemCard } from "@/components/rpg/item-card"
+import { MonsterCard } from "@/components/rpg/monster-card"
+import { FactionCard } from "@/components/rpg/faction-card"
 import type { LibraryContentItem } from "./library-card"
-import type { Character, Environment, Mission, ContentType, GeneratedContent } from "@/types/rpg"
+import type { AbilityScoreIncrease, Character, Environment, Mission, MagicItem, Monster, Faction, ContentType, GeneratedContent } from "@/types/rpg"
 import { supabase } from "@/lib/supabase"
 import { Input } from "@/components/ui/input"
 import { useLocale } from 'next-intl'
 import { formatDateMedium, formatDateTimeMedium } from "@/lib/date"
 import { exportAsJSON, exportAsPDF, type ContentLinks, type PdfExportLabels } from "@/lib/export"
+import { getCharacterClasses, getClassFeaturesAtLevel } from "@/lib/dnd-rules"
+import { locales, localeNames, type Locale } from "@/i18n/config"
+import { getReferenceName, matchesReference } from "@/lib/content-references"
+import { LOCKABLE_FIELDS } from "@/lib/field-locks"
+import { useQuotaErrorMessage } from "@/components/generator/generation-quota"
 
 /** Renders diff values as readable, formatted UI instead of raw JSON. */
 function DiffValueBlock({ value, className = "" }: { value: unknown; className?: string }) {
@@ -137,8 +145,12 @@ const REGENERABLE_SECTIONS: Record<ContentType, Array<{ id: string; labelKey: st
     { id: 'traits', labelKey: 'generator.regenerateTraits' },
     { id: 'racialTraits', labelKey: 'generator.regenerateRacialTraits' },
     { id: 'classFeatures', labelKey: 'generator.regenerateClassFeatures' },
+    { id: 'equipment', labelKey: 'generator.regenerateEquipment' },
     { id: 'background', labelKey: 'generator.regenerateBackground' },
     { id: 'personality', labelKey: 'generator.regeneratePersonality' },
+    { id: 'ideals', labelKey: 'generator.regenerateIdeals' },
+    { id: 'bonds', labelKey: 'generator.regenerateBonds' },
+    { id: 'flaws', labelKey: 'generator.regenerateFlaws' },
   ],
   environment: [
     { id: 'npcs', labelKey: 'generator.regenerateNPCs' },
@@ -155,6 +167,29 @@ const REGENERABLE_SECTIONS: Record<ContentType, Array<{ id: string; labelKey: st
     { id: 'possibleOutcomes', labelKey: 'generator.regeneratePossibleOutcomes' },
     { id: 'context', labelKey: 'generator.regenerateContext' },
   ],
+  item: [
+    { id: 'properties', labelKey: 'generator.regenerateProperties' },
+    { id: 'charges', labelKey: 'generator.regenerateCharges' },
+    { id: 'description', labelKey: 'generator.regenerateDescription' },
+    { id: 'lore', labelKey: 'generator.regenerateLore' },
+  ],
+  monster: [
+    { id: 'traits', labelKey: 'generator.regenerateTraits' },
+    { id: 'actions', labelKey: 'generator.regenerateActions' },
+    { id: 'reactions', labelKey: 'generator.regenerateReactions' },
+    { id: 'legendaryActions', labelKey: 'generator.regenerateLegendaryActions' },
+    { id: 'lairActions', labelKey: 'generator.regenerateLairActions' },
+    { id: 'description', labelKey: 'generator.regenerateDescription' },
+    { id: 'tactics', labelKey: 'generator.regenerateTactics' },
+  ],
+  faction: [
+    { id: 'leadership', labelKey: 'generator.regenerateLeadership' },
+    { id: 'goals', labelKey: 'generator.regenerateGoals' },
+    { id: 'resources', labelKey: 'generator.regenerateResources' },
+    { id: 'secrets', labelKey: 'generator.regenerateSecrets' },
+    { id: 'allies', labelKey: 'generator.regenerateAllies' },
+    { id: 'rivals', labelKey: 'generator.regenerateRivals' },
+  ],
 }
 
 interface ContentDetailModalProps {
@@ -164,6 +199,8 @@ interface ContentDetailModalProps {
   onDelete: (id: string) => void
   onUpdate?: (updatedItem: LibraryContentItem) => void
   onGenerateVariation?: (item: LibraryContentItem) => void
+  onTranslate?: (item: LibraryContentItem, language: Locale) => Promise<void>
+  onRegenerateWithSameSettings?: (item: LibraryContentItem) => Promise<void>
   onCampaignsUpdated?: () => void
 }
 
@@ -181,10 +218,13 @@ export function ContentDetailModal({
   onDelete,
   onUpdate,
   onGenerateVariation,
+  onTranslate,
+  onRegenerateWithSameSettings,
   onCampaignsUpdated,
 }: ContentDetailModalProps) {
   const t = useTranslations()
   const locale = useLocale()
+  const getQuotaErrorMessage = useQuotaErrorMessage()
   const [notes, setNotes] = useState(item.notes || "")
   const [isSavingNotes, setIsSavingNotes] = useState(false)
   const [notesError, setNotesError] = useState<string | null>(null)
@@ -193,6 +233,12 @@ export function ContentDetailModal({
   const [tagsError, setTagsError] = useState<string | null>(null)
   const [newTagInput, setNewTagInput] = useState("")
   const [isGeneratingVariation, setIsGeneratingVariation] = useState(false)
+  const [isRegeneratingWithSameSettings, setIsRegeneratingWithSameSettings] = useState(false)
+  const translationLocales = locales.filter((l) => l !== item.language)
+  const [translationLanguage, setTranslationLanguage] = useState<Locale>(
+    translationLocales.find((l) => l === locale) ?? translationLocales[0]
+  )
+  const [isTranslating, setIsTranslating] = useState(false)
   const [campaigns, setCampaigns] = useState<CampaignSummary[]>([])
   const [isLoadingCampaigns, setIsLoadingCampaigns] = useState(false)
   const [campaignsError, setCampaignsError] = useState<string | null>(null)
@@ -204,6 +250,10 @@ export function ContentDetailModal({
   const [linkedItemPopup, setLinkedItemPopup] = useState<LibraryContentItem | null>(null)
   const [regeneratingSection, setRegeneratingSection] = useState<string | null>(null)
   const [regenerateError, setRegenerateError] = useState<string | null>(null)
+  // Free-text direction sent with section regeneration (and each section of Regenerate all)
+  const [regenerationInstructions, setRegenerationInstructions] = useState("")
+  const [lockedFields, setLockedFields] = useState<string[]>(item.locked_fields || [])
+  const [isSavingLocks, setIsSavingLocks] = useState(false)
   const [diffPreview, setDiffPreview] = useState<{
     sectionId: string
     sectionLabel: string
@@ -213,6 +263,14 @@ export function ContentDetailModal({
   } | null>(null)
   const [regenerateUndo, setRegenerateUndo] = useState<{ previousContentData: Record<string, unknown> } | null>(null)
   const [isSavingDiff, setIsSavingDiff] = useState(false)
+  const [promotingItem, setPromotingItem] = useState<string | null>(null)
+  const [fleshingOutNpc, setFleshingOutNpc] = useState<string | null>(null)
+  const [isLevelingUp, setIsLevelingUp] = useState(false)
+  const [levelUpError, setLevelUpError] = useState<string | null>(null)
+  // Two +1 picks; picking the same ability twice gives +2
+  const [levelUpPicks, setLevelUpPicks] = useState<[string, string]>(["", ""])
+  // Class gaining the level for multiclassed characters ("" = primary class)
+  const [levelUpClass, setLevelUpClass] = useState("")
   const [isExportingPDF, setIsExportingPDF] = useState(false)
   const [isExportingJSON, setIsExportingJSON] = useState(false)
   const [jsonPrettyPrint, setJsonPrettyPrint] = useState(true)
@@ -225,6 +283,8 @@ export function ContentDetailModal({
   useEffect(() => {
     setNotes(item.notes || "")
     setTags(item.tags || [])
+    setLockedFields(item.locked_fields || [])
+    setRegenerationInstructions("")
     setRegenerateError(null)
     setDiffPreview(null)
     setRegenerateUndo(null)
@@ -499,6 +559,128 @@ export function ContentDetailModal({
     }
   }
 
+  /** Turns a mission reward item into a saved magic item linked back to this mission. */
+  async function handlePromoteItem(itemName: string) {
+    if (promotingItem) return
+    try {
+      setPromotingItem(itemName)
+      const { data: { session } } = await supabase.auth.getSession()
+      const accessToken = session?.access_token
+
+      if (!accessToken) {
+        throw new Error("Not authenticated")
+      }
+
+      const response = await fetch(`/api/content/${item.id}/promote-item`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ itemName }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: "Unknown error" }))
+        throw new Error(getQuotaErrorMessage(response.status, errorData) || errorData.message || errorData.error || "Failed to promote item")
+      }
+
+      await loadLinkedContent(item.id)
+      showExportNotice("success", t("rpg.mission.promoteItemSuccess", { name: itemName }))
+    } catch (err) {
+      console.error("Promote item error:", err)
+      showExportNotice("error", `${t("rpg.mission.promoteItemError")}: ${err instanceof Error ? err.message : "Unknown error"}`)
+    } finally {
+      setPromotingItem(null)
+    }
+  }
+
+  /** Turns an environment or mission NPC entry into a saved character linked to this content. */
+  async function handleFleshOutNpc(npc: string) {
+    if (fleshingOutNpc) return
+    try {
+      setFleshingOutNpc(npc)
+      const { data: { session } } = await supabase.auth.getSession()
+      const accessToken = session?.access_token
+
+      if (!accessToken) {
+        throw new Error("Not authenticated")
+      }
+
+      const response = await fetch(`/api/content/${item.id}/flesh-out-npc`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ npc }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: "Unknown error" }))
+        throw new Error(getQuotaErrorMessage(response.status, errorData) || errorData.message || errorData.error || "Failed to flesh out NPC")
+      }
+
+      await loadLinkedContent(item.id)
+      showExportNotice("success", t("rpg.environment.fleshOutNpcSuccess", { name: getReferenceName(npc) }))
+    } catch (err) {
+      console.error("Flesh out NPC error:", err)
+      showExportNotice("error", `${t("rpg.environment.fleshOutNpcError")}: ${err instanceof Error ? err.message : "Unknown error"}`)
+    } finally {
+      setFleshingOutNpc(null)
+    }
+  }
+
+  /** Levels up a saved character through /api/generate/level-up; the route saves it and records a version. */
+  async function handleLevelUp() {
+    if (isLevelingUp || !onUpdate) return
+    const nextLevel = ((item.content_data as Character).level || 1) + 1
+    if (!confirm(t("library.levelUp.confirm", { level: nextLevel }))) return
+    try {
+      setIsLevelingUp(true)
+      setLevelUpError(null)
+      const { data: { session } } = await supabase.auth.getSession()
+      const accessToken = session?.access_token
+
+      if (!accessToken) {
+        throw new Error("Not authenticated")
+      }
+
+      const abilityScoreIncrease: AbilityScoreIncrease = {}
+      for (const pick of levelUpPicks) {
+        if (!pick) continue
+        const key = pick as keyof AbilityScoreIncrease
+        abilityScoreIncrease[key] = (abilityScoreIncrease[key] || 0) + 1
+      }
+
+      const response = await fetch("/api/generate/level-up", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ contentId: item.id, className: levelUpClass || undefined, abilityScoreIncrease }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: "Unknown error" }))
+        throw new Error(getQuotaErrorMessage(response.status, errorData) || errorData.message || errorData.error || "Failed to level up")
+      }
+
+      const result = await response.json() as { data?: { content_data?: Record<string, unknown> } }
+      if (result.data?.content_data) {
+        onUpdate({ ...item, content_data: result.data.content_data as unknown as GeneratedContent })
+      }
+      setLevelUpPicks(["", ""])
+      showExportNotice("success", t("library.levelUp.success", { level: nextLevel }))
+    } catch (err) {
+      console.error("Level up error:", err)
+      setLevelUpError(err instanceof Error ? err.message : t("library.levelUp.error"))
+    } finally {
+      setIsLevelingUp(false)
+    }
+  }
+
   async function handleDelete() {
     if (confirm("Are you sure you want to delete this content? This action cannot be undone.")) {
       await onDelete(item.id)
@@ -519,6 +701,32 @@ export function ContentDetailModal({
     }
   }
 
+  async function handleRegenerateWithSameSettings() {
+    if (!onRegenerateWithSameSettings) return
+    setIsRegeneratingWithSameSettings(true)
+    try {
+      await onRegenerateWithSameSettings(item)
+      // Don't close modal - let the parent handle opening the new item
+    } catch (err) {
+      console.error("Regenerate with same settings error:", err)
+    } finally {
+      setIsRegeneratingWithSameSettings(false)
+    }
+  }
+
+  async function handleTranslate() {
+    if (!onTranslate) return
+    setIsTranslating(true)
+    try {
+      await onTranslate(item, translationLanguage)
+      // Don't close modal - let the parent handle opening the translation
+    } catch (err) {
+      console.error("Translation error:", err)
+    } finally {
+      setIsTranslating(false)
+    }
+  }
+
   /** Calls /api/generate/regenerate only; does not save. sectionIndex used for single-NPC npcs. */
   async function regenerateSectionOnly(
     sectionId: string,
@@ -528,13 +736,16 @@ export function ContentDetailModal({
     const { data: { session } } = await supabase.auth.getSession()
     const accessToken = session?.access_token
     if (!accessToken) throw new Error("Not authenticated")
-    const body: { scenario: string; contentType: string; section: string; currentContent: Record<string, unknown>; sectionIndex?: number } = {
+    const body: { scenario: string; contentType: string; section: string; currentContent: Record<string, unknown>; sectionIndex?: number; language?: string; instructions?: string } = {
       scenario: item.scenario_input,
       contentType: item.type,
       section: sectionId,
       currentContent: contentData,
     }
     if (typeof sectionIndex === 'number') body.sectionIndex = sectionIndex
+    // Regenerated sections stay in the content's language
+    if (item.language) body.language = item.language
+    if (regenerationInstructions.trim()) body.instructions = regenerationInstructions.trim()
     const res = await fetch("/api/generate/regenerate", {
       method: "POST",
       headers: { "Content-Type": "application/json", Authorization: `Bearer ${accessToken}` },
@@ -542,7 +753,7 @@ export function ContentDetailModal({
     })
     if (!res.ok) {
       const j = await res.json().catch(() => ({})) as { error?: string }
-      throw new Error(j.error || "Failed to regenerate")
+      throw new Error(getQuotaErrorMessage(res.status, j) || j.error || "Failed to regenerate")
     }
     const text = await res.text()
     const parsed = JSON.parse(text.trim()) as { section: string; data: unknown; index?: number }
@@ -584,7 +795,10 @@ export function ContentDetailModal({
       const j = await patchRes.json().catch(() => ({})) as { error?: string }
       throw new Error(j.error || "Failed to save")
     }
-    if (onUpdate) onUpdate({ ...item, content_data: contentData as unknown as GeneratedContent })
+    // Characters may come back corrected by the rules validator
+    const j = await patchRes.json().catch(() => ({})) as { data?: { content_data?: Record<string, unknown> } }
+    const savedData = j.data?.content_data ?? contentData
+    if (onUpdate) onUpdate({ ...item, content_data: savedData as unknown as GeneratedContent })
   }
 
   async function regenerateAndSave(sectionId: string, contentData: Record<string, unknown>): Promise<Record<string, unknown>> {
@@ -595,6 +809,10 @@ export function ContentDetailModal({
   }
 
   async function handleRegenerateSection(sectionId: string, index?: number) {
+    if (lockedFields.includes(sectionId)) {
+      setRegenerateError(t("library.fieldLockedError", { field: t(`library.lockableFields.${sectionId}`) }))
+      return
+    }
     if (!confirm(t("library.regenerateConfirm"))) return
     setRegeneratingSection(index != null ? `npcs@${index}` : sectionId)
     setRegenerateError(null)
@@ -668,7 +886,7 @@ export function ContentDetailModal({
 
   async function handleRegenerateAll() {
     if (!confirm(t("library.regenerateAllConfirm"))) return
-    const sections = REGENERABLE_SECTIONS[item.type]
+    const sections = REGENERABLE_SECTIONS[item.type].filter(({ id }) => !lockedFields.includes(id))
     const beforeContent = item.content_data as unknown as Record<string, unknown>
     let merged: LibraryContentItem = { ...item, content_data: item.content_data }
     for (const { id } of sections) {
@@ -687,6 +905,44 @@ export function ContentDetailModal({
     }
   }
 
+  /** Toggles a field lock and saves the new list right away */
+  async function handleToggleFieldLock(field: string) {
+    if (isSavingLocks) return
+    const previousLocks = lockedFields
+    const nextLocks = lockedFields.includes(field)
+      ? lockedFields.filter((lockedField) => lockedField !== field)
+      : [...lockedFields, field]
+    setLockedFields(nextLocks)
+    setIsSavingLocks(true)
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      const accessToken = session?.access_token
+      if (!accessToken) throw new Error("Not authenticated")
+
+      const response = await fetch(`/api/content/${item.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify({ locked_fields: nextLocks }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: "Unknown error" }))
+        throw new Error(errorData.message || errorData.error || "Failed to update field locks")
+      }
+
+      const result = await response.json() as { data?: { locked_fields?: string[] } }
+      const savedLocks = result.data?.locked_fields ?? nextLocks
+      setLockedFields(savedLocks)
+      if (onUpdate) onUpdate({ ...item, locked_fields: savedLocks })
+    } catch (err) {
+      console.error("Field lock error:", err)
+      setLockedFields(previousLocks)
+      showExportNotice("error", `${t("library.fieldLocksError")}: ${err instanceof Error ? err.message : "Unknown error"}`)
+    } finally {
+      setIsSavingLocks(false)
+    }
+  }
+
   function showExportNotice(type: "success" | "error", message: string) {
     setExportNotice({ type, message })
     if (exportNoticeTimeoutRef.current) {
@@ -736,6 +992,9 @@ export function ContentDetailModal({
     const character = item.type === "character" ? (item.content_data as Character) : null
     const environment = item.type === "environment" ? (item.content_data as Environment) : null
     const mission = item.type === "mission" ? (item.content_data as Mission) : null
+    const magicItem = item.type === "item" ? (item.content_data as MagicItem) : null
+    const monster = item.type === "monster" ? (item.content_data as Monster) : null
+    const faction = item.type === "faction" ? (item.content_data as Faction) : null
 
     return {
       common: {
@@ -757,12 +1016,62 @@ export function ContentDetailModal({
         traitsSubtitle: t("rpg.traitCount", { count: character?.traits?.length || 0 }),
         spellsTitle: t("rpg.spells"),
         spellsSubtitle: t("rpg.spellCount", { count: character?.spells?.length || 0 }),
+        spellSchoolLabels: {
+          abjuration: t("rpg.spell.schools.abjuration"),
+          conjuration: t("rpg.spell.schools.conjuration"),
+          divination: t("rpg.spell.schools.divination"),
+          enchantment: t("rpg.spell.schools.enchantment"),
+          evocation: t("rpg.spell.schools.evocation"),
+          illusion: t("rpg.spell.schools.illusion"),
+          necromancy: t("rpg.spell.schools.necromancy"),
+          transmutation: t("rpg.spell.schools.transmutation"),
+        },
+        concentrationLabel: t("rpg.spell.concentration"),
+        ritualLabel: t("rpg.spell.ritual"),
+        offClassListLabel: t("rpg.spell.offClassList"),
         historyTitle: t("rpg.history"),
         historySubtitle: t("rpg.characterBackstory"),
         personalityTitle: t("rpg.personality"),
         personalitySubtitle: t("rpg.characterDemeanor"),
+        personalityProfileTitle: t("rpg.personalityProfile.title"),
+        personalityProfileSubtitle: t("rpg.personalityProfile.subtitle"),
+        idealsLabel: t("rpg.personalityProfile.ideals"),
+        bondsLabel: t("rpg.personalityProfile.bonds"),
+        flawsLabel: t("rpg.personalityProfile.flaws"),
         voiceTitle: t("rpg.voice"),
         voiceSubtitle: t("rpg.voiceCharacteristics"),
+        combatTitle: t("rpg.combat.title"),
+        combatSubtitle: t("rpg.combat.subtitle"),
+        armorClassLabel: t("rpg.combat.armorClass"),
+        hitPointsLabel: t("rpg.combat.hitPoints"),
+        speedLabel: t("rpg.combat.speed"),
+        speedUnit: t("rpg.combat.speedUnit"),
+        initiativeLabel: t("rpg.combat.initiative"),
+        meleeAttackLabel: t("rpg.combat.meleeAttack"),
+        rangedAttackLabel: t("rpg.combat.rangedAttack"),
+        passivePerceptionLabel: t("rpg.combat.passivePerception"),
+        passiveInvestigationLabel: t("rpg.combat.passiveInvestigation"),
+        passiveInsightLabel: t("rpg.combat.passiveInsight"),
+        spellSaveDCLabel: t("rpg.combat.spellSaveDC"),
+        spellAttackLabel: t("rpg.combat.spellAttack"),
+        spellSlotsLabel: t("rpg.combat.spellSlots"),
+        equipmentTitle: t("rpg.equipment.title"),
+        equipmentSubtitle: t("rpg.equipment.itemCount", {
+          count: character?.equipment
+            ? character.equipment.weapons.length + character.equipment.armor.length + character.equipment.gear.length
+            : 0,
+        }),
+        weaponsLabel: t("rpg.equipment.weapons"),
+        armorLabel: t("rpg.equipment.armor"),
+        gearLabel: t("rpg.equipment.gear"),
+        currencyLabel: t("rpg.equipment.currency"),
+        carriedLabel: t("rpg.equipment.carried", {
+          weight: character?.equipment?.totalWeight ?? 0,
+          capacity: character?.equipment?.carryingCapacity ?? 0,
+        }),
+        encumbranceLabel: character?.equipment?.encumbrance
+          ? t(`rpg.equipment.encumbranceLevels.${character.equipment.encumbrance}`)
+          : "",
       },
       environment: {
         descriptionTitle: t("rpg.environment.description"),
@@ -798,10 +1107,114 @@ export function ContentDetailModal({
         powerfulItemsTitle: t("rpg.mission.powerfulItems"),
         possibleOutcomesTitle: t("rpg.mission.possibleOutcomes"),
       },
+      item: {
+        descriptionTitle: t("rpg.item.description"),
+        descriptionSubtitle: t("rpg.item.appearance"),
+        propertiesTitle: t("rpg.item.properties"),
+        propertiesSubtitle: t("rpg.item.propertyCount", { count: magicItem?.properties?.length || 0 }),
+        chargesTitle: t("rpg.item.charges"),
+        chargesSubtitle: t("rpg.item.chargeCount", { count: magicItem?.charges?.max || 0 }),
+        rechargeLabel: t("rpg.item.recharge"),
+        loreTitle: t("rpg.item.lore"),
+        loreSubtitle: t("rpg.item.loreSubtitle"),
+        statusTitle: t("rpg.item.status"),
+        statusSubtitle: t("rpg.item.statusSubtitle"),
+        attunementLabel: t("rpg.item.requiresAttunement"),
+        noAttunementLabel: t("rpg.item.noAttunement"),
+      },
+      monster: {
+        statisticsTitle: t("rpg.monster.statistics"),
+        armorClassLabel: t("rpg.monster.armorClass"),
+        hitPointsLabel: t("rpg.monster.hitPoints"),
+        speedLabel: t("rpg.monster.speed"),
+        abilityScoresTitle: t("rpg.abilityScores"),
+        savingThrowsLabel: t("rpg.monster.savingThrows"),
+        skillsLabel: t("rpg.monster.skills"),
+        damageVulnerabilitiesLabel: t("rpg.monster.damageVulnerabilities"),
+        damageResistancesLabel: t("rpg.monster.damageResistances"),
+        damageImmunitiesLabel: t("rpg.monster.damageImmunities"),
+        conditionImmunitiesLabel: t("rpg.monster.conditionImmunities"),
+        sensesLabel: t("rpg.monster.senses"),
+        languagesLabel: t("rpg.monster.languages"),
+        challengeLabel: t("rpg.monster.challenge"),
+        proficiencyBonusLabel: t("rpg.proficiencyBonus"),
+        traitsTitle: t("rpg.monster.traits"),
+        actionsTitle: t("rpg.monster.actions"),
+        reactionsTitle: t("rpg.monster.reactions"),
+        legendaryActionsTitle: t("rpg.monster.legendaryActions"),
+        legendaryActionsSubtitle: t("rpg.monster.legendaryActionsPerRound", { count: monster?.legendaryActionsPerRound ?? 3 }),
+        lairActionsTitle: t("rpg.monster.lairActions"),
+        lairActionsSubtitle: t("rpg.monster.lairActionsSubtitle"),
+        descriptionTitle: t("rpg.monster.description"),
+        tacticsTitle: t("rpg.monster.tactics"),
+      },
+      faction: {
+        influenceLabel: t("rpg.faction.influence"),
+        ideologyTitle: t("rpg.faction.ideology"),
+        descriptionTitle: t("rpg.faction.description"),
+        headquartersLabel: t("rpg.faction.headquarters"),
+        leadershipTitle: t("rpg.faction.leadership"),
+        leadershipSubtitle: t("rpg.faction.leaderCount", { count: faction?.leadership?.length || 0 }),
+        goalsTitle: t("rpg.faction.goals"),
+        resourcesTitle: t("rpg.faction.resources"),
+        secretsTitle: t("rpg.faction.secrets"),
+        secretsSubtitle: t("rpg.faction.secretsSubtitle"),
+        alliesTitle: t("rpg.faction.allies"),
+        rivalsTitle: t("rpg.faction.rivals"),
+      },
     }
   }
 
   const hasLinkedContent = linkedContent.outgoing.length > 0 || linkedContent.incoming.length > 0
+  // Characters linked to a faction with `part_of` are listed as its members
+  const factionMembers: LibraryContentItem[] = item.type === "faction"
+    ? linkedContent.incoming
+      .filter((link) => link.linkType === "part_of" && link.content?.type === "character")
+      .map((link) => link.content as LibraryContentItem)
+    : []
+  // NPC entries open the linked character named after them (see /api/content/[id]/flesh-out-npc)
+  const linkedCharacters: LibraryContentItem[] = [...linkedContent.outgoing, ...linkedContent.incoming]
+    .filter((link) => link.content?.type === "character")
+    .map((link) => link.content as LibraryContentItem)
+  const getNpcCharacterIds = (npcs: string[] | undefined) =>
+    (npcs || []).map((npc) =>
+      linkedCharacters.find((character) => matchesReference(npc, (character.content_data as Character).name || ""))?.id ?? null
+    )
+  const openLinkedCharacter = (characterId: string) =>
+    setLinkedItemPopup(linkedCharacters.find((character) => character.id === characterId) || null)
+
+  // Conditions the item was generated under; null for content saved before they were recorded
+  const provenance = item.generation_metadata ?? null
+  const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1)
+  const provenanceRows: [string, string][] = provenance
+    ? [
+      [t("library.provenanceModel"), `${provenance.model} (${provenance.provider})`],
+      [t("generator.advancedFields.generation.temperature"), String(provenance.temperature)],
+      ...(provenance.tone
+        ? [[t("generator.advancedFields.generation.tone"), t(`generator.advancedFields.generation.tone${capitalize(provenance.tone)}`)] as [string, string]]
+        : []),
+      ...(provenance.complexity
+        ? [[t("generator.advancedFields.generation.complexity"), t(`generator.advancedFields.generation.complexity${capitalize(provenance.complexity)}`)] as [string, string]]
+        : []),
+      [t("library.provenanceLanguage"), localeNames[provenance.language] ?? provenance.language],
+      [t("library.provenancePromptVersion"), provenance.promptVersion],
+      ...(provenance.usage
+        ? [[
+          t("library.provenanceTokens"),
+          t("library.provenanceTokensValue", {
+            total: provenance.usage.totalTokens,
+            prompt: provenance.usage.promptTokens,
+            completion: provenance.usage.completionTokens,
+          }),
+        ] as [string, string]]
+        : []),
+      [
+        t("library.provenanceCampaignContext"),
+        provenance.campaignContextHash ? provenance.campaignContextHash.slice(0, 12) : t("library.provenanceNoContext"),
+      ],
+      [t("library.provenanceGeneratedAt"), formatDateTimeMedium(provenance.generatedAt, locale)],
+    ]
+    : []
 
   const modal = (
     <div
@@ -820,6 +1233,7 @@ export function ContentDetailModal({
               <h2 className="font-display text-2xl font-bold break-words">{t("library.contentDetails")}</h2>
               <p className="font-body text-sm text-muted-foreground break-words">
                 {t("library.created")} {formatDateTimeMedium(item.created_at, locale)}
+                {item.language && ` • ${localeNames[item.language]}`}
               </p>
             </div>
             <div className="flex flex-wrap items-center gap-2 lg:justify-end">
@@ -835,6 +1249,31 @@ export function ContentDetailModal({
                   {isGeneratingVariation ? "⏳" : "🔄"} {t('library.generateVariation')}
                 </Button>
               )}
+              {onTranslate && (
+                <div className="flex items-center gap-1 no-print">
+                  <select
+                    value={translationLanguage}
+                    onChange={(e) => setTranslationLanguage(e.target.value as Locale)}
+                    disabled={isTranslating}
+                    className="h-9 px-2 rounded-md border border-input bg-background text-foreground font-body text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                    aria-label={t('library.translateTo')}
+                  >
+                    {translationLocales.map((l) => (
+                      <option key={l} value={l}>{localeNames[l]}</option>
+                    ))}
+                  </select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleTranslate}
+                    disabled={isTranslating}
+                    className="font-body"
+                    title={t('library.translateTo')}
+                  >
+                    {isTranslating ? `⏳ ${t('library.translating')}` : `🌐 ${t('library.translate')}`}
+                  </Button>
+                </div>
+              )}
               <Button
                 variant="outline"
                 size="sm"
@@ -897,6 +1336,38 @@ export function ContentDetailModal({
               <p className="font-body text-sm text-muted-foreground whitespace-pre-wrap">
                 {item.scenario_input}
               </p>
+              {provenance && (
+                <details className="mt-4">
+                  <summary className="cursor-pointer font-body text-sm font-semibold">
+                    🧪 {t("library.provenance")}
+                  </summary>
+                  <p className="mt-2 font-body text-xs text-muted-foreground">{t("library.provenanceHelp")}</p>
+                  <dl className="mt-2 grid grid-cols-1 gap-x-4 gap-y-1 font-body text-xs sm:grid-cols-2">
+                    {provenanceRows.map(([label, value]) => (
+                      <div key={label} className="flex gap-2 min-w-0">
+                        <dt className="text-muted-foreground shrink-0">{label}:</dt>
+                        <dd className="break-all">{value}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                  {provenance.advancedInput && (
+                    <pre className="mt-2 max-h-40 overflow-auto rounded-md border border-border bg-muted/30 p-2 font-mono text-xs whitespace-pre-wrap">
+                      {JSON.stringify(provenance.advancedInput, null, 2)}
+                    </pre>
+                  )}
+                  {onRegenerateWithSameSettings && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleRegenerateWithSameSettings}
+                      disabled={isRegeneratingWithSameSettings}
+                      className="mt-3 font-body"
+                    >
+                      {isRegeneratingWithSameSettings ? `⏳ ${t("library.regeneratingWithSameSettings")}` : `♻️ ${t("library.regenerateWithSameSettings")}`}
+                    </Button>
+                  )}
+                </details>
+              )}
             </CardContent>
           </Card>
 
@@ -1042,6 +1513,12 @@ export function ContentDetailModal({
                               return (linkedItem.content_data as Character).name
                             } else if (linkedItem.type === "environment") {
                               return (linkedItem.content_data as Environment).name
+                            } else if (linkedItem.type === "item") {
+                              return (linkedItem.content_data as MagicItem).name
+                            } else if (linkedItem.type === "monster") {
+                              return (linkedItem.content_data as Monster).name
+                            } else if (linkedItem.type === "faction") {
+                              return (linkedItem.content_data as Faction).name
                             } else {
                               return (linkedItem.content_data as Mission).title
                             }
@@ -1054,7 +1531,7 @@ export function ContentDetailModal({
                             >
                               <div className="flex items-center gap-3 flex-1">
                                 <span className="text-lg">
-                                  {linkedItem.type === "character" ? "🎭" : linkedItem.type === "environment" ? "🗺️" : "⚔️"}
+                                  {linkedItem.type === "character" ? "🎭" : linkedItem.type === "environment" ? "🗺️" : linkedItem.type === "item" ? "💎" : linkedItem.type === "monster" ? "🐉" : linkedItem.type === "faction" ? "🏛️" : "⚔️"}
                                 </span>
                                 <div className="flex-1">
                                   <div className="font-body font-semibold">{getLinkedName()}</div>
@@ -1133,6 +1610,12 @@ export function ContentDetailModal({
                               return (linkedItem.content_data as Character).name
                             } else if (linkedItem.type === "environment") {
                               return (linkedItem.content_data as Environment).name
+                            } else if (linkedItem.type === "item") {
+                              return (linkedItem.content_data as MagicItem).name
+                            } else if (linkedItem.type === "monster") {
+                              return (linkedItem.content_data as Monster).name
+                            } else if (linkedItem.type === "faction") {
+                              return (linkedItem.content_data as Faction).name
                             } else {
                               return (linkedItem.content_data as Mission).title
                             }
@@ -1145,7 +1628,7 @@ export function ContentDetailModal({
                             >
                               <div className="flex items-center gap-3 flex-1">
                                 <span className="text-lg">
-                                  {linkedItem.type === "character" ? "🎭" : linkedItem.type === "environment" ? "🗺️" : "⚔️"}
+                                  {linkedItem.type === "character" ? "🎭" : linkedItem.type === "environment" ? "🗺️" : linkedItem.type === "item" ? "💎" : linkedItem.type === "monster" ? "🐉" : linkedItem.type === "faction" ? "🏛️" : "⚔️"}
                                 </span>
                                 <div className="flex-1">
                                   <div className="font-body font-semibold">{getLinkedName()}</div>
@@ -1220,8 +1703,154 @@ export function ContentDetailModal({
             </CardContent>
           </Card>
 
+          {/* Level Up (characters only) */}
+          {item.type === "character" && onUpdate && (() => {
+            const character = item.content_data as Character
+            const nextLevel = (character.level || 1) + 1
+            const characterClasses = getCharacterClasses(character)
+            const targetClass = characterClasses.find((cls) => cls.name === levelUpClass) ?? characterClasses[0]
+            // Locked attributes take no Ability Score Improvement
+            const grantsImprovement = !lockedFields.includes("attributes") &&
+              getClassFeaturesAtLevel(targetClass.name, targetClass.level + 1)
+                .some((feature) => feature.name === "Ability Score Improvement")
+            const abilities: Array<{ key: keyof Character["attributes"]; label: string }> = [
+              { key: "strength", label: "STR" },
+              { key: "dexterity", label: "DEX" },
+              { key: "constitution", label: "CON" },
+              { key: "intelligence", label: "INT" },
+              { key: "wisdom", label: "WIS" },
+              { key: "charisma", label: "CHA" },
+            ]
+            return (
+              <Card className="parchment no-print">
+                <CardHeader>
+                  <CardTitle className="font-display text-lg">{t("library.levelUp.title")}</CardTitle>
+                  <CardDescription className="font-body text-sm">
+                    {t("library.levelUp.description")}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {nextLevel > 20 ? (
+                    <p className="font-body text-sm text-muted-foreground">{t("library.levelUp.maxLevel")}</p>
+                  ) : (
+                    <>
+                      {characterClasses.length > 1 && (
+                        <div className="space-y-2">
+                          <Label htmlFor="level-up-class" className="font-body text-sm block">{t("library.levelUp.class")}</Label>
+                          <select
+                            id="level-up-class"
+                            value={targetClass.name}
+                            onChange={(e) => {
+                              setLevelUpClass(e.target.value)
+                              setLevelUpPicks(["", ""])
+                            }}
+                            disabled={isLevelingUp}
+                            className="px-3 py-2 rounded-lg border-2 border-border bg-background text-foreground font-body text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                          >
+                            {characterClasses.map((cls) => (
+                              <option key={cls.name} value={cls.name}>
+                                {cls.name} {cls.level} → {cls.level + 1}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                      {grantsImprovement && (
+                        <div className="space-y-2">
+                          <Label className="font-body text-sm block">{t("library.levelUp.abilityScoreImprovement")}</Label>
+                          <p className="font-body text-xs text-muted-foreground">{t("library.levelUp.abilityScoreImprovementHelp")}</p>
+                          <div className="flex flex-wrap gap-2">
+                            {[0, 1].map((pickIndex) => (
+                              <select
+                                key={pickIndex}
+                                value={levelUpPicks[pickIndex]}
+                                onChange={(e) => {
+                                  const picks: [string, string] = [...levelUpPicks]
+                                  picks[pickIndex] = e.target.value
+                                  setLevelUpPicks(picks)
+                                }}
+                                disabled={isLevelingUp}
+                                className="px-3 py-2 rounded-lg border-2 border-border bg-background text-foreground font-body text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                              >
+                                <option value="">{t("library.levelUp.noIncrease")}</option>
+                                {abilities.map((ability) => (
+                                  <option key={ability.key} value={ability.key}>
+                                    {ability.label} +1 ({character.attributes[ability.key]})
+                                  </option>
+                                ))}
+                              </select>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                      {levelUpError && (
+                        <Alert variant="destructive">
+                          <AlertDescription className="font-body text-sm">{levelUpError}</AlertDescription>
+                        </Alert>
+                      )}
+                      <div className="flex justify-end">
+                        <Button
+                          variant="default"
+                          size="sm"
+                          onClick={handleLevelUp}
+                          disabled={isLevelingUp || !!regeneratingSection || (grantsImprovement && levelUpPicks.filter(Boolean).length === 1)}
+                          className="font-body"
+                        >
+                          {isLevelingUp ? `⏳ ${t("library.levelUp.leveling")}` : `⬆️ ${t("library.levelUp.action", { level: nextLevel })}`}
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            )
+          })()}
+
           {/* Generated Content */}
           <div>
+            {onUpdate && (
+              <div className="mb-4 space-y-3 rounded-lg border border-border bg-muted/20 p-3 no-print">
+                <div className="space-y-1">
+                  <Label htmlFor="regeneration-instructions" className="font-body text-sm block">{t("library.regenerationGuidance")}</Label>
+                  <Input
+                    id="regeneration-instructions"
+                    value={regenerationInstructions}
+                    onChange={(e) => setRegenerationInstructions(e.target.value)}
+                    placeholder={t("library.regenerationGuidancePlaceholder")}
+                    maxLength={500}
+                    disabled={!!regeneratingSection}
+                    className="font-body"
+                  />
+                  <p className="font-body text-xs text-muted-foreground">{t("library.regenerationGuidanceHelp")}</p>
+                </div>
+                <details>
+                  <summary className="cursor-pointer font-body text-sm font-semibold">
+                    🔒 {t("library.fieldLocks")}{lockedFields.length > 0 ? ` (${lockedFields.length})` : ""}
+                  </summary>
+                  <p className="mt-2 font-body text-xs text-muted-foreground">{t("library.fieldLocksHelp")}</p>
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {LOCKABLE_FIELDS[item.type].map((field) => {
+                      const isLocked = lockedFields.includes(field)
+                      return (
+                        <button
+                          key={field}
+                          type="button"
+                          onClick={() => handleToggleFieldLock(field)}
+                          disabled={isSavingLocks || !!regeneratingSection}
+                          aria-pressed={isLocked}
+                          className={`rounded-full border px-3 py-1 font-body text-xs transition-colors disabled:opacity-50 ${isLocked
+                            ? "border-primary bg-primary/15 text-primary"
+                            : "border-border text-muted-foreground hover:border-primary/50"
+                            }`}
+                        >
+                          {isLocked ? "🔒" : "🔓"} {t(`library.lockableFields.${field}`)}
+                        </button>
+                      )
+                    })}
+                  </div>
+                </details>
+              </div>
+            )}
             {regenerateError && onUpdate && (
               <Alert variant="destructive" className="mb-4">
                 <AlertDescription className="font-body text-sm">{regenerateError}</AlertDescription>
@@ -1251,6 +1880,10 @@ export function ContentDetailModal({
                 onRegenerateSection={onUpdate ? handleRegenerateSection : undefined}
                 regeneratingSection={onUpdate ? regeneratingSection : null}
                 regenerateLabel={onUpdate ? (id, idx) => (typeof idx === 'number' ? t('library.regenerateThisNpc') : (() => { const s = REGENERABLE_SECTIONS.environment.find((x) => x.id === id); return s ? t(s.labelKey) : "Regenerate"; })()) : undefined}
+                npcCharacterIds={getNpcCharacterIds((item.content_data as Environment).npcs)}
+                onNpcClick={openLinkedCharacter}
+                onFleshOutNpc={handleFleshOutNpc}
+                fleshingOutNpc={fleshingOutNpc}
               />
             )}
             {item.type === "mission" && (
@@ -1259,6 +1892,38 @@ export function ContentDetailModal({
                 onRegenerateSection={onUpdate ? handleRegenerateSection : undefined}
                 regeneratingSection={onUpdate ? regeneratingSection : null}
                 regenerateLabel={onUpdate ? (id: string) => { const s = REGENERABLE_SECTIONS.mission.find((x) => x.id === id); return s ? t(s.labelKey) : "Regenerate"; } : undefined}
+                onPromoteItem={handlePromoteItem}
+                promotingItem={promotingItem}
+                npcCharacterIds={getNpcCharacterIds((item.content_data as Mission).relatedNPCs)}
+                onNpcClick={openLinkedCharacter}
+                onFleshOutNpc={handleFleshOutNpc}
+                fleshingOutNpc={fleshingOutNpc}
+              />
+            )}
+            {item.type === "item" && (
+              <ItemCard
+                item={item.content_data as MagicItem}
+                onRegenerateSection={onUpdate ? handleRegenerateSection : undefined}
+                regeneratingSection={onUpdate ? regeneratingSection : null}
+                regenerateLabel={onUpdate ? (id: string) => { const s = REGENERABLE_SECTIONS.item.find((x) => x.id === id); return s ? t(s.labelKey) : "Regenerate"; } : undefined}
+              />
+            )}
+            {item.type === "monster" && (
+              <MonsterCard
+                monster={item.content_data as Monster}
+                onRegenerateSection={onUpdate ? handleRegenerateSection : undefined}
+                regeneratingSection={onUpdate ? regeneratingSection : null}
+                regenerateLabel={onUpdate ? (id: string) => { const s = REGENERABLE_SECTIONS.monster.find((x) => x.id === id); return s ? t(s.labelKey) : "Regenerate"; } : undefined}
+              />
+            )}
+            {item.type === "faction" && (
+              <FactionCard
+                faction={item.content_data as Faction}
+                onRegenerateSection={onUpdate ? handleRegenerateSection : undefined}
+                regeneratingSection={onUpdate ? regeneratingSection : null}
+                regenerateLabel={onUpdate ? (id: string) => { const s = REGENERABLE_SECTIONS.faction.find((x) => x.id === id); return s ? t(s.labelKey) : "Regenerate"; } : undefined}
+                members={factionMembers.map((member) => ({ id: member.id, name: (member.content_data as Character).name }))}
+                onMemberClick={(memberId) => setLinkedItemPopup(factionMembers.find((member) => member.id === memberId) || null)}
               />
             )}
             {onUpdate && (
@@ -1505,7 +2170,13 @@ export function ContentDetailModal({
                     ? (linkedItemPopup.content_data as Character).name
                     : linkedItemPopup.type === "environment"
                       ? (linkedItemPopup.content_data as Environment).name
-                      : (linkedItemPopup.content_data as Mission).title}
+                      : linkedItemPopup.type === "item"
+                        ? (linkedItemPopup.content_data as MagicItem).name
+                        : linkedItemPopup.type === "monster"
+                          ? (linkedItemPopup.content_data as Monster).name
+                          : linkedItemPopup.type === "faction"
+                            ? (linkedItemPopup.content_data as Faction).name
+                            : (linkedItemPopup.content_data as Mission).title}
                 </h2>
                 <p className="font-body text-sm text-muted-foreground mt-1">
                   {linkedItemPopup.type} • {t("library.created")} {formatDateMedium(linkedItemPopup.created_at, locale)}
@@ -1533,6 +2204,15 @@ export function ContentDetailModal({
                 {linkedItemPopup.type === "mission" && (
                   <MissionCard mission={linkedItemPopup.content_data as Mission} />
                 )}
+                {linkedItemPopup.type === "item" && (
+                  <ItemCard item={linkedItemPopup.content_data as MagicItem} />
+                )}
+                {linkedItemPopup.type === "monster" && (
+                  <MonsterCard monster={linkedItemPopup.content_data as Monster} />
+                )}
+                {linkedItemPopup.type === "faction" && (
+                  <FactionCard faction={linkedItemPopup.content_data as Faction} />
+                )}
               </div>
             </div>
           </div>
@@ -1560,7 +2240,7 @@ function LinkModal({ currentItem, onClose, onLinkCreated }: LinkModalProps) {
   const [availableContent, setAvailableContent] = useState<LibraryContentItem[]>([])
   const [isLoadingContent, setIsLoadingContent] = useState(false)
   const [selectedContentId, setSelectedContentId] = useState<string>("")
-  const [linkType, setLinkType] = useState<'related' | 'part_of' | 'uses' | 'located_in' | 'involves'>('related')
+  const [linkType, setLinkType] = useState<'related' | 'part_of' | 'uses' | 'located_in' | 'involves' | 'translation_of'>('related')
   const [isCreatingLink, setIsCreatingLink] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -1644,6 +2324,12 @@ function LinkModal({ currentItem, onClose, onLinkCreated }: LinkModalProps) {
       return (item.content_data as Character).name
     } else if (item.type === "environment") {
       return (item.content_data as Environment).name
+    } else if (item.type === "item") {
+      return (item.content_data as MagicItem).name
+    } else if (item.type === "monster") {
+      return (item.content_data as Monster).name
+    } else if (item.type === "faction") {
+      return (item.content_data as Faction).name
     } else {
       return (item.content_data as Mission).title
     }
@@ -1690,6 +2376,7 @@ function LinkModal({ currentItem, onClose, onLinkCreated }: LinkModalProps) {
               <option value="uses">{t('library.linkType.uses')}</option>
               <option value="located_in">{t('library.linkType.located_in')}</option>
               <option value="involves">{t('library.linkType.involves')}</option>
+              <option value="translation_of">{t('library.linkType.translation_of')}</option>
             </select>
           </div>
 
@@ -1706,13 +2393,19 @@ function LinkModal({ currentItem, onClose, onLinkCreated }: LinkModalProps) {
                   <button
                     key={contentItem.id}
                     type="button"
-                    onClick={() => setSelectedContentId(contentItem.id)}
+                    onClick={() => {
+                      setSelectedContentId(contentItem.id)
+                      // Characters join factions: suggest part_of instead of the generic default
+                      if (currentItem.type === "character" && contentItem.type === "faction" && linkType === "related") {
+                        setLinkType("part_of")
+                      }
+                    }}
                     className={`w-full text-left p-3 border-b border-border last:border-b-0 hover:bg-primary/10 transition-colors ${selectedContentId === contentItem.id ? 'bg-primary/20 border-primary' : ''
                       }`}
                   >
                     <div className="flex items-center gap-3">
                       <span className="text-lg">
-                        {contentItem.type === "character" ? "🎭" : contentItem.type === "environment" ? "🗺️" : "⚔️"}
+                        {contentItem.type === "character" ? "🎭" : contentItem.type === "environment" ? "🗺️" : contentItem.type === "item" ? "💎" : contentItem.type === "monster" ? "🐉" : contentItem.type === "faction" ? "🏛️" : "⚔️"}
                       </span>
                       <div className="flex-1">
                         <div className="font-body font-semibold">{getContentName(contentItem)}</div>
@@ -19,11 +19,16 @@ interface EnvironmentCardProps {
   onRegenerateSection?: (sectionId: string, index?: number) => void
   regeneratingSection?: string | null
   regenerateLabel?: (sectionId: string, index?: number) => string
+  /** Library character fleshed out from each NPC entry (same order as npcs), null until there is one */
+  npcCharacterIds?: (string | null)[]
+  onNpcClick?: (characterId: string) => void
+  onFleshOutNpc?: (npc: string) => void
+  fleshingOutNpc?: string | null
 }
 
-export function EnvironmentCard({ environment, isLoading = false, onRegenerateSection, regeneratingSection, regenerateLabel }: EnvironmentCardProps) {
+export function EnvironmentCard({ environment, isLoading = false, onRegenerateSection, regeneratingSection, regenerateLabel, npcCharacterIds, onNpcClick, onFleshOutNpc, fleshingOutNpc }: EnvironmentCardProps) {
   const t = useTranslations()
-  
+
   if (isLoading) {
     return (
       <Card className="parchment ornate-border animate-pulse">
@@ -255,27 +260,52 @@ export function EnvironmentCard({ environment, isLoading = false, onRegenerateSe
                 </div>
               </div>
               <div className="flex flex-wrap gap-3">
-                {environment.npcs.map((npc, idx) => (
-                  <div
-                    key={idx}
-                    className="px-4 py-2.5 rounded-lg bg-gradient-to-r from-background/80 to-background/50 border-2 border-violet-500/20 hover:border-violet-500/40 text-primary font-semibold text-sm transition-all hover:shadow-md flex items-center gap-2"
-                  >
-                    <span className="text-base">👤</span>
-                    <span className="flex-1 min-w-0">{npc}</span>
-                    {onRegenerateSection && (
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => onRegenerateSection('npcs', idx)}
-                        disabled={!!regeneratingSection}
-                        className="shrink-0 no-print h-7 w-7 p-0"
-                        title={regenerateLabel?.('npcs', idx)}
-                      >
-                        {regeneratingSection === `npcs@${idx}` ? '⏳' : '↻'}
-                      </Button>
-                    )}
-                  </div>
-                ))}
+                {environment.npcs.map((npc, idx) => {
+                  const characterId = npcCharacterIds?.[idx]
+                  return (
+                    <div
+                      key={idx}
+                      className="px-4 py-2.5 rounded-lg bg-gradient-to-r from-background/80 to-background/50 border-2 border-violet-500/20 hover:border-violet-500/40 text-primary font-semibold text-sm transition-all hover:shadow-md flex items-center gap-2"
+                    >
+                      <span className="text-base">👤</span>
+                      {characterId && onNpcClick ? (
+                        <button
+                          type="button"
+                          onClick={() => onNpcClick(characterId)}
+                          className="flex-1 min-w-0 text-left underline decoration-dotted underline-offset-4 hover:text-violet-600 dark:hover:text-violet-400"
+                          title={t('rpg.environment.openNpcCharacter')}
+                        >
+                          {npc}
+                        </button>
+                      ) : (
+                        <span className="flex-1 min-w-0">{npc}</span>
+                      )}
+                      {!characterId && onFleshOutNpc && (
+                        <button
+                          type="button"
+                          onClick={() => onFleshOutNpc(npc)}
+                          disabled={!!fleshingOutNpc}
+                          className="shrink-0 no-print opacity-70 hover:opacity-100 disabled:cursor-not-allowed disabled:opacity-40"
+                          title={t('rpg.environment.fleshOutNpc')}
+                        >
+                          {fleshingOutNpc === npc ? '⏳' : '🧙'}
+                        </button>
+                      )}
+                      {onRegenerateSection && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => onRegenerateSection('npcs', idx)}
+                          disabled={!!regeneratingSection}
+                          className="shrink-0 no-print h-7 w-7 p-0"
+                          title={regenerateLabel?.('npcs', idx)}
+                        >
+                          {regeneratingSection === `npcs@${idx}` ? '⏳' : '↻'}
+                        </Button>
+                      )}
+                    </div>
+                  )
+                })}
               </div>
             </div>
           </div>
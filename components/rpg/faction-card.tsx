@@ -0,0 +1,254 @@
+"use client"
+
+import { useTranslations } from 'next-intl'
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import type { Faction, FactionRelationship } from "@/types/rpg"
+
+interface FactionMember {
+  id: string
+  name: string
+}
+
+interface FactionCardProps {
+  faction: Faction
+  isLoading?: boolean
+  onRegenerateSection?: (sectionId: string) => void
+  regeneratingSection?: string | null
+  regenerateLabel?: (sectionId: string) => string
+  /** Library characters linked to this faction with a `part_of` link */
+  members?: FactionMember[]
+  onMemberClick?: (memberId: string) => void
+}
+
+export function FactionCard({ faction, isLoading = false, onRegenerateSection, regeneratingSection, regenerateLabel, members, onMemberClick }: FactionCardProps) {
+  const t = useTranslations()
+
+  if (isLoading) {
+    return (
+      <Card className="parchment ornate-border animate-pulse">
+        <CardHeader>
+          <div className="h-8 w-48 bg-muted rounded mb-2" />
+          <div className="h-4 w-32 bg-muted rounded" />
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            <div className="h-4 w-full bg-muted rounded" />
+            <div className="h-4 w-3/4 bg-muted rounded" />
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const renderRegenerateButton = (sectionId: string) =>
+    onRegenerateSection && (
+      <Button variant="ghost" size="sm" onClick={() => onRegenerateSection(sectionId)} disabled={!!regeneratingSection} className="shrink-0 no-print" title={regenerateLabel?.(sectionId)}>
+        {regeneratingSection === sectionId ? '⏳' : '↻'}
+      </Button>
+    )
+
+  const renderListSection = (
+    sectionId: string,
+    title: string,
+    icon: string,
+    entries: string[],
+    theme: { border: string; bg: string; chip: string }
+  ) => {
+    if (!entries || entries.length === 0) return null
+    return (
+      <div className={`border-2 ${theme.border} rounded-xl overflow-hidden bg-gradient-to-br ${theme.bg} to-transparent`}>
+        <div className="p-4">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-3">
+              <div className={`w-10 h-10 rounded-lg ${theme.chip} border-2 ${theme.border} flex items-center justify-center text-xl flex-shrink-0`}>
+                {icon}
+              </div>
+              <h3 className="font-display text-xl font-semibold">{title}</h3>
+            </div>
+            <div className="flex items-center gap-2">
+              {renderRegenerateButton(sectionId)}
+              <span className="px-2 py-1 bg-muted/50 border border-border rounded text-xs font-bold">
+                {entries.length}
+              </span>
+            </div>
+          </div>
+          <ul className="space-y-2">
+            {entries.map((entry, idx) => (
+              <li key={idx} className="flex items-start gap-2 text-sm font-body text-foreground leading-relaxed">
+                <span className="mt-0.5">•</span>
+                <span className="flex-1">{entry}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    )
+  }
+
+  const renderRelationshipSection = (
+    sectionId: string,
+    title: string,
+    icon: string,
+    relationships: FactionRelationship[],
+    theme: { border: string; bg: string; text: string }
+  ) => {
+    if (!relationships || relationships.length === 0) return null
+    return (
+      <div className={`border-2 ${theme.border} rounded-xl overflow-hidden bg-gradient-to-br ${theme.bg} to-transparent`}>
+        <div className="p-4">
+          <div className="flex items-center justify-between gap-3 mb-3">
+            <h3 className={`font-display text-lg font-semibold flex items-center gap-2 ${theme.text}`}>
+              <span>{icon}</span> {title}
+            </h3>
+            {renderRegenerateButton(sectionId)}
+          </div>
+          <div className="space-y-2">
+            {relationships.map((relationship, idx) => (
+              <div key={idx} className="p-3 rounded-lg bg-background/60 border border-border">
+                <p className="font-body text-sm font-semibold">{relationship.name}</p>
+                <p className="font-body text-xs text-muted-foreground leading-relaxed mt-1">{relationship.relationship}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <Card className="parchment ornate-border border-2 border-primary/20 print-card">
+      <CardHeader className="px-6 pt-6 pb-4 border-b-2 bg-gradient-to-r from-indigo-500/10 to-sky-500/5 border-indigo-500/30">
+        <div className="flex items-start justify-between gap-4 mb-3">
+          <div className="flex-1">
+            <CardTitle className="font-display text-4xl mb-2 flex items-center gap-3">
+              <span className="text-3xl">🏛️</span>
+              {faction.name}
+            </CardTitle>
+            {faction.motto && (
+              <p className="font-body text-sm italic text-muted-foreground mb-3">“{faction.motto}”</p>
+            )}
+            <div className="flex flex-wrap items-center gap-3">
+              {faction.influence && (
+                <div className="px-3 py-1.5 rounded-lg border-2 border-indigo-500/50 bg-indigo-500/20 text-indigo-600 dark:text-indigo-400 font-semibold text-sm">
+                  🌐 {t(`rpg.faction.influences.${faction.influence}`)}
+                </div>
+              )}
+              {faction.factionType && (
+                <div className="px-3 py-1.5 rounded-lg border-2 border-primary/50 bg-primary/20 text-primary font-semibold text-sm">
+                  ⚜️ {faction.factionType}
+                </div>
+              )}
+              {faction.headquarters && (
+                <div className="px-3 py-1.5 rounded-lg border-2 border-border bg-muted/50 text-muted-foreground font-semibold text-sm">
+                  🏰 {faction.headquarters}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        {/* Ideology and description */}
+        {(faction.ideology || faction.description) && (
+          <div className="border-2 border-teal-500/30 rounded-xl overflow-hidden bg-gradient-to-br from-teal-500/10 via-teal-500/5 to-transparent">
+            <div className="p-4 space-y-3">
+              {faction.ideology && (
+                <div>
+                  <h3 className="font-display text-xl font-semibold mb-2">{t('rpg.faction.ideology')}</h3>
+                  <p className="font-body text-sm text-foreground leading-relaxed whitespace-pre-wrap">{faction.ideology}</p>
+                </div>
+              )}
+              {faction.description && (
+                <div>
+                  <h3 className="font-display text-lg font-semibold mb-2">{t('rpg.faction.description')}</h3>
+                  <p className="font-body text-sm text-foreground leading-relaxed whitespace-pre-wrap">{faction.description}</p>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Leadership */}
+        {faction.leadership && faction.leadership.length > 0 && (
+          <div className="border-2 border-purple-500/30 rounded-xl overflow-hidden bg-gradient-to-br from-purple-500/10 via-purple-500/5 to-transparent">
+            <div className="p-4">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-purple-500/20 border-2 border-purple-500/30 flex items-center justify-center text-xl flex-shrink-0">
+                    👑
+                  </div>
+                  <h3 className="font-display text-xl font-semibold">{t('rpg.faction.leadership')}</h3>
+                </div>
+                {renderRegenerateButton('leadership')}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {faction.leadership.map((leader, idx) => (
+                  <div key={idx} className="p-4 rounded-lg bg-gradient-to-r from-background/80 to-background/50 border-2 border-purple-500/20">
+                    <p className="font-display text-lg font-semibold">{leader.name}</p>
+                    {leader.title && (
+                      <p className="text-xs font-semibold text-purple-600 dark:text-purple-400 uppercase tracking-wide mb-2">{leader.title}</p>
+                    )}
+                    <p className="text-sm font-body text-foreground leading-relaxed">{leader.description}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Members linked from the library */}
+        {members && members.length > 0 && (
+          <div className="border-2 border-sky-500/30 rounded-xl overflow-hidden bg-gradient-to-br from-sky-500/10 via-sky-500/5 to-transparent">
+            <div className="p-4">
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-sky-500/20 border-2 border-sky-500/30 flex items-center justify-center text-xl flex-shrink-0">
+                    🎭
+                  </div>
+                  <div className="text-left">
+                    <h3 className="font-display text-xl font-semibold">{t('rpg.faction.members')}</h3>
+                    <p className="text-xs text-muted-foreground font-body mt-0.5">{t('rpg.faction.membersSubtitle')}</p>
+                  </div>
+                </div>
+                <span className="px-2 py-1 bg-muted/50 border border-border rounded text-xs font-bold">
+                  {members.length}
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {members.map((member) => (
+                  <button
+                    key={member.id}
+                    type="button"
+                    onClick={() => onMemberClick?.(member.id)}
+                    disabled={!onMemberClick}
+                    className="px-3 py-1.5 rounded-lg border-2 border-sky-500/40 bg-background/70 text-sm font-body font-semibold hover:bg-sky-500/10 transition-colors disabled:cursor-default"
+                  >
+                    {member.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {renderListSection('goals', t('rpg.faction.goals'), '🎯', faction.goals, { border: 'border-amber-500/30', bg: 'from-amber-500/10 via-amber-500/5', chip: 'bg-amber-500/20' })}
+        {renderListSection('resources', t('rpg.faction.resources'), '💰', faction.resources, { border: 'border-emerald-500/30', bg: 'from-emerald-500/10 via-emerald-500/5', chip: 'bg-emerald-500/20' })}
+        {renderListSection('secrets', t('rpg.faction.secrets'), '🤫', faction.secrets, { border: 'border-slate-500/30', bg: 'from-slate-500/10 via-slate-500/5', chip: 'bg-slate-500/20' })}
+
+        {/* Relationships */}
+        {((faction.allies && faction.allies.length > 0) || (faction.rivals && faction.rivals.length > 0)) && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {renderRelationshipSection('allies', t('rpg.faction.allies'), '🤝', faction.allies, { border: 'border-green-500/30', bg: 'from-green-500/10 via-green-500/5', text: 'text-green-700 dark:text-green-400' })}
+            {renderRelationshipSection('rivals', t('rpg.faction.rivals'), '⚔️', faction.rivals, { border: 'border-red-500/30', bg: 'from-red-500/10 via-red-500/5', text: 'text-red-700 dark:text-red-400' })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,259 @@
+"use client"
+
+import { useTranslations } from 'next-intl'
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import type { MagicItem } from "@/types/rpg"
+import { RarityBadge } from "./rarity-badge"
+
+interface ItemCardProps {
+  item: MagicItem
+  isLoading?: boolean
+  onRegenerateSection?: (sectionId: string) => void
+  regeneratingSection?: string | null
+  regenerateLabel?: (sectionId: string) => string
+}
+
+export function ItemCard({ item, isLoading = false, onRegenerateSection, regeneratingSection, regenerateLabel }: ItemCardProps) {
+  const t = useTranslations()
+
+  if (isLoading) {
+    return (
+      <Card className="parchment ornate-border animate-pulse">
+        <CardHeader>
+          <div className="h-8 w-48 bg-muted rounded mb-2" />
+          <div className="h-4 w-32 bg-muted rounded" />
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            <div className="h-4 w-full bg-muted rounded" />
+            <div className="h-4 w-3/4 bg-muted rounded" />
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  // Get rarity theme for header gradient
+  const getRarityTheme = (rarity: string): string => {
+    switch (rarity) {
+      case 'uncommon': return 'from-green-500/10 to-emerald-500/5 border-green-500/30'
+      case 'rare': return 'from-blue-500/10 to-cyan-500/5 border-blue-500/30'
+      case 'very rare': return 'from-purple-500/10 to-indigo-500/5 border-purple-500/30'
+      case 'legendary': return 'from-orange-500/10 to-amber-500/5 border-orange-500/30'
+      case 'artifact': return 'from-red-500/10 to-orange-500/5 border-red-500/30'
+      default: return 'from-slate-500/10 to-blue-500/5 border-primary/30'
+    }
+  }
+
+  const headerTheme = getRarityTheme(item.rarity)
+
+  const renderRegenerateButton = (sectionId: string) =>
+    onRegenerateSection && (
+      <Button variant="ghost" size="sm" onClick={() => onRegenerateSection(sectionId)} disabled={!!regeneratingSection} className="shrink-0 no-print" title={regenerateLabel?.(sectionId)}>
+        {regeneratingSection === sectionId ? '⏳' : '↻'}
+      </Button>
+    )
+
+  return (
+    <Card className="parchment ornate-border border-2 border-primary/20 print-card">
+      <CardHeader className={`px-6 pt-6 pb-4 border-b-2 bg-gradient-to-r ${headerTheme}`}>
+        <div className="flex items-start justify-between gap-4 mb-3">
+          <div className="flex-1">
+            <CardTitle className="font-display text-4xl mb-3 flex items-center gap-3">
+              <span className="text-3xl">💎</span>
+              {item.name}
+            </CardTitle>
+            <div className="flex flex-wrap items-center gap-3">
+              <RarityBadge rarity={item.rarity} size="md" />
+              {item.itemType && (
+                <div className="px-3 py-1.5 rounded-lg border-2 border-primary/50 bg-primary/20 text-primary font-semibold text-sm">
+                  🗡️ {item.itemType}
+                </div>
+              )}
+              <div className={`px-3 py-1.5 rounded-lg border-2 font-semibold text-sm ${item.requiresAttunement ? 'border-violet-500/50 bg-violet-500/20 text-violet-600 dark:text-violet-400' : 'border-border bg-muted/50 text-muted-foreground'}`}>
+                🔗 {item.requiresAttunement
+                  ? item.attunementRequirement
+                    ? t('rpg.item.requiresAttunementBy', { requirement: item.attunementRequirement })
+                    : t('rpg.item.requiresAttunement')
+                  : t('rpg.item.noAttunement')}
+              </div>
+            </div>
+          </div>
+          {/* Item Icon Placeholder */}
+          <div className="w-20 h-20 rounded-full border-4 border-primary/30 bg-gradient-to-br from-primary/20 to-primary/5 flex items-center justify-center text-4xl flex-shrink-0">
+            ✨
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        {/* Description */}
+        {item.description && (
+          <div className="border-2 border-teal-500/30 rounded-xl overflow-hidden bg-gradient-to-br from-teal-500/10 via-teal-500/5 to-transparent">
+            <div className="p-4">
+              <div className="flex items-center justify-between gap-3 mb-3">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-teal-500/20 border-2 border-teal-500/30 flex items-center justify-center text-xl flex-shrink-0">
+                    📖
+                  </div>
+                  <div className="text-left">
+                    <h3 className="font-display text-xl font-semibold flex items-center gap-2">
+                      {t('rpg.item.description')}
+                    </h3>
+                    <p className="text-xs text-muted-foreground font-body mt-0.5">
+                      {t('rpg.item.appearance')}
+                    </p>
+                  </div>
+                </div>
+                {renderRegenerateButton('description')}
+              </div>
+              <div className="p-4 rounded-lg bg-gradient-to-r from-background/80 to-background/50 border-2 border-teal-500/20">
+                <p className="font-body text-sm text-foreground leading-relaxed whitespace-pre-wrap">
+                  {item.description}
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Properties */}
+        {item.properties && item.properties.length > 0 && (
+          <div className="border-2 border-amber-500/30 rounded-xl overflow-hidden bg-gradient-to-br from-amber-500/10 via-amber-500/5 to-transparent">
+            <div className="p-4">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-amber-500/20 border-2 border-amber-500/30 flex items-center justify-center text-xl flex-shrink-0">
+                    ⚡
+                  </div>
+                  <div className="text-left">
+                    <h3 className="font-display text-xl font-semibold flex items-center gap-2">
+                      {t('rpg.item.properties')}
+                    </h3>
+                    <p className="text-xs text-muted-foreground font-body mt-0.5">
+                      {t('rpg.item.propertyCount', { count: item.properties.length })}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {renderRegenerateButton('properties')}
+                  <span className="px-2 py-1 bg-amber-500/20 text-amber-600 dark:text-amber-400 border border-amber-500/30 rounded text-xs font-bold">
+                    {item.properties.length}
+                  </span>
+                </div>
+              </div>
+              <div className="space-y-3">
+                {item.properties.map((property, idx) => (
+                  <div
+                    key={idx}
+                    className="p-4 rounded-lg bg-gradient-to-r from-background/80 to-background/50 border-2 border-amber-500/20 hover:border-amber-500/40 hover:shadow-md transition-all"
+                  >
+                    <div className="flex items-start gap-3">
+                      <div className="w-8 h-8 rounded-lg bg-amber-500/20 border border-amber-500/30 flex items-center justify-center text-lg flex-shrink-0">
+                        ✦
+                      </div>
+                      <p className="text-sm font-body text-foreground leading-relaxed flex-1">{property}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Charges */}
+        {item.charges && (
+          <div className="border-2 border-blue-500/30 rounded-xl overflow-hidden bg-gradient-to-br from-blue-500/10 via-blue-500/5 to-transparent">
+            <div className="p-4">
+              <div className="flex items-center justify-between gap-3 mb-3">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-blue-500/20 border-2 border-blue-500/30 flex items-center justify-center text-xl flex-shrink-0">
+                    🔋
+                  </div>
+                  <div className="text-left">
+                    <h3 className="font-display text-xl font-semibold flex items-center gap-2">
+                      {t('rpg.item.charges')}
+                    </h3>
+                    <p className="text-xs text-muted-foreground font-body mt-0.5">
+                      {t('rpg.item.chargeCount', { count: item.charges.max })}
+                    </p>
+                  </div>
+                </div>
+                {renderRegenerateButton('charges')}
+              </div>
+              <div className="p-4 rounded-lg bg-gradient-to-r from-background/80 to-background/50 border-2 border-blue-500/20 space-y-3">
+                <div className="flex flex-wrap gap-1.5">
+                  {Array.from({ length: Math.min(item.charges.max, 20) }).map((_, idx) => (
+                    <span key={idx} className="w-4 h-4 rounded-full border-2 border-blue-500/50 bg-blue-500/30" />
+                  ))}
+                </div>
+                <p className="font-body text-sm text-foreground leading-relaxed">
+                  <span className="font-semibold text-blue-600 dark:text-blue-400">{t('rpg.item.recharge')}:</span> {item.charges.recharge}
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Lore */}
+        {item.lore && (
+          <div className="border-2 border-violet-500/30 rounded-xl overflow-hidden bg-gradient-to-br from-violet-500/10 via-violet-500/5 to-transparent">
+            <div className="p-4">
+              <div className="flex items-center justify-between gap-3 mb-3">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-violet-500/20 border-2 border-violet-500/30 flex items-center justify-center text-xl flex-shrink-0">
+                    📜
+                  </div>
+                  <div className="text-left">
+                    <h3 className="font-display text-xl font-semibold flex items-center gap-2">
+                      {t('rpg.item.lore')}
+                    </h3>
+                    <p className="text-xs text-muted-foreground font-body mt-0.5">
+                      {t('rpg.item.loreSubtitle')}
+                    </p>
+                  </div>
+                </div>
+                {renderRegenerateButton('lore')}
+              </div>
+              <div className="p-4 rounded-lg bg-gradient-to-r from-background/80 to-background/50 border-2 border-violet-500/20">
+                <p className="font-body text-sm text-foreground italic leading-relaxed whitespace-pre-wrap">
+                  {item.lore}
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* DM Control Status */}
+        {item.status && (
+          <div className="border-2 border-yellow-500/30 rounded-xl overflow-hidden bg-gradient-to-br from-yellow-500/10 via-yellow-500/5 to-transparent">
+            <div className="p-4">
+              <div className="flex items-center gap-3 mb-3">
+                <div className="w-10 h-10 rounded-lg bg-yellow-500/20 border-2 border-yellow-500/30 flex items-center justify-center text-xl flex-shrink-0">
+                  🎲
+                </div>
+                <div className="text-left">
+                  <h3 className="font-display text-xl font-semibold flex items-center gap-2">
+                    {t('rpg.item.status')}
+                  </h3>
+                  <p className="text-xs text-muted-foreground font-body mt-0.5">
+                    {t('rpg.item.statusSubtitle')}
+                  </p>
+                </div>
+              </div>
+              <div className="p-4 rounded-lg bg-gradient-to-r from-background/80 to-background/50 border-2 border-yellow-500/40 ring-2 ring-yellow-500/20">
+                <p className="font-body text-sm text-foreground leading-relaxed">
+                  {item.status}
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -10,7 +10,9 @@ import {
   CardTitle,
 } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import type { ContentType, GeneratedContent, Character, Environment, Mission } from "@/types/rpg"
+import type { ContentType, GeneratedContent, Character, Environment, Mission, MagicItem, Monster, Faction, GenerationProvenance } from "@/types/rpg"
+import type { Locale } from "@/i18n/config"
+import { RarityBadge } from "./rarity-badge"
 import { highlightText } from "@/lib/highlight-text"
 import { RaceBadge } from "./race-badge"
 import { ClassBadge } from "./class-badge"
@@ -26,6 +28,9 @@ export interface LibraryContentItem {
   is_favorite?: boolean
   tags?: string[]
   notes?: string
+  language?: Locale | null // Locale the content was generated in; null for content saved before it was tracked
+  locked_fields?: string[] // Fields kept by regenerate-all, variations and level-ups (lib/field-locks.ts)
+  generation_metadata?: GenerationProvenance | null // Null for content saved before provenance was recorded
 }
 
 type CampaignTag = {
@@ -59,6 +64,12 @@ export function LibraryCard({ item, campaigns = [], onView, onDelete, onDuplicat
       return (item.content_data as Character).name
     } else if (item.type === "environment") {
       return (item.content_data as Environment).name
+    } else if (item.type === "item") {
+      return (item.content_data as MagicItem).name
+    } else if (item.type === "monster") {
+      return (item.content_data as Monster).name
+    } else if (item.type === "faction") {
+      return (item.content_data as Faction).name
     } else {
       return (item.content_data as Mission).title
     }
@@ -72,6 +83,12 @@ export function LibraryCard({ item, campaigns = [], onView, onDelete, onDuplicat
         return "🗺️"
       case "mission":
         return "⚔️"
+      case "item":
+        return "💎"
+      case "monster":
+        return "🐉"
+      case "faction":
+        return "🏛️"
       default:
         return "📄"
     }
@@ -85,6 +102,12 @@ export function LibraryCard({ item, campaigns = [], onView, onDelete, onDuplicat
         return t('generator.contentType.environment')
       case "mission":
         return t('generator.contentType.mission')
+      case "item":
+        return t('generator.contentType.item')
+      case "monster":
+        return t('generator.contentType.monster')
+      case "faction":
+        return t('generator.contentType.faction')
       default:
         return t('library.content')
     }
@@ -108,7 +131,7 @@ export function LibraryCard({ item, campaigns = [], onView, onDelete, onDuplicat
         {/* Badges on one line */}
         <div className="flex items-center justify-center gap-1.5 flex-nowrap max-w-full overflow-hidden h-6 mb-2">
           <RaceBadge race={character.race} size="sm" />
-          <ClassBadge className={character.class} level={character.level} size="sm" />
+          <ClassBadge className={character.class} level={character.level} classes={character.classes} size="sm" />
         </div>
         {/* Description below */}
         {shortDesc && (
@@ -223,6 +246,95 @@ export function LibraryCard({ item, campaigns = [], onView, onDelete, onDuplicat
     )
   }
 
+  const renderItemDescription = () => {
+    const magicItem = item.content_data as MagicItem
+    const shortDesc = magicItem.description 
+      ? truncateText(magicItem.description, 80)
+      : null
+    
+    return (
+      <div className="flex flex-col items-center gap-2 w-full">
+        {/* Badges on one line - compact */}
+        <div className="flex items-center justify-center gap-1.5 flex-wrap max-w-full h-6 mb-2">
+          {magicItem.rarity && <RarityBadge rarity={magicItem.rarity} size="sm" />}
+          {magicItem.requiresAttunement && (
+            <div className="inline-flex items-center px-2 py-0.5 text-xs rounded-lg border-2 border-violet-500/50 bg-violet-500/20 text-violet-600 dark:text-violet-400 font-semibold whitespace-nowrap flex-shrink-0">
+              🔗 {t('rpg.item.attunement')}
+            </div>
+          )}
+        </div>
+        {/* Description below */}
+        {shortDesc && (
+          <p className="text-xs text-muted-foreground/80 text-center leading-relaxed line-clamp-2 max-w-full min-h-[40px]">
+            {searchHighlight ? highlightText(shortDesc, searchHighlight) : shortDesc}
+          </p>
+        )}
+      </div>
+    )
+  }
+
+  const renderMonsterDescription = () => {
+    const monster = item.content_data as Monster
+    const shortDesc = monster.description 
+      ? truncateText(monster.description, 80)
+      : null
+    
+    return (
+      <div className="flex flex-col items-center gap-2 w-full">
+        {/* Badges on one line - compact */}
+        <div className="flex items-center justify-center gap-1.5 flex-wrap max-w-full h-6 mb-2">
+          {monster.challengeRating && (
+            <div className="inline-flex items-center px-2 py-0.5 text-xs rounded-lg border-2 border-red-500/50 bg-red-500/20 text-red-600 dark:text-red-400 font-semibold whitespace-nowrap flex-shrink-0">
+              ☠️ {t('rpg.monster.challengeShort', { cr: monster.challengeRating })}
+            </div>
+          )}
+          {monster.creatureType && (
+            <div className="inline-flex items-center px-2 py-0.5 text-xs rounded-lg border-2 border-slate-500/50 bg-slate-500/20 text-slate-600 dark:text-slate-400 font-semibold whitespace-nowrap flex-shrink-0">
+              {truncateText([monster.size, monster.creatureType].filter(Boolean).join(' '), 24)}
+            </div>
+          )}
+        </div>
+        {/* Description below */}
+        {shortDesc && (
+          <p className="text-xs text-muted-foreground/80 text-center leading-relaxed line-clamp-2 max-w-full min-h-[40px]">
+            {searchHighlight ? highlightText(shortDesc, searchHighlight) : shortDesc}
+          </p>
+        )}
+      </div>
+    )
+  }
+
+  const renderFactionDescription = () => {
+    const faction = item.content_data as Faction
+    const shortDesc = faction.ideology 
+      ? truncateText(faction.ideology, 80)
+      : null
+    
+    return (
+      <div className="flex flex-col items-center gap-2 w-full">
+        {/* Badges on one line - compact */}
+        <div className="flex items-center justify-center gap-1.5 flex-wrap max-w-full h-6 mb-2">
+          {faction.influence && (
+            <div className="inline-flex items-center px-2 py-0.5 text-xs rounded-lg border-2 border-indigo-500/50 bg-indigo-500/20 text-indigo-600 dark:text-indigo-400 font-semibold whitespace-nowrap flex-shrink-0">
+              🌐 {t(`rpg.faction.influences.${faction.influence}`)}
+            </div>
+          )}
+          {faction.factionType && (
+            <div className="inline-flex items-center px-2 py-0.5 text-xs rounded-lg border-2 border-slate-500/50 bg-slate-500/20 text-slate-600 dark:text-slate-400 font-semibold whitespace-nowrap flex-shrink-0">
+              {truncateText(faction.factionType, 24)}
+            </div>
+          )}
+        </div>
+        {/* Description below */}
+        {shortDesc && (
+          <p className="text-xs text-muted-foreground/80 text-center leading-relaxed line-clamp-2 max-w-full min-h-[40px]">
+            {searchHighlight ? highlightText(shortDesc, searchHighlight) : shortDesc}
+          </p>
+        )}
+      </div>
+    )
+  }
+
 
   const handleDeleteClick = (e: React.MouseEvent) => {
     e.stopPropagation()
@@ -312,6 +424,9 @@ export function LibraryCard({ item, campaigns = [], onView, onDelete, onDuplicat
           {item.type === "character" && renderCharacterDescription()}
           {item.type === "environment" && renderEnvironmentDescription()}
           {item.type === "mission" && renderMissionDescription()}
+          {item.type === "item" && renderItemDescription()}
+          {item.type === "monster" && renderMonsterDescription()}
+          {item.type === "faction" && renderFactionDescription()}
         </div>
 
         {campaigns.length > 0 && (
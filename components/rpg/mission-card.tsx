@@ -20,10 +20,30 @@ interface MissionCardProps {
   onRegenerateSection?: (sectionId: string) => void
   regeneratingSection?: string | null
   regenerateLabel?: (sectionId: string) => string
+  onPromoteItem?: (itemName: string) => void
+  promotingItem?: string | null
+  /** Library character fleshed out from each related NPC (same order as relatedNPCs), null until there is one */
+  npcCharacterIds?: (string | null)[]
+  onNpcClick?: (characterId: string) => void
+  onFleshOutNpc?: (npc: string) => void
+  fleshingOutNpc?: string | null
 }
 
-export function MissionCard({ mission, isLoading = false, onRegenerateSection, regeneratingSection, regenerateLabel }: MissionCardProps) {
+export function MissionCard({ mission, isLoading = false, onRegenerateSection, regeneratingSection, regenerateLabel, onPromoteItem, promotingItem, npcCharacterIds, onNpcClick, onFleshOutNpc, fleshingOutNpc }: MissionCardProps) {
   const t = useTranslations()
+
+  const renderPromoteButton = (itemName: string) =>
+    onPromoteItem && (
+      <button
+        type="button"
+        onClick={() => onPromoteItem(itemName)}
+        disabled={!!promotingItem}
+        className="ml-1.5 no-print opacity-70 hover:opacity-100 disabled:cursor-not-allowed disabled:opacity-40"
+        title={t('rpg.mission.promoteItem')}
+      >
+        {promotingItem === itemName ? '⏳' : '💎'}
+      </button>
+    )
   
   if (isLoading) {
     return (
@@ -186,7 +206,7 @@ export function MissionCard({ mission, isLoading = false, onRegenerateSection, r
                         ⚡
                       </div>
                       <div className="flex-1">
-                        <div className="font-semibold text-yellow-600 dark:text-yellow-400 mb-2 text-base">{item.name}</div>
+                        <div className="font-semibold text-yellow-600 dark:text-yellow-400 mb-2 text-base">{item.name}{renderPromoteButton(item.name)}</div>
                         <div className="text-sm text-muted-foreground font-body">{item.status}</div>
                       </div>
                     </div>
@@ -306,6 +326,7 @@ export function MissionCard({ mission, isLoading = false, onRegenerateSection, r
                       className="px-3 py-1.5 rounded-lg bg-gradient-to-r from-primary/20 to-primary/10 text-primary border-2 border-primary/40 font-semibold text-xs hover:border-primary/60 transition-all"
                     >
                       {item}
+                      {renderPromoteButton(item)}
                     </div>
                   ))}
                 </div>
@@ -368,6 +389,7 @@ export function MissionCard({ mission, isLoading = false, onRegenerateSection, r
                             className="px-2 py-1 rounded-lg bg-primary/20 text-primary border border-primary/40 font-semibold text-xs"
                           >
                             {item}
+                            {renderPromoteButton(item)}
                           </span>
                         ))}
                       </div>
@@ -402,15 +424,40 @@ export function MissionCard({ mission, isLoading = false, onRegenerateSection, r
                 </span>
               </div>
               <div className="flex flex-wrap gap-3">
-                {mission.relatedNPCs.map((npc, idx) => (
-                  <div
-                    key={idx}
-                    className="px-4 py-2.5 rounded-lg bg-gradient-to-r from-background/80 to-background/50 border-2 border-violet-500/20 hover:border-violet-500/40 font-medium text-sm transition-all hover:shadow-md flex items-center gap-2"
-                  >
-                    <span className="text-base">👤</span>
-                    <span>{npc}</span>
-                  </div>
-                ))}
+                {mission.relatedNPCs.map((npc, idx) => {
+                  const characterId = npcCharacterIds?.[idx]
+                  return (
+                    <div
+                      key={idx}
+                      className="px-4 py-2.5 rounded-lg bg-gradient-to-r from-background/80 to-background/50 border-2 border-violet-500/20 hover:border-violet-500/40 font-medium text-sm transition-all hover:shadow-md flex items-center gap-2"
+                    >
+                      <span className="text-base">👤</span>
+                      {characterId && onNpcClick ? (
+                        <button
+                          type="button"
+                          onClick={() => onNpcClick(characterId)}
+                          className="text-left underline decoration-dotted underline-offset-4 hover:text-violet-600 dark:hover:text-violet-400"
+                          title={t('rpg.environment.openNpcCharacter')}
+                        >
+                          {npc}
+                        </button>
+                      ) : (
+                        <span>{npc}</span>
+                      )}
+                      {!characterId && onFleshOutNpc && (
+                        <button
+                          type="button"
+                          onClick={() => onFleshOutNpc(npc)}
+                          disabled={!!fleshingOutNpc}
+                          className="shrink-0 no-print opacity-70 hover:opacity-100 disabled:cursor-not-allowed disabled:opacity-40"
+                          title={t('rpg.environment.fleshOutNpc')}
+                        >
+                          {fleshingOutNpc === npc ? '⏳' : '🧙'}
+                        </button>
+                      )}
+                    </div>
+                  )
+                })}
               </div>
             </div>
           </div>
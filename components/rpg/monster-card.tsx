@@ -0,0 +1,249 @@
+"use client"
+
+import { useTranslations } from 'next-intl'
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import type { Monster, MonsterFeature } from "@/types/rpg"
+
+interface MonsterCardProps {
+  monster: Monster
+  isLoading?: boolean
+  onRegenerateSection?: (sectionId: string) => void
+  regeneratingSection?: string | null
+  regenerateLabel?: (sectionId: string) => string
+}
+
+export function MonsterCard({ monster, isLoading = false, onRegenerateSection, regeneratingSection, regenerateLabel }: MonsterCardProps) {
+  const t = useTranslations()
+
+  if (isLoading) {
+    return (
+      <Card className="parchment ornate-border animate-pulse">
+        <CardHeader>
+          <div className="h-8 w-48 bg-muted rounded mb-2" />
+          <div className="h-4 w-32 bg-muted rounded" />
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            <div className="h-4 w-full bg-muted rounded" />
+            <div className="h-4 w-3/4 bg-muted rounded" />
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  // Ability modifier in stat-block format, e.g. 16 -> "+3"
+  const formatModifier = (score: number): string => {
+    const modifier = Math.floor((score - 10) / 2)
+    return modifier >= 0 ? `+${modifier}` : `${modifier}`
+  }
+
+  const abilities = [
+    { key: 'STR', value: monster.abilityScores.strength },
+    { key: 'DEX', value: monster.abilityScores.dexterity },
+    { key: 'CON', value: monster.abilityScores.constitution },
+    { key: 'INT', value: monster.abilityScores.intelligence },
+    { key: 'WIS', value: monster.abilityScores.wisdom },
+    { key: 'CHA', value: monster.abilityScores.charisma },
+  ]
+
+  const propertyLines = [
+    { label: t('rpg.monster.savingThrows'), value: monster.savingThrows.join(', ') },
+    { label: t('rpg.monster.skills'), value: monster.skills.join(', ') },
+    { label: t('rpg.monster.damageVulnerabilities'), value: monster.damageVulnerabilities.join('; ') },
+    { label: t('rpg.monster.damageResistances'), value: monster.damageResistances.join('; ') },
+    { label: t('rpg.monster.damageImmunities'), value: monster.damageImmunities.join('; ') },
+    { label: t('rpg.monster.conditionImmunities'), value: monster.conditionImmunities.join(', ') },
+    { label: t('rpg.monster.senses'), value: monster.senses },
+    { label: t('rpg.monster.languages'), value: monster.languages },
+  ].filter((line) => line.value)
+
+  const renderRegenerateButton = (sectionId: string) =>
+    onRegenerateSection && (
+      <Button variant="ghost" size="sm" onClick={() => onRegenerateSection(sectionId)} disabled={!!regeneratingSection} className="shrink-0 no-print" title={regenerateLabel?.(sectionId)}>
+        {regeneratingSection === sectionId ? '⏳' : '↻'}
+      </Button>
+    )
+
+  const renderFeatureSection = (
+    sectionId: string,
+    title: string,
+    features: MonsterFeature[] | undefined,
+    theme: { border: string; bg: string; text: string },
+    intro?: string
+  ) => {
+    if (!features || features.length === 0) return null
+    return (
+      <div className={`border-2 ${theme.border} rounded-xl overflow-hidden bg-gradient-to-br ${theme.bg} to-transparent`}>
+        <div className="p-4">
+          <div className="flex items-center justify-between gap-3 mb-3 border-b-2 border-red-900/30 pb-2">
+            <h3 className={`font-display text-xl font-semibold ${theme.text}`}>{title}</h3>
+            <div className="flex items-center gap-2">
+              {renderRegenerateButton(sectionId)}
+              <span className="px-2 py-1 bg-muted/50 border border-border rounded text-xs font-bold">
+                {features.length}
+              </span>
+            </div>
+          </div>
+          {intro && (
+            <p className="text-sm font-body text-muted-foreground mb-3 leading-relaxed">{intro}</p>
+          )}
+          <div className="space-y-3">
+            {features.map((feature, idx) => (
+              <p key={idx} className="text-sm font-body text-foreground leading-relaxed">
+                <span className="font-semibold italic">{feature.name}.</span> {feature.description}
+              </p>
+            ))}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <Card className="parchment ornate-border border-2 border-primary/20 print-card">
+      <CardHeader className="px-6 pt-6 pb-4 border-b-2 bg-gradient-to-r from-red-500/10 to-orange-500/5 border-red-500/30">
+        <div className="flex items-start justify-between gap-4 mb-3">
+          <div className="flex-1">
+            <CardTitle className="font-display text-4xl mb-2 flex items-center gap-3">
+              <span className="text-3xl">🐉</span>
+              {monster.name}
+            </CardTitle>
+            <p className="font-body text-sm italic text-muted-foreground mb-3">
+              {[monster.size, monster.creatureType].filter(Boolean).join(' ')}
+              {monster.alignment ? `, ${monster.alignment}` : ''}
+            </p>
+            <div className="flex flex-wrap items-center gap-3">
+              {monster.challengeRating && (
+                <div className="px-3 py-1.5 rounded-lg border-2 border-red-500/50 bg-red-500/20 text-red-600 dark:text-red-400 font-semibold text-sm">
+                  ☠️ {t('rpg.monster.challenge')} {monster.challengeRating}
+                  {monster.experiencePoints > 0 && ` (${t('rpg.monster.xp', { xp: monster.experiencePoints.toLocaleString() })})`}
+                </div>
+              )}
+              <div className="px-3 py-1.5 rounded-lg border-2 border-primary/50 bg-primary/20 text-primary font-semibold text-sm">
+                {t('rpg.proficiencyBonus')} +{monster.proficiencyBonus}
+              </div>
+            </div>
+          </div>
+          {/* Armor and Hit Points */}
+          <div className="flex gap-2 flex-shrink-0">
+            <div className="w-20 h-20 rounded-lg border-4 border-slate-500/40 bg-gradient-to-br from-slate-500/20 to-slate-500/5 flex flex-col items-center justify-center">
+              <span className="text-xs font-semibold text-muted-foreground">{t('rpg.monster.armorClassShort')}</span>
+              <span className="text-2xl font-bold font-display">{monster.armorClass}</span>
+            </div>
+            <div className="w-20 h-20 rounded-lg border-4 border-red-500/40 bg-gradient-to-br from-red-500/20 to-red-500/5 flex flex-col items-center justify-center">
+              <span className="text-xs font-semibold text-muted-foreground">{t('rpg.monster.hitPointsShort')}</span>
+              <span className="text-2xl font-bold font-display">{monster.hitPoints}</span>
+            </div>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        {/* Core Statistics */}
+        <div className="border-2 border-red-500/30 rounded-xl overflow-hidden bg-gradient-to-br from-red-500/10 via-red-500/5 to-transparent">
+          <div className="p-4 space-y-1.5 text-sm font-body">
+            <p>
+              <span className="font-semibold text-red-700 dark:text-red-400">{t('rpg.monster.armorClass')}</span> {monster.armorClass}
+              {monster.armorType ? ` (${monster.armorType})` : ''}
+            </p>
+            <p>
+              <span className="font-semibold text-red-700 dark:text-red-400">{t('rpg.monster.hitPoints')}</span> {monster.hitPoints}
+              {monster.hitDice ? ` (${monster.hitDice})` : ''}
+            </p>
+            <p>
+              <span className="font-semibold text-red-700 dark:text-red-400">{t('rpg.monster.speed')}</span> {monster.speed}
+            </p>
+          </div>
+        </div>
+
+        {/* Ability Scores */}
+        <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+          {abilities.map((ability) => (
+            <div key={ability.key} className="p-2 rounded-lg border-2 border-red-500/20 bg-background/60 text-center">
+              <div className="text-xs font-bold text-muted-foreground">{ability.key}</div>
+              <div className="text-lg font-bold font-display">{ability.value}</div>
+              <div className="text-xs font-semibold text-red-600 dark:text-red-400">({formatModifier(ability.value)})</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Defenses, senses and languages */}
+        {propertyLines.length > 0 && (
+          <div className="border-2 border-red-500/30 rounded-xl overflow-hidden bg-gradient-to-br from-red-500/10 via-red-500/5 to-transparent">
+            <div className="p-4 space-y-1.5 text-sm font-body">
+              {propertyLines.map((line) => (
+                <p key={line.label}>
+                  <span className="font-semibold text-red-700 dark:text-red-400">{line.label}</span> {line.value}
+                </p>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {renderFeatureSection('traits', t('rpg.monster.traits'), monster.traits, { border: 'border-amber-500/30', bg: 'from-amber-500/10 via-amber-500/5', text: 'text-amber-700 dark:text-amber-400' })}
+        {renderFeatureSection('actions', t('rpg.monster.actions'), monster.actions, { border: 'border-red-500/30', bg: 'from-red-500/10 via-red-500/5', text: 'text-red-700 dark:text-red-400' })}
+        {renderFeatureSection('reactions', t('rpg.monster.reactions'), monster.reactions, { border: 'border-blue-500/30', bg: 'from-blue-500/10 via-blue-500/5', text: 'text-blue-700 dark:text-blue-400' })}
+        {renderFeatureSection(
+          'legendaryActions',
+          t('rpg.monster.legendaryActions'),
+          monster.legendaryActions,
+          { border: 'border-purple-500/30', bg: 'from-purple-500/10 via-purple-500/5', text: 'text-purple-700 dark:text-purple-400' },
+          t('rpg.monster.legendaryActionsIntro', { name: monster.name, count: monster.legendaryActionsPerRound ?? 3 })
+        )}
+        {renderFeatureSection(
+          'lairActions',
+          t('rpg.monster.lairActions'),
+          monster.lairActions,
+          { border: 'border-emerald-500/30', bg: 'from-emerald-500/10 via-emerald-500/5', text: 'text-emerald-700 dark:text-emerald-400' },
+          t('rpg.monster.lairActionsIntro')
+        )}
+
+        {/* Description */}
+        {monster.description && (
+          <div className="border-2 border-teal-500/30 rounded-xl overflow-hidden bg-gradient-to-br from-teal-500/10 via-teal-500/5 to-transparent">
+            <div className="p-4">
+              <div className="flex items-center justify-between gap-3 mb-3">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-teal-500/20 border-2 border-teal-500/30 flex items-center justify-center text-xl flex-shrink-0">
+                    📖
+                  </div>
+                  <h3 className="font-display text-xl font-semibold">{t('rpg.monster.description')}</h3>
+                </div>
+                {renderRegenerateButton('description')}
+              </div>
+              <p className="font-body text-sm text-foreground leading-relaxed whitespace-pre-wrap">
+                {monster.description}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Tactics */}
+        {monster.tactics && (
+          <div className="border-2 border-yellow-500/30 rounded-xl overflow-hidden bg-gradient-to-br from-yellow-500/10 via-yellow-500/5 to-transparent">
+            <div className="p-4">
+              <div className="flex items-center justify-between gap-3 mb-3">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-yellow-500/20 border-2 border-yellow-500/30 flex items-center justify-center text-xl flex-shrink-0">
+                    🎯
+                  </div>
+                  <h3 className="font-display text-xl font-semibold">{t('rpg.monster.tactics')}</h3>
+                </div>
+                {renderRegenerateButton('tactics')}
+              </div>
+              <p className="font-body text-sm text-foreground leading-relaxed whitespace-pre-wrap">
+                {monster.tactics}
+              </p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
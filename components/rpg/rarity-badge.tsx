@@ -0,0 +1,36 @@
+"use client"
+
+import { useTranslations } from 'next-intl'
+import type { ItemRarity } from "@/types/rpg"
+
+interface RarityBadgeProps {
+  rarity: ItemRarity
+  size?: "sm" | "md" | "lg"
+}
+
+const rarityColors: Record<ItemRarity, { bg: string; text: string; border: string; icon: string }> = {
+  common: { bg: "bg-slate-500/20", text: "text-slate-600 dark:text-slate-300", border: "border-slate-500/50", icon: "⚪" },
+  uncommon: { bg: "bg-green-500/20", text: "text-green-600 dark:text-green-400", border: "border-green-500/50", icon: "🟢" },
+  rare: { bg: "bg-blue-500/20", text: "text-blue-600 dark:text-blue-400", border: "border-blue-500/50", icon: "🔵" },
+  "very rare": { bg: "bg-purple-500/20", text: "text-purple-600 dark:text-purple-400", border: "border-purple-500/50", icon: "🟣" },
+  legendary: { bg: "bg-orange-500/20", text: "text-orange-600 dark:text-orange-400", border: "border-orange-500/50", icon: "🟠" },
+  artifact: { bg: "bg-red-500/20", text: "text-red-600 dark:text-red-400", border: "border-red-500/50", icon: "🔴" },
+}
+
+export function RarityBadge({ rarity, size = "md" }: RarityBadgeProps) {
+  const t = useTranslations()
+  const colors = rarityColors[rarity] || rarityColors.common
+
+  const sizeClasses = {
+    sm: "px-2 py-1 text-xs",
+    md: "px-3 py-1.5 text-sm",
+    lg: "px-4 py-2 text-base",
+  }
+
+  return (
+    <div className={`inline-flex items-center gap-1.5 rounded-lg border-2 ${colors.border} ${colors.bg} ${sizeClasses[size]} font-semibold ${colors.text} whitespace-nowrap`}>
+      <span>{colors.icon}</span>
+      <span className="font-display">{t(`rpg.item.rarities.${rarity}`)}</span>
+    </div>
+  )
+}
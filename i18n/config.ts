@@ -8,3 +8,7 @@ export const localeNames: Record<Locale, string> = {
   'pt-BR': 'Português (Brasil)',
   es: 'Español',
 }
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (locales as readonly string[]).includes(value)
+}
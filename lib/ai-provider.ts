@@ -0,0 +1,256 @@
+/**
+ * AI Provider Registry
+ *
+ * Resolves the language model used by lib/ai.ts from environment configuration.
+ *
+ * Environment variables:
+ * - AI_PROVIDER: "openai" (default), "openai-compatible" or "fixture"
+ * - AI_MODEL: model id override (defaults to the provider's default model)
+ * - AI_BASE_URL: base URL of an OpenAI-compatible server (e.g. http://localhost:11434/v1 for Ollama)
+ * - AI_API_KEY: optional API key for OpenAI-compatible servers
+ * - OPENAI_API_KEY: required for the "openai" provider
+ */
+
+import { createOpenAI } from '@ai-sdk/openai'
+import type { LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1StreamPart } from 'ai'
+
+export type AIProviderId = 'openai' | 'openai-compatible' | 'fixture'
+
+export interface AIProviderDefinition {
+  id: AIProviderId
+  label: string
+  defaultModel: string
+  createModel: (modelId: string) => LanguageModelV1
+}
+
+export interface ResolvedLanguageModel {
+  providerId: AIProviderId
+  modelId: string
+  model: LanguageModelV1
+}
+
+const AI_PROVIDER_IDS: AIProviderId[] = ['openai', 'openai-compatible', 'fixture']
+
+/**
+ * Read and validate the OpenAI API key
+ * Valid OpenAI keys start with sk- or sk-proj-
+ */
+function requireOpenAIKey(): string {
+  const rawKey = process.env.OPENAI_API_KEY?.trim()
+  if (!rawKey || rawKey.length === 0) {
+    throw new Error(
+      'OPENAI_API_KEY is required but not configured. Add it to .env.local (local) or Vercel env (production), ' +
+      'or set AI_PROVIDER=openai-compatible / AI_PROVIDER=fixture to run without OpenAI.'
+    )
+  }
+  if (!rawKey.startsWith('sk-') && !rawKey.startsWith('sk-proj-')) {
+    throw new Error(
+      'OPENAI_API_KEY must start with sk- or sk-proj-. The value in .env.local looks wrong. ' +
+      'Get a key from https://platform.openai.com/api-keys and set: OPENAI_API_KEY=sk-your-key (no quotes, no extra spaces).'
+    )
+  }
+  return rawKey
+}
+
+/* =======================
+   Fixture provider
+======================= */
+
+type JsonSchemaNode = {
+  $ref?: string
+  type?: string | string[]
+  properties?: Record<string, JsonSchemaNode>
+  items?: JsonSchemaNode | JsonSchemaNode[]
+  enum?: unknown[]
+  anyOf?: JsonSchemaNode[]
+  oneOf?: JsonSchemaNode[]
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  minItems?: number
+  maxItems?: number
+  default?: unknown
+}
+
+/**
+ * Small deterministic string hash (FNV-1a) used to vary fixture output per prompt
+ */
+function hashString(text: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Resolve a local JSON pointer reference (e.g. "#/properties/rewards") against the root schema
+ */
+function resolveSchemaRef(root: JsonSchemaNode, ref: string): JsonSchemaNode | undefined {
+  if (!ref.startsWith('#')) return undefined
+  return ref
+    .slice(1)
+    .split('/')
+    .filter((segment) => segment.length > 0)
+    .reduce<unknown>((node, segment) => (node as Record<string, unknown> | undefined)?.[segment], root) as
+    | JsonSchemaNode
+    | undefined
+}
+
+/**
+ * Build a deterministic value that satisfies the given JSON schema node
+ */
+function buildFixtureValue(node: JsonSchemaNode | undefined, path: string, seed: string, root: JsonSchemaNode): unknown {
+  if (!node) return null
+
+  if (node.$ref) return buildFixtureValue(resolveSchemaRef(root, node.$ref), path, seed, root)
+
+  const variant = node.anyOf?.find((option) => option.type !== 'null') ?? node.oneOf?.[0]
+  if (variant) return buildFixtureValue(variant, path, seed, root)
+
+  if (node.enum && node.enum.length > 0) return node.enum[0]
+
+  const type = Array.isArray(node.type) ? node.type.find((t) => t !== 'null') : node.type
+
+  switch (type) {
+    case 'object': {
+      const result: Record<string, unknown> = {}
+      for (const [key, child] of Object.entries(node.properties ?? {})) {
+        result[key] = buildFixtureValue(child, path ? `${path}.${key}` : key, seed, root)
+      }
+      return result
+    }
+    case 'array': {
+      const itemSchema = Array.isArray(node.items) ? node.items[0] : node.items
+      const count = Math.min(Math.max(node.minItems ?? 2, 1), node.maxItems ?? 2)
+      return Array.from({ length: count }, (_, index) => buildFixtureValue(itemSchema, `${path}[${index}]`, seed, root))
+    }
+    case 'integer':
+    case 'number': {
+      const min = node.minimum ?? (node.exclusiveMinimum !== undefined ? node.exclusiveMinimum + 1 : 0)
+      const max = node.maximum ?? Math.max(min, 10)
+      return Math.floor((min + max) / 2)
+    }
+    case 'boolean':
+      return path.length % 2 === 0
+    case 'string':
+      return `Fixture ${path} ${seed.slice(0, 4)}`
+    default:
+      return node.default ?? null
+  }
+}
+
+/**
+ * Offline language model that returns deterministic JSON matching the requested schema.
+ * Useful for local development, demos and CI without any model server.
+ */
+function createFixtureModel(modelId: string): LanguageModelV1 {
+  const buildOutput = (options: LanguageModelV1CallOptions) => {
+    const promptText = JSON.stringify(options.prompt)
+    const schema = options.mode.type === 'object-json' ? (options.mode.schema as JsonSchemaNode | undefined) : undefined
+    const value = schema ? buildFixtureValue(schema, '', hashString(promptText), schema) : {}
+    const text = JSON.stringify(value)
+    return {
+      text,
+      usage: {
+        promptTokens: Math.ceil(promptText.length / 4),
+        completionTokens: Math.ceil(text.length / 4),
+      },
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+    }
+  }
+
+  return {
+    specificationVersion: 'v1',
+    provider: 'fixture',
+    modelId,
+    defaultObjectGenerationMode: 'json',
+    async doGenerate(options) {
+      const { text, usage, rawCall } = buildOutput(options)
+      return { text, usage, rawCall, finishReason: 'stop' }
+    },
+    async doStream(options) {
+      const { text, usage, rawCall } = buildOutput(options)
+      const chunkSize = 48
+      const stream = new ReadableStream<LanguageModelV1StreamPart>({
+        start(controller) {
+          for (let i = 0; i < text.length; i += chunkSize) {
+            controller.enqueue({ type: 'text-delta', textDelta: text.slice(i, i + chunkSize) })
+          }
+          controller.enqueue({ type: 'finish', finishReason: 'stop', usage })
+          controller.close()
+        },
+      })
+      return { stream, rawCall }
+    },
+  }
+}
+
+/* =======================
+   Registry
+======================= */
+
+export const AI_PROVIDERS: Record<AIProviderId, AIProviderDefinition> = {
+  openai: {
+    id: 'openai',
+    label: 'OpenAI',
+    defaultModel: 'gpt-4o-mini',
+    createModel: (modelId) => {
+      const openai = createOpenAI({ apiKey: requireOpenAIKey() })
+      return openai(modelId) as unknown as LanguageModelV1
+    },
+  },
+  'openai-compatible': {
+    id: 'openai-compatible',
+    label: 'OpenAI-compatible',
+    defaultModel: 'llama3.1',
+    createModel: (modelId) => {
+      const baseURL = process.env.AI_BASE_URL?.trim()
+      if (!baseURL) {
+        throw new Error(
+          'AI_BASE_URL is required when AI_PROVIDER=openai-compatible (e.g. http://localhost:11434/v1 for Ollama).'
+        )
+      }
+      const compatible = createOpenAI({
+        name: 'openai-compatible',
+        baseURL,
+        // Local servers usually ignore the key, but the client requires a value
+        apiKey: process.env.AI_API_KEY?.trim() || 'not-needed',
+        compatibility: 'compatible',
+      })
+      return compatible(modelId) as unknown as LanguageModelV1
+    },
+  },
+  fixture: {
+    id: 'fixture',
+    label: 'Offline fixture',
+    defaultModel: 'fixture-v1',
+    createModel: createFixtureModel,
+  },
+}
+
+/**
+ * Get the configured provider id from AI_PROVIDER (defaults to "openai")
+ */
+export function getAIProviderId(): AIProviderId {
+  const raw = process.env.AI_PROVIDER?.trim().toLowerCase()
+  if (!raw) return 'openai'
+  if (!AI_PROVIDER_IDS.includes(raw as AIProviderId)) {
+    throw new Error(`Unknown AI_PROVIDER "${raw}". Expected one of: ${AI_PROVIDER_IDS.join(', ')}.`)
+  }
+  return raw as AIProviderId
+}
+
+/**
+ * Resolve the language model for generation from environment configuration
+ */
+export function resolveLanguageModel(): ResolvedLanguageModel {
+  const provider = AI_PROVIDERS[getAIProviderId()]
+  const modelId = process.env.AI_MODEL?.trim() || provider.defaultModel
+  return {
+    providerId: provider.id,
+    modelId,
+    model: provider.createModel(modelId),
+  }
+}
@@ -1,24 +1,43 @@
 /**
  * AI Content Generation Library
  * 
- * Uses Vercel AI SDK with OpenAI GPT-4o-mini for real AI generation
+ * Uses Vercel AI SDK with a configurable provider (OpenAI, OpenAI-compatible or offline fixture).
+ * See lib/ai-provider.ts for provider configuration.
  */
 
-import { generateObject } from 'ai'
-import { createOpenAI } from '@ai-sdk/openai'
+import { createHash } from 'crypto'
+import { generateObject, streamObject } from 'ai'
+import type { DeepPartial } from 'ai'
 import { z } from 'zod'
 import { DND_REFERENCE } from "@/lib/dnd-reference"
+import { resolveLanguageModel } from "@/lib/ai-provider"
+import { defaultLocale, type Locale } from "@/i18n/config"
+import { getClassFeaturesAtLevel, getClassRules, getMaxSpellLevel, validateCharacter, validateLockedCharacter } from "@/lib/dnd-rules"
+import { getReferenceName } from "@/lib/content-references"
+import { applyFieldLocks } from "@/lib/field-locks"
+import { reportModelUsage, type ModelUsageEvent } from "@/lib/usage"
+import { LANGUAGE_PACKS, getGenerationPrompt, getPromptId, getSectionPrompt } from "@/lib/prompts"
 import type {
   Character,
+  ClassFeature,
+  Spell,
   Environment,
   Mission,
+  MagicItem,
+  Monster,
+  Faction,
   GeneratedContent,
   ContentType,
   AdvancedInput,
   AdvancedGenerationParams,
   AdvancedCharacterInput,
-  AdvancedEnvironmentInput,
   AdvancedMissionInput,
+  AdvancedItemInput,
+  AdvancedMonsterInput,
+  AdvancedFactionInput,
+  RulesCorrection,
+  GenerationProvenance,
+  TokenUsage,
 } from '@/types/rpg'
 
 // Dynamic import for franc to handle cases where it might not be installed
@@ -51,6 +70,13 @@ const classFeatureSchema = z.object({
   name: z.string().describe('The name of the class feature (e.g., "Rage", "Sneak Attack", "Bardic Inspiration")'),
   description: z.string().describe('A brief description of what the feature does'),
   level: z.number().int().min(1).max(20).describe('The level at which this feature is obtained (1-20)').optional().default(1),
+  className: z.string().optional().describe('Multiclassed characters only: the class that grants this feature (level is then the class level)'),
+})
+
+const characterClassSchema = z.object({
+  name: z.string().describe('The class (e.g., Fighter, Wizard)'),
+  level: z.number().int().min(1).max(20).describe('Levels taken in this class'),
+  subclass: z.string().optional().describe('The subclass (e.g., Battle Master, School of Evocation)'),
 })
 
 const skillSchema = z.object({
@@ -59,14 +85,55 @@ const skillSchema = z.object({
   modifier: z.number().describe('The skill modifier (ability modifier + proficiency bonus if proficient, or ability modifier + 2×proficiency bonus if expertise)'),
 })
 
+const weaponSchema = z.object({
+  name: z.string().describe('Weapon name (e.g., Longsword, Shortbow)'),
+  damage: z.string().describe('Damage dice only (e.g., "1d8", "2d6")'),
+  damageType: z.string().describe('Damage type (e.g., slashing, piercing, bludgeoning)'),
+  properties: z.array(z.string()).describe('Weapon properties (e.g., ["Finesse", "Light", "Thrown (20/60)"]); empty if none'),
+  weight: z.number().min(0).describe('Weight in pounds'),
+})
+
+const armorPieceSchema = z.object({
+  name: z.string().describe('Armor or shield name (e.g., Leather Armor, Chain Mail, Shield)'),
+  category: z.enum(['light', 'medium', 'heavy', 'shield']).describe('Armor category'),
+  armorClass: z.number().int().min(0).describe('Base AC of the armor (e.g., 11 leather, 14 scale mail, 16 chain mail) or the AC bonus of a shield (2)'),
+  weight: z.number().min(0).describe('Weight in pounds'),
+  stealthDisadvantage: z.boolean().optional().describe('Whether the armor imposes disadvantage on Stealth checks'),
+})
+
+const gearItemSchema = z.object({
+  name: z.string().describe('Item name (e.g., Rope, hempen (50 feet), Torch, Rations)'),
+  quantity: z.number().int().min(1).describe('How many the character carries'),
+  weight: z.number().min(0).describe('Weight of ONE unit in pounds'),
+})
+
+const equipmentSchema = z.object({
+  weapons: z.array(weaponSchema).describe('Weapons carried; empty if none'),
+  armor: z.array(armorPieceSchema).describe('Armor worn and shield carried; empty if none'),
+  gear: z.array(gearItemSchema).describe('Adventuring gear, tools, packs and personal items'),
+  currency: z.object({
+    cp: z.number().int().min(0),
+    sp: z.number().int().min(0),
+    ep: z.number().int().min(0),
+    gp: z.number().int().min(0),
+    pp: z.number().int().min(0),
+  }).describe('Coins carried'),
+})
+
 const characterSchema = z.object({
   name: z.string().describe('The character\'s name'),
   race: z.string().describe('The character\'s race (e.g., Human, Elf, Dwarf)'),
   class: z.string().describe('The character\'s class (e.g., Fighter, Wizard, Rogue)'),
   level: z.number().int().min(1).max(20).describe('The character\'s level (1-20)'),
+  classes: z.array(characterClassSchema).optional().describe('Multiclassed characters only: every class with its level, primary class first (levels add up to the character level). Omit for single-class characters.'),
+  subclass: z.string().optional().describe('Single-class characters only: the subclass (e.g., College of Lore, Champion), once the class level grants one (level 1 for Cleric, Sorcerer and Warlock, level 2 for Druid and Wizard, level 3 otherwise)'),
+  alignment: z.string().optional().describe('The character\'s alignment (e.g., Lawful Good, Chaotic Neutral)'),
   background: z.string().describe('The character\'s background (e.g., Noble, Sage, Criminal)'),
   history: z.string().describe('The character\'s backstory and history'),
   personality: z.string().describe('The character\'s personality traits and quirks'),
+  ideals: z.array(z.string()).optional().describe('1-2 ideals: the principles the character believes in, fitting their alignment and background'),
+  bonds: z.array(z.string()).optional().describe('1-2 bonds: the people, places or causes the character is tied to'),
+  flaws: z.array(z.string()).optional().describe('1-2 flaws: vices, fears or weaknesses others could exploit'),
   attributes: z.object({
     strength: z.number().int().min(1).max(20).describe('STR value (1-20)'),
     dexterity: z.number().int().min(1).max(20).describe('DEX value (1-20)'),
@@ -81,6 +148,7 @@ const characterSchema = z.object({
   traits: z.array(z.string()).describe('Array of personality traits and quirks'),
   racialTraits: z.array(z.string()).optional().describe('Array of racial traits for the character\'s race (standard D&D 5e racial features)'),
   classFeatures: z.array(classFeatureSchema).optional().describe('Array of class features for the character\'s class and level (ALL mandatory features)'),
+  equipment: equipmentSchema.optional().describe('Weapons, armor, adventuring gear and coins the character carries'),
   voiceDescription: z.string().describe('Description of the character\'s voice (e.g., "Hoarse voice", "Sweet voice", "Commanding voice")'),
   associatedMission: z.string().optional().describe('Optional associated mission or quest'),
 })
@@ -135,6 +203,146 @@ const missionSchema = z.object({
   choiceBasedRewards: z.array(choiceBasedRewardSchema).optional().describe('Optional rewards tied to specific choices or paths (e.g., "If negotiated: alliance + favor", "If combat: reputation + fear").'),
 })
 
+const itemChargesSchema = z.object({
+  max: z.number().int().min(1).max(50).describe('Maximum number of charges'),
+  recharge: z.string().describe('How the item regains charges (e.g., "Regains 1d6+1 charges daily at dawn", "Does not recharge")'),
+})
+
+const magicItemSchema = z.object({
+  name: z.string().describe('The name of the magic item'),
+  itemType: z.string().describe('The item category and base item (e.g., "Weapon (longsword)", "Wondrous item", "Ring", "Armor (plate)")'),
+  rarity: z.enum(['common', 'uncommon', 'rare', 'very rare', 'legendary', 'artifact']).describe('The item rarity'),
+  requiresAttunement: z.boolean().describe('Whether the item requires attunement'),
+  attunementRequirement: z.string().optional().describe('Who can attune to the item, if restricted (e.g., "by a spellcaster", "by a cleric or paladin")'),
+  charges: itemChargesSchema.optional().describe('Charges, only for items that use them'),
+  properties: z.array(z.string()).describe('Mechanical properties and effects using D&D 5e rules language (bonuses, spells, save DCs, activation)'),
+  description: z.string().describe('Physical appearance of the item'),
+  lore: z.string().describe('History and origin of the item'),
+  status: z.string().describe('DM-control status (e.g., "Standard magic item", "Dormant Artifact (awakens later)", "DM-controlled (unstable)", "Narrative-only")'),
+})
+
+const monsterFeatureSchema = z.object({
+  name: z.string().describe('Feature name (e.g., "Multiattack", "Bite", "Legendary Resistance (3/Day)")'),
+  description: z.string().describe('Rules text in D&D 5e stat-block style (e.g., "Melee Weapon Attack: +7 to hit, reach 10 ft., one target. Hit: 15 (2d10 + 4) piercing damage.")'),
+})
+
+const monsterSchema = z.object({
+  name: z.string().describe('The creature\'s name'),
+  size: z.enum(['Tiny', 'Small', 'Medium', 'Large', 'Huge', 'Gargantuan']).describe('The creature size'),
+  creatureType: z.string().describe('Creature type with optional tag (e.g., "dragon", "fiend (demon)", "humanoid (goblinoid)")'),
+  alignment: z.string().describe('Alignment (e.g., "chaotic evil", "unaligned")'),
+  armorClass: z.number().int().min(5).max(25).describe('Armor Class'),
+  armorType: z.string().optional().describe('Source of the armor class (e.g., "natural armor", "chain mail, shield")'),
+  hitPoints: z.number().int().min(1).describe('Average hit points (must match the hit dice)'),
+  hitDice: z.string().describe('Hit dice expression including Constitution bonus (e.g., "12d10 + 36")'),
+  speed: z.string().describe('Speeds (e.g., "30 ft., fly 60 ft., swim 30 ft.")'),
+  abilityScores: z.object({
+    strength: z.number().int().min(1).max(30).describe('STR value (1-30)'),
+    dexterity: z.number().int().min(1).max(30).describe('DEX value (1-30)'),
+    constitution: z.number().int().min(1).max(30).describe('CON value (1-30)'),
+    intelligence: z.number().int().min(1).max(30).describe('INT value (1-30)'),
+    wisdom: z.number().int().min(1).max(30).describe('WIS value (1-30)'),
+    charisma: z.number().int().min(1).max(30).describe('CHA value (1-30)'),
+  }),
+  savingThrows: z.array(z.string()).describe('Proficient saving throws with bonus (e.g., ["Dex +5", "Wis +3"]); empty if none'),
+  skills: z.array(z.string()).describe('Skills with bonus (e.g., ["Perception +6", "Stealth +5"]); empty if none'),
+  damageVulnerabilities: z.array(z.string()).describe('Damage vulnerabilities; empty if none'),
+  damageResistances: z.array(z.string()).describe('Damage resistances (e.g., "bludgeoning, piercing, and slashing from nonmagical attacks"); empty if none'),
+  damageImmunities: z.array(z.string()).describe('Damage immunities; empty if none'),
+  conditionImmunities: z.array(z.string()).describe('Condition immunities; empty if none'),
+  senses: z.string().describe('Senses including passive Perception (e.g., "darkvision 60 ft., passive Perception 16")'),
+  languages: z.string().describe('Languages (use "—" if none)'),
+  challengeRating: z.string().describe('Challenge rating (e.g., "1/4", "5", "17")'),
+  experiencePoints: z.number().int().min(0).describe('XP for the challenge rating'),
+  proficiencyBonus: z.number().int().min(2).max(9).describe('Proficiency bonus for the challenge rating'),
+  traits: z.array(monsterFeatureSchema).describe('Special traits (passive abilities such as "Amphibious", "Magic Resistance")'),
+  actions: z.array(monsterFeatureSchema).describe('Actions, including Multiattack if the creature attacks more than once'),
+  reactions: z.array(monsterFeatureSchema).optional().describe('Reactions, if any'),
+  legendaryActionsPerRound: z.number().int().min(1).max(5).optional().describe('Number of legendary actions per round (usually 3), only for legendary creatures'),
+  legendaryActions: z.array(monsterFeatureSchema).optional().describe('Legendary actions with their cost in the name (e.g., "Wing Attack (Costs 2 Actions)"), only for legendary creatures'),
+  lairActions: z.array(monsterFeatureSchema).optional().describe('Lair actions on initiative count 20, only for creatures with a lair'),
+  description: z.string().describe('Appearance and behavior of the creature'),
+  tactics: z.string().describe('How the creature fights and when it retreats'),
+})
+
+const factionLeaderSchema = z.object({
+  name: z.string().describe('The leader\'s name'),
+  title: z.string().describe('The leader\'s title or rank (e.g., "Guildmaster", "High Priestess")'),
+  description: z.string().describe('Personality, methods and role in the faction'),
+})
+
+const factionRelationshipSchema = z.object({
+  name: z.string().describe('Name of the other faction'),
+  relationship: z.string().describe('Nature of the alliance or rivalry and what fuels it'),
+})
+
+const factionSchema = z.object({
+  name: z.string().describe('The faction or organization name'),
+  factionType: z.string().describe('Kind of organization (e.g., "Thieves\' guild", "Doomsday cult", "Noble house", "Merchant league")'),
+  influence: z.enum(['local', 'regional', 'national', 'global']).describe('Reach of the faction\'s power'),
+  motto: z.string().optional().describe('Motto, creed or rallying cry'),
+  ideology: z.string().describe('What the faction believes and stands for'),
+  headquarters: z.string().describe('Where the faction is based'),
+  leadership: z.array(factionLeaderSchema).describe('Leaders of the faction'),
+  resources: z.array(z.string()).describe('Resources the faction can call on (wealth, soldiers, magic, spies, political favors)'),
+  goals: z.array(z.string()).describe('What the faction is actively working toward'),
+  secrets: z.array(z.string()).describe('Hidden truths about the faction, for the DM'),
+  allies: z.array(factionRelationshipSchema).describe('Allied factions'),
+  rivals: z.array(factionRelationshipSchema).describe('Rival or enemy factions'),
+  description: z.string().describe('Public reputation and how the faction operates day to day'),
+})
+
+const GENERATION_SCHEMAS: Record<ContentType, z.ZodType<any>> = {
+  character: characterSchema,
+  environment: environmentSchema,
+  mission: missionSchema,
+  item: magicItemSchema,
+  monster: monsterSchema,
+  faction: factionSchema,
+}
+
+// Full character JSON needs room; default truncates before attributes/skills/spells/traits/voiceDescription
+const GENERATION_MAX_TOKENS = 16384
+
+interface GenerationPrompt {
+  schema: z.ZodType<any>
+  systemPrompt: string
+  userPrompt: string
+  temperature: number
+  language: Locale
+  promptId: string // Registry template used, e.g. "character@1"
+}
+
+/**
+ * Streaming generation result
+ * partialObjectStream yields progressively more complete objects as the model writes them;
+ * content resolves to the validated final object.
+ */
+export interface RPGContentStream {
+  partialObjectStream: AsyncIterable<DeepPartial<GeneratedContent>>
+  content: Promise<GeneratedContent>
+  corrections: Promise<RulesCorrection[]>
+  language: Locale // Language the content is written in
+  provenance: Promise<GenerationProvenance> // Resolves once the model has finished and reported usage
+}
+
+/**
+ * Single-response generation result with the conditions it was generated under
+ */
+export interface GenerationResult {
+  content: GeneratedContent
+  provenance: GenerationProvenance
+}
+
+/**
+ * Generation result after deterministic corrections
+ * corrections lists what the 5e rules validator changed (characters only)
+ */
+interface FinalizedContent {
+  content: GeneratedContent
+  corrections: RulesCorrection[]
+}
+
 /**
  * Detect language from text input and return language name for AI prompts
  * Uses simple heuristics if franc is not available
@@ -266,461 +474,230 @@ async function detectLanguage(text: string): Promise<string> {
 }
 
 /**
- * Validate and correct skill modifiers based on proficiency flags
- * Ensures skill modifiers match: ability modifier + proficiency bonus (if proficient) + proficiency bonus (if expertise)
+ * Output language for a generation: the requested locale, or detected from the text when none was given
  */
-function validateCharacterSkills(character: Character): Character {
-  const proficiencyBonus = Math.floor((character.level + 7) / 4)
-  
-  // Helper to calculate ability modifier
-  const getAbilityModifier = (score: number): number => {
-    return Math.floor((score - 10) / 2)
-  }
-  
-  // Helper to get ability modifier for a skill
-  const getSkillAbilityModifier = (ability: string): number => {
-    switch (ability) {
-      case 'STR': return getAbilityModifier(character.attributes.strength)
-      case 'DEX': return getAbilityModifier(character.attributes.dexterity)
-      case 'CON': return getAbilityModifier(character.attributes.constitution)
-      case 'INT': return getAbilityModifier(character.attributes.intelligence)
-      case 'WIS': return getAbilityModifier(character.attributes.wisdom)
-      case 'CHA': return getAbilityModifier(character.attributes.charisma)
-      default: return 0
-    }
+export async function resolveOutputLanguage(language: Locale | undefined, text: string): Promise<Locale> {
+  if (language) return language
+  const detected = await detectLanguage(text)
+  console.log('[AI Generation] No output language requested, detected:', detected)
+  return (Object.keys(LANGUAGE_PACKS) as Locale[]).find((code) => LANGUAGE_PACKS[code].languageName === detected) ?? defaultLocale
+}
+
+/**
+ * Build the schema and prompts for a generation request from the prompt registry (lib/prompts)
+ * Shared by generateRPGContent (single response) and streamRPGContent (partial objects)
+ * Uses the latest version of the content type's template unless `promptVersion` is given.
+ */
+async function buildGenerationPrompt(
+  scenario: string,
+  contentType: ContentType,
+  advancedInput?: AdvancedInput,
+  generationParams?: AdvancedGenerationParams,
+  campaignContext?: string,
+  language?: Locale,
+  promptVersion?: number
+): Promise<GenerationPrompt> {
+  // Without an explicit language, detect it from the scenario text AND advanced inputs
+  // Combine scenario with any text from advanced inputs for better detection
+  let textForDetection = scenario
+  if (campaignContext && campaignContext.trim()) {
+    textForDetection += ' ' + campaignContext.trim()
   }
-  
-  // Map of skills to their abilities (standard D&D 5e)
-  const skillToAbility: Record<string, string> = {
-    'Acrobatics': 'DEX',
-    'Animal Handling': 'WIS',
-    'Arcana': 'INT',
-    'Athletics': 'STR',
-    'Deception': 'CHA',
-    'History': 'INT',
-    'Insight': 'WIS',
-    'Intimidation': 'CHA',
-    'Investigation': 'INT',
-    'Medicine': 'WIS',
-    'Nature': 'INT',
-    'Perception': 'WIS',
-    'Performance': 'CHA',
-    'Persuasion': 'CHA',
-    'Religion': 'INT',
-    'Sleight of Hand': 'DEX',
-    'Stealth': 'DEX',
-    'Survival': 'WIS',
+  if (advancedInput && contentType === 'character') {
+    const charInput = advancedInput as AdvancedCharacterInput
+    if (charInput.class) textForDetection += ' ' + charInput.class
+    charInput.classes?.forEach((cls) => { textForDetection += ' ' + cls.name })
+    if (charInput.race) textForDetection += ' ' + charInput.race
+    if (charInput.background) textForDetection += ' ' + charInput.background
   }
   
-  // Update skill modifiers
-  const updatedSkills = character.skills.map(skill => {
-    const ability = skillToAbility[skill.name] || 'STR'
-    const abilityModifier = getSkillAbilityModifier(ability)
-    const hasExpertise = character.expertise.includes(skill.name)
-    const correctModifier = abilityModifier + (skill.proficiency ? proficiencyBonus : 0) + (hasExpertise ? proficiencyBonus : 0)
-    
-    return {
-      ...skill,
-      modifier: correctModifier,
-    }
+  const outputLocale = await resolveOutputLanguage(language, textForDetection)
+  const languagePack = LANGUAGE_PACKS[outputLocale]
+  console.log('[AI Generation] Final language for generation:', languagePack.languageName)
+
+  const template = getGenerationPrompt(contentType, promptVersion)
+  const { system, user } = template.build({
+    scenario,
+    advancedInput,
+    generationParams,
+    campaignContext: campaignContext?.trim() || undefined,
+    language: languagePack,
   })
-  
+
+  const temperature = generationParams?.temperature ?? 0.8
+  const finalTemperature = Math.max(0.1, Math.min(1.2, temperature)) // Cap at 1.2 to reduce runaway text in history/personality
+
   return {
-    ...character,
-    skills: updatedSkills,
+    schema: GENERATION_SCHEMAS[contentType],
+    systemPrompt: system,
+    userPrompt: user,
+    temperature: finalTemperature,
+    language: outputLocale,
+    promptId: getPromptId(template),
   }
 }
 
 /**
- * Generate RPG content using AI
+ * Token usage as reported by the AI SDK; providers that do not report it give NaN counts
  */
-export async function generateRPGContent(
+function normalizeUsage(usage: unknown): TokenUsage | undefined {
+  const { promptTokens, completionTokens, totalTokens } = (usage || {}) as Partial<TokenUsage>
+  if (![promptTokens, completionTokens].every((count) => typeof count === 'number' && Number.isFinite(count))) {
+    return undefined
+  }
+  return {
+    promptTokens: promptTokens as number,
+    completionTokens: completionTokens as number,
+    totalTokens: typeof totalTokens === 'number' && Number.isFinite(totalTokens) ? totalTokens : (promptTokens as number) + (completionTokens as number),
+  }
+}
+
+/**
+ * Report a model call's token usage to the current usage recording (see lib/usage.ts)
+ * Calls whose provider reported no usage are skipped.
+ */
+async function reportUsage(
+  resolved: { providerId: string; modelId: string },
+  usage: unknown,
+  details: Pick<ModelUsageEvent, 'operation' | 'contentType' | 'section'>
+): Promise<void> {
+  const normalized = normalizeUsage(usage)
+  if (!normalized) return
+  await reportModelUsage({ ...details, provider: resolved.providerId, model: resolved.modelId, usage: normalized })
+}
+
+/**
+ * Record the conditions of a generation so it can be reproduced later
+ */
+function buildProvenance(
+  resolved: { providerId: string; modelId: string },
+  prompt: GenerationPrompt,
   scenario: string,
   contentType: ContentType,
-  advancedInput?: AdvancedInput,
-  generationParams?: AdvancedGenerationParams,
-  campaignContext?: string
-): Promise<GeneratedContent> {
-  // Require OpenAI API key - no fallback to mock
-  const rawKey = process.env.OPENAI_API_KEY?.trim()
-  if (!rawKey || rawKey.length === 0) {
-    throw new Error('OPENAI_API_KEY is required but not configured. Add it to .env.local (local) or Vercel env (production).')
-  }
-  // Valid OpenAI keys start with sk- or sk-proj-
-  if (!rawKey.startsWith('sk-') && !rawKey.startsWith('sk-proj-')) {
-    throw new Error(
-      'OPENAI_API_KEY must start with sk- or sk-proj-. The value in .env.local looks wrong. ' +
-      'Get a key from https://platform.openai.com/api-keys and set: OPENAI_API_KEY=sk-your-key (no quotes, no extra spaces).'
-    )
+  advancedInput: AdvancedInput | undefined,
+  generationParams: AdvancedGenerationParams | undefined,
+  campaignContext: string | undefined,
+  usage: unknown
+): GenerationProvenance {
+  const normalizedContext = campaignContext?.trim()
+  const normalizedUsage = normalizeUsage(usage)
+  return {
+    provider: resolved.providerId,
+    model: resolved.modelId,
+    contentType,
+    scenario,
+    temperature: prompt.temperature,
+    ...(generationParams?.tone ? { tone: generationParams.tone } : {}),
+    ...(generationParams?.complexity ? { complexity: generationParams.complexity } : {}),
+    ...(advancedInput && Object.keys(advancedInput).length > 0 ? { advancedInput } : {}),
+    ...(normalizedContext ? { campaignContextHash: createHash('sha256').update(normalizedContext).digest('hex') } : {}),
+    language: prompt.language,
+    promptVersion: prompt.promptId,
+    ...(normalizedUsage ? { usage: normalizedUsage } : {}),
+    generatedAt: new Date().toISOString(),
   }
-  const openai = createOpenAI({ apiKey: rawKey })
+}
 
-  try {
-    // Detect language from scenario text AND advanced inputs
-    // Combine scenario with any text from advanced inputs for better detection
-    let textForDetection = scenario
-    if (campaignContext && campaignContext.trim()) {
-      textForDetection += ' ' + campaignContext.trim()
-    }
-    if (advancedInput && contentType === 'character') {
-      const charInput = advancedInput as AdvancedCharacterInput
-      if (charInput.class) textForDetection += ' ' + charInput.class
-      if (charInput.race) textForDetection += ' ' + charInput.race
-      if (charInput.background) textForDetection += ' ' + charInput.background
-    }
-    
-    let detectedLanguage = await detectLanguage(textForDetection)
-    console.log('[AI Generation] Detected language:', detectedLanguage, 'for scenario:', scenario.substring(0, 100))
-    
-    // Validate detected language
-    const validLanguages = ['English', 'Portuguese', 'Spanish']
-    if (!detectedLanguage || !validLanguages.includes(detectedLanguage)) {
-      console.warn('[AI Generation] Invalid detected language:', detectedLanguage, ', defaulting to English')
-      detectedLanguage = 'English'
-    }
-    
-    console.log('[AI Generation] Final language for generation:', detectedLanguage)
-    
-    let schema: z.ZodType<any>
-    let systemPrompt: string
-    let userPrompt: string
-    const normalizedCampaignContext = campaignContext?.trim()
-    const campaignInstruction = normalizedCampaignContext
-      ? '\nCAMPAIGN CONTEXT: The user provided campaign context. Ensure all generated content aligns with this campaign setting, themes, factions, and existing details. Do not contradict established facts.'
-      : ''
-    const campaignContextBlock = normalizedCampaignContext
-      ? `\n\nCampaign Context (use for consistency):\n${normalizedCampaignContext}\n`
-      : ''
-
-    // Helper function to normalize class names (map common variations to D&D 5e standard names)
-    const normalizeClassName = (className?: string): string | undefined => {
-      if (!className) return undefined
-      const normalized = className.trim()
-      const classMap: Record<string, string> = {
-        'warrior': 'Fighter',
-        'guerreiro': 'Fighter',
-        'fighter': 'Fighter',
-        'barbarian': 'Barbarian',
-        'bárbaro': 'Barbarian',
-        'rogue': 'Rogue',
-        'ladino': 'Rogue',
-        'bard': 'Bard',
-        'bardo': 'Bard',
-        'wizard': 'Wizard',
-        'mago': 'Wizard',
-        'cleric': 'Cleric',
-        'clérigo': 'Cleric',
-        'ranger': 'Ranger',
-        'patrulheiro': 'Ranger',
-        'paladin': 'Paladin',
-        'paladino': 'Paladin',
-        'monk': 'Monk',
-        'monge': 'Monk',
-        'sorcerer': 'Sorcerer',
-        'feiticeiro': 'Sorcerer',
-        'warlock': 'Warlock',
-        'bruxo': 'Warlock',
-        'druid': 'Druid',
-        'druida': 'Druid',
-      }
-      return classMap[normalized.toLowerCase()] || normalized
+/**
+ * Apply deterministic corrections to a completed generation result
+ */
+function finalizeGeneratedContent(
+  contentType: ContentType,
+  generated: GeneratedContent,
+  advancedInput?: AdvancedInput
+): FinalizedContent {
+  let object = generated
+  let corrections: RulesCorrection[] = []
+
+  // Validate characters against the 5e rules (spells, class features, ability scores, proficiencies, skill modifiers)
+  if (contentType === 'character' && 'skills' in object && 'level' in object && 'attributes' in object) {
+    const validated = validateCharacter(object as Character)
+    object = validated.character
+    corrections = validated.corrections
+    if (corrections.length > 0) {
+      console.log('[AI Generation] Rules validator applied', corrections.length, 'corrections')
     }
+  }
 
-    // Helper function to normalize background names
-    const normalizeBackgroundName = (background?: string): string | undefined => {
-      if (!background) return undefined
-      const normalized = background.trim()
-      const backgroundMap: Record<string, string> = {
-        'artist': 'Entertainer',
-        'artista': 'Entertainer',
-        'entertainer': 'Entertainer',
-        'noble': 'Noble',
-        'nobre': 'Noble',
-        'sage': 'Sage',
-        'sábio': 'Sage',
-        'acolyte': 'Acolyte',
-        'acólito': 'Acolyte',
-        'criminal': 'Criminal',
-        'criminoso': 'Criminal',
-      }
-      return backgroundMap[normalized.toLowerCase()] || normalized
-    }
+  // Mission difficulty: prefer user's choice from advanced input, then model's, then default medium
+  if (contentType === 'mission' && object) {
+    const m = object as Mission
+    const req = (advancedInput as AdvancedMissionInput)?.difficulty
+    m.difficulty = (req === 'easy' || req === 'medium' || req === 'hard' || req === 'deadly' ? req : m.difficulty) || 'medium'
+  }
 
-    // Helper function to build constraints from advanced inputs
-    const buildAdvancedConstraints = (contentType: ContentType, input?: AdvancedInput): string => {
-      if (!input) return ''
-      
-      const constraints: string[] = []
-      
-      if (contentType === 'character' && 'level' in input) {
-        const charInput = input as AdvancedCharacterInput
-        // Normalize class and background names
-        const normalizedClass = normalizeClassName(charInput.class)
-        const normalizedBackground = normalizeBackgroundName(charInput.background)
-        
-        if (charInput.level) {
-          constraints.push(`CRITICAL: The character MUST be exactly level ${charInput.level}. Do NOT change this level.`)
-        }
-        if (normalizedClass) {
-          constraints.push(`CRITICAL: The character MUST be a ${normalizedClass}. Do NOT use any other class. The "class" field in the JSON response must be exactly "${normalizedClass}".`)
-        }
-        if (charInput.race) {
-          constraints.push(`CRITICAL: The character MUST be a ${charInput.race}. Do NOT use any other race. The "race" field in the JSON response must be exactly "${charInput.race}".`)
-        }
-        if (normalizedBackground) {
-          constraints.push(`CRITICAL: The character MUST have the ${normalizedBackground} background. Do NOT use any other background. The "background" field in the JSON response must be exactly "${normalizedBackground}".`)
-        }
-      } else if (contentType === 'environment' && 'mood' in input) {
-        const envInput = input as AdvancedEnvironmentInput
-        if (envInput.mood) constraints.push(`The environment MUST have a ${envInput.mood} mood`)
-        if (envInput.lighting) constraints.push(`The environment MUST have ${envInput.lighting} lighting`)
-        if (envInput.npcCount !== undefined) constraints.push(`The environment MUST include exactly ${envInput.npcCount} NPC${envInput.npcCount !== 1 ? 's' : ''}`)
-      } else if (contentType === 'mission' && 'difficulty' in input) {
-        const missionInput = input as AdvancedMissionInput
-        if (missionInput.difficulty) constraints.push(`The mission MUST be ${missionInput.difficulty} difficulty`)
-        if (missionInput.objectiveCount) constraints.push(`The mission MUST have exactly ${missionInput.objectiveCount} objective${missionInput.objectiveCount !== 1 ? 's' : ''}`)
-        if (missionInput.rewardTypes && missionInput.rewardTypes.length > 0) {
-          constraints.push(`The mission rewards MUST include: ${missionInput.rewardTypes.join(', ')}`)
-        }
-      }
-      
-      if (constraints.length === 0) return ''
-      return `\n\n═══════════════════════════════════════════════════════\nCRITICAL USER REQUIREMENTS (MUST BE FOLLOWED EXACTLY):\n═══════════════════════════════════════════════════════\n${constraints.map(c => `• ${c}`).join('\n')}\n═══════════════════════════════════════════════════════\n\nThese requirements are ABSOLUTELY MANDATORY. The JSON output MUST match these specifications exactly. Do not deviate from these requirements.`
-    }
+  // Magic items: honor the user's rarity/attunement choice and drop restrictions that no longer apply
+  if (contentType === 'item' && object) {
+    const item = object as MagicItem
+    const itemInput = advancedInput as AdvancedItemInput | undefined
+    if (itemInput?.rarity) item.rarity = itemInput.rarity
+    if (itemInput?.requiresAttunement !== undefined) item.requiresAttunement = itemInput.requiresAttunement
+    if (!item.requiresAttunement) delete item.attunementRequirement
+  }
 
-    // Helper function to adjust tone in prompts
-    const getToneInstruction = (tone?: string): string => {
-      if (!tone) return ''
-      switch (tone) {
-        case 'serious':
-          return ' Maintain a serious, dramatic tone throughout. Focus on realism and consequences.'
-        case 'playful':
-          return ' Maintain a light, playful tone throughout. Include humor and whimsical elements where appropriate.'
-        case 'balanced':
-        default:
-          return ' Maintain a balanced tone that can include both serious and light moments as appropriate.'
-      }
+  // Monsters: honor the requested CR/size and keep XP and proficiency bonus in line with the CR
+  if (contentType === 'monster' && object) {
+    const monster = object as Monster
+    const monsterInput = advancedInput as AdvancedMonsterInput | undefined
+    if (monsterInput?.challengeRating) monster.challengeRating = monsterInput.challengeRating
+    if (monsterInput?.size) monster.size = monsterInput.size
+    if (monsterInput?.legendary === false) {
+      delete monster.legendaryActionsPerRound
+      delete monster.legendaryActions
+      delete monster.lairActions
     }
-
-    // Helper function to adjust complexity in prompts
-    const getComplexityInstruction = (complexity?: string): string => {
-      if (!complexity) return ''
-      switch (complexity) {
-        case 'simple':
-          return ' Keep descriptions concise and straightforward. Focus on essential details only.'
-        case 'detailed':
-          return ' Provide extensive, rich details. Include sensory descriptions, deeper motivations, and elaborate world-building elements.'
-        case 'standard':
-        default:
-          return ''
-      }
+    const xp = DND_REFERENCE.challengeRatingXP[monster.challengeRating]
+    if (xp !== undefined) {
+      monster.experiencePoints = xp
+      const crValue = monster.challengeRating.includes('/') ? 0 : parseInt(monster.challengeRating, 10)
+      monster.proficiencyBonus = Math.max(2, Math.floor((Math.max(crValue, 1) - 1) / 4) + 2)
     }
+  }
 
-    // Get generation parameters with defaults
-    const temperature = generationParams?.temperature ?? 0.8
-    const toneInstruction = getToneInstruction(generationParams?.tone)
-    const complexityInstruction = getComplexityInstruction(generationParams?.complexity)
-    const complexity = generationParams?.complexity || 'standard' // Store for later checks
-    const tone = generationParams?.tone || 'balanced' // Store for later checks
-    const advancedConstraints = buildAdvancedConstraints(contentType, advancedInput)
-
-    switch (contentType) {
-      case 'character':
-        schema = characterSchema
-        const charInput = advancedInput as AdvancedCharacterInput | undefined
-        // Normalize class and background for consistent matching
-        const normalizedClass = normalizeClassName(charInput?.class)
-        const normalizedBackground = normalizeBackgroundName(charInput?.background)
-        const charLevel = charInput?.level ? ` Level ${charInput.level}` : ''
-        const charClass = normalizedClass ? ` ${normalizedClass}` : ''
-        const charRace = charInput?.race ? ` ${charInput.race}` : ''
-        
-        systemPrompt = `CRITICAL LANGUAGE REQUIREMENT: The user's scenario is written in ${detectedLanguage}. You MUST generate ALL content in ${detectedLanguage}. This includes ALL text, descriptions, names, titles, dialogue, and every single word of output. Every field must be in ${detectedLanguage}. 
-
-Example: If the user writes in Portuguese like "um bardo na taverna", you MUST respond with Portuguese names like "João" or "Maria", Portuguese descriptions, and all text in Portuguese. If the user writes in Spanish like "un bardo en la taberna", respond with Spanish names like "Juan" or "María" and all text in Spanish.
-
-You are an expert D&D 5e game master and character creator. Create detailed, immersive characters that feel authentic to the D&D 5e universe. Characters should have rich backstories, distinct personalities, and appropriate abilities for their level and class.${toneInstruction}${complexityInstruction} Include spells appropriate to the character's class and level. IMPORTANT: Ensure all skill proficiency flags are correctly set based on class, background, and race. Include all standard racial traits for the character's race. CRITICAL: Every character MUST include ALL mandatory class features for their class and level - this is non-negotiable. Non-spellcasting classes (Barbarian, Rogue, Fighter, Monk) must have their complete feature list.
-
-OUTPUT FORMAT: You MUST output a single valid JSON object with ALL required fields. Output them in this order: name, race, class, level, background, attributes, expertise, skills, traits, voiceDescription, history, personality, spells. CRITICAL: history = 2-5 sentences only. personality = 2-4 sentences only. Do NOT write long paragraphs, random words, code, or multiple languages in any field. Each spell: { name (string), level (number 0-9), description (string) }. Each skill: { name (string), proficiency (boolean), modifier (number) }. Do not output anything outside the JSON.
-
-FINAL REMINDER: The user wrote in ${detectedLanguage}. All output MUST be in ${detectedLanguage}. Every name, description, trait, and text field must be in ${detectedLanguage}.${campaignInstruction}`
-        // Build name instruction with emphasis on unique names
-        const nameInstruction = `CRITICAL: Generate a UNIQUE, CREATIVE character name appropriate for ${detectedLanguage} culture. DO NOT use generic names like "${charInput?.race || 'Race'} ${normalizedClass || 'Class'}" or literal translations. Create an authentic, memorable name that fits the character's background and culture (e.g., ${detectedLanguage === 'Portuguese' ? 'João, Maria, Carlos, Elena, Rafael' : detectedLanguage === 'Spanish' ? 'Juan, María, Carlos, Elena, Rafael' : 'John, Mary, Charles, Elena, Robert'}). The name field must contain ONLY the character's name, not their race and class.`
-
-        // Build spell instruction based on class
-        const spellInstruction = normalizedClass === 'Wizard' 
-          ? `- Spells: For Wizards, include ALL spells appropriate for level ${charInput?.level || 'the character'}. A ${charInput?.level || 'low-level'} Wizard should have 6-10 spells in their spellbook (mix of cantrips and leveled spells). Include essential spells like Magic Missile, Detect Magic, Mage Armor, and other spells fitting their level and specialization. The spells array must contain multiple spells, not just 3.`
-          : normalizedClass && ['Sorcerer', 'Bard', 'Cleric', 'Paladin', 'Ranger', 'Warlock', 'Druid'].includes(normalizedClass)
-          ? `- Spells: Include appropriate spells for a ${normalizedClass} of this level (typically 4-8 spells for lower levels, more for higher levels).`
-          : `- Spells: Non-spellcasting classes must have an empty spells array [].`
-
-        userPrompt = `CRITICAL LANGUAGE REQUIREMENT: The user's scenario below is written in ${detectedLanguage}. You MUST respond entirely in ${detectedLanguage}. Every word, name, description, and text must be in ${detectedLanguage}.
-
-Create a D&D 5e character based on this scenario: "${scenario}"${charLevel}${charClass}${charRace}${advancedConstraints}${campaignContextBlock}
-
-IMPORTANT: The scenario above is written in ${detectedLanguage}. You MUST match this language exactly. All character names, descriptions, backstories, personality traits, and every single text field must be in ${detectedLanguage}. Use names appropriate for ${detectedLanguage} culture (e.g., ${detectedLanguage === 'Portuguese' ? 'João, Maria, Carlos' : detectedLanguage === 'Spanish' ? 'Juan, María, Carlos' : 'John, Mary, Charles'}).
-
-${nameInstruction}
-
-Generate a complete character with:
-- Name: ${nameInstruction}${charInput?.level ? `\n- CRITICAL: MUST be exactly level ${charInput.level} (the "level" field in JSON must be ${charInput.level})` : '\n- Level between 1-10 (choose appropriately based on the scenario)'}${normalizedClass ? `\n- CRITICAL: MUST be a ${normalizedClass} (the "class" field in JSON must be exactly "${normalizedClass}")` : ''}${charInput?.race ? `\n- CRITICAL: MUST be a ${charInput.race} (the "race" field in JSON must be exactly "${charInput.race}")` : ''}${normalizedBackground ? `\n- CRITICAL: MUST have the ${normalizedBackground} background (the "background" field in JSON must be exactly "${normalizedBackground}")` : ''}
-- D&D 5e ability scores (STR, DEX, CON, INT, WIS, CHA) - values typically 8-15 for starting characters, with one or two higher stats (15-17) based on class
-- A compelling backstory that connects to the scenario${complexity === 'detailed' ? '. This backstory MUST be detailed and rich with descriptions. Write at least 2-3 paragraphs exploring the character\'s past, motivations, and connections.' : ' (written entirely in ' + detectedLanguage + ')'}${tone === 'serious' ? ' Maintain a serious, dramatic tone. Focus on realism, consequences, and meaningful experiences that shaped the character.' : ''} (ALL text in ${detectedLanguage})
-- Distinct personality traits (described in ${detectedLanguage}, at least 3-4 traits that make the character unique)
-- Expertise in 2-4 skills (if the class grants expertise, like Rogue or Bard)
-${spellInstruction}
-- ALL skills with accurate proficiency flags - mark proficiency: true for skills granted by class, background, or race. The modifier field should match: ability modifier + proficiency bonus (if proficient) or ability modifier + 2×proficiency bonus (if expertise)
-- Racial traits: Include ALL standard D&D 5e racial features for the character's race (e.g., Tiefling: Darkvision, Hellish Resistance, Infernal Legacy; Elf: Darkvision, Fey Ancestry, Keen Senses; Dwarf: Darkvision, Dwarven Resilience, Stonecunning)
-- Class Features: Include ALL mandatory class features for this class and level. This is REQUIRED for every character. Examples:
-  * Barbarian (Level 3): Rage (Level 1), Unarmored Defense (Level 1), Reckless Attack (Level 2), Danger Sense (Level 2), Primal Path feature (Level 3)
-  * Rogue (Level 3): Sneak Attack (Level 1), Thieves' Cant (Level 1), Expertise (Level 1), Cunning Action (Level 2), Roguish Archetype feature (Level 3)
-  * Fighter (Level 3): Fighting Style (Level 1), Second Wind (Level 1), Action Surge (Level 2), Martial Archetype feature (Level 3)
-  * Monk (Level 3): Unarmored Defense (Level 1), Martial Arts (Level 1), Ki (Level 2), Unarmored Movement (Level 2), Monastic Tradition feature (Level 3)
-  * Spellcasting classes (Bard, Wizard, etc.) must also include their class features (e.g., Bardic Inspiration for Bard, Arcane Recovery for Wizard)
-- Character traits and quirks
-- Voice description (e.g., "Hoarse voice", "Sweet voice", "Angry voice", "Deep voice", "Melodic voice", "Raspy voice") - NOT dialogue phrases, just the voice quality
-- Optional associated mission if relevant
-
-CRITICAL: 
-1. Ensure skill modifiers are calculated correctly. For each skill, proficiency: true means the modifier should be (ability modifier + proficiency bonus). For expertise, it should be (ability modifier + 2×proficiency bonus).
-2. Class features are MANDATORY - every character must have their complete class feature list. Non-spellcasting classes cannot rely on spells alone.
-3. Make the character feel alive and ready to use in a campaign.
-4. FINAL REMINDER: EVERY SINGLE TEXT FIELD MUST BE IN ${detectedLanguage}. Names, descriptions, traits, backstory, personality - everything must be in ${detectedLanguage}.`
-        break
-
-        case 'environment': {
-          schema = environmentSchema
-          const envInput = advancedInput as AdvancedEnvironmentInput | undefined
-        
-          const envMoodPrompt =
-            envInput?.mood
-              ? DND_REFERENCE.environment.moods[envInput.mood as keyof typeof DND_REFERENCE.environment.moods].prompt
-              : null
-        
-          const envLightingPrompt =
-            envInput?.lighting
-              ? DND_REFERENCE.environment.lighting[envInput.lighting as keyof typeof DND_REFERENCE.environment.lighting].prompt
-              : null
-        
-          const envMood = envMoodPrompt ? ` with ${envMoodPrompt}` : ''
-          const envLighting = envLightingPrompt ? ` with ${envLightingPrompt}` : ''
-          const envNPCs =
-            envInput?.npcCount !== undefined
-              ? ` with exactly ${envInput.npcCount} NPC${envInput.npcCount !== 1 ? 's' : ''}`
-              : ''
-        
-          systemPrompt = `CRITICAL LANGUAGE REQUIREMENT: The user's scenario is written in ${detectedLanguage}. You MUST generate ALL content in ${detectedLanguage}. This includes ALL text, descriptions, names, titles, dialogue, and every single word of output. Every field must be in ${detectedLanguage}.
-        
-        Example: If the user writes in Portuguese like "uma torre de mago", you MUST respond with Portuguese location names like "Torre do Mago" and all descriptions in Portuguese. If the user writes in Spanish like "una torre del mago", respond with Spanish names like "Torre del Mago" and all text in Spanish.
-        
-        You are an expert D&D 5e game master and world builder. Create immersive, atmospheric locations that bring the game world to life.${toneInstruction}${complexityInstruction} Environments should have rich sensory details, mood, and interactive elements that engage players.
-        
-        FINAL REMINDER: The user wrote in ${detectedLanguage}. All output MUST be in ${detectedLanguage}. Every name, description, feature, and text field must be in ${detectedLanguage}.${campaignInstruction}`
-        
-          userPrompt = `CRITICAL LANGUAGE REQUIREMENT: The user's scenario below is written in ${detectedLanguage}. You MUST respond entirely in ${detectedLanguage}. Every word, name, description, and text must be in ${detectedLanguage}.
-        
-        Create a D&D 5e environment/location based on this scenario: "${scenario}"${envMood}${envLighting}${envNPCs}${advancedConstraints}${campaignContextBlock}
-        
-        IMPORTANT: The scenario above is written in ${detectedLanguage}. You MUST match this language exactly. All location names, descriptions, features, NPC names, and every single text field must be in ${detectedLanguage}. Use names appropriate for ${detectedLanguage} culture.
-        
-        Generate a complete location with the following clearly separated sections (ALL in ${detectedLanguage}):
-        ${envInput?.mood
-          ? `- Mood: MUST be ${DND_REFERENCE.environment.moods[envInput.mood as keyof typeof DND_REFERENCE.environment.moods].label}`
-          : '- Mood: The emotional tone players should feel upon entering, described in ${detectedLanguage} (keep this distinct from the description)'
-        }
-        ${envInput?.lighting
-          ? `- Lighting: MUST be ${DND_REFERENCE.environment.lighting[envInput.lighting as keyof typeof DND_REFERENCE.environment.lighting].label}`
-          : '- Lighting: Lighting conditions and visibility described in ${detectedLanguage} (do NOT repeat description text)'
-        }
-        - Name: A memorable and unique location name (in ${detectedLanguage}, appropriate for ${detectedLanguage} culture)
-        - Description: A vivid visual description of the place in ${detectedLanguage} (do NOT describe mood or lighting here)
-        - Atmosphere: Ambient sounds, smells, and environmental details (described in ${detectedLanguage})
-        - Notable Features: Interactive elements players can investigate or use (described in ${detectedLanguage})
-        - NPCs: ${envInput?.npcCount !== undefined
-          ? `Exactly ${envInput.npcCount} NPC${envInput.npcCount !== 1 ? 's' : ''}, each with a short role description in ${detectedLanguage}`
-          : 'Key NPCs present, each with a short role description in ${detectedLanguage} (NPC names should be in ${detectedLanguage})'
-        }${envInput?.npcCount === 0 ? ' (no NPCs should be included)' : ''}
-        - Current Conflict: What is currently wrong or unstable in this location (described in ${detectedLanguage})
-        - Adventure Hooks: 2-3 concrete hooks that can immediately involve the players (written in ${detectedLanguage})
-        
-        Make the environment feel immersive, playable, and ready to use at the table.
-        Avoid repeating the same text across sections.
-        
-        FINAL REMINDER: EVERY SINGLE TEXT FIELD MUST BE IN ${detectedLanguage}. Location name, all descriptions, NPC names, features, conflicts, hooks - everything must be in ${detectedLanguage}.`
-          break
-        }
-
-      case 'mission':
-        schema = missionSchema
-        const missionInput = advancedInput as AdvancedMissionInput | undefined
-        const missionDifficulty = missionInput?.difficulty ? ` with ${missionInput.difficulty} difficulty` : ''
-        const missionObjectives = missionInput?.objectiveCount ? ` with exactly ${missionInput.objectiveCount} objective${missionInput.objectiveCount !== 1 ? 's' : ''}` : ''
-        const missionRewards = missionInput?.rewardTypes && missionInput.rewardTypes.length > 0 
-          ? ` with rewards including: ${missionInput.rewardTypes.join(', ')}` 
-          : ''
-        
-        systemPrompt = `CRITICAL LANGUAGE REQUIREMENT: The user's scenario is written in ${detectedLanguage}. You MUST generate ALL content in ${detectedLanguage}. This includes ALL text, descriptions, names, titles, dialogue, and every single word of output. Every field must be in ${detectedLanguage}.
-
-Example: If the user writes in Portuguese like "recuperar um artefato", you MUST respond with Portuguese mission titles like "A Recuperação do Artefato" and all descriptions in Portuguese. If the user writes in Spanish like "recuperar un artefacto", respond with Spanish titles like "La Recuperación del Artefacto" and all text in Spanish.
-
-You are an expert D&D 5e game master and quest designer. Create engaging missions and quests that provide clear objectives, appropriate challenges, and meaningful rewards.${toneInstruction}${complexityInstruction} Missions should fit naturally into a campaign and offer both primary and optional objectives. CRITICAL: Ensure difficulty matches stakes (world-altering content requires higher tier levels). Clarify artifact power and control mechanisms. Mark alternative objective paths clearly. Define concrete consequences for player choices.
-
-FINAL REMINDER: The user wrote in ${detectedLanguage}. All output MUST be in ${detectedLanguage}. Every title, description, objective, reward, and text field must be in ${detectedLanguage}.${campaignInstruction}`
-        userPrompt = `CRITICAL LANGUAGE REQUIREMENT: The user's scenario below is written in ${detectedLanguage}. You MUST respond entirely in ${detectedLanguage}. Every word, name, description, and text must be in ${detectedLanguage}.
-
-Create a D&D 5e mission/quest based on this scenario: "${scenario}"${missionDifficulty}${missionObjectives}${missionRewards}${advancedConstraints}${campaignContextBlock}
-
-IMPORTANT: The scenario above is written in ${detectedLanguage}. You MUST match this language exactly. All mission titles, descriptions, objectives, rewards, NPC names, location names, and every single text field must be in ${detectedLanguage}. Use names appropriate for ${detectedLanguage} culture.
-
-Generate a complete mission with the following (ALL in ${detectedLanguage}):
-${missionInput?.difficulty ? `- Difficulty: MUST be ${missionInput.difficulty}` : '- Difficulty: Level (easy, medium, hard, or deadly) - must align with stakes and recommended level'}
-- Title: An engaging mission title (in ${detectedLanguage})
-- Description: Detailed mission description (written entirely in ${detectedLanguage})
-- Context: Background context and setup (written in ${detectedLanguage})
-- Recommended Level: Party level range based on difficulty and stakes (Easy: 1-3, Medium: 4-6, Hard: 7-10, Deadly: 11+). World-altering stakes (artifacts, prophecies, world balance) should match higher tier levels. Format the level text in ${detectedLanguage}.
-- Objectives: ${missionInput?.objectiveCount ? `Exactly ${missionInput.objectiveCount} objective${missionInput.objectiveCount !== 1 ? 's' : ''}` : '2-4 objectives (mix of primary required and optional)'}, all described in ${detectedLanguage}. When objectives represent different approaches (e.g., negotiate vs. combat), mark them as alternative paths (isAlternative: true) and specify pathType (combat, social, stealth, or mixed).
-- Powerful Items: If the mission involves artifacts or powerful items, include them with clear status descriptions in ${detectedLanguage} (e.g., "Dormant Artifact (awakens later)", "DM-controlled Artifact (unstable)", "Narrative Artifact (limited mechanical use)") to help DMs manage game balance. Item names should be in ${detectedLanguage}.
-- Possible Outcomes: 3-4 possible outcomes showing concrete consequences of different player choices, all written in ${detectedLanguage} (e.g., "If negotiated → alliance formed, sorceress becomes ally", "If combat → reputation gained, but faction becomes hostile", "If artifact kept → future consequences arise").
-- Rewards: Base rewards (${missionInput?.rewardTypes && missionInput.rewardTypes.length > 0 ? missionInput.rewardTypes.join(', ') : 'XP, gold, items'}) appropriate for difficulty level. Item names and descriptions must be in ${detectedLanguage}.
-- Choice-Based Rewards: Optional rewards tied to specific paths/choices, all described in ${detectedLanguage} (e.g., "If negotiated: alliance + favor + knowledge", "If combat: reputation + fear + loot", "If artifact sealed: future quest hook").
-- Related NPCs: NPCs involved in the mission (NPC names and descriptions in ${detectedLanguage})
-- Related Locations: Locations relevant to the mission (location names in ${detectedLanguage})
-
-Make the mission feel exciting, playable, and ready to run in a campaign. Ensure difficulty matches the scope of stakes.
-
-FINAL REMINDER: EVERY SINGLE TEXT FIELD MUST BE IN ${detectedLanguage}. Mission title, all descriptions, objective texts, reward item names, NPC names, location names, outcomes - everything must be in ${detectedLanguage}.`
-        break
-
-      default:
-        throw new Error(`Unknown content type: ${contentType}`)
-    }
+  // Factions: honor the requested influence
+  if (contentType === 'faction' && object) {
+    const faction = object as Faction
+    const factionInput = advancedInput as AdvancedFactionInput | undefined
+    if (factionInput?.influence) faction.influence = factionInput.influence
+  }
 
-    const finalTemperature = Math.max(0.1, Math.min(1.2, temperature)) // Cap at 1.2 to reduce runaway text in history/personality
+  return { content: object, corrections }
+}
 
-    const result = await (generateObject as any)({
-      model: openai('gpt-4o-mini'),
-      schema,
-      system: systemPrompt,
-      prompt: userPrompt,
-      temperature: finalTemperature,
-      maxTokens: 16384, // Full character JSON needs room; default truncates before attributes/skills/spells/traits/voiceDescription
-    })
+/**
+ * Generate RPG content using AI
+ * `promptVersion` picks an older version of the content type's prompt template (lib/prompts); defaults to the latest.
+ */
+export async function generateRPGContent(
+  scenario: string,
+  contentType: ContentType,
+  advancedInput?: AdvancedInput,
+  generationParams?: AdvancedGenerationParams,
+  campaignContext?: string,
+  language?: Locale,
+  promptVersion?: number
+): Promise<GenerationResult> {
+  // Resolve the configured provider - throws if it is misconfigured (no fallback to mock)
+  const resolved = resolveLanguageModel()
+  const { model } = resolved
 
-    let object = result.object
+  try {
+    const prompt = await buildGenerationPrompt(scenario, contentType, advancedInput, generationParams, campaignContext, language, promptVersion)
 
-    // Validate and correct skill modifiers for characters
-    if (contentType === 'character' && 'skills' in object && 'level' in object && 'attributes' in object) {
-      object = validateCharacterSkills(object as Character)
-    }
+    const result = await (generateObject as any)({
+      model,
+      schema: prompt.schema,
+      system: prompt.systemPrompt,
+      prompt: prompt.userPrompt,
+      temperature: prompt.temperature,
+      maxTokens: GENERATION_MAX_TOKENS,
+    })
+    await reportUsage(resolved, result.usage, { operation: 'generate', contentType })
 
-    // Mission difficulty: prefer user's choice from advanced input, then model's, then default medium
-    if (contentType === 'mission' && object) {
-      const m = object as Mission
-      const req = (advancedInput as AdvancedMissionInput)?.difficulty
-      m.difficulty = (req === 'easy' || req === 'medium' || req === 'hard' || req === 'deadly' ? req : m.difficulty) || 'medium'
+    return {
+      content: finalizeGeneratedContent(contentType, result.object as GeneratedContent, advancedInput).content,
+      provenance: buildProvenance(resolved, prompt, scenario, contentType, advancedInput, generationParams, campaignContext, result.usage),
     }
-
-    return object as GeneratedContent
   } catch (error) {
     // #region agent log
     const err = error as { name?: string; value?: unknown; cause?: { issues?: Array<{ path?: unknown; code?: string; expected?: string; received?: string }> } }
@@ -736,22 +713,77 @@ FINAL REMINDER: EVERY SINGLE TEXT FIELD MUST BE IN ${detectedLanguage}. Mission
     const issuesDetail = err?.cause?.issues?.slice(0, 14).map(i => ({ path: i.path, code: i.code, expected: i.expected, received: i.received })) ?? []
     fetch('http://127.0.0.1:7242/ingest/f36a4b61-b46c-4425-8755-db39bb2e81e7',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'lib/ai.ts:catch',message:'generateObject error',data:{name:err?.name,valueKeys,valueKeysCount:valueKeys?.length??0,valueStrLength,valueStrEnd,valueHistoryLen,valuePersonalityLen,issuePaths:err?.cause?.issues?.map(i=>i.path),issuesDetail},timestamp:Date.now(),sessionId:'debug-session',hypothesisId:'H1,H2,H3,H4'})}).catch(()=>{});
     // #endregion
-    console.error('OpenAI generation error:', error)
+    console.error('AI generation error:', error)
     // Re-throw error - no fallback to mock
     throw error
   }
 }
 
+/**
+ * Stream RPG content using AI
+ * Same prompts and post-generation corrections as generateRPGContent, but exposes partial objects
+ * so the UI can render fields as soon as the model produces them.
+ */
+export async function streamRPGContent(
+  scenario: string,
+  contentType: ContentType,
+  advancedInput?: AdvancedInput,
+  generationParams?: AdvancedGenerationParams,
+  campaignContext?: string,
+  language?: Locale,
+  promptVersion?: number
+): Promise<RPGContentStream> {
+  // Resolve the configured provider - throws if it is misconfigured (no fallback to mock)
+  const resolved = resolveLanguageModel()
+  const { model } = resolved
+
+  const prompt = await buildGenerationPrompt(scenario, contentType, advancedInput, generationParams, campaignContext, language, promptVersion)
+
+  const result = await (streamObject as any)({
+    model,
+    schema: prompt.schema,
+    system: prompt.systemPrompt,
+    prompt: prompt.userPrompt,
+    temperature: prompt.temperature,
+    maxTokens: GENERATION_MAX_TOKENS,
+  })
+
+  const finalized = (result.object as Promise<GeneratedContent>).then((object) =>
+    finalizeGeneratedContent(contentType, object, advancedInput)
+  )
+  const content = finalized.then((f) => f.content)
+  const corrections = finalized.then((f) => f.corrections)
+  const provenance = (result.usage as Promise<unknown>).then(async (usage) => {
+    await reportUsage(resolved, usage, { operation: 'generate', contentType })
+    return buildProvenance(resolved, prompt, scenario, contentType, advancedInput, generationParams, campaignContext, usage)
+  })
+  // The object promise can reject while the caller is still reading partials; callers await it afterwards
+  content.catch(() => {})
+  corrections.catch(() => {})
+  provenance.catch(() => {})
+
+  return {
+    partialObjectStream: result.partialObjectStream as AsyncIterable<DeepPartial<GeneratedContent>>,
+    content,
+    corrections,
+    language: prompt.language,
+    provenance,
+  }
+}
+
 /**
  * Generate a variation of existing content
- * Creates a similar but different version of the original content
+ * Creates a similar but different version of the original content.
+ * `lockedFields` (see lib/field-locks.ts) are given to the model as fixed and copied from the original afterwards.
  */
 export async function generateContentVariation(
   originalContent: GeneratedContent,
   contentType: ContentType,
   originalScenario: string,
-  variationPrompt?: string
-): Promise<GeneratedContent> {
+  variationPrompt?: string,
+  language?: Locale,
+  lockedFields: string[] = []
+): Promise<GenerationResult> {
   // Build a summary of the original content for context
   let originalSummary = ''
   
@@ -764,6 +796,15 @@ export async function generateContentVariation(
   } else if (contentType === 'mission') {
     const mission = originalContent as Mission
     originalSummary = `${mission.title}: ${mission.description.substring(0, 200)}...`
+  } else if (contentType === 'item') {
+    const item = originalContent as MagicItem
+    originalSummary = `${item.name}, a ${item.rarity} ${item.itemType}. ${item.description.substring(0, 200)}...`
+  } else if (contentType === 'monster') {
+    const monster = originalContent as Monster
+    originalSummary = `${monster.name}, a ${monster.size} ${monster.creatureType} (CR ${monster.challengeRating}). ${monster.description.substring(0, 200)}...`
+  } else if (contentType === 'faction') {
+    const faction = originalContent as Faction
+    originalSummary = `${faction.name}, a ${faction.influence} ${faction.factionType}. ${faction.ideology.substring(0, 200)}...`
   }
 
   // Build variation scenario prompt
@@ -771,38 +812,167 @@ export async function generateContentVariation(
     ? ` Make the following specific changes: ${variationPrompt}`
     : ' Create a similar but distinctly different version with unique characteristics, different details, and fresh elements while maintaining the same general theme and type.'
 
-  const variationScenario = `Based on this ${contentType}: "${originalSummary}"${variationInstructions} The original scenario was: "${originalScenario}". Generate a new variation that is similar in theme but different in specific details.`
+  const lockedValues = Object.fromEntries(
+    lockedFields.map((field) => [field, (originalContent as unknown as Record<string, unknown>)[field]])
+  )
+  const lockedInstructions = lockedFields.length > 0
+    ? ` These fields are fixed and must stay exactly as in the original, so keep the rest consistent with them: ${JSON.stringify(lockedValues)}.`
+    : ''
+
+  const variationScenario = `Based on this ${contentType}: "${originalSummary}"${variationInstructions} The original scenario was: "${originalScenario}". Generate a new variation that is similar in theme but different in specific details.${lockedInstructions}`
 
   // Use existing generation function with variation scenario
-  return await generateRPGContent(
+  const variation = await generateRPGContent(
     variationScenario,
     contentType,
     undefined, // No advanced input for variations
-    { temperature: 0.9 } // Slightly higher temperature for more variation
+    { temperature: 0.9 }, // Slightly higher temperature for more variation
+    undefined,
+    // The variation scenario wraps the original in English, so detect from the original scenario instead
+    await resolveOutputLanguage(language, originalScenario)
+  )
+
+  // Characters are validated with the locks: the validator never edits a locked field, and derived values
+  // (skill modifiers, combat stats) are computed from the locked fields rather than the ones they replaced
+  if (contentType === 'character' && lockedFields.length > 0) {
+    const validated = validateLockedCharacter(variation.content as Character, originalContent as Character, lockedFields)
+    return { ...variation, content: validated.character }
+  }
+  return { ...variation, content: applyFieldLocks(variation.content, originalContent, lockedFields) }
+}
+
+// Caps on the locations and NPCs fleshed out for one adventure; each one is a generation call
+const MAX_ADVENTURE_LOCATIONS = 4
+const MAX_ADVENTURE_NPCS = 6
+// Generations an adventure can take at most: the mission, then every location and NPC
+export const MAX_ADVENTURE_GENERATIONS = 1 + MAX_ADVENTURE_LOCATIONS + MAX_ADVENTURE_NPCS
+const ADVENTURE_CONCURRENCY = 3
+
+/**
+ * Adventure bundle: a mission plus the locations and NPCs it references
+ * npcLocations maps a character index to the indexes of the environments that list that NPC.
+ * provenance has one entry per generated item, in the same order as the items.
+ */
+export interface AdventureBundle {
+  mission: Mission
+  environments: Environment[]
+  characters: Character[]
+  npcLocations: number[][]
+  language: Locale
+  provenance: {
+    mission: GenerationProvenance
+    environments: GenerationProvenance[]
+    characters: GenerationProvenance[]
+  }
+}
+
+/**
+ * Generate a one-shot adventure
+ * Generates a mission, then an environment for each of its relatedLocations and a character for each of its
+ * relatedNPCs. Every generation sees the full cast, and locations and NPCs keep the exact names the mission uses.
+ */
+export async function generateAdventureBundle(
+  scenario: string,
+  advancedInput?: AdvancedMissionInput,
+  generationParams?: AdvancedGenerationParams,
+  campaignContext?: string,
+  language?: Locale
+): Promise<AdventureBundle> {
+  // Resolve once so every part of the adventure is written in the same language
+  const outputLocale = await resolveOutputLanguage(language, [scenario, campaignContext].filter(Boolean).join(' '))
+  const missionResult = await generateRPGContent(scenario, 'mission', advancedInput, generationParams, campaignContext, outputLocale)
+  const mission = missionResult.content as Mission
+
+  const locationReferences = (mission.relatedLocations || []).slice(0, MAX_ADVENTURE_LOCATIONS)
+  const npcReferences = (mission.relatedNPCs || []).slice(0, MAX_ADVENTURE_NPCS)
+  const locationNames = locationReferences.map(getReferenceName)
+  const npcNames = npcReferences.map(getReferenceName)
+
+  const adventureContext = [
+    campaignContext?.trim(),
+    `Adventure "${mission.title}": ${mission.description}`,
+    locationNames.length > 0 ? `Adventure locations: ${locationNames.join('; ')}` : '',
+    npcNames.length > 0 ? `Adventure NPCs: ${npcNames.join('; ')}` : '',
+    'Always use these exact names when referring to the adventure, its locations or its NPCs.',
+  ].filter(Boolean).join('\n')
+
+  const jobs: (() => Promise<void>)[] = []
+  const environments: Environment[] = []
+  const characters: Character[] = []
+  const environmentProvenance: GenerationProvenance[] = []
+  const characterProvenance: GenerationProvenance[] = []
+  locationReferences.forEach((reference, index) => {
+    jobs.push(async () => {
+      const result = await generateRPGContent(
+        `${reference}, a location in the adventure "${mission.title}"`,
+        'environment',
+        undefined,
+        generationParams,
+        adventureContext,
+        outputLocale
+      )
+      environments[index] = { ...(result.content as Environment), name: locationNames[index] }
+      environmentProvenance[index] = result.provenance
+    })
+  })
+  npcReferences.forEach((reference, index) => {
+    jobs.push(async () => {
+      const result = await generateRPGContent(
+        `${reference}, an NPC in the adventure "${mission.title}"`,
+        'character',
+        undefined,
+        generationParams,
+        adventureContext,
+        outputLocale
+      )
+      characters[index] = { ...(result.content as Character), name: npcNames[index] }
+      characterProvenance[index] = result.provenance
+    })
+  })
+
+  // Each worker takes the next pending generation until none are left
+  let nextJob = 0
+  await Promise.all(
+    Array.from({ length: Math.min(ADVENTURE_CONCURRENCY, jobs.length) }, async () => {
+      while (nextJob < jobs.length) {
+        await jobs[nextJob++]()
+      }
+    })
   )
+
+  const npcLocations = npcNames.map((name) =>
+    environments.flatMap((environment, environmentIndex) =>
+      (environment.npcs || []).some((npc) => npc.toLowerCase().includes(name.toLowerCase())) ? [environmentIndex] : []
+    )
+  )
+
+  return {
+    mission,
+    environments,
+    characters,
+    npcLocations,
+    language: outputLocale,
+    provenance: { mission: missionResult.provenance, environments: environmentProvenance, characters: characterProvenance },
+  }
 }
 
 /**
  * Regenerate a specific section of generated content
  * Returns only the regenerated section data, not the full content.
  * For environment npcs, sectionIndex regenerates only the NPC at that 0-based index (returns a string).
+ * `instructions` is optional user direction for the new section (e.g. "make the traits darker").
  */
 export async function generateRPGContentSection(
   scenario: string,
   contentType: ContentType,
   section: string,
   currentContent: any,
-  sectionIndex?: number
+  sectionIndex?: number,
+  language?: Locale,
+  instructions?: string
 ): Promise<any> {
-  // Detect language from scenario
-  const detectedLanguage = await detectLanguage(scenario)
-  const validLanguages = ['English', 'Portuguese', 'Spanish']
-  const finalLanguage = validLanguages.includes(detectedLanguage) ? detectedLanguage : 'English'
-
-  // Build section-specific prompts
-  let systemPrompt: string
-  let userPrompt: string
-  let schema: z.ZodType<any>
+  // Requested language, or detected from the scenario
+  const languagePack = LANGUAGE_PACKS[await resolveOutputLanguage(language, scenario)]
 
   // Define sections that can be regenerated for each content type
   const characterSections: Record<string, { schema: z.ZodType<any>, description: string }> = {
@@ -835,8 +1005,9 @@ export async function generateRPGContentSection(
         name: z.string(),
         description: z.string(),
         level: z.number(),
+        className: z.string().optional(),
       })),
-      description: 'class features for the character\'s class and level (ALL mandatory features)',
+      description: 'class features for the character\'s class and level (ALL mandatory features; for multiclassed characters, every class\'s features up to its own class level, with className set)',
     },
     background: {
       schema: z.string(),
@@ -846,6 +1017,22 @@ export async function generateRPGContentSection(
       schema: z.string(),
       description: 'personality description',
     },
+    ideals: {
+      schema: z.array(z.string()),
+      description: '1-2 ideals (principles the character believes in) fitting their alignment and background',
+    },
+    bonds: {
+      schema: z.array(z.string()),
+      description: '1-2 bonds (people, places or causes the character is tied to) fitting their history',
+    },
+    flaws: {
+      schema: z.array(z.string()),
+      description: '1-2 flaws (vices, fears or weaknesses) fitting their personality',
+    },
+    equipment: {
+      schema: equipmentSchema,
+      description: 'equipment (weapons with damage dice and properties, armor the class is proficient with, adventuring gear and coins) appropriate for the character\'s class, background and level',
+    },
   }
 
   const environmentSections: Record<string, { schema: z.ZodType<any>, description: string }> = {
@@ -910,6 +1097,83 @@ export async function generateRPGContentSection(
     },
   }
 
+  const itemSections: Record<string, { schema: z.ZodType<any>, description: string }> = {
+    properties: {
+      schema: z.array(z.string()),
+      description: 'mechanical properties and effects balanced for the item\'s rarity',
+    },
+    charges: {
+      schema: itemChargesSchema,
+      description: 'charges (maximum and recharge rule) balanced for the item\'s rarity',
+    },
+    description: {
+      schema: z.string(),
+      description: 'physical appearance of the item',
+    },
+    lore: {
+      schema: z.string(),
+      description: 'history and origin of the item',
+    },
+  }
+
+  const monsterSections: Record<string, { schema: z.ZodType<any>, description: string }> = {
+    traits: {
+      schema: z.array(monsterFeatureSchema),
+      description: 'special traits consistent with the creature\'s challenge rating',
+    },
+    actions: {
+      schema: z.array(monsterFeatureSchema),
+      description: 'actions (Multiattack and attacks with to-hit bonus and damage dice) consistent with the challenge rating',
+    },
+    reactions: {
+      schema: z.array(monsterFeatureSchema),
+      description: '0-2 reactions fitting the creature',
+    },
+    legendaryActions: {
+      schema: z.array(monsterFeatureSchema),
+      description: '3 legendary action options with their costs',
+    },
+    lairActions: {
+      schema: z.array(monsterFeatureSchema),
+      description: '2-3 lair actions on initiative count 20',
+    },
+    description: {
+      schema: z.string(),
+      description: 'appearance and behavior of the creature',
+    },
+    tactics: {
+      schema: z.string(),
+      description: 'how the creature fights and when it retreats',
+    },
+  }
+
+  const factionSections: Record<string, { schema: z.ZodType<any>, description: string }> = {
+    leadership: {
+      schema: z.array(factionLeaderSchema),
+      description: 'leaders of the faction with name, title and description',
+    },
+    resources: {
+      schema: z.array(z.string()),
+      description: 'resources the faction can call on',
+    },
+    goals: {
+      schema: z.array(z.string()),
+      description: 'concrete goals the faction is working toward',
+    },
+    secrets: {
+      schema: z.array(z.string()),
+      description: 'secrets about the faction the players could uncover',
+    },
+    allies: {
+      schema: z.array(factionRelationshipSchema),
+      description: 'allied factions and the nature of each alliance',
+    },
+    rivals: {
+      schema: z.array(factionRelationshipSchema),
+      description: 'rival factions and what fuels each rivalry',
+    },
+  }
+
   let sectionConfig: { schema: z.ZodType<any>, description: string } | undefined
 
   if (contentType === 'character') {
@@ -918,69 +1182,283 @@ export async function generateRPGContentSection(
     sectionConfig = environmentSections[section]
   } else if (contentType === 'mission') {
     sectionConfig = missionSections[section]
+  } else if (contentType === 'item') {
+    sectionConfig = itemSections[section]
+  } else if (contentType === 'monster') {
+    sectionConfig = monsterSections[section]
+  } else if (contentType === 'faction') {
+    sectionConfig = factionSections[section]
   }
 
   if (!sectionConfig) {
     throw new Error(`Unknown section: ${contentType}:${section}`)
   }
 
-  systemPrompt = `CRITICAL LANGUAGE REQUIREMENT: The user's scenario is written in ${finalLanguage}. You MUST generate ALL content in ${finalLanguage}. This includes ALL text, descriptions, names, and every single word of output.
+  // Single NPC at index: schema is string; the prompt asks for one slot only
+  const singleNpc = contentType === 'environment' && section === 'npcs' && typeof sectionIndex === 'number'
+  // generateObject requires root type: "object"; wrap array/string schemas in { value: T }
+  const schema = z.object({ value: singleNpc ? z.string() : sectionConfig.schema })
+  const { system: systemPrompt, user: userPrompt } = getSectionPrompt().build({
+    scenario,
+    section,
+    sectionDescription: sectionConfig.description,
+    currentContent,
+    sectionIndex: singleNpc ? sectionIndex : undefined,
+    instructions,
+    language: languagePack,
+  })
+
+  // Resolve the configured provider - throws if it is misconfigured
+  const resolved = resolveLanguageModel()
+  const { model } = resolved
 
-You are an expert D&D 5e game master. Regenerate ONLY the specified section of content, maintaining consistency with the rest of the content provided.
+  try {
+    const result = await (generateObject as any)({
+      model,
+      schema,
+      system: systemPrompt,
+      prompt: userPrompt,
+      temperature: 0.8,
+    })
+    await reportUsage(resolved, result.usage, { operation: 'section', contentType, section })
+
+    return result.object.value
+  } catch (error) {
+    console.error('Section regeneration error:', error)
+    // Re-throw error - no fallback to mock
+    throw error
+  }
+}
+
+/**
+ * Generate what a character gains on reaching `newLevel` in `className` (the class level, which differs from the
+ * character level for multiclassed characters): the new class features (SRD core features are named in the prompt,
+ * subclass features are left to the model) and any newly learned spells.
+ * Returns only the additions; the caller merges them and runs the rules validator.
+ */
+export async function generateCharacterLevelUp(
+  scenario: string,
+  character: Character,
+  className: string,
+  newLevel: number
+): Promise<{ classFeatures: ClassFeature[]; spells: Spell[] }> {
+  const finalLanguage = LANGUAGE_PACKS[await resolveOutputLanguage(undefined, scenario)].languageName
+
+  const rules = getClassRules(className)
+  const srdFeatures = getClassFeaturesAtLevel(className, newLevel)
+  const maxSpellLevel = rules ? getMaxSpellLevel(rules.spellcasting, newLevel) : -1
+
+  const featureInstructions = srdFeatures.length > 0
+    ? `The SRD core features gained at level ${newLevel} are: ${srdFeatures.map((f) => f.name).join(', ')}. Include ALL of them (translated to ${finalLanguage}), plus any subclass feature gained at this level.`
+    : `Include the class features a ${className} gains at level ${newLevel} (including subclass features), or an empty list if there are none.`
+  const spellInstructions = maxSpellLevel >= 0
+    ? `Include only the NEW spells learned at level ${newLevel} (none above spell level ${maxSpellLevel}, none the character already knows).`
+    : 'Return an empty spells list: this character cannot cast spells at this level.'
+
+  const schema = z.object({
+    classFeatures: z.array(classFeatureSchema),
+    spells: z.array(spellSchema),
+  })
+
+  const systemPrompt = `CRITICAL LANGUAGE REQUIREMENT: The output language is ${finalLanguage}. You MUST generate ALL content in ${finalLanguage}.
+
+You are an expert D&D 5e game master leveling up an existing character. Follow the SRD 5.1 class progression exactly and keep the character's voice and history consistent.
 
 FINAL REMINDER: All output MUST be in ${finalLanguage}.`
 
-  // Single NPC at index: schema is string; prompt asks for one slot only
-  if (contentType === 'environment' && section === 'npcs' && typeof sectionIndex === 'number') {
-    const npcs = (currentContent?.npcs as string[] | undefined) || []
-    schema = z.object({ value: z.string() })
-    userPrompt = `CRITICAL LANGUAGE REQUIREMENT: The user's scenario below is written in ${finalLanguage}. You MUST respond entirely in ${finalLanguage}.
+  const userPrompt = `Original Scenario: "${scenario}"
 
-Original Scenario: "${scenario}"
+Current Character (level ${character.level}):
+${JSON.stringify(character, null, 2)}
 
-Current Content (for reference): ${JSON.stringify(currentContent, null, 2)}
+The character is reaching ${className} level ${newLevel}.
 
-Regenerate ONLY the NPC at index ${sectionIndex} (0-based) in the npcs list. Current npcs: ${JSON.stringify(npcs)}. Return a single string: the new NPC description for that slot. Match the tone and style of the others. Do NOT return an array or object, only one string.`
-  } else {
-    // generateObject requires root type: "object"; wrap array/string schemas in { value: T }
-    schema = z.object({ value: sectionConfig.schema })
-    userPrompt = `CRITICAL LANGUAGE REQUIREMENT: The user's scenario below is written in ${finalLanguage}. You MUST respond entirely in ${finalLanguage}. Every word, name, description, and text must be in ${finalLanguage}.
+- Class features: ${featureInstructions} Every feature must have level ${newLevel}.
+- Spells: ${spellInstructions}
 
-Original Scenario: "${scenario}"
+Return ONLY what is gained at level ${newLevel} (ALL in ${finalLanguage}).`
 
-Current Content (for reference only - do NOT regenerate these):
-${JSON.stringify(currentContent, null, 2)}
+  const resolved = resolveLanguageModel()
+  const { model } = resolved
 
-Generate NEW ${sectionConfig.description} (ALL in ${finalLanguage}).
+  try {
+    const result = await (generateObject as any)({
+      model,
+      schema,
+      system: systemPrompt,
+      prompt: userPrompt,
+      temperature: 0.7,
+    })
+    await reportUsage(resolved, result.usage, { operation: 'level-up', contentType: 'character' })
 
-Return ONLY the ${section} data in the required format. Do not include any other fields or explanations.`
+    const gained = result.object as { classFeatures: ClassFeature[]; spells: Spell[] }
+    return {
+      classFeatures: gained.classFeatures.map((feature) => ({ ...feature, level: newLevel })),
+      spells: gained.spells,
+    }
+  } catch (error) {
+    console.error('Level up generation error:', error)
+    throw error
   }
+}
 
-  // Require OpenAI API key and validate format
-  const rawKeySection = process.env.OPENAI_API_KEY?.trim()
-  if (!rawKeySection || rawKeySection.length === 0) {
-    throw new Error('OPENAI_API_KEY is required but not configured. Add it to .env.local or Vercel env.')
+// Enum-like and mechanical string fields that keep their original value in a translation
+const UNTRANSLATED_KEYS = new Set(['category', 'pathType', 'difficulty', 'rarity', 'size', 'influence', 'challengeRating', 'hitDice', 'school', 'damage'])
+
+const TRANSLATION_SCHEMAS: Record<ContentType, z.AnyZodObject> = {
+  character: characterSchema,
+  environment: environmentSchema,
+  mission: missionSchema,
+  item: magicItemSchema,
+  monster: monsterSchema,
+  faction: factionSchema,
+}
+
+/**
+ * Overlay a translation on the original content
+ * Walks the original's shape: strings take the translated text, while numbers, booleans, untranslated keys
+ * and anything the model dropped keep the original value, so the structure and game mechanics never change.
+ */
+function mergeTranslation(original: unknown, translated: unknown, key?: string): unknown {
+  if (typeof original === 'string') {
+    if (key && UNTRANSLATED_KEYS.has(key)) return original
+    return typeof translated === 'string' && translated.trim().length > 0 ? translated : original
+  }
+  if (Array.isArray(original)) {
+    const translatedItems = Array.isArray(translated) ? translated : []
+    return original.map((item, index) => mergeTranslation(item, translatedItems[index], key))
   }
-  if (!rawKeySection.startsWith('sk-') && !rawKeySection.startsWith('sk-proj-')) {
-    throw new Error(
-      'OPENAI_API_KEY must start with sk- or sk-proj-. Fix the value in .env.local. Get a key from https://platform.openai.com/api-keys'
+  if (original && typeof original === 'object') {
+    const translatedObject = translated && typeof translated === 'object' && !Array.isArray(translated)
+      ? (translated as Record<string, unknown>)
+      : {}
+    return Object.fromEntries(
+      Object.entries(original).map(([childKey, value]) => [childKey, mergeTranslation(value, translatedObject[childKey], childKey)])
     )
   }
-  const openaiSection = createOpenAI({ apiKey: rawKeySection })
+  return original
+}
+
+/**
+ * Translate saved content into another supported language
+ * Proper nouns stay as they are, and the result always has the original's shape and mechanics (see mergeTranslation).
+ */
+export async function translateContent(
+  content: GeneratedContent,
+  contentType: ContentType,
+  language: Locale
+): Promise<GeneratedContent> {
+  const targetLanguage = LANGUAGE_PACKS[language].languageName
+
+  const systemPrompt = `You are a professional translator of tabletop RPG material. Translate the D&D 5e content you are given into ${targetLanguage}.
+
+Rules:
+- Keep proper nouns (names of characters, places, factions, deities and unique items) exactly as they are.
+- Keep numbers, dice expressions (e.g. 2d6+3), ability scores, levels and other game statistics unchanged.
+- Keep the exact JSON structure: same keys, same number of list entries, same order.
+- Use the official ${targetLanguage} D&D terminology for classes, races, spells, conditions and skills when one exists.
+
+All text MUST be in ${targetLanguage}.`
+
+  const userPrompt = `Translate this ${contentType} into ${targetLanguage}:
+${JSON.stringify(content, null, 2)}`
+
+  const resolved = resolveLanguageModel()
+  const { model } = resolved
 
   try {
     const result = await (generateObject as any)({
-      model: openaiSection('gpt-4o-mini'),
-      schema,
+      model,
+      schema: TRANSLATION_SCHEMAS[contentType].deepPartial(),
       system: systemPrompt,
       prompt: userPrompt,
-      temperature: 0.8,
+      temperature: 0.2,
+      maxTokens: GENERATION_MAX_TOKENS,
     })
+    await reportUsage(resolved, result.usage, { operation: 'translate', contentType })
 
-    return result.object.value
+    const translated = mergeTranslation(content, result.object) as GeneratedContent
+    // Names are proper nouns; keep them even if the model translated them
+    if ('name' in content) {
+      return { ...translated, name: content.name } as GeneratedContent
+    }
+    return translated
   } catch (error) {
-    console.error('Section regeneration error:', error)
-    // Re-throw error - no fallback to mock
+    console.error('Translation error:', error)
+    throw error
+  }
+}
+
+/**
+ * A campaign entry as shown to the continuity model: `label` is the content type or session date
+ */
+export interface ContinuityEntry {
+  label: string
+  title: string
+  text: string
+}
+
+const contradictionSchema = z.object({
+  contradictions: z.array(z.object({
+    description: z.string().describe('What the entries state that cannot all be true, in one or two sentences'),
+    entries: z.array(z.number().int().min(1)).describe('Numbers of the entries involved, as listed'),
+  })),
+})
+
+/**
+ * Ask the model for factual contradictions between campaign entries
+ * Returned entry indexes are zero-based positions in `entries`; out-of-range numbers are dropped.
+ */
+export async function findContinuityContradictions(
+  entries: ContinuityEntry[],
+  language: Locale
+): Promise<{ description: string; entries: number[] }[]> {
+  const outputLanguage = LANGUAGE_PACKS[language].languageName
+
+  const systemPrompt = `You are a meticulous continuity editor for a D&D 5e campaign. You are given the campaign's numbered entries: characters, locations, missions, items, monsters, factions and session notes.
+
+Report factual contradictions between entries, such as:
+- A character or NPC placed in two different locations at the same time
+- A character described as dead, missing or imprisoned in one entry and active elsewhere
+- Conflicting facts about the same person, place or group (allegiance, ruler, family, origin, appearance)
+- Events told differently in different entries
+
+Rules:
+- Only report real contradictions. Different entries adding compatible details is not a contradiction, and later session notes may legitimately change earlier facts.
+- Do not report entries that merely share a name; those are checked separately.
+- Reference entries by their numbers.
+- Return an empty list when there are no contradictions.
+
+Write every description in ${outputLanguage}.`
+
+  const userPrompt = `Campaign entries:
+${entries.map((entry, index) => `${index + 1}. [${entry.label}] ${entry.title}: ${entry.text}`).join('\n')}`
+
+  const resolved = resolveLanguageModel()
+  const { model } = resolved
+
+  try {
+    const result = await (generateObject as any)({
+      model,
+      schema: contradictionSchema,
+      system: systemPrompt,
+      prompt: userPrompt,
+      temperature: 0.2,
+      maxTokens: GENERATION_MAX_TOKENS,
+    })
+    await reportUsage(resolved, result.usage, { operation: 'continuity' })
+
+    const { contradictions } = result.object as z.infer<typeof contradictionSchema>
+    return contradictions
+      .map((contradiction) => ({
+        description: contradiction.description.trim(),
+        entries: [...new Set(contradiction.entries)]
+          .filter((number) => number >= 1 && number <= entries.length)
+          .map((number) => number - 1),
+      }))
+      .filter((contradiction) => contradiction.description.length > 0 && contradiction.entries.length > 0)
+  } catch (error) {
+    console.error('Continuity check error:', error)
     throw error
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,282 @@
+/**
+ * Campaign Context Builder
+ *
+ * Builds the campaign context block passed to generation (see lib/ai.ts) on the server.
+ * Campaign content and session notes are ranked with BM25 against the new scenario, and the most relevant
+ * entries are packed into a token budget. The entries used are returned as sources so the UI can show them.
+ * The campaign loader and entry text helpers are shared with the continuity check (lib/continuity.ts).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type {
+  CampaignContextSource,
+  CampaignEntryReference,
+  Character,
+  ContentType,
+  Environment,
+  Faction,
+  GeneratedContent,
+  MagicItem,
+  Mission,
+  Monster,
+} from '@/types/rpg'
+
+// Rough budget for the whole block (~4 characters per token)
+const CONTEXT_TOKEN_BUDGET = 1500
+const MAX_ENTRY_TOKENS = 250
+const MAX_SETTINGS_CHARS = 500
+const MAX_SOURCES = 8
+
+// BM25 parameters
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+// Common English, Portuguese and Spanish words that carry no meaning for ranking
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'his', 'her', 'its', 'into', 'who', 'their', 'has', 'have', 'but', 'not', 'they', 'she', 'him', 'them', 'all', 'one', 'out', 'any',
+  'que', 'com', 'para', 'uma', 'dos', 'das', 'por', 'seu', 'sua', 'ele', 'ela', 'nao', 'mas', 'como', 'mais', 'nos', 'nas', 'foi',
+  'los', 'las', 'del', 'con', 'una', 'sus', 'pero', 'esta', 'este', 'entre',
+])
+
+export interface CampaignContext {
+  context: string
+  sources: CampaignContextSource[]
+}
+
+export interface CampaignEntries {
+  campaign: { id: string; name: string; description?: string | null; settings?: Record<string, unknown> | null }
+  content: { id: string; type: ContentType; contentData: GeneratedContent; notes: string }[] // In campaign order
+  sessions: { id: string; title: string; content: string; sessionDate: string }[] // Newest first
+}
+
+interface ContextDocument {
+  source: CampaignEntryReference
+  label: string
+  text: string
+  order: number // Campaign order, used when nothing matches the scenario
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = maxTokens * 4
+  return text.length > maxChars ? `${text.slice(0, maxChars).trimEnd()}...` : text
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 2 && !STOPWORDS.has(token))
+}
+
+export function getContentTitle(type: ContentType, content: GeneratedContent): string {
+  return type === 'mission' ? (content as Mission).title : (content as Exclude<GeneratedContent, Mission>).name
+}
+
+/**
+ * Descriptive text of a content item; mechanical fields (stats, equipment, spells) are left out
+ */
+export function getContentText(type: ContentType, content: GeneratedContent): string {
+  const join = (parts: (string | undefined)[]) => parts.filter(Boolean).join(' ')
+  switch (type) {
+    case 'character': {
+      const character = content as Character
+      return join([`${character.race} ${character.class}, level ${character.level}.`, character.personality, character.history])
+    }
+    case 'environment': {
+      const environment = content as Environment
+      return join([environment.description, environment.currentConflict, environment.npcs?.length ? `NPCs: ${environment.npcs.join('; ')}.` : ''])
+    }
+    case 'mission': {
+      const mission = content as Mission
+      return join([
+        mission.description,
+        mission.context,
+        mission.relatedNPCs?.length ? `NPCs: ${mission.relatedNPCs.join('; ')}.` : '',
+        mission.relatedLocations?.length ? `Locations: ${mission.relatedLocations.join('; ')}.` : '',
+      ])
+    }
+    case 'item': {
+      const item = content as MagicItem
+      return join([`${item.rarity} ${item.itemType}.`, item.description, item.lore])
+    }
+    case 'monster': {
+      const monster = content as Monster
+      return join([`${monster.size} ${monster.creatureType}, CR ${monster.challengeRating}.`, monster.description])
+    }
+    case 'faction': {
+      const faction = content as Faction
+      return join([faction.ideology, faction.goals?.join('; '), faction.description])
+    }
+  }
+}
+
+/**
+ * Score every document against the query with Okapi BM25
+ */
+function rankDocuments(documents: ContextDocument[], query: string): number[] {
+  const queryTerms = [...new Set(tokenize(query))]
+  const documentTerms = documents.map((document) => tokenize(`${document.source.title} ${document.text}`))
+  const averageLength = documentTerms.reduce((sum, terms) => sum + terms.length, 0) / Math.max(documentTerms.length, 1)
+
+  const documentFrequency = new Map<string, number>()
+  for (const terms of documentTerms) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)
+    }
+  }
+
+  return documentTerms.map((terms) => {
+    const termFrequency = new Map<string, number>()
+    for (const term of terms) termFrequency.set(term, (termFrequency.get(term) || 0) + 1)
+
+    return queryTerms.reduce((score, term) => {
+      const tf = termFrequency.get(term)
+      if (!tf) return score
+      const df = documentFrequency.get(term) || 0
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5))
+      const lengthNorm = 1 - BM25_B + BM25_B * (terms.length / (averageLength || 1))
+      return score + idf * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm))
+    }, 0)
+  })
+}
+
+/**
+ * Assemble the context block for a scenario from a campaign and its documents
+ * Entries matching the scenario come first by relevance; without any match, the campaign's first entries are used.
+ */
+function assembleCampaignContext(
+  campaign: { name: string; description?: string | null; settings?: Record<string, unknown> | null },
+  documents: ContextDocument[],
+  scenario: string
+): CampaignContext {
+  const headerLines = [`Campaign: ${campaign.name}`]
+  if (campaign.description) headerLines.push(`Description: ${campaign.description}`)
+  if (campaign.settings && Object.keys(campaign.settings).length > 0) {
+    const rawSettings = JSON.stringify(campaign.settings)
+    headerLines.push(`Settings: ${rawSettings.length > MAX_SETTINGS_CHARS ? `${rawSettings.slice(0, MAX_SETTINGS_CHARS)}...` : rawSettings}`)
+  }
+
+  const scores = rankDocuments(documents, scenario)
+  const ranked = documents
+    .map((document, index) => ({ document, score: scores[index] }))
+    .sort((a, b) => b.score - a.score || a.document.order - b.document.order)
+  const matches = ranked.filter((entry) => entry.score > 0)
+  const candidates = (matches.length > 0 ? matches : ranked).slice(0, MAX_SOURCES)
+
+  let remainingTokens = CONTEXT_TOKEN_BUDGET - estimateTokens(headerLines.join('\n'))
+  const entryLines: string[] = []
+  const sources: CampaignContextSource[] = []
+  for (const { document, score } of candidates) {
+    const line = `- [${document.label}] ${document.source.title}: ${truncateToTokens(document.text, MAX_ENTRY_TOKENS)}`
+    const lineTokens = estimateTokens(line)
+    if (lineTokens > remainingTokens) continue
+    remainingTokens -= lineTokens
+    entryLines.push(line)
+    sources.push({ ...document.source, score: Math.round(score * 100) / 100 })
+  }
+
+  const lines = [...headerLines]
+  if (entryLines.length > 0) {
+    lines.push('Relevant campaign entries:', ...entryLines)
+  }
+  return { context: lines.join('\n'), sources }
+}
+
+/**
+ * Load a campaign with its content and session notes
+ * Returns null when the campaign does not exist or belongs to another user.
+ */
+export async function loadCampaignEntries(
+  supabase: SupabaseClient,
+  userId: string,
+  campaignId: string
+): Promise<CampaignEntries | null> {
+  const { data: campaign, error: campaignError } = await supabase
+    .from('campaigns')
+    .select('id, name, description, settings')
+    .eq('id', campaignId)
+    .eq('user_id', userId)
+    .single()
+
+  if (campaignError || !campaign) {
+    return null
+  }
+
+  const [contentResult, sessionsResult] = await Promise.all([
+    supabase
+      .from('campaign_content')
+      .select('content_id, sequence, notes, generated_content (id, type, content_data)')
+      .eq('campaign_id', campaignId)
+      .order('sequence', { ascending: true }),
+    supabase
+      .from('session_notes')
+      .select('id, title, content, session_date')
+      .eq('campaign_id', campaignId)
+      .eq('user_id', userId)
+      .order('session_date', { ascending: false }),
+  ])
+
+  // Missing content or notes only narrow what callers see, so errors are logged and skipped
+  if (contentResult.error) console.error('Supabase campaign content query error:', contentResult.error)
+  if (sessionsResult.error) console.error('Supabase session notes query error:', sessionsResult.error)
+
+  const content: CampaignEntries['content'] = []
+  for (const row of contentResult.data || []) {
+    const item = (Array.isArray(row.generated_content) ? row.generated_content[0] : row.generated_content) as
+      | { id: string; type: ContentType; content_data: GeneratedContent }
+      | null
+    if (!item) continue
+    content.push({
+      id: item.id,
+      type: item.type,
+      contentData: item.content_data,
+      notes: typeof row.notes === 'string' ? row.notes.trim() : '',
+    })
+  }
+
+  const sessions = (sessionsResult.data || []).map((session) => ({
+    id: session.id as string,
+    title: session.title as string,
+    content: (session.content as string | null) || '',
+    sessionDate: session.session_date as string,
+  }))
+
+  return { campaign, content, sessions }
+}
+
+/**
+ * Load a campaign with its content and session notes and build the context block for `scenario`
+ * Returns null when the campaign does not exist or belongs to another user.
+ */
+export async function buildCampaignContext(
+  supabase: SupabaseClient,
+  userId: string,
+  campaignId: string,
+  scenario: string
+): Promise<CampaignContext | null> {
+  const entries = await loadCampaignEntries(supabase, userId, campaignId)
+  if (!entries) {
+    return null
+  }
+
+  const documents: ContextDocument[] = [
+    ...entries.content.map((item) => ({
+      source: { id: item.id, kind: 'content' as const, type: item.type, title: getContentTitle(item.type, item.contentData) },
+      label: item.type,
+      text: `${getContentText(item.type, item.contentData)}${item.notes ? ` Campaign notes: ${item.notes}` : ''}`,
+    })),
+    ...entries.sessions.map((session) => ({
+      source: { id: session.id, kind: 'session' as const, title: session.title },
+      label: `session ${session.sessionDate}`,
+      text: session.content,
+    })),
+  ].map((document, order) => ({ ...document, order }))
+
+  return assembleCampaignContext(entries.campaign, documents, scenario)
+}
@@ -0,0 +1,51 @@
+/**
+ * Generation Candidates
+ *
+ * The generator can ask /api/generate/candidates for several candidates of the same scenario, then keep one or
+ * combine sections from several. Sections are the top-level fields of LOCKABLE_FIELDS (lib/field-locks.ts).
+ */
+
+import { LOCKABLE_FIELDS, applyFieldLocks } from '@/lib/field-locks'
+import { validateCharacter } from '@/lib/dnd-rules'
+import type { Character, ContentType, GenerationCandidate } from '@/types/rpg'
+
+export const MIN_CANDIDATES = 2
+export const MAX_CANDIDATES = 4
+
+/**
+ * Sections of `contentType` that at least one candidate has, in LOCKABLE_FIELDS order
+ */
+export function getCandidateSections(contentType: ContentType, candidates: GenerationCandidate[]): string[] {
+  return LOCKABLE_FIELDS[contentType].filter((field) =>
+    candidates.some((candidate) => Object.prototype.hasOwnProperty.call(candidate.content, field))
+  )
+}
+
+/**
+ * Combine candidates into one: each section in `sources` comes from the candidate at that index,
+ * everything else from the candidate at `baseIndex`, whose provenance is kept.
+ * Combined characters go through the 5e rules validator again - sections from different candidates need not agree
+ * (skills from one candidate with the attributes of another); its corrections replace the base candidate's.
+ */
+export function mergeCandidates(
+  contentType: ContentType,
+  candidates: GenerationCandidate[],
+  sources: Record<string, number>,
+  baseIndex: number = 0
+): GenerationCandidate {
+  const base = candidates[baseIndex]
+  let content = base.content
+  candidates.forEach((candidate, index) => {
+    if (index === baseIndex) return
+    const fields = Object.keys(sources).filter((field) => sources[field] === index)
+    if (fields.length > 0) content = applyFieldLocks(content, candidate.content, fields)
+  })
+
+  const mixesCandidates = Object.values(sources).some((index) => index !== baseIndex)
+  if (contentType === 'character' && mixesCandidates) {
+    const validated = validateCharacter(content as Character)
+    return { content: validated.character, corrections: validated.corrections, provenance: base.provenance }
+  }
+
+  return { content, corrections: base.corrections, provenance: base.provenance }
+}
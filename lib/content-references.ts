@@ -0,0 +1,22 @@
+/**
+ * Helpers for the plain-string references generated content makes to other content
+ *
+ * Missions list relatedNPCs/relatedLocations and environments list npcs as strings like
+ * "Guard Captain - Oversees the gate security". Content generated from a reference takes its name part,
+ * so the reference can later be matched back to the saved content.
+ */
+
+/**
+ * Name part of a reference like "Mayor Aldric - the corrupt mayor", "Old Mill (abandoned)" or "Sela: a smuggler"
+ */
+export function getReferenceName(reference: string): string {
+  const name = reference.split(/\s[-–—]\s|:|\(/)[0].trim()
+  return name || reference.trim()
+}
+
+/**
+ * Whether content named `name` was generated from `reference`
+ */
+export function matchesReference(reference: string, name: string): boolean {
+  return getReferenceName(reference).toLowerCase() === name.trim().toLowerCase()
+}
@@ -0,0 +1,133 @@
+/**
+ * Campaign Continuity Check
+ *
+ * Scans a campaign's content and session notes for continuity problems:
+ * - name collisions: two or more content entries with the same name
+ * - dangling references: mission relatedNPCs/relatedLocations with no matching character, monster or environment
+ * - contradictions: conflicting facts between entries, found by the model (see findContinuityContradictions)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { findContinuityContradictions, type ContinuityEntry } from '@/lib/ai'
+import { getContentText, getContentTitle, loadCampaignEntries, truncateToTokens } from '@/lib/campaign-context'
+import { getReferenceName, matchesReference } from '@/lib/content-references'
+import type { Locale } from '@/i18n/config'
+import type { CampaignEntryReference, ContinuityIssue, ContinuityReport, Mission } from '@/types/rpg'
+
+// Entries sent to the model; content first, then the newest session notes
+const MAX_CONTRADICTION_ENTRIES = 60
+const MAX_ENTRY_TOKENS = 200
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+}
+
+/**
+ * Run the continuity check for a campaign
+ * Returns null when the campaign does not exist or belongs to another user.
+ */
+export async function checkCampaignContinuity(
+  supabase: SupabaseClient,
+  userId: string,
+  campaignId: string,
+  language: Locale
+): Promise<ContinuityReport | null> {
+  const entries = await loadCampaignEntries(supabase, userId, campaignId)
+  if (!entries) {
+    return null
+  }
+
+  const content = entries.content.map((item) => ({
+    ...item,
+    reference: {
+      id: item.id,
+      kind: 'content' as const,
+      type: item.type,
+      title: getContentTitle(item.type, item.contentData) || '',
+    },
+  }))
+  const sessions = entries.sessions.map((session) => ({
+    ...session,
+    reference: { id: session.id, kind: 'session' as const, title: session.title },
+  }))
+
+  const issues: ContinuityIssue[] = []
+
+  // Name collisions
+  const byName = new Map<string, CampaignEntryReference[]>()
+  for (const { reference } of content) {
+    const key = normalizeName(reference.title)
+    if (!key) continue
+    byName.set(key, [...(byName.get(key) || []), reference])
+  }
+  for (const group of byName.values()) {
+    if (group.length > 1) {
+      issues.push({ kind: 'name_collision', name: group[0].title, entries: group })
+    }
+  }
+
+  // Dangling mission references
+  const npcNames = content
+    .filter((item) => item.type === 'character' || item.type === 'monster')
+    .map((item) => item.reference.title)
+  const locationNames = content
+    .filter((item) => item.type === 'environment')
+    .map((item) => item.reference.title)
+  for (const item of content) {
+    if (item.type !== 'mission') continue
+    const mission = item.contentData as Mission
+    for (const npc of mission.relatedNPCs || []) {
+      if (!npcNames.some((name) => matchesReference(npc, name))) {
+        issues.push({ kind: 'dangling_npc', name: getReferenceName(npc), entries: [item.reference] })
+      }
+    }
+    for (const location of mission.relatedLocations || []) {
+      if (!locationNames.some((name) => matchesReference(location, name))) {
+        issues.push({ kind: 'dangling_location', name: getReferenceName(location), entries: [item.reference] })
+      }
+    }
+  }
+
+  // Contradictions need at least two entries to compare
+  const checked = [
+    ...content.map((item) => ({
+      reference: item.reference as CampaignEntryReference,
+      entry: {
+        label: item.type,
+        title: item.reference.title,
+        text: `${getContentText(item.type, item.contentData)}${item.notes ? ` Campaign notes: ${item.notes}` : ''}`,
+      },
+    })),
+    ...sessions.map((session) => ({
+      reference: session.reference as CampaignEntryReference,
+      entry: { label: `session ${session.sessionDate}`, title: session.title, text: session.content },
+    })),
+  ].slice(0, MAX_CONTRADICTION_ENTRIES)
+
+  let contradictionError: string | undefined
+  if (checked.length > 1) {
+    try {
+      const modelEntries: ContinuityEntry[] = checked.map(({ entry }) => ({
+        ...entry,
+        text: truncateToTokens(entry.text.replace(/\s+/g, ' ').trim(), MAX_ENTRY_TOKENS),
+      }))
+      const contradictions = await findContinuityContradictions(modelEntries, language)
+      for (const contradiction of contradictions) {
+        issues.push({
+          kind: 'contradiction',
+          description: contradiction.description,
+          entries: contradiction.entries.map((index) => checked[index].reference),
+        })
+      }
+    } catch (error) {
+      // The rule-based issues are still useful without the model check
+      contradictionError = error instanceof Error ? error.message : 'Unknown error'
+    }
+  }
+
+  return {
+    issues,
+    checkedEntries: content.length + sessions.length,
+    ...(contradictionError ? { contradictionError } : {}),
+  }
+}
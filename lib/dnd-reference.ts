@@ -23,6 +23,43 @@ export const DND_REFERENCE = {
     'Wizard',
   ] as const,
 
+  // Player's Handbook subclasses per class
+  subclasses: {
+    Barbarian: ['Path of the Berserker', 'Path of the Totem Warrior'],
+    Bard: ['College of Lore', 'College of Valor'],
+    Cleric: ['Knowledge Domain', 'Life Domain', 'Light Domain', 'Nature Domain', 'Tempest Domain', 'Trickery Domain', 'War Domain'],
+    Druid: ['Circle of the Land', 'Circle of the Moon'],
+    Fighter: ['Champion', 'Battle Master', 'Eldritch Knight'],
+    Monk: ['Way of the Open Hand', 'Way of Shadow', 'Way of the Four Elements'],
+    Paladin: ['Oath of Devotion', 'Oath of the Ancients', 'Oath of Vengeance'],
+    Ranger: ['Hunter', 'Beast Master'],
+    Rogue: ['Thief', 'Assassin', 'Arcane Trickster'],
+    Sorcerer: ['Draconic Bloodline', 'Wild Magic'],
+    Warlock: ['The Archfey', 'The Fiend', 'The Great Old One'],
+    Wizard: [
+      'School of Abjuration',
+      'School of Conjuration',
+      'School of Divination',
+      'School of Enchantment',
+      'School of Evocation',
+      'School of Illusion',
+      'School of Necromancy',
+      'School of Transmutation',
+    ],
+  } as Record<string, readonly string[]>,
+
+  alignments: [
+    'Lawful Good',
+    'Neutral Good',
+    'Chaotic Good',
+    'Lawful Neutral',
+    'Neutral',
+    'Chaotic Neutral',
+    'Lawful Evil',
+    'Neutral Evil',
+    'Chaotic Evil',
+  ] as const,
+
   races: [
     'Human',
     'Elf',
@@ -50,13 +87,6 @@ export const DND_REFERENCE = {
     'Urchin',
   ] as const,
 
-  spellsByLevel: [
-    { level: 0, levelLabel: 'Cantrip', spells: ['Fire Bolt', 'Light', 'Mage Hand', 'Prestidigitation'] },
-    { level: 1, levelLabel: '1st', spells: ['Magic Missile', 'Shield', 'Cure Wounds', 'Burning Hands'] },
-    { level: 2, levelLabel: '2nd', spells: ['Misty Step', 'Hold Person', 'Scorching Ray'] },
-    { level: 3, levelLabel: '3rd', spells: ['Fireball', 'Counterspell'] },
-  ] as const,
-
   /* =======================
    * ENVIRONMENT (ADVANCED)
    * ======================= */
@@ -103,5 +133,60 @@ export const DND_REFERENCE = {
         prompt: 'deep shadows and minimal light'
       }
     }
-  }
+  },
+
+  /* =======================
+   * MAGIC ITEMS
+   * ======================= */
+
+  itemRarities: [
+    'common',
+    'uncommon',
+    'rare',
+    'very rare',
+    'legendary',
+    'artifact',
+  ] as const,
+
+  /* =======================
+   * MONSTERS
+   * ======================= */
+
+  creatureSizes: [
+    'Tiny',
+    'Small',
+    'Medium',
+    'Large',
+    'Huge',
+    'Gargantuan',
+  ] as const,
+
+  challengeRatings: [
+    '0', '1/8', '1/4', '1/2',
+    '1', '2', '3', '4', '5', '6', '7', '8', '9', '10',
+    '11', '12', '13', '14', '15', '16', '17', '18', '19', '20',
+    '21', '22', '23', '24', '25', '26', '27', '28', '29', '30',
+  ] as const,
+
+  // XP by challenge rating (DMG / Monster Manual table)
+  challengeRatingXP: {
+    '0': 10, '1/8': 25, '1/4': 50, '1/2': 100,
+    '1': 200, '2': 450, '3': 700, '4': 1100, '5': 1800,
+    '6': 2300, '7': 2900, '8': 3900, '9': 5000, '10': 5900,
+    '11': 7200, '12': 8400, '13': 10000, '14': 11500, '15': 13000,
+    '16': 15000, '17': 18000, '18': 20000, '19': 22000, '20': 25000,
+    '21': 33000, '22': 41000, '23': 50000, '24': 62000, '25': 75000,
+    '26': 90000, '27': 105000, '28': 120000, '29': 135000, '30': 155000,
+  } as Record<string, number>,
+
+  /* =======================
+   * FACTIONS
+   * ======================= */
+
+  factionInfluences: [
+    'local',
+    'regional',
+    'national',
+    'global',
+  ] as const,
 } as const
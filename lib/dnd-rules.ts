@@ -0,0 +1,1037 @@
+/**
+ * Deterministic D&D 5e rules checks for generated content
+ * Backed by SRD 5.1 class data. The model gets close, these rules make the result legal.
+ */
+
+import { enrichSpell, findSrdSpell } from '@/lib/srd-spells'
+import { applyFieldLocks } from '@/lib/field-locks'
+import type { AbilityScoreIncrease, Character, CharacterClass, ClassFeature, CombatStats, Equipment, Skill, Spell, SpellSlots, RulesCorrection } from '@/types/rpg'
+
+type AbilityKey = 'strength' | 'dexterity' | 'constitution' | 'intelligence' | 'wisdom' | 'charisma'
+
+// full: Bard/Cleric/Druid/Sorcerer/Wizard, half: Paladin/Ranger, pact: Warlock,
+// third: Fighter/Rogue (Eldritch Knight / Arcane Trickster, learning Wizard spells - allowed whatever the subclass)
+type SpellcastingProgression = 'full' | 'half' | 'pact' | 'third' | 'none'
+
+// Armor from the class's SRD starting equipment; unarmoredAbility marks Unarmored Defense (10 + DEX + that ability)
+interface StartingArmor {
+  base: number
+  dexCap?: number
+  shield?: boolean
+  shieldBonus?: number // From an equipped shield; overrides `shield`
+  unarmoredAbility?: AbilityKey
+}
+
+interface ClassRules {
+  hitDie: number
+  armor: StartingArmor
+  spellcastingAbility?: 'INT' | 'WIS' | 'CHA'
+  skillChoices: number
+  skillOptions: readonly string[] | 'any'
+  spellcasting: SpellcastingProgression
+  // Expertise picks gained by level, e.g. Rogue gets 2 at level 1 and 2 more at level 6
+  expertise: readonly { level: number; count: number }[]
+  // Multiclassing prerequisites: any one group, with every ability in that group at 13 or higher
+  multiclassPrerequisites: readonly (readonly AbilityKey[])[]
+  // Skill proficiencies gained when multiclassing into the class (Bard: any skill, Ranger/Rogue: a class skill)
+  multiclassSkills: number
+  // Class level at which the subclass (Primal Path, Divine Domain, Arcane Tradition...) is chosen
+  subclassLevel: number
+  features: readonly ClassFeature[]
+}
+
+export const SKILL_ABILITIES: Record<string, AbilityKey> = {
+  'Acrobatics': 'dexterity',
+  'Animal Handling': 'wisdom',
+  'Arcana': 'intelligence',
+  'Athletics': 'strength',
+  'Deception': 'charisma',
+  'History': 'intelligence',
+  'Insight': 'wisdom',
+  'Intimidation': 'charisma',
+  'Investigation': 'intelligence',
+  'Medicine': 'wisdom',
+  'Nature': 'intelligence',
+  'Perception': 'wisdom',
+  'Performance': 'charisma',
+  'Persuasion': 'charisma',
+  'Religion': 'intelligence',
+  'Sleight of Hand': 'dexterity',
+  'Stealth': 'dexterity',
+  'Survival': 'wisdom',
+}
+
+const ASI_DESCRIPTION = 'Increase one ability score by 2, or two ability scores by 1 (maximum 20).'
+
+const asi = (...levels: number[]): ClassFeature[] =>
+  levels.map((level) => ({ name: 'Ability Score Improvement', description: ASI_DESCRIPTION, level }))
+
+// Core class features by level. Subclass features after the subclass choice vary and are not required.
+export const CLASS_RULES: Record<string, ClassRules> = {
+  Barbarian: {
+    hitDie: 12,
+    armor: { base: 10, unarmoredAbility: 'constitution' },
+    skillChoices: 2,
+    skillOptions: ['Animal Handling', 'Athletics', 'Intimidation', 'Nature', 'Perception', 'Survival'],
+    spellcasting: 'none',
+    expertise: [],
+    multiclassPrerequisites: [['strength']],
+    multiclassSkills: 0,
+    subclassLevel: 3,
+    features: [
+      { name: 'Rage', description: 'Bonus action to gain advantage on STR checks and saves, bonus melee damage and resistance to bludgeoning, piercing and slashing damage.', level: 1 },
+      { name: 'Unarmored Defense', description: 'Without armor, AC equals 10 + DEX modifier + CON modifier.', level: 1 },
+      { name: 'Reckless Attack', description: 'Gain advantage on STR melee attacks this turn; attacks against you have advantage until your next turn.', level: 2 },
+      { name: 'Danger Sense', description: 'Advantage on DEX saving throws against effects you can see.', level: 2 },
+      { name: 'Primal Path', description: 'Choose the path that shapes the nature of your rage.', level: 3 },
+      ...asi(4, 8, 12, 16, 19),
+      { name: 'Extra Attack', description: 'Attack twice when you take the Attack action.', level: 5 },
+      { name: 'Fast Movement', description: 'Speed increases by 10 feet while not wearing heavy armor.', level: 5 },
+      { name: 'Feral Instinct', description: 'Advantage on initiative rolls; act normally on a surprised first turn if you rage.', level: 7 },
+      { name: 'Brutal Critical', description: 'Roll one additional weapon damage die on a melee critical hit.', level: 9 },
+      { name: 'Relentless Rage', description: 'Drop to 1 hit point instead of 0 on a successful CON save while raging.', level: 11 },
+      { name: 'Persistent Rage', description: 'Rage only ends early if you fall unconscious or choose to end it.', level: 15 },
+      { name: 'Indomitable Might', description: 'Use your STR score in place of a lower STR check total.', level: 18 },
+      { name: 'Primal Champion', description: 'STR and CON increase by 4, to a maximum of 24.', level: 20 },
+    ],
+  },
+  Bard: {
+    hitDie: 8,
+    armor: { base: 11 },
+    spellcastingAbility: 'CHA',
+    skillChoices: 3,
+    skillOptions: 'any',
+    spellcasting: 'full',
+    expertise: [{ level: 3, count: 2 }, { level: 10, count: 2 }],
+    multiclassPrerequisites: [['charisma']],
+    multiclassSkills: 1,
+    subclassLevel: 3,
+    features: [
+      { name: 'Spellcasting', description: 'Cast bard spells using CHA as your spellcasting ability.', level: 1 },
+      { name: 'Bardic Inspiration', description: 'Bonus action to grant a creature an inspiration die to add to one roll.', level: 1 },
+      { name: 'Jack of All Trades', description: 'Add half your proficiency bonus to ability checks you are not proficient in.', level: 2 },
+      { name: 'Song of Rest', description: 'Allies who spend hit dice during a short rest regain extra hit points.', level: 2 },
+      { name: 'Bard College', description: 'Choose the college that shapes your bardic arts.', level: 3 },
+      { name: 'Expertise', description: 'Double your proficiency bonus for two chosen skill proficiencies.', level: 3 },
+      ...asi(4, 8, 12, 16, 19),
+      { name: 'Font of Inspiration', description: 'Regain all Bardic Inspiration uses on a short or long rest.', level: 5 },
+      { name: 'Countercharm', description: 'Perform to grant nearby allies advantage on saves against being frightened or charmed.', level: 6 },
+      { name: 'Magical Secrets', description: 'Learn two spells from any class.', level: 10 },
+      { name: 'Superior Inspiration', description: 'Regain one Bardic Inspiration use when you roll initiative with none left.', level: 20 },
+    ],
+  },
+  Cleric: {
+    hitDie: 8,
+    armor: { base: 14, dexCap: 2, shield: true },
+    spellcastingAbility: 'WIS',
+    skillChoices: 2,
+    skillOptions: ['History', 'Insight', 'Medicine', 'Persuasion', 'Religion'],
+    spellcasting: 'full',
+    expertise: [],
+    multiclassPrerequisites: [['wisdom']],
+    multiclassSkills: 0,
+    subclassLevel: 1,
+    features: [
+      { name: 'Spellcasting', description: 'Cast cleric spells using WIS as your spellcasting ability.', level: 1 },
+      { name: 'Divine Domain', description: 'Choose the domain of your deity, granting domain spells and features.', level: 1 },
+      { name: 'Channel Divinity', description: 'Channel divine energy to Turn Undead or fuel a domain effect.', level: 2 },
+      ...asi(4, 8, 12, 16, 19),
+      { name: 'Destroy Undead', description: 'Undead of low challenge rating that fail against Turn Undead are destroyed.', level: 5 },
+      { name: 'Divine Intervention', description: 'Call on your deity to intervene on your behalf.', level: 10 },
+    ],
+  },
+  Druid: {
+    hitDie: 8,
+    armor: { base: 11, shield: true },
+    spellcastingAbility: 'WIS',
+    skillChoices: 2,
+    skillOptions: ['Arcana', 'Animal Handling', 'Insight', 'Medicine', 'Nature', 'Perception', 'Religion', 'Survival'],
+    spellcasting: 'full',
+    expertise: [],
+    multiclassPrerequisites: [['wisdom']],
+    multiclassSkills: 0,
+    subclassLevel: 2,
+    features: [
+      { name: 'Druidic', description: 'You know Druidic, the secret language of druids.', level: 1 },
+      { name: 'Spellcasting', description: 'Cast druid spells using WIS as your spellcasting ability.', level: 1 },
+      { name: 'Wild Shape', description: 'Magically assume the shape of a beast you have seen.', level: 2 },
+      { name: 'Druid Circle', description: 'Choose the circle of druids you identify with.', level: 2 },
+      ...asi(4, 8, 12, 16, 19),
+      { name: 'Timeless Body', description: 'You age ten times more slowly than normal.', level: 18 },
+      { name: 'Beast Spells', description: 'Cast spells in any shape assumed with Wild Shape.', level: 18 },
+      { name: 'Archdruid', description: 'Use Wild Shape an unlimited number of times and ignore simple spell components.', level: 20 },
+    ],
+  },
+  Fighter: {
+    hitDie: 10,
+    armor: { base: 16, dexCap: 0 },
+    spellcastingAbility: 'INT',
+    skillChoices: 2,
+    skillOptions: ['Acrobatics', 'Animal Handling', 'Athletics', 'History', 'Insight', 'Intimidation', 'Perception', 'Survival'],
+    spellcasting: 'third',
+    expertise: [],
+    multiclassPrerequisites: [['strength'], ['dexterity']],
+    multiclassSkills: 0,
+    subclassLevel: 3,
+    features: [
+      { name: 'Fighting Style', description: 'Adopt a particular style of fighting as your specialty.', level: 1 },
+      { name: 'Second Wind', description: 'Bonus action to regain 1d10 + fighter level hit points, once per short rest.', level: 1 },
+      { name: 'Action Surge', description: 'Take one additional action on your turn, once per short rest.', level: 2 },
+      { name: 'Martial Archetype', description: 'Choose the archetype that shapes your combat techniques.', level: 3 },
+      ...asi(4, 6, 8, 12, 14, 16, 19),
+      { name: 'Extra Attack', description: 'Attack twice when you take the Attack action.', level: 5 },
+      { name: 'Indomitable', description: 'Reroll a failed saving throw, once per long rest.', level: 9 },
+    ],
+  },
+  Monk: {
+    hitDie: 8,
+    armor: { base: 10, unarmoredAbility: 'wisdom' },
+    skillChoices: 2,
+    skillOptions: ['Acrobatics', 'Athletics', 'History', 'Insight', 'Religion', 'Stealth'],
+    spellcasting: 'none',
+    expertise: [],
+    multiclassPrerequisites: [['dexterity', 'wisdom']],
+    multiclassSkills: 0,
+    subclassLevel: 3,
+    features: [
+      { name: 'Unarmored Defense', description: 'Without armor or a shield, AC equals 10 + DEX modifier + WIS modifier.', level: 1 },
+      { name: 'Martial Arts', description: 'Use DEX for unarmed strikes and monk weapons, roll martial arts damage and make a bonus unarmed strike.', level: 1 },
+      { name: 'Ki', description: 'Spend ki points to fuel Flurry of Blows, Patient Defense and Step of the Wind.', level: 2 },
+      { name: 'Unarmored Movement', description: 'Speed increases while not wearing armor or wielding a shield.', level: 2 },
+      { name: 'Monastic Tradition', description: 'Choose the monastic tradition you follow.', level: 3 },
+      { name: 'Deflect Missiles', description: 'Reaction to reduce damage from a ranged weapon attack and possibly throw the missile back.', level: 3 },
+      ...asi(4, 8, 12, 16, 19),
+      { name: 'Slow Fall', description: 'Reaction to reduce falling damage by five times your monk level.', level: 4 },
+      { name: 'Extra Attack', description: 'Attack twice when you take the Attack action.', level: 5 },
+      { name: 'Stunning Strike', description: 'Spend 1 ki point when you hit to force a CON save or stun the target.', level: 5 },
+      { name: 'Ki-Empowered Strikes', description: 'Unarmed strikes count as magical.', level: 6 },
+      { name: 'Evasion', description: 'Take no damage on a successful DEX save for half damage, and half on a failure.', level: 7 },
+      { name: 'Stillness of Mind', description: 'Action to end one effect causing you to be charmed or frightened.', level: 7 },
+      { name: 'Purity of Body', description: 'Immunity to disease and poison.', level: 10 },
+      { name: 'Tongue of the Sun and Moon', description: 'Understand all spoken languages and be understood by any creature.', level: 13 },
+      { name: 'Diamond Soul', description: 'Proficiency in all saving throws; spend 1 ki point to reroll a failed save.', level: 14 },
+      { name: 'Timeless Body', description: 'No frailty of old age, and no need for food or water.', level: 15 },
+      { name: 'Empty Body', description: 'Spend ki to become invisible and resistant to most damage, or to cast Astral Projection.', level: 18 },
+      { name: 'Perfect Self', description: 'Regain 4 ki points when you roll initiative with none left.', level: 20 },
+    ],
+  },
+  Paladin: {
+    hitDie: 10,
+    armor: { base: 16, dexCap: 0, shield: true },
+    spellcastingAbility: 'CHA',
+    skillChoices: 2,
+    skillOptions: ['Athletics', 'Insight', 'Intimidation', 'Medicine', 'Persuasion', 'Religion'],
+    spellcasting: 'half',
+    expertise: [],
+    multiclassPrerequisites: [['strength', 'charisma']],
+    multiclassSkills: 0,
+    subclassLevel: 3,
+    features: [
+      { name: 'Divine Sense', description: 'Detect celestials, fiends and undead nearby.', level: 1 },
+      { name: 'Lay on Hands', description: 'Heal from a pool of hit points equal to five times your paladin level.', level: 1 },
+      { name: 'Fighting Style', description: 'Adopt a particular style of fighting as your specialty.', level: 2 },
+      { name: 'Spellcasting', description: 'Cast paladin spells using CHA as your spellcasting ability.', level: 2 },
+      { name: 'Divine Smite', description: 'Expend a spell slot on a melee hit to deal extra radiant damage.', level: 2 },
+      { name: 'Divine Health', description: 'Immunity to disease.', level: 3 },
+      { name: 'Sacred Oath', description: 'Swear the oath that binds you as a paladin.', level: 3 },
+      ...asi(4, 8, 12, 16, 19),
+      { name: 'Extra Attack', description: 'Attack twice when you take the Attack action.', level: 5 },
+      { name: 'Aura of Protection', description: 'You and nearby allies add your CHA modifier to saving throws.', level: 6 },
+      { name: 'Aura of Courage', description: 'You and nearby allies cannot be frightened while you are conscious.', level: 10 },
+      { name: 'Improved Divine Smite', description: 'Melee weapon hits deal an extra 1d8 radiant damage.', level: 11 },
+      { name: 'Cleansing Touch', description: 'Action to end one spell on yourself or a willing creature.', level: 14 },
+    ],
+  },
+  Ranger: {
+    hitDie: 10,
+    armor: { base: 11 },
+    spellcastingAbility: 'WIS',
+    skillChoices: 3,
+    skillOptions: ['Animal Handling', 'Athletics', 'Insight', 'Investigation', 'Nature', 'Perception', 'Stealth', 'Survival'],
+    spellcasting: 'half',
+    expertise: [],
+    multiclassPrerequisites: [['dexterity', 'wisdom']],
+    multiclassSkills: 1,
+    subclassLevel: 3,
+    features: [
+      { name: 'Favored Enemy', description: 'Advantage on tracking and recalling information about chosen enemy types.', level: 1 },
+      { name: 'Natural Explorer', description: 'Expert at traveling and surviving in a chosen type of terrain.', level: 1 },
+      { name: 'Fighting Style', description: 'Adopt a particular style of fighting as your specialty.', level: 2 },
+      { name: 'Spellcasting', description: 'Cast ranger spells using WIS as your spellcasting ability.', level: 2 },
+      { name: 'Ranger Archetype', description: 'Choose the archetype you strive to emulate.', level: 3 },
+      { name: 'Primeval Awareness', description: 'Expend a spell slot to sense certain creature types nearby.', level: 3 },
+      ...asi(4, 8, 12, 16, 19),
+      { name: 'Extra Attack', description: 'Attack twice when you take the Attack action.', level: 5 },
+      { name: "Land's Stride", description: 'Move through nonmagical difficult terrain without extra movement.', level: 8 },
+      { name: 'Hide in Plain Sight', description: 'Camouflage yourself to gain +10 to Stealth while remaining still.', level: 10 },
+      { name: 'Vanish', description: 'Hide as a bonus action and cannot be tracked by nonmagical means.', level: 14 },
+      { name: 'Feral Senses', description: 'No disadvantage attacking creatures you cannot see, and aware of invisible creatures nearby.', level: 18 },
+      { name: 'Foe Slayer', description: 'Once per turn add your WIS modifier to an attack or damage roll against a favored enemy.', level: 20 },
+    ],
+  },
+  Rogue: {
+    hitDie: 8,
+    armor: { base: 11 },
+    spellcastingAbility: 'INT',
+    skillChoices: 4,
+    skillOptions: ['Acrobatics', 'Athletics', 'Deception', 'Insight', 'Intimidation', 'Investigation', 'Perception', 'Performance', 'Persuasion', 'Sleight of Hand', 'Stealth'],
+    spellcasting: 'third',
+    expertise: [{ level: 1, count: 2 }, { level: 6, count: 2 }],
+    multiclassPrerequisites: [['dexterity']],
+    multiclassSkills: 1,
+    subclassLevel: 3,
+    features: [
+      { name: 'Expertise', description: 'Double your proficiency bonus for two chosen skill proficiencies.', level: 1 },
+      { name: 'Sneak Attack', description: 'Deal extra damage once per turn with advantage or an ally next to the target.', level: 1 },
+      { name: "Thieves' Cant", description: 'Secret mix of dialect, jargon and code used by rogues.', level: 1 },
+      { name: 'Cunning Action', description: 'Bonus action to Dash, Disengage or Hide.', level: 2 },
+      { name: 'Roguish Archetype', description: 'Choose the archetype you emulate in your rogue abilities.', level: 3 },
+      ...asi(4, 8, 10, 12, 16, 19),
+      { name: 'Uncanny Dodge', description: 'Reaction to halve the damage of an attack from an attacker you can see.', level: 5 },
+      { name: 'Evasion', description: 'Take no damage on a successful DEX save for half damage, and half on a failure.', level: 7 },
+      { name: 'Reliable Talent', description: 'Treat d20 rolls of 9 or lower as 10 on proficient ability checks.', level: 11 },
+      { name: 'Blindsense', description: 'Aware of hidden or invisible creatures within 10 feet if you can hear.', level: 14 },
+      { name: 'Slippery Mind', description: 'Proficiency in WIS saving throws.', level: 15 },
+      { name: 'Elusive', description: 'No attack roll has advantage against you while you are not incapacitated.', level: 18 },
+      { name: 'Stroke of Luck', description: 'Turn a miss into a hit or a failed check into a 20, once per short rest.', level: 20 },
+    ],
+  },
+  Sorcerer: {
+    hitDie: 6,
+    armor: { base: 10 },
+    spellcastingAbility: 'CHA',
+    skillChoices: 2,
+    skillOptions: ['Arcana', 'Deception', 'Insight', 'Intimidation', 'Persuasion', 'Religion'],
+    spellcasting: 'full',
+    expertise: [],
+    multiclassPrerequisites: [['charisma']],
+    multiclassSkills: 0,
+    subclassLevel: 1,
+    features: [
+      { name: 'Spellcasting', description: 'Cast sorcerer spells using CHA as your spellcasting ability.', level: 1 },
+      { name: 'Sorcerous Origin', description: 'Choose the source of your innate magic.', level: 1 },
+      { name: 'Font of Magic', description: 'Sorcery points to create spell slots or fuel Metamagic.', level: 2 },
+      { name: 'Metamagic', description: 'Twist your spells to suit your needs using sorcery points.', level: 3 },
+      ...asi(4, 8, 12, 16, 19),
+      { name: 'Sorcerous Restoration', description: 'Regain 4 sorcery points on a short rest.', level: 20 },
+    ],
+  },
+  Warlock: {
+    hitDie: 8,
+    armor: { base: 11 },
+    spellcastingAbility: 'CHA',
+    skillChoices: 2,
+    skillOptions: ['Arcana', 'Deception', 'History', 'Intimidation', 'Investigation', 'Nature', 'Religion'],
+    spellcasting: 'pact',
+    expertise: [],
+    multiclassPrerequisites: [['charisma']],
+    multiclassSkills: 0,
+    subclassLevel: 1,
+    features: [
+      { name: 'Otherworldly Patron', description: 'Strike a bargain with an otherworldly being of your choice.', level: 1 },
+      { name: 'Pact Magic', description: 'Cast warlock spells using CHA; spell slots recharge on a short rest.', level: 1 },
+      { name: 'Eldritch Invocations', description: 'Fragments of forbidden knowledge that grant lasting magical abilities.', level: 2 },
+      { name: 'Pact Boon', description: 'Your patron grants the Pact of the Chain, Blade or Tome.', level: 3 },
+      ...asi(4, 8, 12, 16, 19),
+      { name: 'Mystic Arcanum', description: 'Cast one high-level spell once per long rest without a spell slot.', level: 11 },
+      { name: 'Eldritch Master', description: 'Regain all Pact Magic spell slots by entreating your patron for 1 minute.', level: 20 },
+    ],
+  },
+  Wizard: {
+    hitDie: 6,
+    armor: { base: 10 },
+    spellcastingAbility: 'INT',
+    skillChoices: 2,
+    skillOptions: ['Arcana', 'History', 'Insight', 'Investigation', 'Medicine', 'Religion'],
+    spellcasting: 'full',
+    expertise: [],
+    multiclassPrerequisites: [['intelligence']],
+    multiclassSkills: 0,
+    subclassLevel: 2,
+    features: [
+      { name: 'Spellcasting', description: 'Cast wizard spells from your spellbook using INT as your spellcasting ability.', level: 1 },
+      { name: 'Arcane Recovery', description: 'Recover expended spell slots during a short rest, once per day.', level: 1 },
+      { name: 'Arcane Tradition', description: 'Choose the school of magic you specialize in.', level: 2 },
+      ...asi(4, 8, 12, 16, 19),
+      { name: 'Spell Mastery', description: 'Cast a chosen 1st-level and 2nd-level spell at will.', level: 18 },
+      { name: 'Signature Spells', description: 'Two 3rd-level spells are always prepared and castable once per short rest without a slot.', level: 20 },
+    ],
+  },
+}
+
+// Canonical class names for the English, Portuguese and Spanish names the model may use
+const CLASS_ALIASES: Record<string, string> = {
+  'barbarian': 'Barbarian', 'bárbaro': 'Barbarian',
+  'bard': 'Bard', 'bardo': 'Bard',
+  'cleric': 'Cleric', 'clérigo': 'Cleric',
+  'druid': 'Druid', 'druida': 'Druid',
+  'fighter': 'Fighter', 'warrior': 'Fighter', 'guerreiro': 'Fighter', 'guerrero': 'Fighter',
+  'monk': 'Monk', 'monge': 'Monk', 'monje': 'Monk',
+  'paladin': 'Paladin', 'paladino': 'Paladin', 'paladín': 'Paladin',
+  'ranger': 'Ranger', 'patrulheiro': 'Ranger', 'explorador': 'Ranger',
+  'rogue': 'Rogue', 'ladino': 'Rogue', 'pícaro': 'Rogue',
+  'sorcerer': 'Sorcerer', 'feiticeiro': 'Sorcerer', 'hechicero': 'Sorcerer',
+  'warlock': 'Warlock', 'bruxo': 'Warlock', 'brujo': 'Warlock',
+  'wizard': 'Wizard', 'mago': 'Wizard',
+}
+
+/**
+ * Resolve a class name to its SRD rules, or undefined for homebrew classes
+ */
+export function getClassRules(className: string): ClassRules | undefined {
+  const canonical = CLASS_ALIASES[className.trim().toLowerCase()]
+  return canonical ? CLASS_RULES[canonical] : undefined
+}
+
+/**
+ * Skill proficiencies granted by race on top of class and background
+ * Half-Elf: Skill Versatility, Elf: Keen Senses (Perception), Half-Orc: Menacing (Intimidation)
+ */
+function getRacialSkillCount(race: string): number {
+  const r = race.trim().toLowerCase()
+  if (/half[- ]?elf|meio[- ]?elf|semielf|semi-elf/.test(r)) return 2
+  if (/half[- ]?orc|meio[- ]?orc|semiorc|semi-orc/.test(r)) return 1
+  if (/\belf|\belfo/.test(r)) return 1
+  return 0
+}
+
+/**
+ * Classes of a character with their levels: the multiclass breakdown, or the single class at the character level
+ */
+export function getCharacterClasses(character: Character): CharacterClass[] {
+  if (character.classes && character.classes.length > 0) return character.classes
+  return [{ name: character.class || '', level: character.level || 1, ...(character.subclass ? { subclass: character.subclass } : {}) }]
+}
+
+/** SRD core features a class gains at exactly this level (empty for unknown classes) */
+export function getClassFeaturesAtLevel(className: string, level: number): ClassFeature[] {
+  const rules = getClassRules(className)
+  return rules ? rules.features.filter((feature) => feature.level === level).map((feature) => ({ ...feature })) : []
+}
+
+/**
+ * Checks an Ability Score Improvement taken on reaching `classLevel` in `className`: the class must grant one at that
+ * level, the picks must be +2 to one ability or +1 to two, and no score may go above 20.
+ * Returns an error message, or null when the increase is legal.
+ */
+export function getAbilityScoreIncreaseError(character: Character, className: string, classLevel: number, increase: AbilityScoreIncrease): string | null {
+  const grantsImprovement = getClassFeaturesAtLevel(className, classLevel).some((f) => f.name === 'Ability Score Improvement')
+  if (!grantsImprovement) {
+    return `A level ${classLevel} ${className} does not gain an Ability Score Improvement`
+  }
+  const entries = Object.entries(increase) as [AbilityKey, number][]
+  const total = entries.reduce((sum, [, amount]) => sum + amount, 0)
+  if (entries.some(([key, amount]) => !(key in character.attributes) || !Number.isInteger(amount) || amount < 1 || amount > 2) || total !== 2) {
+    return 'Increase one ability score by 2, or two ability scores by 1'
+  }
+  const overMax = entries.find(([key, amount]) => character.attributes[key] + amount > 20)
+  if (overMax) {
+    return `${overMax[0]} cannot go above 20`
+  }
+  return null
+}
+
+/**
+ * Checks the multiclassing prerequisites for `className` joining the character's classes: the new class and every
+ * class the character already has need their ability scores at 13 or higher (SRD 5.1).
+ * Returns an error message, or null when they are met.
+ */
+export function getMulticlassPrerequisiteError(character: Character, className: string): string | null {
+  const classNames = [...getCharacterClasses(character).map((cls) => cls.name), className]
+  for (const name of classNames) {
+    const error = describeUnmetPrerequisites(name, character.attributes)
+    if (error) return error
+  }
+  return null
+}
+
+// "Multiclassing as a Fighter requires strength 13 or dexterity 13", or null when the scores meet the prerequisites
+function describeUnmetPrerequisites(className: string, attributes: Character['attributes']): string | null {
+  const prerequisites = getClassRules(className)?.multiclassPrerequisites
+  if (!prerequisites || prerequisites.some((group) => group.every((key) => attributes[key] >= 13))) return null
+  const requirement = prerequisites.map((group) => group.map((key) => `${key} 13`).join(' and ')).join(' or ')
+  return `Multiclassing as a ${className} requires ${requirement}`
+}
+
+export function getProficiencyBonus(level: number): number {
+  return Math.floor((level + 7) / 4)
+}
+
+export function getAbilityModifier(score: number): number {
+  return Math.floor((score - 10) / 2)
+}
+
+/**
+ * Highest spell level a class can know at a character level; -1 means no spells at all
+ * (cantrips are level 0; half casters have no cantrips and start at level 2)
+ */
+export function getMaxSpellLevel(progression: SpellcastingProgression, level: number): number {
+  switch (progression) {
+    case 'full':
+    case 'pact':
+      return Math.min(9, Math.ceil(level / 2))
+    case 'half':
+      return level < 2 ? -1 : Math.floor((level - 1) / 4) + 1
+    case 'third':
+      return level < 3 ? -1 : Math.floor((level - 1) / 6) + 1
+    default:
+      return -1
+  }
+}
+
+// Spell slots per spell level by caster level (PHB/SRD spellcasting table), index 0 = caster level 1
+const CASTER_SLOTS: number[][] = [
+  [2], [3], [4, 2], [4, 3], [4, 3, 2], [4, 3, 3], [4, 3, 3, 1], [4, 3, 3, 2], [4, 3, 3, 3, 1], [4, 3, 3, 3, 2],
+  [4, 3, 3, 3, 2, 1], [4, 3, 3, 3, 2, 1], [4, 3, 3, 3, 2, 1, 1], [4, 3, 3, 3, 2, 1, 1], [4, 3, 3, 3, 2, 1, 1, 1],
+  [4, 3, 3, 3, 2, 1, 1, 1], [4, 3, 3, 3, 2, 1, 1, 1, 1], [4, 3, 3, 3, 3, 1, 1, 1, 1], [4, 3, 3, 3, 3, 2, 1, 1, 1],
+  [4, 3, 3, 3, 3, 2, 2, 1, 1],
+]
+
+/**
+ * Spell slots for a class progression at a character level
+ * Half and third casters use the shared table at a reduced caster level; Warlocks get pact slots of a single level.
+ */
+export function getSpellSlots(progression: SpellcastingProgression, level: number): SpellSlots[] {
+  let casterLevel = 0
+  switch (progression) {
+    case 'full':
+      casterLevel = level
+      break
+    case 'half':
+      casterLevel = level < 2 ? 0 : Math.ceil(level / 2)
+      break
+    case 'third':
+      casterLevel = level < 3 ? 0 : Math.ceil(level / 3)
+      break
+    case 'pact': {
+      const slots = level >= 17 ? 4 : level >= 11 ? 3 : level >= 2 ? 2 : 1
+      return [{ level: Math.min(5, Math.ceil(level / 2)), slots }]
+    }
+    default:
+      return []
+  }
+  if (casterLevel === 0) return []
+  return CASTER_SLOTS[casterLevel - 1].map((slots, idx) => ({ level: idx + 1, slots }))
+}
+
+/**
+ * Spell slots for a character's spellcasting classes. A single class uses its own table; multiclassed characters use
+ * the SRD multiclass table (full caster levels plus half of half-caster and a third of third-caster levels, rounded
+ * down), with Warlock pact slots added on top.
+ */
+function getCombinedSpellSlots(casters: { rules: ClassRules; level: number }[]): SpellSlots[] {
+  if (casters.length === 1) return getSpellSlots(casters[0].rules.spellcasting, casters[0].level)
+  const casterLevel = casters.reduce((sum, { rules, level }) => {
+    if (rules.spellcasting === 'full') return sum + level
+    if (rules.spellcasting === 'half') return sum + Math.floor(level / 2)
+    if (rules.spellcasting === 'third') return sum + Math.floor(level / 3)
+    return sum
+  }, 0)
+  const slots: SpellSlots[] = casterLevel > 0
+    ? CASTER_SLOTS[Math.min(20, casterLevel) - 1].map((count, idx) => ({ level: idx + 1, slots: count }))
+    : []
+  for (const { rules, level } of casters) {
+    if (rules.spellcasting !== 'pact') continue
+    for (const pact of getSpellSlots('pact', level)) {
+      const existing = slots.find((slot) => slot.level === pact.level)
+      if (existing) existing.slots += pact.slots
+      else slots.push({ ...pact })
+    }
+  }
+  return slots.sort((a, b) => a.level - b.level)
+}
+
+// Base walking speed by race; Dwarves, Halflings and Gnomes are 25 ft
+function getBaseSpeed(race: string): number {
+  return /dwar|anão|anao|enano|halfling|pequenino|mediano|gnom/.test(race.toLowerCase()) ? 25 : 30
+}
+
+/**
+ * Total carried weight, carrying capacity and encumbrance level for a strength score
+ */
+export function computeEncumbrance(equipment: Equipment, strength: number): Equipment {
+  const currency = equipment.currency ?? { cp: 0, sp: 0, ep: 0, gp: 0, pp: 0 }
+  const coins = currency.cp + currency.sp + currency.ep + currency.gp + currency.pp
+  const totalWeight =
+    (equipment.weapons ?? []).reduce((sum, weapon) => sum + (weapon.weight || 0), 0) +
+    (equipment.armor ?? []).reduce((sum, armor) => sum + (armor.weight || 0), 0) +
+    (equipment.gear ?? []).reduce((sum, item) => sum + (item.weight || 0) * (item.quantity || 0), 0) +
+    coins / 50
+  const carryingCapacity = strength * 15
+  const encumbrance = totalWeight > carryingCapacity
+    ? 'overloaded'
+    : totalWeight > strength * 10
+      ? 'heavilyEncumbered'
+      : totalWeight > strength * 5
+        ? 'encumbered'
+        : 'unencumbered'
+  return { ...equipment, totalWeight: Math.round(totalWeight * 10) / 10, carryingCapacity, encumbrance }
+}
+
+/**
+ * Derive combat statistics from class, level, race and attributes
+ * Armor comes from the character's equipment, or the primary class's SRD starting armor for characters without equipment.
+ * Multiclassed characters combine hit dice, class level features and spell slots across their classes.
+ */
+export function computeCombatStats(character: Character): CombatStats {
+  const level = Math.min(20, Math.max(1, character.level || 1))
+  const classes = (character.classes && character.classes.length > 0 ? character.classes : [{ name: character.class || '', level }])
+    .map((cls) => ({ ...cls, rules: getClassRules(cls.name) }))
+  const rules = classes[0].rules
+  const levelIn = (target: ClassRules) => classes.filter((cls) => cls.rules === target).reduce((sum, cls) => sum + cls.level, 0)
+  const mod = (ability: AbilityKey) => getAbilityModifier(character.attributes[ability])
+  const proficiencyBonus = getProficiencyBonus(level)
+
+  // Hit points: max hit die of the first class at level 1, then the rounded-up average per level (at least 1 per level)
+  const conModifier = mod('constitution')
+  const hillDwarf = /hill dwarf|anão da colina|enano de las colinas/.test((character.race || '').toLowerCase())
+  const hitDiceByDie = new Map<number, number>()
+  let hitPoints = 0
+  classes.forEach((cls, idx) => {
+    const hitDie = cls.rules?.hitDie ?? 8
+    hitDiceByDie.set(hitDie, (hitDiceByDie.get(hitDie) || 0) + cls.level)
+    for (let lvl = 1; lvl <= cls.level; lvl++) {
+      hitPoints += idx === 0 && lvl === 1 ? Math.max(1, hitDie + conModifier) : Math.max(1, Math.floor(hitDie / 2) + 1 + conModifier)
+    }
+  })
+  if (hillDwarf) hitPoints += level
+  const hitDice = [...hitDiceByDie.entries()]
+    .sort((a, b) => b[0] - a[0])
+    .map(([die, count]) => `${count}d${die}`)
+    .join(' + ')
+
+  // Armor class: worn body armor and shield, else Unarmored Defense (from whichever class grants it) or 10 + DEX
+  let armor: StartingArmor = rules?.armor ?? { base: 10 }
+  if (character.equipment) {
+    const pieces = character.equipment.armor ?? []
+    const bodyArmor = pieces
+      .filter((piece) => piece.category !== 'shield')
+      .sort((a, b) => b.armorClass - a.armorClass)[0]
+    const shield = pieces.find((piece) => piece.category === 'shield')
+    const unarmoredAbility = classes.map((cls) => cls.rules?.armor.unarmoredAbility).find(Boolean)
+    if (bodyArmor) {
+      armor = { base: bodyArmor.armorClass, dexCap: bodyArmor.category === 'heavy' ? 0 : bodyArmor.category === 'medium' ? 2 : undefined }
+    } else if (unarmoredAbility && !(shield && unarmoredAbility === 'wisdom')) {
+      armor = { base: 10, unarmoredAbility }
+    } else {
+      armor = { base: 10 }
+    }
+    armor.shieldBonus = shield ? shield.armorClass || 2 : 0
+  }
+  const dexModifier = mod('dexterity')
+  let armorClass = armor.unarmoredAbility
+    ? armor.base + dexModifier + mod(armor.unarmoredAbility)
+    : armor.base + (armor.dexCap !== undefined ? Math.min(dexModifier, armor.dexCap) : dexModifier)
+  armorClass += armor.shieldBonus ?? (armor.shield ? 2 : 0)
+
+  // Speed: racial base plus Fast Movement / Unarmored Movement
+  let speed = getBaseSpeed(character.race || '')
+  const barbarianLevel = levelIn(CLASS_RULES.Barbarian)
+  const monkLevel = levelIn(CLASS_RULES.Monk)
+  if (barbarianLevel >= 5) speed += 10
+  if (monkLevel >= 2) speed += monkLevel >= 18 ? 30 : monkLevel >= 14 ? 25 : monkLevel >= 10 ? 20 : monkLevel >= 6 ? 15 : 10
+
+  // Initiative is a DEX check, so a Bard's Jack of All Trades applies
+  const initiative = dexModifier + (levelIn(CLASS_RULES.Bard) >= 2 ? Math.floor(proficiencyBonus / 2) : 0)
+
+  const skillModifier = (name: string) => {
+    const skill = character.skills?.find((s) => s.name === name)
+    return skill ? skill.modifier : mod(SKILL_ABILITIES[name])
+  }
+
+  // Weapon attacks: Monks and Rogues fight with finesse / martial arts weapons
+  const finesse = monkLevel > 0 || levelIn(CLASS_RULES.Rogue) > 0
+  const meleeAttackBonus = proficiencyBonus + (finesse ? Math.max(mod('strength'), dexModifier) : mod('strength'))
+  const rangedAttackBonus = proficiencyBonus + dexModifier
+
+  const stats: CombatStats = {
+    hitPoints,
+    hitDice,
+    armorClass,
+    speed,
+    initiative,
+    passivePerception: 10 + skillModifier('Perception'),
+    passiveInvestigation: 10 + skillModifier('Investigation'),
+    passiveInsight: 10 + skillModifier('Insight'),
+    proficiencyBonus,
+    meleeAttackBonus,
+    rangedAttackBonus,
+    spellSlots: [],
+  }
+
+  // Spellcasting: third casters only count when the character actually knows spells;
+  // save DC and attack use the first spellcasting class's ability
+  const knowsSpells = (character.spells || []).length > 0
+  const casters = classes.flatMap((cls) =>
+    cls.rules?.spellcastingAbility && (cls.rules.spellcasting !== 'third' || knowsSpells) ? [{ rules: cls.rules, level: cls.level }] : []
+  )
+  const spellSlots = casters.length > 0 ? getCombinedSpellSlots(casters) : []
+  const spellcastingAbility = casters[0]?.rules.spellcastingAbility
+  if (spellcastingAbility && spellSlots.length > 0) {
+    const abilityByCode: Record<'INT' | 'WIS' | 'CHA', AbilityKey> = { INT: 'intelligence', WIS: 'wisdom', CHA: 'charisma' }
+    const spellModifier = mod(abilityByCode[spellcastingAbility])
+    stats.spellcastingAbility = spellcastingAbility
+    stats.spellSaveDC = 8 + proficiencyBonus + spellModifier
+    stats.spellAttackBonus = proficiencyBonus + spellModifier
+    stats.spellSlots = spellSlots
+  }
+
+  return stats
+}
+
+function formatModifier(modifier: number): string {
+  return modifier >= 0 ? `+${modifier}` : `${modifier}`
+}
+
+// Ability modifier + proficiency bonus (if proficient) + proficiency bonus again (if expertise)
+function getSkillModifier(character: Character, skill: Skill): number {
+  const proficiencyBonus = getProficiencyBonus(character.level)
+  const ability = SKILL_ABILITIES[skill.name] || 'strength'
+  const hasExpertise = (character.expertise || []).includes(skill.name)
+  return getAbilityModifier(character.attributes[ability]) + (skill.proficiency ? proficiencyBonus : 0) + (hasExpertise ? proficiencyBonus : 0)
+}
+
+/**
+ * Check one class's features against its SRD table up to `classLevel`: drop features above that level, fix known
+ * features listed at the wrong level, and add core features for levels that have none (features may be written in
+ * another language, so a level is only considered incomplete when it has fewer entries than the SRD table).
+ * `className` is set for multiclassed characters and tags every feature with the class that grants it.
+ */
+function validateClassFeatures(
+  input: ClassFeature[],
+  rules: ClassRules,
+  classLevel: number,
+  className: string | undefined,
+  corrections: RulesCorrection[]
+): ClassFeature[] {
+  const levelLabel = className ? `${className} level` : 'character level'
+  const uniqueFeatureLevels = new Map<string, number>()
+  const featureNameCounts = new Map<string, number>()
+  for (const feature of rules.features) {
+    const key = feature.name.toLowerCase()
+    featureNameCounts.set(key, (featureNameCounts.get(key) || 0) + 1)
+    uniqueFeatureLevels.set(key, feature.level)
+  }
+
+  const features: ClassFeature[] = []
+  for (const feature of input) {
+    const key = feature.name.trim().toLowerCase()
+    const srdLevel = featureNameCounts.get(key) === 1 ? uniqueFeatureLevels.get(key) : undefined
+    const featureLevel = srdLevel ?? feature.level
+    if (featureLevel !== feature.level && featureLevel <= classLevel) {
+      corrections.push({ field: 'classFeatures', message: `${feature.name} is gained at level ${featureLevel}, not ${feature.level}` })
+    }
+    if (featureLevel > classLevel) {
+      corrections.push({ field: 'classFeatures', message: `Removed ${feature.name}: gained at level ${featureLevel}, above ${levelLabel} ${classLevel}` })
+      continue
+    }
+    features.push(className ? { ...feature, level: featureLevel, className } : { ...feature, level: featureLevel })
+  }
+
+  const hasFeature = (name: string, featureLevel: number) =>
+    features.some((f) => f.name.trim().toLowerCase() === name.toLowerCase() && (featureNameCounts.get(name.toLowerCase()) === 1 || f.level === featureLevel))
+  for (let featureLevel = 1; featureLevel <= classLevel; featureLevel++) {
+    const expected = rules.features.filter((f) => f.level === featureLevel)
+    const present = features.filter((f) => f.level === featureLevel).length
+    if (present >= expected.length) continue
+    for (const feature of expected) {
+      if (hasFeature(feature.name, featureLevel)) continue
+      corrections.push({
+        field: 'classFeatures',
+        message: className
+          ? `Added missing ${className} level ${featureLevel} feature ${feature.name}`
+          : `Added missing level ${featureLevel} feature ${feature.name}`,
+      })
+      features.push(className ? { ...feature, className } : { ...feature })
+    }
+  }
+  return features.sort((a, b) => a.level - b.level)
+}
+
+/**
+ * Validate a generated character against SRD rules and auto-correct what can be corrected
+ * Returns the corrected character plus a human-readable list of the corrections applied.
+ */
+export function validateCharacter(input: Character): { character: Character; corrections: RulesCorrection[] } {
+  const corrections: RulesCorrection[] = []
+  const character: Character = {
+    ...input,
+    attributes: { ...input.attributes },
+    expertise: [...(input.expertise || [])],
+    spells: [...(input.spells || [])],
+    skills: (input.skills || []).map((skill) => ({ ...skill })),
+  }
+
+  // Multiclass: one entry per class with a level of at least 1 and at most 20 levels in total;
+  // the character level is the total and the class is the first (primary) class
+  if (input.classes && input.classes.length > 0) {
+    const classes: CharacterClass[] = []
+    for (const entry of input.classes) {
+      const classLevel = Math.max(1, Math.round(Number(entry.level) || 1))
+      const entryRules = getClassRules(entry.name || '')
+      const duplicate = classes.find((c) => (entryRules ? getClassRules(c.name) === entryRules : c.name === entry.name))
+      if (duplicate) {
+        corrections.push({ field: 'classes', message: `Merged duplicate ${entry.name} levels into ${duplicate.name}` })
+        duplicate.level += classLevel
+      } else {
+        classes.push({ ...entry, level: classLevel })
+      }
+    }
+    let excess = classes.reduce((sum, c) => sum + c.level, 0) - 20
+    for (let idx = classes.length - 1; idx >= 0 && excess > 0; idx--) {
+      const removed = Math.min(excess, classes[idx].level - (idx === 0 ? 1 : 0))
+      if (removed === 0) continue
+      classes[idx].level -= removed
+      excess -= removed
+      corrections.push({ field: 'classes', message: `Removed ${removed} ${classes[idx].name} level(s): a character cannot exceed level 20` })
+    }
+    const kept = classes.filter((c) => c.level > 0)
+    const total = kept.reduce((sum, c) => sum + c.level, 0)
+    if (total !== character.level) {
+      corrections.push({ field: 'level', message: `Level ${character.level} does not match the class levels; set to ${total}` })
+      character.level = total
+    }
+    if (kept[0].name !== character.class) {
+      corrections.push({ field: 'class', message: `Class ${character.class} does not match the first class; set to ${kept[0].name}` })
+      character.class = kept[0].name
+    }
+    character.classes = kept.length > 1 ? kept : undefined
+    // A single remaining class keeps its subclass on the character; multiclassed characters keep it per class
+    if (!character.classes && kept[0].subclass && !character.subclass) {
+      character.subclass = kept[0].subclass
+    } else if (character.classes && character.subclass) {
+      if (!character.classes[0].subclass) character.classes[0].subclass = character.subclass
+      delete character.subclass
+    }
+  }
+
+  // Level: integer 1-20
+  const level = Math.min(20, Math.max(1, Math.round(Number(character.level) || 1)))
+  if (level !== character.level) {
+    corrections.push({ field: 'level', message: `Level ${character.level} is outside 1-20; set to ${level}` })
+    character.level = level
+  }
+
+  const classes = getCharacterClasses(character).map((cls) => ({ ...cls, rules: getClassRules(cls.name || '') }))
+  const isMulticlass = classes.length > 1
+  const rules = classes[0].rules
+  const levelIn = (target: ClassRules) => classes.filter((cls) => cls.rules === target).reduce((sum, cls) => sum + cls.level, 0)
+  // e.g. "level 5 Wizard" or "Fighter 3 / Wizard 2"
+  const description = isMulticlass ? classes.map((cls) => `${cls.name} ${cls.level}`).join(' / ') : `level ${level} ${character.class}`
+
+  // Subclass: only once the class reaches the level at which it chooses one
+  if (isMulticlass) {
+    character.classes = character.classes!.map((cls) => {
+      const clsRules = getClassRules(cls.name || '')
+      if (!cls.subclass || !clsRules || cls.level >= clsRules.subclassLevel) return cls
+      corrections.push({ field: 'classes', message: `Removed subclass ${cls.subclass}: a ${cls.name} chooses a subclass at level ${clsRules.subclassLevel}` })
+      return { name: cls.name, level: cls.level }
+    })
+  } else if (character.subclass && rules && level < rules.subclassLevel) {
+    corrections.push({ field: 'subclass', message: `Removed subclass ${character.subclass}: a ${character.class} chooses a subclass at level ${rules.subclassLevel}` })
+    delete character.subclass
+  }
+
+  // Ability scores: 1-20, except a level 20 Barbarian's STR and CON (Primal Champion, up to 24)
+  const abilityKeys: AbilityKey[] = ['strength', 'dexterity', 'constitution', 'intelligence', 'wisdom', 'charisma']
+  const primalChampion = levelIn(CLASS_RULES.Barbarian) >= 20
+  for (const key of abilityKeys) {
+    const max = primalChampion && (key === 'strength' || key === 'constitution') ? 24 : 20
+    const current = Number(character.attributes[key])
+    const corrected = Math.min(max, Math.max(1, Math.round(Number.isFinite(current) ? current : 10)))
+    if (corrected !== character.attributes[key]) {
+      corrections.push({ field: 'attributes', message: `${key} ${character.attributes[key]} is not a legal score; set to ${corrected}` })
+      character.attributes[key] = corrected
+    }
+  }
+
+  // Multiclassing prerequisites: every class needs its ability scores at 13 or higher;
+  // unmet prerequisites are flagged - raising the scores would hand out free ability points
+  if (isMulticlass) {
+    for (const cls of classes) {
+      const unmet = describeUnmetPrerequisites(cls.name, character.attributes)
+      if (unmet) corrections.push({ field: 'attributes', message: unmet, flagged: true })
+    }
+  }
+
+  if (rules) {
+    // Spells: only what the classes can cast at their levels, no duplicates. SRD spells take their SRD level and details
+    // and are flagged when no class has them on its spell list (third casters use the Wizard list); not checked for
+    // homebrew classes or a Bard with Magical Secrets (level 10), who may learn from any list
+    const spellLists = new Set(
+      classes.map((cls) => (cls.rules?.spellcasting === 'third' ? 'Wizard' : Object.keys(CLASS_RULES).find((name) => CLASS_RULES[name] === cls.rules)))
+    )
+    const checksSpellLists = levelIn(CLASS_RULES.Bard) < 10 && classes.every((cls) => cls.rules)
+    const spellListNames = classes
+      .filter((cls) => cls.rules && cls.rules.spellcasting !== 'none')
+      .map((cls) => (cls.rules!.spellcasting === 'third' ? 'Wizard' : cls.name))
+      .join(' or ')
+    const maxSpellLevel = Math.max(...classes.map((cls) => (cls.rules ? getMaxSpellLevel(cls.rules.spellcasting, cls.level) : -1)))
+    const learnsCantrips = classes.some((cls) =>
+      cls.rules && cls.rules.spellcasting !== 'half' && getMaxSpellLevel(cls.rules.spellcasting, cls.level) >= 0
+    )
+    const seenSpells = new Set<string>()
+    const spells: Spell[] = []
+    for (const generated of character.spells) {
+      const key = generated.name.trim().toLowerCase()
+      if (seenSpells.has(key)) {
+        corrections.push({ field: 'spells', message: `Removed duplicate spell ${generated.name}` })
+        continue
+      }
+      seenSpells.add(key)
+      const srdSpell = findSrdSpell(generated.name)
+      const spell: Spell = { ...enrichSpell(generated) }
+      if (srdSpell && spell.level !== srdSpell.level) {
+        corrections.push({ field: 'spells', message: `${spell.name} level ${spell.level} does not match the SRD; set to ${srdSpell.level}` })
+        spell.level = srdSpell.level
+      }
+      if (!Number.isInteger(spell.level) || spell.level < 0 || spell.level > 9) {
+        corrections.push({ field: 'spells', message: `Removed ${spell.name}: spell level ${spell.level} does not exist` })
+      } else if (maxSpellLevel < 0) {
+        corrections.push({ field: 'spells', message: `Removed ${spell.name}: a ${description} cannot cast spells` })
+      } else if (spell.level === 0 && !learnsCantrips) {
+        corrections.push({ field: 'spells', message: `Removed ${spell.name}: a ${description} does not learn cantrips` })
+      } else if (spell.level > maxSpellLevel) {
+        corrections.push({ field: 'spells', message: `Removed ${spell.name}: level ${spell.level} spell is above the level ${maxSpellLevel} maximum for a ${description}` })
+      } else {
+        const offClassList = !!srdSpell && checksSpellLists && !srdSpell.classes.some((name) => spellLists.has(name))
+        if (offClassList) {
+          corrections.push({ field: 'spells', message: `${spell.name} is not on the ${spellListNames} spell list`, flagged: true })
+          spell.offClassList = true
+        } else {
+          delete spell.offClassList
+        }
+        spells.push(spell)
+      }
+    }
+    character.spells = spells
+
+    // Class features: checked per class against its own class level; features of multiclassed characters
+    // belong to the class named in className, or to the primary class
+    const ownerOf = (feature: ClassFeature) =>
+      (isMulticlass && feature.className
+        ? classes.find((cls) => cls.name === feature.className || (!!cls.rules && cls.rules === getClassRules(feature.className || '')))
+        : undefined) ?? classes[0]
+    const features: ClassFeature[] = []
+    for (const owner of classes) {
+      const owned = (character.classFeatures || []).filter((feature) => ownerOf(feature) === owner)
+      features.push(...(owner.rules
+        ? validateClassFeatures(owned, owner.rules, owner.level, isMulticlass ? owner.name : undefined, corrections)
+        : owned))
+    }
+    character.classFeatures = features
+
+    // Skills: make sure all 18 skills are listed when the model used the SRD names
+    const knownSkillNames = Object.keys(SKILL_ABILITIES)
+    if (character.skills.length > 0 && character.skills.every((s) => knownSkillNames.includes(s.name))) {
+      const missing = knownSkillNames.filter((name) => !character.skills.some((s) => s.name === name))
+      for (const name of missing) {
+        character.skills.push({ name, proficiency: false, modifier: getAbilityModifier(character.attributes[SKILL_ABILITIES[name]]) })
+      }
+      if (missing.length > 0) {
+        corrections.push({ field: 'skills', message: `Added missing skills ${missing.join(', ')}` })
+      }
+    }
+
+    // Expertise: only classes that grant it, never more picks than the class levels allow, always on proficient skills
+    const maxExpertise = classes.reduce(
+      (total, cls) => total + (cls.rules?.expertise ?? []).filter((e) => e.level <= cls.level).reduce((sum, e) => sum + e.count, 0),
+      0
+    )
+    if (character.expertise.length > maxExpertise) {
+      const removed = character.expertise.slice(maxExpertise)
+      corrections.push({
+        field: 'expertise',
+        message: maxExpertise === 0
+          ? `Removed expertise in ${removed.join(', ')}: a ${description} has no expertise`
+          : `Removed expertise in ${removed.join(', ')}: a ${description} has ${maxExpertise} expertise picks`,
+      })
+      character.expertise = character.expertise.slice(0, maxExpertise)
+    }
+    for (const skill of character.skills) {
+      if (character.expertise.includes(skill.name) && !skill.proficiency) {
+        corrections.push({ field: 'skills', message: `${skill.name} has expertise, so it must be proficient` })
+        skill.proficiency = true
+      }
+    }
+
+    // Proficiency count: primary class choices + 2 from background + racial grants + skills from multiclassing
+    const expectedProficiencies = rules.skillChoices + 2 + getRacialSkillCount(character.race || '') +
+      classes.slice(1).reduce((sum, cls) => sum + (cls.rules?.multiclassSkills ?? 0), 0)
+    const isClassSkill = (name: string) =>
+      classes.some((cls) => cls.rules && (cls.rules.skillOptions === 'any' || cls.rules.skillOptions.includes(name)))
+    const raceAndClass = `${character.race} ${isMulticlass ? classes.map((cls) => cls.name).join('/') : character.class}`
+    const proficient = character.skills.filter((s) => s.proficiency)
+    if (proficient.length > expectedProficiencies) {
+      // Drop non-class skills first (latest listed first), never skills with expertise
+      const removable = proficient
+        .filter((s) => !character.expertise.includes(s.name))
+        .sort((a, b) => Number(isClassSkill(a.name)) - Number(isClassSkill(b.name)))
+      const toRemove = removable.slice(0, proficient.length - expectedProficiencies)
+      toRemove.forEach((skill) => { skill.proficiency = false })
+      if (toRemove.length > 0) {
+        corrections.push({
+          field: 'skills',
+          message: `Removed proficiency in ${toRemove.map((s) => s.name).join(', ')}: a ${raceAndClass} has ${expectedProficiencies} skill proficiencies`,
+        })
+      }
+    } else if (proficient.length < expectedProficiencies) {
+      // Add class skills the character is best at
+      const candidates = character.skills
+        .filter((s) => !s.proficiency && s.name in SKILL_ABILITIES && isClassSkill(s.name))
+        .sort((a, b) => character.attributes[SKILL_ABILITIES[b.name]] - character.attributes[SKILL_ABILITIES[a.name]])
+      const toAdd = candidates.slice(0, expectedProficiencies - proficient.length)
+      toAdd.forEach((skill) => { skill.proficiency = true })
+      if (toAdd.length > 0) {
+        corrections.push({
+          field: 'skills',
+          message: `Added proficiency in ${toAdd.map((s) => s.name).join(', ')}: a ${raceAndClass} has ${expectedProficiencies} skill proficiencies`,
+        })
+      }
+    }
+  }
+
+  // Skill modifiers
+  character.skills = character.skills.map((skill): Skill => {
+    const modifier = getSkillModifier(character, skill)
+    if (modifier !== skill.modifier) {
+      corrections.push({ field: 'skills', message: `${skill.name} modifier ${formatModifier(skill.modifier)} corrected to ${formatModifier(modifier)}` })
+    }
+    return { ...skill, modifier }
+  })
+
+  // Derived stats are always recomputed, never trusted from input
+  if (character.equipment) {
+    character.equipment = computeEncumbrance(character.equipment, character.attributes.strength)
+  }
+  character.combatStats = computeCombatStats(character)
+
+  return { character, corrections }
+}
+
+/**
+ * Validate a character whose `lockedFields` (see lib/field-locks.ts) must keep their value from `original`
+ * The validator runs first and the locks are applied to its output, so it never edits a locked field; derived values
+ * (skill modifiers, encumbrance, combat stats) are then recomputed from the locked data. Corrections to locked fields
+ * are dropped.
+ */
+export function validateLockedCharacter(
+  input: Character,
+  original: Character,
+  lockedFields: string[]
+): { character: Character; corrections: RulesCorrection[] } {
+  const validated = validateCharacter(input)
+  if (lockedFields.length === 0) return validated
+
+  const character = applyFieldLocks(validated.character, original, lockedFields)
+  if (character.skills && !lockedFields.includes('skills')) {
+    character.skills = character.skills.map((skill) => ({ ...skill, modifier: getSkillModifier(character, skill) }))
+  }
+  if (character.equipment && !lockedFields.includes('equipment')) {
+    character.equipment = computeEncumbrance(character.equipment, character.attributes.strength)
+  }
+  character.combatStats = computeCombatStats(character)
+
+  const corrections = validated.corrections.filter((correction) => !lockedFields.includes(correction.field))
+  return { character, corrections }
+}
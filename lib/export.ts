@@ -5,7 +5,9 @@
 
 import jsPDF from 'jspdf'
 import type { LibraryContentItem } from '@/components/rpg/library-card'
-import type { Character, Environment, Mission } from '@/types/rpg'
+import { computeCombatStats } from '@/lib/dnd-rules'
+import { enrichSpell } from '@/lib/srd-spells'
+import type { Character, EncumbranceLevel, SpellSchool, Environment, Mission, MagicItem, Monster, MonsterFeature, Faction, FactionRelationship } from '@/types/rpg'
 
 // Color tuple type
 type RGBColor = [number, number, number]
@@ -857,12 +859,44 @@ export type PdfExportLabels = {
     traitsSubtitle: string
     spellsTitle: string
     spellsSubtitle: string
+    spellSchoolLabels: Record<SpellSchool, string>
+    concentrationLabel: string
+    ritualLabel: string
+    offClassListLabel: string
     historyTitle: string
     historySubtitle: string
     personalityTitle: string
     personalitySubtitle: string
+    personalityProfileTitle: string
+    personalityProfileSubtitle: string
+    idealsLabel: string
+    bondsLabel: string
+    flawsLabel: string
     voiceTitle: string
     voiceSubtitle: string
+    combatTitle: string
+    combatSubtitle: string
+    armorClassLabel: string
+    hitPointsLabel: string
+    speedLabel: string
+    speedUnit: string
+    initiativeLabel: string
+    meleeAttackLabel: string
+    rangedAttackLabel: string
+    passivePerceptionLabel: string
+    passiveInvestigationLabel: string
+    passiveInsightLabel: string
+    spellSaveDCLabel: string
+    spellAttackLabel: string
+    spellSlotsLabel: string
+    equipmentTitle: string
+    equipmentSubtitle: string
+    weaponsLabel: string
+    armorLabel: string
+    gearLabel: string
+    currencyLabel: string
+    carriedLabel: string
+    encumbranceLabel: string
   }
   environment: {
     descriptionTitle: string
@@ -898,6 +932,61 @@ export type PdfExportLabels = {
     powerfulItemsTitle: string
     possibleOutcomesTitle: string
   }
+  item: {
+    descriptionTitle: string
+    descriptionSubtitle: string
+    propertiesTitle: string
+    propertiesSubtitle: string
+    chargesTitle: string
+    chargesSubtitle: string
+    rechargeLabel: string
+    loreTitle: string
+    loreSubtitle: string
+    statusTitle: string
+    statusSubtitle: string
+    attunementLabel: string
+    noAttunementLabel: string
+  }
+  monster: {
+    statisticsTitle: string
+    armorClassLabel: string
+    hitPointsLabel: string
+    speedLabel: string
+    abilityScoresTitle: string
+    savingThrowsLabel: string
+    skillsLabel: string
+    damageVulnerabilitiesLabel: string
+    damageResistancesLabel: string
+    damageImmunitiesLabel: string
+    conditionImmunitiesLabel: string
+    sensesLabel: string
+    languagesLabel: string
+    challengeLabel: string
+    proficiencyBonusLabel: string
+    traitsTitle: string
+    actionsTitle: string
+    reactionsTitle: string
+    legendaryActionsTitle: string
+    legendaryActionsSubtitle: string
+    lairActionsTitle: string
+    lairActionsSubtitle: string
+    descriptionTitle: string
+    tacticsTitle: string
+  }
+  faction: {
+    influenceLabel: string
+    ideologyTitle: string
+    descriptionTitle: string
+    headquartersLabel: string
+    leadershipTitle: string
+    leadershipSubtitle: string
+    goalsTitle: string
+    resourcesTitle: string
+    secretsTitle: string
+    secretsSubtitle: string
+    alliesTitle: string
+    rivalsTitle: string
+  }
 }
 
 export type PdfExportOptions = {
@@ -916,6 +1005,9 @@ function buildDefaultPdfLabels(item: LibraryContentItem): PdfExportLabels {
   const character = item.type === 'character' ? (item.content_data as Character) : undefined
   const environment = item.type === 'environment' ? (item.content_data as Environment) : undefined
   const mission = item.type === 'mission' ? (item.content_data as Mission) : undefined
+  const magicItem = item.type === 'item' ? (item.content_data as MagicItem) : undefined
+  const monster = item.type === 'monster' ? (item.content_data as Monster) : undefined
+  const faction = item.type === 'faction' ? (item.content_data as Faction) : undefined
 
   const skillCount = character?.skills?.length ?? 0
   const expertiseCount = character?.expertise?.length ?? 0
@@ -923,6 +1015,15 @@ function buildDefaultPdfLabels(item: LibraryContentItem): PdfExportLabels {
   const classFeatureCount = character?.classFeatures?.length ?? 0
   const traitCount = character?.traits?.length ?? 0
   const spellCount = character?.spells?.length ?? 0
+  const equipmentCount = character?.equipment
+    ? character.equipment.weapons.length + character.equipment.armor.length + character.equipment.gear.length
+    : 0
+  const encumbranceNames: Record<EncumbranceLevel, string> = {
+    unencumbered: 'Unencumbered',
+    encumbered: 'Encumbered',
+    heavilyEncumbered: 'Heavily Encumbered',
+    overloaded: 'Over Capacity',
+  }
 
   const featureCount = environment?.features?.length ?? 0
   const npcCount = environment?.npcs?.length ?? 0
@@ -930,6 +1031,13 @@ function buildDefaultPdfLabels(item: LibraryContentItem): PdfExportLabels {
 
   const objectiveCount = mission?.objectives?.length ?? 0
 
+  const propertyCount = magicItem?.properties?.length ?? 0
+  const chargeCount = magicItem?.charges?.max ?? 0
+
+  const legendaryActionsPerRound = monster?.legendaryActionsPerRound ?? 3
+
+  const leaderCount = faction?.leadership?.length ?? 0
+
   return {
     common: {
       levelLabel: 'Level',
@@ -950,12 +1058,53 @@ function buildDefaultPdfLabels(item: LibraryContentItem): PdfExportLabels {
       traitsSubtitle: `${traitCount} ${pluralize(traitCount, 'trait', 'traits')}`,
       spellsTitle: 'Spells',
       spellsSubtitle: `${spellCount} ${pluralize(spellCount, 'spell', 'spells')}`,
+      spellSchoolLabels: {
+        abjuration: 'Abjuration',
+        conjuration: 'Conjuration',
+        divination: 'Divination',
+        enchantment: 'Enchantment',
+        evocation: 'Evocation',
+        illusion: 'Illusion',
+        necromancy: 'Necromancy',
+        transmutation: 'Transmutation',
+      },
+      concentrationLabel: 'Concentration',
+      ritualLabel: 'Ritual',
+      offClassListLabel: 'Not on the class spell list',
       historyTitle: 'History',
       historySubtitle: 'Character backstory',
       personalityTitle: 'Personality',
       personalitySubtitle: 'Character demeanor',
+      personalityProfileTitle: 'Ideals, Bonds & Flaws',
+      personalityProfileSubtitle: 'What drives the character',
+      idealsLabel: 'Ideals',
+      bondsLabel: 'Bonds',
+      flawsLabel: 'Flaws',
       voiceTitle: 'Voice',
       voiceSubtitle: 'Voice characteristics',
+      combatTitle: 'Combat',
+      combatSubtitle: 'Derived from class, level and attributes',
+      armorClassLabel: 'Armor Class',
+      hitPointsLabel: 'Hit Points',
+      speedLabel: 'Speed',
+      speedUnit: 'ft.',
+      initiativeLabel: 'Initiative',
+      meleeAttackLabel: 'Melee Attack',
+      rangedAttackLabel: 'Ranged Attack',
+      passivePerceptionLabel: 'Passive Perception',
+      passiveInvestigationLabel: 'Passive Investigation',
+      passiveInsightLabel: 'Passive Insight',
+      spellSaveDCLabel: 'Spell Save DC',
+      spellAttackLabel: 'Spell Attack',
+      spellSlotsLabel: 'Spell Slots',
+      equipmentTitle: 'Equipment',
+      equipmentSubtitle: `${equipmentCount} ${pluralize(equipmentCount, 'item', 'items')}`,
+      weaponsLabel: 'Weapons',
+      armorLabel: 'Armor',
+      gearLabel: 'Gear',
+      currencyLabel: 'Currency',
+      carriedLabel: `Carried: ${character?.equipment?.totalWeight ?? 0} / ${character?.equipment?.carryingCapacity ?? 0} lb`,
+      encumbranceLabel: character?.equipment?.encumbrance ? encumbranceNames[character.equipment.encumbrance] : '',
     },
     environment: {
       descriptionTitle: 'Description',
@@ -991,6 +1140,61 @@ function buildDefaultPdfLabels(item: LibraryContentItem): PdfExportLabels {
       powerfulItemsTitle: 'Powerful Items',
       possibleOutcomesTitle: 'Possible Outcomes',
     },
+    item: {
+      descriptionTitle: 'Description',
+      descriptionSubtitle: 'Appearance and feel',
+      propertiesTitle: 'Properties',
+      propertiesSubtitle: `${propertyCount} ${pluralize(propertyCount, 'property', 'properties')}`,
+      chargesTitle: 'Charges',
+      chargesSubtitle: `${chargeCount} ${pluralize(chargeCount, 'charge', 'charges')}`,
+      rechargeLabel: 'Recharge',
+      loreTitle: 'Lore',
+      loreSubtitle: 'History and legends',
+      statusTitle: 'Status',
+      statusSubtitle: 'DM control',
+      attunementLabel: 'Requires attunement',
+      noAttunementLabel: 'No attunement',
+    },
+    monster: {
+      statisticsTitle: 'Statistics',
+      armorClassLabel: 'Armor Class',
+      hitPointsLabel: 'Hit Points',
+      speedLabel: 'Speed',
+      abilityScoresTitle: 'Ability Scores',
+      savingThrowsLabel: 'Saving Throws',
+      skillsLabel: 'Skills',
+      damageVulnerabilitiesLabel: 'Damage Vulnerabilities',
+      damageResistancesLabel: 'Damage Resistances',
+      damageImmunitiesLabel: 'Damage Immunities',
+      conditionImmunitiesLabel: 'Condition Immunities',
+      sensesLabel: 'Senses',
+      languagesLabel: 'Languages',
+      challengeLabel: 'Challenge',
+      proficiencyBonusLabel: 'Proficiency Bonus',
+      traitsTitle: 'Traits',
+      actionsTitle: 'Actions',
+      reactionsTitle: 'Reactions',
+      legendaryActionsTitle: 'Legendary Actions',
+      legendaryActionsSubtitle: `${legendaryActionsPerRound} ${pluralize(legendaryActionsPerRound, 'action', 'actions')} per round`,
+      lairActionsTitle: 'Lair Actions',
+      lairActionsSubtitle: 'On initiative count 20',
+      descriptionTitle: 'Description',
+      tacticsTitle: 'Tactics',
+    },
+    faction: {
+      influenceLabel: 'Influence',
+      ideologyTitle: 'Ideology',
+      descriptionTitle: 'Reputation',
+      headquartersLabel: 'Headquarters',
+      leadershipTitle: 'Leadership',
+      leadershipSubtitle: `${leaderCount} ${pluralize(leaderCount, 'leader', 'leaders')}`,
+      goalsTitle: 'Goals',
+      resourcesTitle: 'Resources',
+      secretsTitle: 'Secrets',
+      secretsSubtitle: 'For the DM only',
+      alliesTitle: 'Allies',
+      rivalsTitle: 'Rivals',
+    },
   }
 }
 
@@ -999,10 +1203,25 @@ function buildHeaderBadges(item: LibraryContentItem, labels: PdfExportLabels): {
     const character = item.content_data as Character
     const badges: HeaderBadge[] = [
       { text: truncateText(character.race, 18), style: { bgColor: COLORS.emerald, textColor: COLORS.black } },
-      { text: truncateText(character.class, 18), style: { bgColor: COLORS.indigo, textColor: COLORS.white } },
+      // Multiclassed characters get one badge per class with its class level, e.g. "Fighter 3", "Wizard 2"
+      ...(character.classes && character.classes.length > 1
+        ? character.classes.map((cls): HeaderBadge => ({
+            text: truncateText(`${cls.name} ${cls.level}`, 18),
+            style: { bgColor: COLORS.indigo, textColor: COLORS.white },
+          }))
+        : [{ text: truncateText(character.class, 18), style: { bgColor: COLORS.indigo, textColor: COLORS.white } }]),
+      ...(character.subclass
+        ? [{ text: truncateText(character.subclass, 24), style: { bgColor: COLORS.sectionBg, textColor: COLORS.indigo, borderColor: COLORS.indigo } }]
+        : []),
       { text: `${labels.common.levelLabel} ${character.level}`, style: { bgColor: COLORS.amber, textColor: COLORS.black } },
       { text: truncateText(character.background, 22), style: { bgColor: COLORS.sectionBg, textColor: COLORS.textPrimary, borderColor: COLORS.cardBorder } },
     ]
+    if (character.alignment) {
+      badges.push({
+        text: truncateText(character.alignment, 20),
+        style: { bgColor: COLORS.sectionBg, textColor: COLORS.textSecondary, borderColor: COLORS.cardBorder },
+      })
+    }
     if (character.voiceDescription) {
       badges.push({
         text: truncateText(character.voiceDescription, 22),
@@ -1027,6 +1246,62 @@ function buildHeaderBadges(item: LibraryContentItem, labels: PdfExportLabels): {
     return { badges, iconText: '' }
   }
 
+  if (item.type === 'item') {
+    const magicItem = item.content_data as MagicItem
+    const rarityColor =
+      magicItem.rarity === 'uncommon'
+        ? COLORS.green
+        : magicItem.rarity === 'rare'
+          ? COLORS.blue
+          : magicItem.rarity === 'very rare'
+            ? COLORS.purple
+            : magicItem.rarity === 'legendary'
+              ? COLORS.orange
+              : magicItem.rarity === 'artifact'
+                ? COLORS.warning
+                : COLORS.sectionBg
+    const badges: HeaderBadge[] = [
+      { text: getTypeLabel(item.type), style: { bgColor: COLORS.secondary, textColor: COLORS.white } },
+      { text: magicItem.rarity, style: { bgColor: rarityColor, textColor: magicItem.rarity === 'common' ? COLORS.textPrimary : COLORS.black, borderColor: COLORS.cardBorder } },
+    ]
+    if (magicItem.itemType) {
+      badges.push({ text: truncateText(magicItem.itemType, 22), style: { bgColor: COLORS.sectionBg, textColor: COLORS.textPrimary, borderColor: COLORS.cardBorder } })
+    }
+    badges.push({
+      text: magicItem.requiresAttunement ? labels.item.attunementLabel : labels.item.noAttunementLabel,
+      style: { bgColor: magicItem.requiresAttunement ? COLORS.indigo : COLORS.sectionBg, textColor: magicItem.requiresAttunement ? COLORS.white : COLORS.textSecondary, borderColor: COLORS.cardBorder },
+    })
+    return { badges, iconText: '' }
+  }
+
+  if (item.type === 'monster') {
+    const monster = item.content_data as Monster
+    const badges: HeaderBadge[] = [
+      { text: getTypeLabel(item.type), style: { bgColor: COLORS.secondary, textColor: COLORS.white } },
+      { text: `${labels.monster.challengeLabel} ${monster.challengeRating}`, style: { bgColor: COLORS.warning, textColor: COLORS.white } },
+    ]
+    const sizeAndType = [monster.size, monster.creatureType].filter(Boolean).join(' ')
+    if (sizeAndType) {
+      badges.push({ text: truncateText(sizeAndType, 26), style: { bgColor: COLORS.sectionBg, textColor: COLORS.textPrimary, borderColor: COLORS.cardBorder } })
+    }
+    if (monster.alignment) {
+      badges.push({ text: truncateText(monster.alignment, 20), style: { bgColor: COLORS.sectionBg, textColor: COLORS.textSecondary, borderColor: COLORS.cardBorder } })
+    }
+    return { badges, iconText: '' }
+  }
+
+  if (item.type === 'faction') {
+    const faction = item.content_data as Faction
+    const badges: HeaderBadge[] = [
+      { text: getTypeLabel(item.type), style: { bgColor: COLORS.secondary, textColor: COLORS.white } },
+      { text: `${labels.faction.influenceLabel}: ${faction.influence}`, style: { bgColor: COLORS.indigo, textColor: COLORS.white } },
+    ]
+    if (faction.factionType) {
+      badges.push({ text: truncateText(faction.factionType, 24), style: { bgColor: COLORS.sectionBg, textColor: COLORS.textPrimary, borderColor: COLORS.cardBorder } })
+    }
+    return { badges, iconText: '' }
+  }
+
   const mission = item.content_data as Mission
   const badges: HeaderBadge[] = [{ text: getTypeLabel(item.type), style: { bgColor: COLORS.secondary, textColor: COLORS.white } }]
 
@@ -1128,6 +1403,12 @@ export function exportAsPDF(item: LibraryContentItem, options: PdfExportOptions
     exportEnvironmentToPDF(layout, item.content_data as Environment, labels)
   } else if (item.type === 'mission') {
     exportMissionToPDF(layout, item.content_data as Mission, labels)
+  } else if (item.type === 'item') {
+    exportItemToPDF(layout, item.content_data as MagicItem, labels)
+  } else if (item.type === 'monster') {
+    exportMonsterToPDF(layout, item.content_data as Monster, labels)
+  } else if (item.type === 'faction') {
+    exportFactionToPDF(layout, item.content_data as Faction, labels)
   }
 
   const totalPages = doc.internal.pages.length - 1
@@ -1246,6 +1527,30 @@ function renderAttributeCard(
   return cardHeight
 }
 
+function buildCombatLines(character: Character, labels: PdfExportLabels): string[] {
+  const stats = computeCombatStats(character)
+  const l = labels.character
+  const lines = [
+    `${l.armorClassLabel}: ${stats.armorClass}`,
+    `${l.hitPointsLabel}: ${stats.hitPoints} (${stats.hitDice})`,
+    `${l.speedLabel}: ${stats.speed} ${l.speedUnit}`,
+    `${l.initiativeLabel}: ${formatModifier(stats.initiative)}`,
+    `${l.meleeAttackLabel}: ${formatModifier(stats.meleeAttackBonus)}`,
+    `${l.rangedAttackLabel}: ${formatModifier(stats.rangedAttackBonus)}`,
+    `${l.passivePerceptionLabel}: ${stats.passivePerception}`,
+    `${l.passiveInvestigationLabel}: ${stats.passiveInvestigation}`,
+    `${l.passiveInsightLabel}: ${stats.passiveInsight}`,
+  ]
+  if (stats.spellSaveDC !== undefined) lines.push(`${l.spellSaveDCLabel}: ${stats.spellSaveDC}`)
+  if (stats.spellAttackBonus !== undefined) {
+    lines.push(`${l.spellAttackLabel}: ${formatModifier(stats.spellAttackBonus)}${stats.spellcastingAbility ? ` (${stats.spellcastingAbility})` : ''}`)
+  }
+  if (stats.spellSlots.length > 0) {
+    lines.push(`${l.spellSlotsLabel}: ${stats.spellSlots.map((slot) => `${slot.level}: ${slot.slots}`).join(', ')}`)
+  }
+  return lines
+}
+
 function buildSkillLines(character: Character): string[] {
   const expertiseSet = new Set(character.expertise || [])
   return (character.skills || []).map((skill) => {
@@ -1291,6 +1596,14 @@ function renderCharacterToPDF(layout: PdfLayoutContext, character: Character, la
   const rightAvailable = columnHeight
   const rightSections: Array<CardHeaderOptions & { lines: string[] }> = []
 
+  rightSections.push({
+    title: labels.character.combatTitle,
+    subtitle: labels.character.combatSubtitle,
+    icon: '',
+    accentColor: COLORS.orange,
+    lines: buildWrappedLinesFromList(layout.doc, buildCombatLines(character, labels), columnWidth - 14, 8),
+  })
+
   if (character.expertise && character.expertise.length > 0) {
     rightSections.push({
       title: labels.character.expertiseTitle,
@@ -1315,7 +1628,7 @@ function renderCharacterToPDF(layout: PdfLayoutContext, character: Character, la
 
   if (character.classFeatures && character.classFeatures.length > 0) {
     const featureLines = character.classFeatures.map(
-      (feature) => `${feature.name} (${labels.common.levelLabel} ${feature.level}) - ${feature.description}`
+      (feature) => `${feature.name} (${feature.className ? `${feature.className} ` : ''}${labels.common.levelLabel} ${feature.level}) - ${feature.description}`
     )
     rightSections.push({
       title: labels.character.classFeaturesTitle,
@@ -1393,9 +1706,16 @@ function renderCharacterToPDF(layout: PdfLayoutContext, character: Character, la
   })
 
   if (character.spells && character.spells.length > 0) {
-    const spellLines = character.spells.map(
-      (spell) => `${spell.name} (${labels.common.levelLabel} ${spell.level}) — ${spell.description}`
-    )
+    // e.g. "Fireball (Level 3 Evocation) — 1 action · 150 feet · V, S, M · Instantaneous — A bright streak..."
+    const spellLines = character.spells.map(enrichSpell).map((spell) => {
+      const school = spell.school ? ` ${labels.character.spellSchoolLabels[spell.school]}` : ''
+      const warning = spell.offClassList ? ` [${labels.character.offClassListLabel}]` : ''
+      const tags = [spell.concentration && labels.character.concentrationLabel, spell.ritual && labels.character.ritualLabel].filter(Boolean)
+      const details = spell.castingTime
+        ? `${[spell.castingTime, spell.range, spell.components, spell.duration].filter(Boolean).join(' · ')}${tags.length > 0 ? ` (${tags.join(', ')})` : ''} — `
+        : ''
+      return `${spell.name} (${labels.common.levelLabel} ${spell.level}${school})${warning} — ${details}${spell.description}`
+    })
     renderCardLines(layout, {
       x: layout.margin,
       width,
@@ -1410,6 +1730,40 @@ function renderCharacterToPDF(layout: PdfLayoutContext, character: Character, la
     })
   }
 
+  if (character.equipment) {
+    const equipment = character.equipment
+    const coins = (['pp', 'gp', 'ep', 'sp', 'cp'] as const)
+      .filter((coin) => equipment.currency?.[coin] > 0)
+      .map((coin) => `${equipment.currency[coin]} ${coin}`)
+    const equipmentLines = [
+      ...equipment.weapons.map((weapon) =>
+        `${labels.character.weaponsLabel}: ${weapon.name} (${[`${weapon.damage} ${weapon.damageType}`, ...weapon.properties].join(', ')})`
+      ),
+      ...equipment.armor.map((piece) =>
+        `${labels.character.armorLabel}: ${piece.name} (${labels.character.armorClassLabel} ${piece.category === 'shield' ? `+${piece.armorClass}` : piece.armorClass})`
+      ),
+      ...(equipment.gear.length > 0
+        ? [`${labels.character.gearLabel}: ${equipment.gear.map((item) => (item.quantity > 1 ? `${item.name} ×${item.quantity}` : item.name)).join(', ')}`]
+        : []),
+      ...(coins.length > 0 ? [`${labels.character.currencyLabel}: ${coins.join(', ')}`] : []),
+      ...(equipment.totalWeight !== undefined
+        ? [[labels.character.carriedLabel, labels.character.encumbranceLabel].filter(Boolean).join(' — ')]
+        : []),
+    ]
+    renderCardLines(layout, {
+      x: layout.margin,
+      width,
+      title: labels.character.equipmentTitle,
+      subtitle: labels.character.equipmentSubtitle,
+      icon: '',
+      count: equipment.weapons.length + equipment.armor.length + equipment.gear.length,
+      accentColor: COLORS.amber,
+      lines: buildWrappedLinesFromList(layout.doc, equipmentLines, width - 14, 8.5),
+      fontSize: 8.5,
+      lineHeight: 1.25,
+    })
+  }
+
   renderCardLines(layout, {
     x: layout.margin,
     width,
@@ -1434,6 +1788,25 @@ function renderCharacterToPDF(layout: PdfLayoutContext, character: Character, la
     lineHeight: 1.3,
   })
 
+  const personalityProfileLines = [
+    { label: labels.character.idealsLabel, entries: character.ideals },
+    { label: labels.character.bondsLabel, entries: character.bonds },
+    { label: labels.character.flawsLabel, entries: character.flaws },
+  ].flatMap(({ label, entries }) => (entries || []).map((entry) => `${label}: ${entry}`))
+  if (personalityProfileLines.length > 0) {
+    renderCardLines(layout, {
+      x: layout.margin,
+      width,
+      title: labels.character.personalityProfileTitle,
+      subtitle: labels.character.personalityProfileSubtitle,
+      icon: '',
+      accentColor: COLORS.rose,
+      lines: buildWrappedLinesFromList(layout.doc, personalityProfileLines, width - 14, 9),
+      fontSize: 9,
+      lineHeight: 1.3,
+    })
+  }
+
   if (character.voiceDescription) {
     renderCardLines(layout, {
       x: layout.margin,
@@ -1725,12 +2098,332 @@ function exportMissionToPDF(layout: PdfLayoutContext, mission: Mission, labels:
   }
 }
 
+function exportItemToPDF(layout: PdfLayoutContext, magicItem: MagicItem, labels: PdfExportLabels): void {
+  const width = layout.pageWidth - 2 * layout.margin
+
+  if (magicItem.description) {
+    renderCardLines(layout, {
+      x: layout.margin,
+      width,
+      title: labels.item.descriptionTitle,
+      subtitle: labels.item.descriptionSubtitle,
+      icon: '',
+      accentColor: COLORS.cyan,
+      lines: buildWrappedLines(layout.doc, magicItem.description, width - 14, 9),
+      fontSize: 9,
+      lineHeight: 1.3,
+    })
+  }
+
+  if (magicItem.requiresAttunement && magicItem.attunementRequirement) {
+    renderCardLines(layout, {
+      x: layout.margin,
+      width,
+      title: labels.item.attunementLabel,
+      icon: '',
+      accentColor: COLORS.indigo,
+      lines: buildWrappedLines(layout.doc, magicItem.attunementRequirement, width - 14, 9),
+      fontSize: 9,
+      lineHeight: 1.3,
+    })
+  }
+
+  if (magicItem.properties && magicItem.properties.length > 0) {
+    renderCardLines(layout, {
+      x: layout.margin,
+      width,
+      title: labels.item.propertiesTitle,
+      subtitle: labels.item.propertiesSubtitle,
+      icon: '',
+      count: magicItem.properties.length,
+      accentColor: COLORS.amber,
+      lines: buildBulletedLines(layout.doc, magicItem.properties, width - 14, 8.5),
+      fontSize: 8.5,
+      lineHeight: 1.25,
+    })
+  }
+
+  if (magicItem.charges) {
+    renderCardLines(layout, {
+      x: layout.margin,
+      width,
+      title: labels.item.chargesTitle,
+      subtitle: labels.item.chargesSubtitle,
+      icon: '',
+      count: magicItem.charges.max,
+      accentColor: COLORS.blue,
+      lines: buildWrappedLines(layout.doc, `${labels.item.rechargeLabel}: ${magicItem.charges.recharge}`, width - 14, 9),
+      fontSize: 9,
+      lineHeight: 1.3,
+    })
+  }
+
+  if (magicItem.lore) {
+    renderCardLines(layout, {
+      x: layout.margin,
+      width,
+      title: labels.item.loreTitle,
+      subtitle: labels.item.loreSubtitle,
+      icon: '',
+      accentColor: COLORS.purple,
+      lines: buildWrappedLines(layout.doc, magicItem.lore, width - 14, 9),
+      fontSize: 9,
+      lineHeight: 1.3,
+    })
+  }
+
+  if (magicItem.status) {
+    renderCardLines(layout, {
+      x: layout.margin,
+      width,
+      title: labels.item.statusTitle,
+      subtitle: labels.item.statusSubtitle,
+      icon: '',
+      accentColor: COLORS.yellow,
+      lines: buildWrappedLines(layout.doc, magicItem.status, width - 14, 9),
+      fontSize: 9,
+      lineHeight: 1.3,
+    })
+  }
+}
+
+function formatAbilityModifier(score: number): string {
+  const modifier = Math.floor((score - 10) / 2)
+  return modifier >= 0 ? `+${modifier}` : `${modifier}`
+}
+
+function buildFeatureLines(doc: jsPDF, features: MonsterFeature[], maxWidth: number, fontSize: number): string[] {
+  return features.flatMap((feature) => buildWrappedLines(doc, `${feature.name}. ${feature.description}`, maxWidth, fontSize))
+}
+
+function exportMonsterToPDF(layout: PdfLayoutContext, monster: Monster, labels: PdfExportLabels): void {
+  const width = layout.pageWidth - 2 * layout.margin
+  const label = labels.monster
+
+  // Classic stat block top: defenses, abilities and properties as titled boxes
+  const armorClass = monster.armorType ? `${monster.armorClass} (${monster.armorType})` : `${monster.armorClass}`
+  const hitPoints = monster.hitDice ? `${monster.hitPoints} (${monster.hitDice})` : `${monster.hitPoints}`
+  renderTitledLinesBox(layout, {
+    x: layout.margin,
+    width,
+    title: label.statisticsTitle,
+    titleColor: COLORS.warning,
+    lines: [
+      `${label.armorClassLabel}: ${armorClass}`,
+      `${label.hitPointsLabel}: ${hitPoints}`,
+      ...buildWrappedLines(layout.doc, `${label.speedLabel}: ${monster.speed}`, width - 16, 9),
+    ],
+  })
+
+  const scores = monster.abilityScores
+  renderTitledLinesBox(layout, {
+    x: layout.margin,
+    width,
+    title: label.abilityScoresTitle,
+    titleColor: COLORS.warning,
+    lines: [
+      ([
+        ['STR', scores.strength],
+        ['DEX', scores.dexterity],
+        ['CON', scores.constitution],
+        ['INT', scores.intelligence],
+        ['WIS', scores.wisdom],
+        ['CHA', scores.charisma],
+      ] as Array<[string, number]>)
+        .map(([name, score]) => `${name} ${score} (${formatAbilityModifier(score)})`)
+        .join('   '),
+    ],
+  })
+
+  const propertyLines = [
+    [label.savingThrowsLabel, monster.savingThrows.join(', ')],
+    [label.skillsLabel, monster.skills.join(', ')],
+    [label.damageVulnerabilitiesLabel, monster.damageVulnerabilities.join('; ')],
+    [label.damageResistancesLabel, monster.damageResistances.join('; ')],
+    [label.damageImmunitiesLabel, monster.damageImmunities.join('; ')],
+    [label.conditionImmunitiesLabel, monster.conditionImmunities.join(', ')],
+    [label.sensesLabel, monster.senses],
+    [label.languagesLabel, monster.languages],
+    [label.challengeLabel, `${monster.challengeRating} (${monster.experiencePoints.toLocaleString('en-US')} XP)`],
+    [label.proficiencyBonusLabel, `+${monster.proficiencyBonus}`],
+  ]
+    .filter(([, value]) => value)
+    .flatMap(([name, value]) => buildWrappedLines(layout.doc, `${name}: ${value}`, width - 16, 9))
+
+  renderTitledLinesBox(layout, {
+    x: layout.margin,
+    width,
+    title: '',
+    lines: propertyLines,
+  })
+
+  const featureSections: Array<{ title: string; subtitle?: string; features?: MonsterFeature[]; accentColor: RGBColor }> = [
+    { title: label.traitsTitle, features: monster.traits, accentColor: COLORS.amber },
+    { title: label.actionsTitle, features: monster.actions, accentColor: COLORS.warning },
+    { title: label.reactionsTitle, features: monster.reactions, accentColor: COLORS.blue },
+    { title: label.legendaryActionsTitle, subtitle: label.legendaryActionsSubtitle, features: monster.legendaryActions, accentColor: COLORS.purple },
+    { title: label.lairActionsTitle, subtitle: label.lairActionsSubtitle, features: monster.lairActions, accentColor: COLORS.green },
+  ]
+
+  featureSections.forEach((section) => {
+    if (!section.features || section.features.length === 0) return
+    renderCardLines(layout, {
+      x: layout.margin,
+      width,
+      title: section.title,
+      subtitle: section.subtitle,
+      icon: '',
+      count: section.features.length,
+      accentColor: section.accentColor,
+      lines: buildFeatureLines(layout.doc, section.features, width - 14, 8.5),
+      fontSize: 8.5,
+      lineHeight: 1.25,
+    })
+  })
+
+  if (monster.description) {
+    renderCardLines(layout, {
+      x: layout.margin,
+      width,
+      title: label.descriptionTitle,
+      icon: '',
+      accentColor: COLORS.cyan,
+      lines: buildWrappedLines(layout.doc, monster.description, width - 14, 9),
+      fontSize: 9,
+      lineHeight: 1.3,
+    })
+  }
+
+  if (monster.tactics) {
+    renderCardLines(layout, {
+      x: layout.margin,
+      width,
+      title: label.tacticsTitle,
+      icon: '',
+      accentColor: COLORS.yellow,
+      lines: buildWrappedLines(layout.doc, monster.tactics, width - 14, 9),
+      fontSize: 9,
+      lineHeight: 1.3,
+    })
+  }
+}
+
+function buildRelationshipLines(doc: jsPDF, relationships: FactionRelationship[], maxWidth: number, fontSize: number): string[] {
+  return buildBulletedLines(doc, relationships.map((relationship) => `${relationship.name}: ${relationship.relationship}`), maxWidth, fontSize)
+}
+
+function exportFactionToPDF(layout: PdfLayoutContext, faction: Faction, labels: PdfExportLabels): void {
+  const width = layout.pageWidth - 2 * layout.margin
+  const label = labels.faction
+
+  const ideologyText = [faction.motto ? `"${faction.motto}"` : '', faction.ideology].filter(Boolean).join('\n')
+  if (ideologyText) {
+    renderCardLines(layout, {
+      x: layout.margin,
+      width,
+      title: label.ideologyTitle,
+      subtitle: faction.headquarters ? `${label.headquartersLabel}: ${faction.headquarters}` : undefined,
+      icon: '',
+      accentColor: COLORS.indigo,
+      lines: buildWrappedLines(layout.doc, ideologyText, width - 14, 9),
+      fontSize: 9,
+      lineHeight: 1.3,
+    })
+  }
+
+  if (faction.description) {
+    renderCardLines(layout, {
+      x: layout.margin,
+      width,
+      title: label.descriptionTitle,
+      icon: '',
+      accentColor: COLORS.cyan,
+      lines: buildWrappedLines(layout.doc, faction.description, width - 14, 9),
+      fontSize: 9,
+      lineHeight: 1.3,
+    })
+  }
+
+  if (faction.leadership && faction.leadership.length > 0) {
+    renderCardLines(layout, {
+      x: layout.margin,
+      width,
+      title: label.leadershipTitle,
+      subtitle: label.leadershipSubtitle,
+      icon: '',
+      count: faction.leadership.length,
+      accentColor: COLORS.purple,
+      lines: buildBulletedLines(
+        layout.doc,
+        faction.leadership.map((leader) => `${leader.name}${leader.title ? ` (${leader.title})` : ''}: ${leader.description}`),
+        width - 14,
+        8.5
+      ),
+      fontSize: 8.5,
+      lineHeight: 1.25,
+    })
+  }
+
+  const listSections: Array<{ title: string; subtitle?: string; entries: string[]; accentColor: RGBColor }> = [
+    { title: label.goalsTitle, entries: faction.goals, accentColor: COLORS.amber },
+    { title: label.resourcesTitle, entries: faction.resources, accentColor: COLORS.emerald },
+    { title: label.secretsTitle, subtitle: label.secretsSubtitle, entries: faction.secrets, accentColor: COLORS.secondary },
+  ]
+
+  listSections.forEach((section) => {
+    if (!section.entries || section.entries.length === 0) return
+    renderCardLines(layout, {
+      x: layout.margin,
+      width,
+      title: section.title,
+      subtitle: section.subtitle,
+      icon: '',
+      count: section.entries.length,
+      accentColor: section.accentColor,
+      lines: buildBulletedLines(layout.doc, section.entries, width - 14, 8.5),
+      fontSize: 8.5,
+      lineHeight: 1.25,
+    })
+  })
+
+  if (faction.allies && faction.allies.length > 0) {
+    renderCardLines(layout, {
+      x: layout.margin,
+      width,
+      title: label.alliesTitle,
+      icon: '',
+      count: faction.allies.length,
+      accentColor: COLORS.green,
+      lines: buildRelationshipLines(layout.doc, faction.allies, width - 14, 8.5),
+      fontSize: 8.5,
+      lineHeight: 1.25,
+    })
+  }
+
+  if (faction.rivals && faction.rivals.length > 0) {
+    renderCardLines(layout, {
+      x: layout.margin,
+      width,
+      title: label.rivalsTitle,
+      icon: '',
+      count: faction.rivals.length,
+      accentColor: COLORS.warning,
+      lines: buildRelationshipLines(layout.doc, faction.rivals, width - 14, 8.5),
+      fontSize: 8.5,
+      lineHeight: 1.25,
+    })
+  }
+}
+
 /**
  * Helper function to get content name
  */
 function getContentName(item: LibraryContentItem): string {
   if (item.type === 'character') return (item.content_data as Character).name
   if (item.type === 'environment') return (item.content_data as Environment).name
+  if (item.type === 'item') return (item.content_data as MagicItem).name
+  if (item.type === 'monster') return (item.content_data as Monster).name
+  if (item.type === 'faction') return (item.content_data as Faction).name
   return (item.content_data as Mission).title
 }
 
@@ -1745,6 +2438,12 @@ function getTypeLabel(type: string): string {
       return 'Environment'
     case 'mission':
       return 'Mission'
+    case 'item':
+      return 'Magic Item'
+    case 'monster':
+      return 'Monster'
+    case 'faction':
+      return 'Faction'
     default:
       return 'Content'
   }
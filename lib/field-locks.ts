@@ -0,0 +1,47 @@
+/**
+ * Field Locks
+ *
+ * Top-level content fields a user can lock on saved content (generated_content.locked_fields).
+ * Locked fields are skipped by "Regenerate all" and kept from the original by variations and level-ups.
+ */
+
+import type { ContentType } from '@/types/rpg'
+
+export const LOCKABLE_FIELDS: Record<ContentType, string[]> = {
+  character: [
+    'name', 'history', 'background', 'personality', 'attributes', 'skills', 'traits', 'racialTraits',
+    'classFeatures', 'spells', 'equipment', 'ideals', 'bonds', 'flaws',
+  ],
+  environment: ['name', 'description', 'npcs', 'features', 'adventureHooks', 'currentConflict'],
+  mission: [
+    'title', 'description', 'context', 'objectives', 'rewards', 'relatedNPCs', 'relatedLocations',
+    'powerfulItems', 'possibleOutcomes',
+  ],
+  item: ['name', 'description', 'properties', 'charges', 'lore'],
+  monster: ['name', 'description', 'traits', 'actions', 'reactions', 'legendaryActions', 'lairActions', 'tactics'],
+  faction: ['name', 'ideology', 'description', 'leadership', 'goals', 'resources', 'secrets', 'allies', 'rivals'],
+}
+
+/**
+ * The lockable fields of `contentType` listed in `value`, in LOCKABLE_FIELDS order; anything else is dropped
+ */
+export function getLockedFields(contentType: ContentType, value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return LOCKABLE_FIELDS[contentType].filter((field) => value.includes(field))
+}
+
+/**
+ * Copy the locked fields of `original` over `content`
+ * A locked field the original does not have is removed, so it stays absent.
+ */
+export function applyFieldLocks<T extends object>(content: T, original: T, lockedFields: string[]): T {
+  const locked = { ...content } as Record<string, unknown>
+  for (const field of lockedFields) {
+    if (Object.prototype.hasOwnProperty.call(original, field)) {
+      locked[field] = (original as Record<string, unknown>)[field]
+    } else {
+      delete locked[field]
+    }
+  }
+  return locked as T
+}
@@ -0,0 +1,292 @@
+/**
+ * Helpers for rendering partially streamed content
+ *
+ * /api/generate streams partial objects while the model is still writing.
+ * These helpers fill the missing fields with empty defaults so the RPG cards
+ * can render a partial Character/Environment/Mission/MagicItem/Monster/Faction field by field.
+ */
+
+import type { DeepPartial } from "ai"
+import type {
+  Character,
+  Equipment,
+  Environment,
+  Mission,
+  MagicItem,
+  Monster,
+  MonsterFeature,
+  Faction,
+  FactionLeader,
+  FactionRelationship,
+  GeneratedContent,
+  ContentType,
+} from "@/types/rpg"
+
+function isDefined<T>(value: T | undefined | null): value is T {
+  return value !== undefined && value !== null
+}
+
+function compactStrings(values?: ReadonlyArray<string | undefined>): string[] {
+  return (values ?? []).filter(isDefined)
+}
+
+function completePartialEquipment(partial: DeepPartial<Equipment>): Equipment {
+  const currency = partial.currency ?? {}
+  return {
+    weapons: (partial.weapons ?? []).filter(isDefined).map((weapon) => ({
+      name: weapon.name ?? "",
+      damage: weapon.damage ?? "",
+      damageType: weapon.damageType ?? "",
+      properties: compactStrings(weapon.properties),
+      weight: weapon.weight ?? 0,
+    })),
+    armor: (partial.armor ?? []).filter(isDefined).map((piece) => ({
+      name: piece.name ?? "",
+      category: piece.category ?? "light",
+      armorClass: piece.armorClass ?? 0,
+      weight: piece.weight ?? 0,
+      stealthDisadvantage: piece.stealthDisadvantage,
+    })),
+    gear: (partial.gear ?? []).filter(isDefined).map((item) => ({
+      name: item.name ?? "",
+      quantity: item.quantity ?? 1,
+      weight: item.weight ?? 0,
+    })),
+    currency: {
+      cp: currency.cp ?? 0,
+      sp: currency.sp ?? 0,
+      ep: currency.ep ?? 0,
+      gp: currency.gp ?? 0,
+      pp: currency.pp ?? 0,
+    },
+  }
+}
+
+export function completePartialCharacter(partial: DeepPartial<Character>): Character {
+  const attributes = partial.attributes ?? {}
+  return {
+    name: partial.name ?? "",
+    race: partial.race ?? "",
+    class: partial.class ?? "",
+    level: partial.level ?? 1,
+    classes: partial.classes
+      ? partial.classes.filter(isDefined).map((cls) => ({
+          name: cls.name ?? "",
+          level: cls.level ?? 1,
+          subclass: cls.subclass,
+        }))
+      : undefined,
+    subclass: partial.subclass,
+    alignment: partial.alignment,
+    background: partial.background ?? "",
+    history: partial.history ?? "",
+    personality: partial.personality ?? "",
+    ideals: partial.ideals ? compactStrings(partial.ideals) : undefined,
+    bonds: partial.bonds ? compactStrings(partial.bonds) : undefined,
+    flaws: partial.flaws ? compactStrings(partial.flaws) : undefined,
+    attributes: {
+      strength: attributes.strength ?? 10,
+      dexterity: attributes.dexterity ?? 10,
+      constitution: attributes.constitution ?? 10,
+      intelligence: attributes.intelligence ?? 10,
+      wisdom: attributes.wisdom ?? 10,
+      charisma: attributes.charisma ?? 10,
+    },
+    expertise: compactStrings(partial.expertise),
+    spells: (partial.spells ?? []).filter(isDefined).map((spell) => ({
+      name: spell.name ?? "",
+      level: spell.level ?? 0,
+      description: spell.description ?? "",
+    })),
+    skills: (partial.skills ?? []).filter(isDefined).map((skill) => ({
+      name: skill.name ?? "",
+      proficiency: skill.proficiency ?? false,
+      modifier: skill.modifier ?? 0,
+    })),
+    traits: compactStrings(partial.traits),
+    racialTraits: partial.racialTraits ? compactStrings(partial.racialTraits) : undefined,
+    classFeatures: partial.classFeatures
+      ? partial.classFeatures.filter(isDefined).map((feature) => ({
+          name: feature.name ?? "",
+          description: feature.description ?? "",
+          level: feature.level ?? 1,
+          className: feature.className,
+        }))
+      : undefined,
+    equipment: partial.equipment ? completePartialEquipment(partial.equipment) : undefined,
+    voiceDescription: partial.voiceDescription ?? "",
+    associatedMission: partial.associatedMission,
+  }
+}
+
+export function completePartialEnvironment(partial: DeepPartial<Environment>): Environment {
+  return {
+    name: partial.name ?? "",
+    description: partial.description ?? "",
+    ambient: partial.ambient ?? "",
+    mood: partial.mood ?? "",
+    lighting: partial.lighting ?? "",
+    features: compactStrings(partial.features),
+    npcs: compactStrings(partial.npcs),
+    currentConflict: partial.currentConflict,
+    adventureHooks: partial.adventureHooks ? compactStrings(partial.adventureHooks) : undefined,
+  }
+}
+
+export function completePartialMission(partial: DeepPartial<Mission>): Mission {
+  return {
+    title: partial.title ?? "",
+    description: partial.description ?? "",
+    context: partial.context ?? "",
+    objectives: (partial.objectives ?? []).filter(isDefined).map((objective) => ({
+      description: objective.description ?? "",
+      primary: objective.primary ?? false,
+      isAlternative: objective.isAlternative,
+      pathType: objective.pathType,
+    })),
+    rewards: {
+      xp: partial.rewards?.xp,
+      gold: partial.rewards?.gold,
+      items: compactStrings(partial.rewards?.items),
+    },
+    difficulty: partial.difficulty ?? "medium",
+    relatedNPCs: compactStrings(partial.relatedNPCs),
+    relatedLocations: compactStrings(partial.relatedLocations),
+    recommendedLevel: partial.recommendedLevel,
+    powerfulItems: partial.powerfulItems
+      ? partial.powerfulItems.filter(isDefined).map((item) => ({
+          name: item.name ?? "",
+          status: item.status ?? "",
+        }))
+      : undefined,
+    possibleOutcomes: partial.possibleOutcomes ? compactStrings(partial.possibleOutcomes) : undefined,
+    choiceBasedRewards: partial.choiceBasedRewards
+      ? partial.choiceBasedRewards.filter(isDefined).map((choice) => ({
+          condition: choice.condition ?? "",
+          rewards: {
+            xp: choice.rewards?.xp,
+            gold: choice.rewards?.gold,
+            items: compactStrings(choice.rewards?.items),
+          },
+        }))
+      : undefined,
+  }
+}
+
+export function completePartialItem(partial: DeepPartial<MagicItem>): MagicItem {
+  return {
+    name: partial.name ?? "",
+    itemType: partial.itemType ?? "",
+    rarity: partial.rarity ?? "common",
+    requiresAttunement: partial.requiresAttunement ?? false,
+    attunementRequirement: partial.attunementRequirement,
+    charges: partial.charges
+      ? { max: partial.charges.max ?? 0, recharge: partial.charges.recharge ?? "" }
+      : undefined,
+    properties: compactStrings(partial.properties),
+    description: partial.description ?? "",
+    lore: partial.lore ?? "",
+    status: partial.status ?? "",
+  }
+}
+
+function completeMonsterFeatures(features?: ReadonlyArray<DeepPartial<MonsterFeature> | undefined>): MonsterFeature[] {
+  return (features ?? []).filter(isDefined).map((feature) => ({
+    name: feature.name ?? "",
+    description: feature.description ?? "",
+  }))
+}
+
+export function completePartialMonster(partial: DeepPartial<Monster>): Monster {
+  const abilityScores = partial.abilityScores ?? {}
+  return {
+    name: partial.name ?? "",
+    size: partial.size ?? "Medium",
+    creatureType: partial.creatureType ?? "",
+    alignment: partial.alignment ?? "",
+    armorClass: partial.armorClass ?? 10,
+    armorType: partial.armorType,
+    hitPoints: partial.hitPoints ?? 0,
+    hitDice: partial.hitDice ?? "",
+    speed: partial.speed ?? "",
+    abilityScores: {
+      strength: abilityScores.strength ?? 10,
+      dexterity: abilityScores.dexterity ?? 10,
+      constitution: abilityScores.constitution ?? 10,
+      intelligence: abilityScores.intelligence ?? 10,
+      wisdom: abilityScores.wisdom ?? 10,
+      charisma: abilityScores.charisma ?? 10,
+    },
+    savingThrows: compactStrings(partial.savingThrows),
+    skills: compactStrings(partial.skills),
+    damageVulnerabilities: compactStrings(partial.damageVulnerabilities),
+    damageResistances: compactStrings(partial.damageResistances),
+    damageImmunities: compactStrings(partial.damageImmunities),
+    conditionImmunities: compactStrings(partial.conditionImmunities),
+    senses: partial.senses ?? "",
+    languages: partial.languages ?? "",
+    challengeRating: partial.challengeRating ?? "",
+    experiencePoints: partial.experiencePoints ?? 0,
+    proficiencyBonus: partial.proficiencyBonus ?? 2,
+    traits: completeMonsterFeatures(partial.traits),
+    actions: completeMonsterFeatures(partial.actions),
+    reactions: partial.reactions ? completeMonsterFeatures(partial.reactions) : undefined,
+    legendaryActionsPerRound: partial.legendaryActionsPerRound,
+    legendaryActions: partial.legendaryActions ? completeMonsterFeatures(partial.legendaryActions) : undefined,
+    lairActions: partial.lairActions ? completeMonsterFeatures(partial.lairActions) : undefined,
+    description: partial.description ?? "",
+    tactics: partial.tactics ?? "",
+  }
+}
+
+function completeFactionRelationships(relationships?: ReadonlyArray<DeepPartial<FactionRelationship> | undefined>): FactionRelationship[] {
+  return (relationships ?? []).filter(isDefined).map((relationship) => ({
+    name: relationship.name ?? "",
+    relationship: relationship.relationship ?? "",
+  }))
+}
+
+export function completePartialFaction(partial: DeepPartial<Faction>): Faction {
+  return {
+    name: partial.name ?? "",
+    factionType: partial.factionType ?? "",
+    influence: partial.influence ?? "local",
+    motto: partial.motto,
+    ideology: partial.ideology ?? "",
+    headquarters: partial.headquarters ?? "",
+    leadership: (partial.leadership ?? []).filter(isDefined).map((leader: DeepPartial<FactionLeader>) => ({
+      name: leader.name ?? "",
+      title: leader.title ?? "",
+      description: leader.description ?? "",
+    })),
+    resources: compactStrings(partial.resources),
+    goals: compactStrings(partial.goals),
+    secrets: compactStrings(partial.secrets),
+    allies: completeFactionRelationships(partial.allies),
+    rivals: completeFactionRelationships(partial.rivals),
+    description: partial.description ?? "",
+  }
+}
+
+/**
+ * Convert a streamed partial object into renderable content for the given type
+ */
+export function completePartialContent(
+  contentType: ContentType,
+  partial: DeepPartial<GeneratedContent>
+): GeneratedContent {
+  switch (contentType) {
+    case "character":
+      return completePartialCharacter(partial as DeepPartial<Character>)
+    case "environment":
+      return completePartialEnvironment(partial as DeepPartial<Environment>)
+    case "mission":
+      return completePartialMission(partial as DeepPartial<Mission>)
+    case "item":
+      return completePartialItem(partial as DeepPartial<MagicItem>)
+    case "monster":
+      return completePartialMonster(partial as DeepPartial<Monster>)
+    case "faction":
+      return completePartialFaction(partial as DeepPartial<Faction>)
+  }
+}
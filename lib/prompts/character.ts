@@ -0,0 +1,98 @@
+/**
+ * Character Prompts
+ *
+ * Versions of the full character generation prompt; registered in lib/prompts/index.ts.
+ */
+
+import type { AdvancedCharacterInput } from '@/types/rpg'
+import { buildSharedInstructions, normalizeBackgroundName, normalizeClassName, resolveCharacterInput, withoutScenarioLanguageExample } from './shared'
+import type { GenerationPromptInput, PromptTemplate } from './types'
+
+export const characterPromptV1: PromptTemplate<GenerationPromptInput> = {
+  name: 'character',
+  version: 1,
+  description: 'Full character generation: class, race, background and level constraints, spells and class features',
+  build(input) {
+    const { scenario, advancedInput, generationParams, language } = input
+    const outputLanguage = language.languageName
+    const { toneInstruction, complexityInstruction, advancedConstraints, campaignInstruction, campaignContextBlock } = buildSharedInstructions('character', input)
+    const charInput = resolveCharacterInput(advancedInput as AdvancedCharacterInput | undefined)
+    const complexity = generationParams?.complexity || 'standard'
+    const tone = generationParams?.tone || 'balanced'
+    // Normalize class and background for consistent matching
+    const normalizedClass = normalizeClassName(charInput?.class)
+    const normalizedBackground = normalizeBackgroundName(charInput?.background)
+    const charLevel = charInput?.level ? ` Level ${charInput.level}` : ''
+    const charClass = normalizedClass ? ` ${normalizedClass}` : ''
+    const charRace = charInput?.race ? ` ${charInput.race}` : ''
+
+    const system = `CRITICAL LANGUAGE REQUIREMENT: The output language is ${outputLanguage}. You MUST generate ALL content in ${outputLanguage}. This includes ALL text, descriptions, names, titles, dialogue, and every single word of output. Every field must be in ${outputLanguage}. 
+
+Example: If the user writes in Portuguese like "um bardo na taverna", you MUST respond with Portuguese names like "João" or "Maria", Portuguese descriptions, and all text in Portuguese. If the user writes in Spanish like "un bardo en la taberna", respond with Spanish names like "Juan" or "María" and all text in Spanish.
+
+You are an expert D&D 5e game master and character creator. Create detailed, immersive characters that feel authentic to the D&D 5e universe. Characters should have rich backstories, distinct personalities, and appropriate abilities for their level and class.${toneInstruction}${complexityInstruction} Include spells from the class's spell list appropriate to the character's level. IMPORTANT: Ensure all skill proficiency flags are correctly set based on class, background, and race. Include all standard racial traits for the character's race. CRITICAL: Every character MUST include ALL mandatory class features for their class and level - this is non-negotiable. Non-spellcasting classes (Barbarian, Rogue, Fighter, Monk) must have their complete feature list.
+
+OUTPUT FORMAT: You MUST output a single valid JSON object with ALL required fields. Output them in this order: name, race, class, level, classes (only if multiclassed), subclass (single-class only, once the class grants one), alignment, background, attributes, expertise, skills, traits, voiceDescription, history, personality, ideals, bonds, flaws, spells, equipment. CRITICAL: history = 2-5 sentences only. personality = 2-4 sentences only. Do NOT write long paragraphs, random words, code, or multiple languages in any field. Each spell: { name (string), level (number 0-9), description (string) }. Each skill: { name (string), proficiency (boolean), modifier (number) }. Do not output anything outside the JSON.
+
+FINAL REMINDER: All output MUST be in ${outputLanguage}. Every name, description, trait, and text field must be in ${outputLanguage}.${campaignInstruction}`
+    // Build name instruction with emphasis on unique names
+    const nameInstruction = `CRITICAL: Generate a UNIQUE, CREATIVE character name appropriate for ${outputLanguage} culture. DO NOT use generic names like "${charInput?.race || 'Race'} ${normalizedClass || 'Class'}" or literal translations. Create an authentic, memorable name that fits the character's background and culture (e.g., ${language.sampleNames.join(', ')}). The name field must contain ONLY the character's name, not their race and class.`
+
+    // Build spell instruction based on class
+    const spellInstruction = charInput?.classes && charInput.classes.length > 1
+      ? `- Spells: Include spells only for the spellcasting classes among ${charInput.classes.map((cls) => `${normalizeClassName(cls.name)} ${cls.level}`).join(' / ')}, each appropriate for that class's own level (empty array [] if none of the classes casts spells).`
+      : normalizedClass === 'Wizard' 
+      ? `- Spells: For Wizards, include ALL spells appropriate for level ${charInput?.level || 'the character'}. A ${charInput?.level || 'low-level'} Wizard should have 6-10 spells in their spellbook (mix of cantrips and leveled spells). Include essential spells like Magic Missile, Detect Magic, Mage Armor, and other spells fitting their level and specialization. The spells array must contain multiple spells, not just 3.`
+      : normalizedClass && ['Sorcerer', 'Bard', 'Cleric', 'Paladin', 'Ranger', 'Warlock', 'Druid'].includes(normalizedClass)
+      ? `- Spells: Include appropriate spells for a ${normalizedClass} of this level (typically 4-8 spells for lower levels, more for higher levels).`
+      : `- Spells: Non-spellcasting classes must have an empty spells array [].`
+
+    const user = `CRITICAL LANGUAGE REQUIREMENT: You MUST respond entirely in ${outputLanguage}. Every word, name, description, and text must be in ${outputLanguage}.
+
+Create a D&D 5e character based on this scenario: "${scenario}"${charLevel}${charClass}${charRace}${advancedConstraints}${campaignContextBlock}
+
+IMPORTANT: Write in ${outputLanguage} even if the scenario above uses another language. All character names, descriptions, backstories, personality traits, and every single text field must be in ${outputLanguage}. Use names appropriate for ${outputLanguage} culture (e.g., ${language.sampleNames.slice(0, 3).join(', ')}).
+
+${nameInstruction}
+
+Generate a complete character with:
+- Name: ${nameInstruction}${charInput?.level ? `\n- CRITICAL: MUST be exactly level ${charInput.level} (the "level" field in JSON must be ${charInput.level})` : '\n- Level between 1-10 (choose appropriately based on the scenario)'}${normalizedClass ? `\n- CRITICAL: MUST be a ${normalizedClass} (the "class" field in JSON must be exactly "${normalizedClass}")` : ''}${charInput?.race ? `\n- CRITICAL: MUST be a ${charInput.race} (the "race" field in JSON must be exactly "${charInput.race}")` : ''}${normalizedBackground ? `\n- CRITICAL: MUST have the ${normalizedBackground} background (the "background" field in JSON must be exactly "${normalizedBackground}")` : ''}
+- D&D 5e ability scores (STR, DEX, CON, INT, WIS, CHA) - values typically 8-15 for starting characters, with one or two higher stats (15-17) based on class
+- A compelling backstory that connects to the scenario${complexity === 'detailed' ? '. This backstory MUST be detailed and rich with descriptions. Write at least 2-3 paragraphs exploring the character\'s past, motivations, and connections.' : ' (written entirely in ' + outputLanguage + ')'}${tone === 'serious' ? ' Maintain a serious, dramatic tone. Focus on realism, consequences, and meaningful experiences that shaped the character.' : ''} (ALL text in ${outputLanguage})
+- Distinct personality traits (described in ${outputLanguage}, at least 3-4 traits that make the character unique)
+- Alignment${charInput?.alignment ? ` (MUST be ${charInput.alignment})` : ''}, plus 1-2 ideals, 1-2 bonds and 1-2 flaws that fit the alignment, background and backstory
+- Subclass: if the class level has reached the level at which the class chooses a subclass (Cleric, Sorcerer, Warlock: 1; Druid, Wizard: 2; others: 3), set "subclass"${charInput?.subclass ? ` to "${charInput.subclass}"` : ''} and include its features; otherwise omit it
+- Expertise in 2-4 skills (if the class grants expertise, like Rogue or Bard)
+${spellInstruction}
+- ALL skills with accurate proficiency flags - mark proficiency: true for skills granted by class, background, or race. The modifier field should match: ability modifier + proficiency bonus (if proficient) or ability modifier + 2×proficiency bonus (if expertise)
+- Racial traits: Include ALL standard D&D 5e racial features for the character's race (e.g., Tiefling: Darkvision, Hellish Resistance, Infernal Legacy; Elf: Darkvision, Fey Ancestry, Keen Senses; Dwarf: Darkvision, Dwarven Resilience, Stonecunning)
+- Class Features: Include ALL mandatory class features for this class and level. This is REQUIRED for every character. Examples:
+* Barbarian (Level 3): Rage (Level 1), Unarmored Defense (Level 1), Reckless Attack (Level 2), Danger Sense (Level 2), Primal Path feature (Level 3)
+* Rogue (Level 3): Sneak Attack (Level 1), Thieves' Cant (Level 1), Expertise (Level 1), Cunning Action (Level 2), Roguish Archetype feature (Level 3)
+* Fighter (Level 3): Fighting Style (Level 1), Second Wind (Level 1), Action Surge (Level 2), Martial Archetype feature (Level 3)
+* Monk (Level 3): Unarmored Defense (Level 1), Martial Arts (Level 1), Ki (Level 2), Unarmored Movement (Level 2), Monastic Tradition feature (Level 3)
+* Spellcasting classes (Bard, Wizard, etc.) must also include their class features (e.g., Bardic Inspiration for Bard, Arcane Recovery for Wizard)
+- Equipment: weapons (damage dice, damage type, properties, weight), armor worn and shield (category, base AC, weight), adventuring gear with quantities and unit weights, and coins (cp, sp, ep, gp, pp). Use standard D&D 5e items appropriate for the class, background and level; armor must be one the class is proficient with
+- Character traits and quirks
+- Voice description (e.g., "Hoarse voice", "Sweet voice", "Angry voice", "Deep voice", "Melodic voice", "Raspy voice") - NOT dialogue phrases, just the voice quality
+- Optional associated mission if relevant
+
+CRITICAL: 
+1. Ensure skill modifiers are calculated correctly. For each skill, proficiency: true means the modifier should be (ability modifier + proficiency bonus). For expertise, it should be (ability modifier + 2×proficiency bonus).
+2. Class features are MANDATORY - every character must have their complete class feature list. Non-spellcasting classes cannot rely on spells alone.
+3. Make the character feel alive and ready to use in a campaign.
+4. FINAL REMINDER: EVERY SINGLE TEXT FIELD MUST BE IN ${outputLanguage}. Names, descriptions, traits, backstory, personality - everything must be in ${outputLanguage}.`
+
+    return { system, user }
+  },
+}
+
+export const characterPromptV2: PromptTemplate<GenerationPromptInput> = {
+  name: 'character',
+  version: 2,
+  description: 'Version 1 without the example that mirrors the scenario\'s language; only the output language counts',
+  build(input) {
+    const prompt = characterPromptV1.build(input)
+    return { ...prompt, system: withoutScenarioLanguageExample(prompt.system) }
+  },
+}
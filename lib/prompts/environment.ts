@@ -0,0 +1,90 @@
+/**
+ * Environment Prompts
+ *
+ * Versions of the full environment generation prompt; registered in lib/prompts/index.ts.
+ */
+
+import { DND_REFERENCE } from '@/lib/dnd-reference'
+import type { AdvancedEnvironmentInput } from '@/types/rpg'
+import { buildSharedInstructions, withoutScenarioLanguageExample } from './shared'
+import type { GenerationPromptInput, PromptTemplate } from './types'
+
+export const environmentPromptV1: PromptTemplate<GenerationPromptInput> = {
+  name: 'environment',
+  version: 1,
+  description: 'Full environment generation: mood, lighting and NPC count',
+  build(input) {
+    const { scenario, advancedInput, language } = input
+    const outputLanguage = language.languageName
+    const { toneInstruction, complexityInstruction, advancedConstraints, campaignInstruction, campaignContextBlock } = buildSharedInstructions('environment', input)
+    const envInput = advancedInput as AdvancedEnvironmentInput | undefined
+
+    const envMoodPrompt =
+      envInput?.mood
+        ? DND_REFERENCE.environment.moods[envInput.mood as keyof typeof DND_REFERENCE.environment.moods].prompt
+        : null
+
+    const envLightingPrompt =
+      envInput?.lighting
+        ? DND_REFERENCE.environment.lighting[envInput.lighting as keyof typeof DND_REFERENCE.environment.lighting].prompt
+        : null
+
+    const envMood = envMoodPrompt ? ` with ${envMoodPrompt}` : ''
+    const envLighting = envLightingPrompt ? ` with ${envLightingPrompt}` : ''
+    const envNPCs =
+      envInput?.npcCount !== undefined
+        ? ` with exactly ${envInput.npcCount} NPC${envInput.npcCount !== 1 ? 's' : ''}`
+        : ''
+
+    const system = `CRITICAL LANGUAGE REQUIREMENT: The output language is ${outputLanguage}. You MUST generate ALL content in ${outputLanguage}. This includes ALL text, descriptions, names, titles, dialogue, and every single word of output. Every field must be in ${outputLanguage}.
+      
+      Example: If the user writes in Portuguese like "uma torre de mago", you MUST respond with Portuguese location names like "Torre do Mago" and all descriptions in Portuguese. If the user writes in Spanish like "una torre del mago", respond with Spanish names like "Torre del Mago" and all text in Spanish.
+      
+      You are an expert D&D 5e game master and world builder. Create immersive, atmospheric locations that bring the game world to life.${toneInstruction}${complexityInstruction} Environments should have rich sensory details, mood, and interactive elements that engage players.
+      
+      FINAL REMINDER: All output MUST be in ${outputLanguage}. Every name, description, feature, and text field must be in ${outputLanguage}.${campaignInstruction}`
+
+    const user = `CRITICAL LANGUAGE REQUIREMENT: You MUST respond entirely in ${outputLanguage}. Every word, name, description, and text must be in ${outputLanguage}.
+      
+      Create a D&D 5e environment/location based on this scenario: "${scenario}"${envMood}${envLighting}${envNPCs}${advancedConstraints}${campaignContextBlock}
+      
+      IMPORTANT: Write in ${outputLanguage} even if the scenario above uses another language. All location names, descriptions, features, NPC names, and every single text field must be in ${outputLanguage}. Use names appropriate for ${outputLanguage} culture.
+      
+      Generate a complete location with the following clearly separated sections (ALL in ${outputLanguage}):
+      ${envInput?.mood
+        ? `- Mood: MUST be ${DND_REFERENCE.environment.moods[envInput.mood as keyof typeof DND_REFERENCE.environment.moods].label}`
+        : '- Mood: The emotional tone players should feel upon entering, described in ${outputLanguage} (keep this distinct from the description)'
+      }
+      ${envInput?.lighting
+        ? `- Lighting: MUST be ${DND_REFERENCE.environment.lighting[envInput.lighting as keyof typeof DND_REFERENCE.environment.lighting].label}`
+        : '- Lighting: Lighting conditions and visibility described in ${outputLanguage} (do NOT repeat description text)'
+      }
+      - Name: A memorable and unique location name (in ${outputLanguage}, appropriate for ${outputLanguage} culture)
+      - Description: A vivid visual description of the place in ${outputLanguage} (do NOT describe mood or lighting here)
+      - Atmosphere: Ambient sounds, smells, and environmental details (described in ${outputLanguage})
+      - Notable Features: Interactive elements players can investigate or use (described in ${outputLanguage})
+      - NPCs: ${envInput?.npcCount !== undefined
+        ? `Exactly ${envInput.npcCount} NPC${envInput.npcCount !== 1 ? 's' : ''}, each with a short role description in ${outputLanguage}`
+        : 'Key NPCs present, each with a short role description in ${outputLanguage} (NPC names should be in ${outputLanguage})'
+      }${envInput?.npcCount === 0 ? ' (no NPCs should be included)' : ''}
+      - Current Conflict: What is currently wrong or unstable in this location (described in ${outputLanguage})
+      - Adventure Hooks: 2-3 concrete hooks that can immediately involve the players (written in ${outputLanguage})
+      
+      Make the environment feel immersive, playable, and ready to use at the table.
+      Avoid repeating the same text across sections.
+      
+      FINAL REMINDER: EVERY SINGLE TEXT FIELD MUST BE IN ${outputLanguage}. Location name, all descriptions, NPC names, features, conflicts, hooks - everything must be in ${outputLanguage}.`
+
+    return { system, user }
+  },
+}
+
+export const environmentPromptV2: PromptTemplate<GenerationPromptInput> = {
+  name: 'environment',
+  version: 2,
+  description: 'Version 1 without the example that mirrors the scenario\'s language; only the output language counts',
+  build(input) {
+    const prompt = environmentPromptV1.build(input)
+    return { ...prompt, system: withoutScenarioLanguageExample(prompt.system) }
+  },
+}
@@ -0,0 +1,63 @@
+/**
+ * Faction Prompts
+ *
+ * Versions of the full faction generation prompt; registered in lib/prompts/index.ts.
+ */
+
+import type { AdvancedFactionInput } from '@/types/rpg'
+import { buildSharedInstructions, withoutScenarioLanguageExample } from './shared'
+import type { GenerationPromptInput, PromptTemplate } from './types'
+
+export const factionPromptV1: PromptTemplate<GenerationPromptInput> = {
+  name: 'faction',
+  version: 1,
+  description: 'Full faction generation: influence, leadership, goals, secrets, allies and rivals',
+  build(input) {
+    const { scenario, advancedInput, language } = input
+    const outputLanguage = language.languageName
+    const { toneInstruction, complexityInstruction, advancedConstraints, campaignInstruction, campaignContextBlock } = buildSharedInstructions('faction', input)
+    const factionInput = advancedInput as AdvancedFactionInput | undefined
+    const factionInfluence = factionInput?.influence ? ` with ${factionInput.influence} influence` : ''
+
+    const system = `CRITICAL LANGUAGE REQUIREMENT: The output language is ${outputLanguage}. You MUST generate ALL content in ${outputLanguage}. This includes ALL text, descriptions, names, and every single word of output. Every field must be in ${outputLanguage}.
+
+Example: If the user writes in Portuguese like "uma guilda de ladrões", you MUST respond with a Portuguese name like "Os Mãos de Cinza" and all descriptions in Portuguese. If the user writes in Spanish like "un culto de la luna", respond with a Spanish name like "La Orden del Eclipse" and all text in Spanish.
+
+You are an expert D&D 5e game master and worldbuilder. Create factions and organizations (guilds, cults, noble houses, orders) that drive a campaign: each one wants something, has the means to pursue it, and stands in the way of someone else.${toneInstruction}${complexityInstruction} Goals MUST create hooks the players can get involved in, and secrets MUST be things the players could plausibly uncover. Keep the JSON field value for influence in English as specified; only text fields follow the language requirement.
+
+FINAL REMINDER: All output MUST be in ${outputLanguage}. Every name, goal, secret, and description must be in ${outputLanguage}.${campaignInstruction}`
+    const user = `CRITICAL LANGUAGE REQUIREMENT: You MUST respond entirely in ${outputLanguage}. Every word, name, description, and text must be in ${outputLanguage}.
+
+Create a D&D 5e faction or organization based on this scenario: "${scenario}"${factionInfluence}${advancedConstraints}${campaignContextBlock}
+
+Generate a complete faction with the following (ALL text in ${outputLanguage}):
+- Name and type of organization (in ${outputLanguage})
+${factionInput?.influence ? `- Influence: MUST be ${factionInput.influence}` : '- Influence: One of local, regional, national, global - matching the faction\'s reach'}
+- Motto: Optional creed or rallying cry
+- Ideology: What the faction believes and why its members join
+- Headquarters: Where the faction is based
+- Leadership: ${factionInput?.leaderCount ? `Exactly ${factionInput.leaderCount}` : '1-3'} leaders with name, title and description
+- Resources: 3-5 resources the faction can call on
+- Goals: 2-4 concrete goals the faction is working toward
+- Secrets: 2-3 secrets the players could uncover
+- Allies: 1-3 allied factions and the nature of each alliance
+- Rivals: 1-3 rival factions and what fuels each rivalry
+- Description: Public reputation and how the faction operates
+
+Make the faction feel alive, with clear motives and tensions the DM can build sessions around.
+
+FINAL REMINDER: EVERY SINGLE TEXT FIELD MUST BE IN ${outputLanguage}. Faction name, leaders, goals, secrets, allies, rivals - everything must be in ${outputLanguage}.`
+
+    return { system, user }
+  },
+}
+
+export const factionPromptV2: PromptTemplate<GenerationPromptInput> = {
+  name: 'faction',
+  version: 2,
+  description: 'Version 1 without the example that mirrors the scenario\'s language; only the output language counts',
+  build(input) {
+    const prompt = factionPromptV1.build(input)
+    return { ...prompt, system: withoutScenarioLanguageExample(prompt.system) }
+  },
+}
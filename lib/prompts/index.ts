@@ -0,0 +1,85 @@
+/**
+ * Prompt Registry
+ *
+ * Named, versioned prompt templates used by lib/ai.ts: one per content type for full generation and one for section
+ * regeneration, with the output language supplied by a per-locale instruction pack (language-packs.ts).
+ * Prompts evolve by registering a new version next to the old ones, never by editing a released version, so content
+ * can be regenerated with the prompt that produced it and versions can be compared on the same scenario
+ * (scripts/compare-prompts.ts). Generation uses the latest version unless one is requested.
+ *
+ * A prompt id names a template version, e.g. "character@1"; it is recorded in the generation provenance.
+ */
+
+import type { ContentType } from '@/types/rpg'
+import { characterPromptV1, characterPromptV2 } from './character'
+import { environmentPromptV1, environmentPromptV2 } from './environment'
+import { factionPromptV1, factionPromptV2 } from './faction'
+import { itemPromptV1, itemPromptV2 } from './item'
+import { missionPromptV1, missionPromptV2 } from './mission'
+import { monsterPromptV1, monsterPromptV2 } from './monster'
+import { sectionPromptV1 } from './section'
+import type { GenerationPromptInput, PromptTemplate, SectionPromptInput } from './types'
+
+export { LANGUAGE_PACKS, type LanguagePack } from './language-packs'
+export type { GenerationPromptInput, PromptTemplate, PromptText, SectionPromptInput } from './types'
+
+// Oldest first
+const GENERATION_PROMPTS: Record<ContentType, PromptTemplate<GenerationPromptInput>[]> = {
+  character: [characterPromptV1, characterPromptV2],
+  environment: [environmentPromptV1, environmentPromptV2],
+  mission: [missionPromptV1, missionPromptV2],
+  item: [itemPromptV1, itemPromptV2],
+  monster: [monsterPromptV1, monsterPromptV2],
+  faction: [factionPromptV1, factionPromptV2],
+}
+
+const SECTION_PROMPTS: PromptTemplate<SectionPromptInput>[] = [sectionPromptV1]
+
+function selectVersion<TInput>(name: string, templates: PromptTemplate<TInput>[], version?: number): PromptTemplate<TInput> {
+  if (version === undefined) {
+    return templates[templates.length - 1]
+  }
+  const template = templates.find((candidate) => candidate.version === version)
+  if (!template) {
+    throw new Error(`Unknown prompt version: ${name}@${version}`)
+  }
+  return template
+}
+
+export function getPromptId(template: Pick<PromptTemplate<never>, 'name' | 'version'>): string {
+  return `${template.name}@${template.version}`
+}
+
+/**
+ * Split a prompt id into its template name and version; null when it is not a valid id
+ */
+export function parsePromptId(promptId: string): { name: string; version: number } | null {
+  const match = /^([a-z]+)@(\d+)$/.exec(promptId)
+  return match ? { name: match[1], version: Number(match[2]) } : null
+}
+
+/**
+ * Full generation template for a content type; the latest version unless `version` is given
+ * Throws for an unknown content type or version.
+ */
+export function getGenerationPrompt(contentType: ContentType, version?: number): PromptTemplate<GenerationPromptInput> {
+  const templates = GENERATION_PROMPTS[contentType]
+  if (!templates) {
+    throw new Error(`Unknown content type: ${contentType}`)
+  }
+  return selectVersion(contentType, templates, version)
+}
+
+/**
+ * Section regeneration template; the latest version unless `version` is given
+ */
+export function getSectionPrompt(version?: number): PromptTemplate<SectionPromptInput> {
+  return selectVersion('section', SECTION_PROMPTS, version)
+}
+
+/**
+ * Registered versions of a content type's generation template, oldest first
+ */
+export function listPromptVersions(contentType: ContentType): number[] {
+  return (GENERATION_PROMPTS[contentType] || []).map((template) => template.version)
+}
@@ -0,0 +1,61 @@
+/**
+ * Magic Item Prompts
+ *
+ * Versions of the full magic item generation prompt; registered in lib/prompts/index.ts.
+ */
+
+import type { AdvancedItemInput } from '@/types/rpg'
+import { buildSharedInstructions, withoutScenarioLanguageExample } from './shared'
+import type { GenerationPromptInput, PromptTemplate } from './types'
+
+export const itemPromptV1: PromptTemplate<GenerationPromptInput> = {
+  name: 'item',
+  version: 1,
+  description: 'Full magic item generation: rarity, attunement, charges and properties',
+  build(input) {
+    const { scenario, advancedInput, language } = input
+    const outputLanguage = language.languageName
+    const { toneInstruction, complexityInstruction, advancedConstraints, campaignInstruction, campaignContextBlock } = buildSharedInstructions('item', input)
+    const itemInput = advancedInput as AdvancedItemInput | undefined
+    const itemRarity = itemInput?.rarity ? ` of ${itemInput.rarity} rarity` : ''
+
+    const system = `CRITICAL LANGUAGE REQUIREMENT: The output language is ${outputLanguage}. You MUST generate ALL content in ${outputLanguage}. This includes ALL text, descriptions, names, and every single word of output. Every field must be in ${outputLanguage}.
+
+Example: If the user writes in Portuguese like "uma espada amaldiçoada", you MUST respond with a Portuguese item name like "Lâmina do Eclipse" and all descriptions in Portuguese. If the user writes in Spanish like "una espada maldita", respond with a Spanish name like "Hoja del Eclipse" and all text in Spanish.
+
+You are an expert D&D 5e game master and magic item designer. Create balanced, evocative magic items that follow the D&D 5e rules for rarity, attunement, and charges.${toneInstruction}${complexityInstruction} Mechanical power MUST match the rarity (common items are minor conveniences, legendary items are campaign-defining). Artifacts and unusually powerful items MUST state how the DM keeps them under control.
+
+FINAL REMINDER: All output MUST be in ${outputLanguage}. Every name, property, description, and lore text must be in ${outputLanguage}.${campaignInstruction}`
+    const user = `CRITICAL LANGUAGE REQUIREMENT: You MUST respond entirely in ${outputLanguage}. Every word, name, description, and text must be in ${outputLanguage}.
+
+Create a D&D 5e magic item based on this scenario: "${scenario}"${itemRarity}${advancedConstraints}${campaignContextBlock}
+
+Generate a complete magic item with the following (ALL text in ${outputLanguage}):
+- Name: A memorable item name (in ${outputLanguage})
+- Item Type: Category and base item (e.g., "Weapon (longsword)", "Wondrous item", "Ring"), written in ${outputLanguage}
+${itemInput?.rarity ? `- Rarity: MUST be ${itemInput.rarity}` : '- Rarity: One of common, uncommon, rare, very rare, legendary, artifact - matching the item\'s power'}
+${itemInput?.requiresAttunement !== undefined ? `- Attunement: ${itemInput.requiresAttunement ? 'MUST require attunement' : 'MUST NOT require attunement'}` : '- Attunement: Whether the item requires attunement (most rare or better items with ongoing benefits do)'}
+- Attunement Requirement: Only if attunement is restricted (e.g., "by a spellcaster"), in ${outputLanguage}
+- Charges: Only if the item uses charges - maximum charges and how they recharge (in ${outputLanguage})
+- Properties: 2-5 mechanical properties using D&D 5e rules language (bonuses, spells cast from the item, save DCs, activation), in ${outputLanguage}
+- Description: The item's physical appearance (in ${outputLanguage})
+- Lore: The item's history and origin (in ${outputLanguage})
+- Status: DM-control status to help manage game balance (e.g., "Standard magic item", "Dormant Artifact (awakens later)", "DM-controlled (unstable)", "Narrative-only"), in ${outputLanguage}
+
+Make the item feel unique, balanced for its rarity, and ready to hand to players.
+
+FINAL REMINDER: EVERY SINGLE TEXT FIELD MUST BE IN ${outputLanguage}. Item name, properties, description, lore, status - everything must be in ${outputLanguage}.`
+
+    return { system, user }
+  },
+}
+
+export const itemPromptV2: PromptTemplate<GenerationPromptInput> = {
+  name: 'item',
+  version: 2,
+  description: 'Version 1 without the example that mirrors the scenario\'s language; only the output language counts',
+  build(input) {
+    const prompt = itemPromptV1.build(input)
+    return { ...prompt, system: withoutScenarioLanguageExample(prompt.system) }
+  },
+}
@@ -0,0 +1,32 @@
+/**
+ * Language Instruction Packs
+ *
+ * Per-locale values the prompt templates need to write in an output language:
+ * the language named in the prompts and culturally fitting example names.
+ */
+
+import type { Locale } from '@/i18n/config'
+
+export interface LanguagePack {
+  locale: Locale
+  languageName: string // Language named in the prompts
+  sampleNames: string[] // Example character names for the culture
+}
+
+export const LANGUAGE_PACKS: Record<Locale, LanguagePack> = {
+  en: {
+    locale: 'en',
+    languageName: 'English',
+    sampleNames: ['John', 'Mary', 'Charles', 'Elena', 'Robert'],
+  },
+  'pt-BR': {
+    locale: 'pt-BR',
+    languageName: 'Portuguese',
+    sampleNames: ['João', 'Maria', 'Carlos', 'Elena', 'Rafael'],
+  },
+  es: {
+    locale: 'es',
+    languageName: 'Spanish',
+    sampleNames: ['Juan', 'María', 'Carlos', 'Elena', 'Rafael'],
+  },
+}
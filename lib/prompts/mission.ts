@@ -0,0 +1,69 @@
+/**
+ * Mission Prompts
+ *
+ * Versions of the full mission generation prompt; registered in lib/prompts/index.ts.
+ */
+
+import type { AdvancedMissionInput } from '@/types/rpg'
+import { buildSharedInstructions, withoutScenarioLanguageExample } from './shared'
+import type { GenerationPromptInput, PromptTemplate } from './types'
+
+export const missionPromptV1: PromptTemplate<GenerationPromptInput> = {
+  name: 'mission',
+  version: 1,
+  description: 'Full mission generation: difficulty, objectives, rewards, outcomes and related NPCs and locations',
+  build(input) {
+    const { scenario, advancedInput, language } = input
+    const outputLanguage = language.languageName
+    const { toneInstruction, complexityInstruction, advancedConstraints, campaignInstruction, campaignContextBlock } = buildSharedInstructions('mission', input)
+    const missionInput = advancedInput as AdvancedMissionInput | undefined
+    const missionDifficulty = missionInput?.difficulty ? ` with ${missionInput.difficulty} difficulty` : ''
+    const missionObjectives = missionInput?.objectiveCount ? ` with exactly ${missionInput.objectiveCount} objective${missionInput.objectiveCount !== 1 ? 's' : ''}` : ''
+    const missionRewards = missionInput?.rewardTypes && missionInput.rewardTypes.length > 0 
+      ? ` with rewards including: ${missionInput.rewardTypes.join(', ')}` 
+      : ''
+
+    const system = `CRITICAL LANGUAGE REQUIREMENT: The output language is ${outputLanguage}. You MUST generate ALL content in ${outputLanguage}. This includes ALL text, descriptions, names, titles, dialogue, and every single word of output. Every field must be in ${outputLanguage}.
+
+Example: If the user writes in Portuguese like "recuperar um artefato", you MUST respond with Portuguese mission titles like "A Recuperação do Artefato" and all descriptions in Portuguese. If the user writes in Spanish like "recuperar un artefacto", respond with Spanish titles like "La Recuperación del Artefacto" and all text in Spanish.
+
+You are an expert D&D 5e game master and quest designer. Create engaging missions and quests that provide clear objectives, appropriate challenges, and meaningful rewards.${toneInstruction}${complexityInstruction} Missions should fit naturally into a campaign and offer both primary and optional objectives. CRITICAL: Ensure difficulty matches stakes (world-altering content requires higher tier levels). Clarify artifact power and control mechanisms. Mark alternative objective paths clearly. Define concrete consequences for player choices.
+
+FINAL REMINDER: All output MUST be in ${outputLanguage}. Every title, description, objective, reward, and text field must be in ${outputLanguage}.${campaignInstruction}`
+    const user = `CRITICAL LANGUAGE REQUIREMENT: You MUST respond entirely in ${outputLanguage}. Every word, name, description, and text must be in ${outputLanguage}.
+
+Create a D&D 5e mission/quest based on this scenario: "${scenario}"${missionDifficulty}${missionObjectives}${missionRewards}${advancedConstraints}${campaignContextBlock}
+
+IMPORTANT: Write in ${outputLanguage} even if the scenario above uses another language. All mission titles, descriptions, objectives, rewards, NPC names, location names, and every single text field must be in ${outputLanguage}. Use names appropriate for ${outputLanguage} culture.
+
+Generate a complete mission with the following (ALL in ${outputLanguage}):
+${missionInput?.difficulty ? `- Difficulty: MUST be ${missionInput.difficulty}` : '- Difficulty: Level (easy, medium, hard, or deadly) - must align with stakes and recommended level'}
+- Title: An engaging mission title (in ${outputLanguage})
+- Description: Detailed mission description (written entirely in ${outputLanguage})
+- Context: Background context and setup (written in ${outputLanguage})
+- Recommended Level: Party level range based on difficulty and stakes (Easy: 1-3, Medium: 4-6, Hard: 7-10, Deadly: 11+). World-altering stakes (artifacts, prophecies, world balance) should match higher tier levels. Format the level text in ${outputLanguage}.
+- Objectives: ${missionInput?.objectiveCount ? `Exactly ${missionInput.objectiveCount} objective${missionInput.objectiveCount !== 1 ? 's' : ''}` : '2-4 objectives (mix of primary required and optional)'}, all described in ${outputLanguage}. When objectives represent different approaches (e.g., negotiate vs. combat), mark them as alternative paths (isAlternative: true) and specify pathType (combat, social, stealth, or mixed).
+- Powerful Items: If the mission involves artifacts or powerful items, include them with clear status descriptions in ${outputLanguage} (e.g., "Dormant Artifact (awakens later)", "DM-controlled Artifact (unstable)", "Narrative Artifact (limited mechanical use)") to help DMs manage game balance. Item names should be in ${outputLanguage}.
+- Possible Outcomes: 3-4 possible outcomes showing concrete consequences of different player choices, all written in ${outputLanguage} (e.g., "If negotiated → alliance formed, sorceress becomes ally", "If combat → reputation gained, but faction becomes hostile", "If artifact kept → future consequences arise").
+- Rewards: Base rewards (${missionInput?.rewardTypes && missionInput.rewardTypes.length > 0 ? missionInput.rewardTypes.join(', ') : 'XP, gold, items'}) appropriate for difficulty level. Item names and descriptions must be in ${outputLanguage}.
+- Choice-Based Rewards: Optional rewards tied to specific paths/choices, all described in ${outputLanguage} (e.g., "If negotiated: alliance + favor + knowledge", "If combat: reputation + fear + loot", "If artifact sealed: future quest hook").
+- Related NPCs: NPCs involved in the mission (NPC names and descriptions in ${outputLanguage})
+- Related Locations: Locations relevant to the mission (location names in ${outputLanguage})
+
+Make the mission feel exciting, playable, and ready to run in a campaign. Ensure difficulty matches the scope of stakes.
+
+FINAL REMINDER: EVERY SINGLE TEXT FIELD MUST BE IN ${outputLanguage}. Mission title, all descriptions, objective texts, reward item names, NPC names, location names, outcomes - everything must be in ${outputLanguage}.`
+
+    return { system, user }
+  },
+}
+
+export const missionPromptV2: PromptTemplate<GenerationPromptInput> = {
+  name: 'mission',
+  version: 2,
+  description: 'Version 1 without the example that mirrors the scenario\'s language; only the output language counts',
+  build(input) {
+    const prompt = missionPromptV1.build(input)
+    return { ...prompt, system: withoutScenarioLanguageExample(prompt.system) }
+  },
+}
@@ -0,0 +1,64 @@
+/**
+ * Monster Prompts
+ *
+ * Versions of the full monster generation prompt; registered in lib/prompts/index.ts.
+ */
+
+import type { AdvancedMonsterInput } from '@/types/rpg'
+import { buildSharedInstructions, withoutScenarioLanguageExample } from './shared'
+import type { GenerationPromptInput, PromptTemplate } from './types'
+
+export const monsterPromptV1: PromptTemplate<GenerationPromptInput> = {
+  name: 'monster',
+  version: 1,
+  description: 'Full monster stat block generation: challenge rating, size and legendary actions',
+  build(input) {
+    const { scenario, advancedInput, language } = input
+    const outputLanguage = language.languageName
+    const { toneInstruction, complexityInstruction, advancedConstraints, campaignInstruction, campaignContextBlock } = buildSharedInstructions('monster', input)
+    const monsterInput = advancedInput as AdvancedMonsterInput | undefined
+    const monsterCR = monsterInput?.challengeRating ? ` with challenge rating ${monsterInput.challengeRating}` : ''
+    const monsterSize = monsterInput?.size ? ` (${monsterInput.size} size)` : ''
+
+    const system = `CRITICAL LANGUAGE REQUIREMENT: The output language is ${outputLanguage}. You MUST generate ALL content in ${outputLanguage}. This includes ALL text, descriptions, names, and every single word of output. Every field must be in ${outputLanguage}.
+
+Example: If the user writes in Portuguese like "um dragão de cristal", you MUST respond with a Portuguese name like "Wyrm de Cristal" and all descriptions in Portuguese. If the user writes in Spanish like "un dragón de cristal", respond with a Spanish name like "Sierpe de Cristal" and all text in Spanish.
+
+You are an expert D&D 5e game master and monster designer. Create complete, balanced stat blocks that follow the Dungeon Master's Guide monster creation rules.${toneInstruction}${complexityInstruction} Armor Class, hit points, attack bonuses, damage per round and save DCs MUST be consistent with the challenge rating. Hit points MUST equal the average of the hit dice. Saving throw and skill bonuses MUST equal the ability modifier plus the proficiency bonus. Keep the JSON field values for size and ability scores as specified; only text fields follow the language requirement.
+
+FINAL REMINDER: All output MUST be in ${outputLanguage}. Every name, trait, action, description, and tactic must be in ${outputLanguage}.${campaignInstruction}`
+    const user = `CRITICAL LANGUAGE REQUIREMENT: You MUST respond entirely in ${outputLanguage}. Every word, name, description, and text must be in ${outputLanguage}.
+
+Create a D&D 5e monster stat block based on this scenario: "${scenario}"${monsterCR}${monsterSize}${advancedConstraints}${campaignContextBlock}
+
+Generate a complete stat block with the following (ALL text in ${outputLanguage}):
+- Name, size, creature type and alignment
+- Armor Class (with armor type if any), hit points and hit dice, speed
+- Ability scores (1-30)
+- Saving throws, skills, damage vulnerabilities/resistances/immunities and condition immunities (empty arrays when none)
+- Senses (including passive Perception) and languages
+${monsterInput?.challengeRating ? `- Challenge Rating: MUST be ${monsterInput.challengeRating}` : '- Challenge Rating: Appropriate for the scenario'}, with matching XP and proficiency bonus
+- Traits: 1-4 special traits
+- Actions: Multiattack when appropriate, plus each attack with to-hit bonus, reach/range and damage dice
+- Reactions: Only if the creature has any
+${monsterInput?.legendary === true ? '- Legendary Actions: REQUIRED - number per round and 3 legendary action options with costs\n- Lair Actions: REQUIRED - 2-3 lair actions' : monsterInput?.legendary === false ? '- Legendary Actions and Lair Actions: MUST be omitted' : '- Legendary Actions and Lair Actions: Only for legendary creatures (usually CR 10+)'}
+- Description: Appearance and behavior (in ${outputLanguage})
+- Tactics: How it fights, what it targets first and when it flees (in ${outputLanguage})
+
+Make the monster memorable, dangerous for its challenge rating, and ready to run at the table.
+
+FINAL REMINDER: EVERY SINGLE TEXT FIELD MUST BE IN ${outputLanguage}. Monster name, traits, actions, description, tactics - everything must be in ${outputLanguage}.`
+
+    return { system, user }
+  },
+}
+
+export const monsterPromptV2: PromptTemplate<GenerationPromptInput> = {
+  name: 'monster',
+  version: 2,
+  description: 'Version 1 without the example that mirrors the scenario\'s language; only the output language counts',
+  build(input) {
+    const prompt = monsterPromptV1.build(input)
+    return { ...prompt, system: withoutScenarioLanguageExample(prompt.system) }
+  },
+}
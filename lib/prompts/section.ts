@@ -0,0 +1,53 @@
+/**
+ * Section Regeneration Prompts
+ *
+ * Versions of the prompt that regenerates one section of existing content; registered in lib/prompts/index.ts.
+ * The section schemas and descriptions stay with the generation code in lib/ai.ts.
+ */
+
+import type { PromptTemplate, SectionPromptInput } from './types'
+
+export const sectionPromptV1: PromptTemplate<SectionPromptInput> = {
+  name: 'section',
+  version: 1,
+  description: 'Regenerate one section consistently with the rest of the content, or a single environment NPC',
+  build({ scenario, section, sectionDescription, currentContent, sectionIndex, instructions, language }) {
+    const finalLanguage = language.languageName
+
+    const system = `CRITICAL LANGUAGE REQUIREMENT: The output language is ${finalLanguage}. You MUST generate ALL content in ${finalLanguage}. This includes ALL text, descriptions, names, and every single word of output.
+
+You are an expert D&D 5e game master. Regenerate ONLY the specified section of content, maintaining consistency with the rest of the content provided.
+
+FINAL REMINDER: All output MUST be in ${finalLanguage}.`
+
+    const guidance = instructions?.trim()
+      ? `\n\nUSER DIRECTION (follow it for the new ${section}, while staying consistent with the rest of the content): "${instructions.trim()}"`
+      : ''
+
+    // Single NPC at index: the prompt asks for one slot only
+    if (typeof sectionIndex === 'number') {
+      const npcs = ((currentContent as { npcs?: string[] } | null)?.npcs) || []
+      const user = `CRITICAL LANGUAGE REQUIREMENT: You MUST respond entirely in ${finalLanguage}.
+
+Original Scenario: "${scenario}"
+
+Current Content (for reference): ${JSON.stringify(currentContent, null, 2)}
+
+Regenerate ONLY the NPC at index ${sectionIndex} (0-based) in the npcs list. Current npcs: ${JSON.stringify(npcs)}. Return a single string: the new NPC description for that slot. Match the tone and style of the others. Do NOT return an array or object, only one string.${guidance}`
+      return { system, user }
+    }
+
+    const user = `CRITICAL LANGUAGE REQUIREMENT: You MUST respond entirely in ${finalLanguage}. Every word, name, description, and text must be in ${finalLanguage}.
+
+Original Scenario: "${scenario}"
+
+Current Content (for reference only - do NOT regenerate these):
+${JSON.stringify(currentContent, null, 2)}
+
+Generate NEW ${sectionDescription} (ALL in ${finalLanguage}).${guidance}
+
+Return ONLY the ${section} data in the required format. Do not include any other fields or explanations.`
+
+    return { system, user }
+  },
+}
@@ -0,0 +1,216 @@
+/**
+ * Shared Prompt Building Blocks
+ *
+ * Instructions shared by the version 1 generation templates: name normalization for character input, the advanced
+ * input constraints block, tone and complexity instructions and the campaign context block.
+ * A new template version that needs different wording writes its own instead of changing these.
+ * Version 2 templates build on version 1 with withoutScenarioLanguageExample.
+ */
+
+import type {
+  AdvancedCharacterInput,
+  AdvancedEnvironmentInput,
+  AdvancedFactionInput,
+  AdvancedInput,
+  AdvancedItemInput,
+  AdvancedMissionInput,
+  AdvancedMonsterInput,
+  ContentType,
+} from '@/types/rpg'
+import type { GenerationPromptInput } from './types'
+
+export interface SharedInstructions {
+  toneInstruction: string
+  complexityInstruction: string
+  advancedConstraints: string
+  campaignInstruction: string
+  campaignContextBlock: string
+}
+
+// Helper function to normalize class names (map common variations to D&D 5e standard names)
+export function normalizeClassName(className?: string): string | undefined {
+  if (!className) return undefined
+  const normalized = className.trim()
+  const classMap: Record<string, string> = {
+    'warrior': 'Fighter',
+    'guerreiro': 'Fighter',
+    'fighter': 'Fighter',
+    'barbarian': 'Barbarian',
+    'bárbaro': 'Barbarian',
+    'rogue': 'Rogue',
+    'ladino': 'Rogue',
+    'bard': 'Bard',
+    'bardo': 'Bard',
+    'wizard': 'Wizard',
+    'mago': 'Wizard',
+    'cleric': 'Cleric',
+    'clérigo': 'Cleric',
+    'ranger': 'Ranger',
+    'patrulheiro': 'Ranger',
+    'paladin': 'Paladin',
+    'paladino': 'Paladin',
+    'monk': 'Monk',
+    'monge': 'Monk',
+    'sorcerer': 'Sorcerer',
+    'feiticeiro': 'Sorcerer',
+    'warlock': 'Warlock',
+    'bruxo': 'Warlock',
+    'druid': 'Druid',
+    'druida': 'Druid',
+  }
+  return classMap[normalized.toLowerCase()] || normalized
+}
+
+// Helper function to normalize background names
+export function normalizeBackgroundName(background?: string): string | undefined {
+  if (!background) return undefined
+  const normalized = background.trim()
+  const backgroundMap: Record<string, string> = {
+    'artist': 'Entertainer',
+    'artista': 'Entertainer',
+    'entertainer': 'Entertainer',
+    'noble': 'Noble',
+    'nobre': 'Noble',
+    'sage': 'Sage',
+    'sábio': 'Sage',
+    'acolyte': 'Acolyte',
+    'acólito': 'Acolyte',
+    'criminal': 'Criminal',
+    'criminoso': 'Criminal',
+  }
+  return backgroundMap[normalized.toLowerCase()] || normalized
+}
+
+// Multiclass input: the first class is the primary class and the level is the total of the class levels
+export function resolveCharacterInput(input?: AdvancedCharacterInput): AdvancedCharacterInput | undefined {
+  if (!input?.classes || input.classes.length === 0) return input
+  return { ...input, class: input.classes[0].name, level: input.classes.reduce((sum, cls) => sum + cls.level, 0) }
+}
+
+// Helper function to build constraints from advanced inputs
+function buildAdvancedConstraints(contentType: ContentType, input?: AdvancedInput): string {
+  if (!input) return ''
+
+  const constraints: string[] = []
+
+  if (contentType === 'character') {
+    const charInput = resolveCharacterInput(input as AdvancedCharacterInput)!
+    // Normalize class and background names
+    const normalizedClass = normalizeClassName(charInput.class)
+    const normalizedBackground = normalizeBackgroundName(charInput.background)
+
+    if (charInput.level) {
+      constraints.push(`CRITICAL: The character MUST be exactly level ${charInput.level}. Do NOT change this level.`)
+    }
+    if (charInput.classes && charInput.classes.length > 1) {
+      const breakdown = charInput.classes
+        .map((cls) => `${normalizeClassName(cls.name)} ${cls.level}${cls.subclass ? ` (${cls.subclass})` : ''}`)
+        .join(' / ')
+      constraints.push(`CRITICAL: The character MUST be multiclassed as ${breakdown}. The "classes" field in the JSON response must list exactly these classes, levels and subclasses in this order, the "class" field must be "${normalizedClass}" and the "level" field must be ${charInput.level}. Class features must cover every class up to its own class level, each with "className" set and "level" being the class level.`)
+    } else if (normalizedClass) {
+      constraints.push(`CRITICAL: The character MUST be a ${normalizedClass}. Do NOT use any other class. The "class" field in the JSON response must be exactly "${normalizedClass}".`)
+    }
+    if (charInput.race) {
+      constraints.push(`CRITICAL: The character MUST be a ${charInput.race}. Do NOT use any other race. The "race" field in the JSON response must be exactly "${charInput.race}".`)
+    }
+    if (normalizedBackground) {
+      constraints.push(`CRITICAL: The character MUST have the ${normalizedBackground} background. Do NOT use any other background. The "background" field in the JSON response must be exactly "${normalizedBackground}".`)
+    }
+    if (charInput.subclass && !(charInput.classes && charInput.classes.length > 1)) {
+      constraints.push(`CRITICAL: The character MUST follow the ${charInput.subclass} subclass. The "subclass" field in the JSON response must be exactly "${charInput.subclass}", and the class features must include its subclass features up to level ${charInput.level || 'the character\'s level'}.`)
+    }
+    if (charInput.alignment) {
+      constraints.push(`CRITICAL: The character MUST be ${charInput.alignment}. The "alignment" field in the JSON response must be exactly "${charInput.alignment}", and the personality, ideals, bonds and flaws must fit it.`)
+    }
+    if (charInput.ideal) constraints.push(`The "ideals" field MUST include this ideal (translated if needed): "${charInput.ideal}"`)
+    if (charInput.bond) constraints.push(`The "bonds" field MUST include this bond (translated if needed): "${charInput.bond}"`)
+    if (charInput.flaw) constraints.push(`The "flaws" field MUST include this flaw (translated if needed): "${charInput.flaw}"`)
+  } else if (contentType === 'environment' && 'mood' in input) {
+    const envInput = input as AdvancedEnvironmentInput
+    if (envInput.mood) constraints.push(`The environment MUST have a ${envInput.mood} mood`)
+    if (envInput.lighting) constraints.push(`The environment MUST have ${envInput.lighting} lighting`)
+    if (envInput.npcCount !== undefined) constraints.push(`The environment MUST include exactly ${envInput.npcCount} NPC${envInput.npcCount !== 1 ? 's' : ''}`)
+  } else if (contentType === 'mission' && 'difficulty' in input) {
+    const missionInput = input as AdvancedMissionInput
+    if (missionInput.difficulty) constraints.push(`The mission MUST be ${missionInput.difficulty} difficulty`)
+    if (missionInput.objectiveCount) constraints.push(`The mission MUST have exactly ${missionInput.objectiveCount} objective${missionInput.objectiveCount !== 1 ? 's' : ''}`)
+    if (missionInput.rewardTypes && missionInput.rewardTypes.length > 0) {
+      constraints.push(`The mission rewards MUST include: ${missionInput.rewardTypes.join(', ')}`)
+    }
+  } else if (contentType === 'item') {
+    const itemInput = input as AdvancedItemInput
+    if (itemInput.rarity) constraints.push(`The item MUST be of ${itemInput.rarity} rarity. The "rarity" field in the JSON response must be exactly "${itemInput.rarity}".`)
+    if (itemInput.requiresAttunement !== undefined) {
+      constraints.push(itemInput.requiresAttunement ? 'The item MUST require attunement' : 'The item MUST NOT require attunement')
+    }
+  } else if (contentType === 'monster') {
+    const monsterInput = input as AdvancedMonsterInput
+    if (monsterInput.challengeRating) constraints.push(`The monster MUST be challenge rating ${monsterInput.challengeRating}. The "challengeRating" field in the JSON response must be exactly "${monsterInput.challengeRating}".`)
+    if (monsterInput.size) constraints.push(`The monster MUST be ${monsterInput.size} size`)
+    if (monsterInput.legendary !== undefined) {
+      constraints.push(monsterInput.legendary ? 'The monster MUST have legendary actions and lair actions' : 'The monster MUST NOT have legendary actions or lair actions')
+    }
+  } else if (contentType === 'faction') {
+    const factionInput = input as AdvancedFactionInput
+    if (factionInput.influence) constraints.push(`The faction MUST have ${factionInput.influence} influence. The "influence" field in the JSON response must be exactly "${factionInput.influence}".`)
+    if (factionInput.leaderCount) constraints.push(`The faction MUST have exactly ${factionInput.leaderCount} leader${factionInput.leaderCount !== 1 ? 's' : ''}`)
+  }
+
+  if (constraints.length === 0) return ''
+  return `\n\n═══════════════════════════════════════════════════════\nCRITICAL USER REQUIREMENTS (MUST BE FOLLOWED EXACTLY):\n═══════════════════════════════════════════════════════\n${constraints.map(c => `• ${c}`).join('\n')}\n═══════════════════════════════════════════════════════\n\nThese requirements are ABSOLUTELY MANDATORY. The JSON output MUST match these specifications exactly. Do not deviate from these requirements.`
+}
+
+// Helper function to adjust tone in prompts
+function getToneInstruction(tone?: string): string {
+  if (!tone) return ''
+  switch (tone) {
+    case 'serious':
+      return ' Maintain a serious, dramatic tone throughout. Focus on realism and consequences.'
+    case 'playful':
+      return ' Maintain a light, playful tone throughout. Include humor and whimsical elements where appropriate.'
+    case 'balanced':
+    default:
+      return ' Maintain a balanced tone that can include both serious and light moments as appropriate.'
+  }
+}
+
+// Helper function to adjust complexity in prompts
+function getComplexityInstruction(complexity?: string): string {
+  if (!complexity) return ''
+  switch (complexity) {
+    case 'simple':
+      return ' Keep descriptions concise and straightforward. Focus on essential details only.'
+    case 'detailed':
+      return ' Provide extensive, rich details. Include sensory descriptions, deeper motivations, and elaborate world-building elements.'
+    case 'standard':
+    default:
+      return ''
+  }
+}
+
+/**
+ * Instructions every version 1 generation template adds to its prompts
+ */
+export function buildSharedInstructions(contentType: ContentType, input: GenerationPromptInput): SharedInstructions {
+  const { advancedInput, generationParams, campaignContext } = input
+  return {
+    toneInstruction: getToneInstruction(generationParams?.tone),
+    complexityInstruction: getComplexityInstruction(generationParams?.complexity),
+    advancedConstraints: buildAdvancedConstraints(contentType, advancedInput),
+    campaignInstruction: campaignContext
+      ? '\nCAMPAIGN CONTEXT: The user provided campaign context. Ensure all generated content aligns with this campaign setting, themes, factions, and existing details. Do not contradict established facts.'
+      : '',
+    campaignContextBlock: campaignContext
+      ? `\n\nCampaign Context (use for consistency):\n${campaignContext}\n`
+      : '',
+  }
+}
+
+/**
+ * A version 1 system prompt without its "If the user writes in Portuguese..." example
+ * The example told the model to answer in the scenario's language, which contradicts an output language that
+ * differs from the scenario's (a Portuguese scenario generated in English).
+ */
+export function withoutScenarioLanguageExample(system: string): string {
+  return system.replace(/\n[ \t]*Example: If the user writes in [^\n]*\n[ \t]*\n/, '\n')
+}
@@ -0,0 +1,49 @@
+/**
+ * Prompt Template Types
+ */
+
+import type { AdvancedGenerationParams, AdvancedInput } from '@/types/rpg'
+import type { LanguagePack } from './language-packs'
+
+/**
+ * System and user prompt sent to the model
+ */
+export interface PromptText {
+  system: string
+  user: string
+}
+
+/**
+ * A named, versioned prompt template
+ * A released version is never edited: prompt changes are registered as a new version (see lib/prompts/index.ts).
+ */
+export interface PromptTemplate<TInput> {
+  name: string // Content type for full generation, "section" for section regeneration
+  version: number
+  description: string // What changed in this version
+  build: (input: TInput) => PromptText
+}
+
+/**
+ * Input of the full generation templates (one per content type)
+ */
+export interface GenerationPromptInput {
+  scenario: string
+  advancedInput?: AdvancedInput
+  generationParams?: AdvancedGenerationParams
+  campaignContext?: string // Trimmed; undefined when there is none
+  language: LanguagePack
+}
+
+/**
+ * Input of the section regeneration template
+ */
+export interface SectionPromptInput {
+  scenario: string
+  section: string
+  sectionDescription: string // What the section holds, e.g. "personality traits and quirks"
+  currentContent: unknown
+  sectionIndex?: number // Environment npcs only: regenerate the single NPC at this 0-based index
+  instructions?: string // Optional user direction for the new section
+  language: LanguagePack
+}
@@ -0,0 +1,186 @@
+/**
+ * Generation Quotas
+ *
+ * Per-user rate limit and daily/monthly generation quotas for the AI routes, configured per plan in PLAN_LIMITS.
+ * A user's plan is `app_metadata.plan` (only settable with the service role key), defaulting to "free".
+ *
+ * Usage is recorded in generation_usage when a request is accepted, so failed generations still count:
+ * the rate limit counts requests per minute, the quotas count generations (a batch of 5 jobs is 5 generations;
+ * an adventure reserves its largest size, the mission plus every location and NPC it may flesh out, up front).
+ * Windows are fixed UTC periods - the current minute, day and month.
+ */
+
+import type { SupabaseClient, User } from '@supabase/supabase-js'
+
+export type PlanId = 'free' | 'pro'
+
+export interface PlanLimits {
+  requestsPerMinute: number
+  dailyGenerations: number
+  monthlyGenerations: number
+}
+
+export const PLAN_LIMITS: Record<PlanId, PlanLimits> = {
+  free: { requestsPerMinute: 6, dailyGenerations: 50, monthlyGenerations: 500 },
+  pro: { requestsPerMinute: 20, dailyGenerations: 500, monthlyGenerations: 10000 },
+}
+
+export const DEFAULT_PLAN: PlanId = 'free'
+
+export type QuotaWindowId = 'minute' | 'day' | 'month'
+
+export interface QuotaWindow {
+  limit: number
+  used: number
+  remaining: number
+  resetsAt: string // ISO timestamp of the start of the next window
+}
+
+export interface QuotaStatus {
+  plan: PlanId
+  minute: QuotaWindow // Requests
+  day: QuotaWindow // Generations
+  month: QuotaWindow // Generations
+}
+
+export type QuotaCheck =
+  | { allowed: true; quota: QuotaStatus }
+  | { allowed: false; quota: QuotaStatus; exceeded: QuotaWindowId; retryAfter: number } // retryAfter in seconds
+
+export function getUserPlan(user: Pick<User, 'app_metadata'>): PlanId {
+  const plan = user.app_metadata?.plan
+  return typeof plan === 'string' && Object.prototype.hasOwnProperty.call(PLAN_LIMITS, plan) ? (plan as PlanId) : DEFAULT_PLAN
+}
+
+function getWindowStarts(now: Date) {
+  const minute = new Date(now)
+  minute.setUTCSeconds(0, 0)
+  const day = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+  const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+  return {
+    minute: { start: minute, next: new Date(minute.getTime() + 60_000) },
+    day: { start: day, next: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)) },
+    month: { start: month, next: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)) },
+  }
+}
+
+function buildWindow(limit: number, used: number, next: Date): QuotaWindow {
+  return { limit, used, remaining: Math.max(0, limit - used), resetsAt: next.toISOString() }
+}
+
+/**
+ * Current usage and remaining quota of a user
+ */
+export async function getQuotaStatus(supabase: SupabaseClient, user: User, now: Date = new Date()): Promise<QuotaStatus> {
+  const plan = getUserPlan(user)
+  const limits = PLAN_LIMITS[plan]
+  const windows = getWindowStarts(now)
+
+  const [minuteResult, dayResult, monthResult] = await Promise.all([
+    supabase
+      .from('generation_usage')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .gte('created_at', windows.minute.start.toISOString()),
+    supabase.rpc('count_generations_since', { since: windows.day.start.toISOString() }),
+    supabase.rpc('count_generations_since', { since: windows.month.start.toISOString() }),
+  ])
+
+  const error = minuteResult.error || dayResult.error || monthResult.error
+  if (error) {
+    throw new Error(`Failed to read generation usage: ${error.message}`)
+  }
+
+  return {
+    plan,
+    minute: buildWindow(limits.requestsPerMinute, minuteResult.count ?? 0, windows.minute.next),
+    day: buildWindow(limits.dailyGenerations, Number(dayResult.data) || 0, windows.day.next),
+    month: buildWindow(limits.monthlyGenerations, Number(monthResult.data) || 0, windows.month.next),
+  }
+}
+
+/**
+ * Check the user's limits for a request of `generations` generations and record it when allowed
+ * `route` names the API route for the usage log, e.g. "generate/batch".
+ */
+export async function consumeGenerationQuota(
+  supabase: SupabaseClient,
+  user: User,
+  route: string,
+  generations: number = 1
+): Promise<QuotaCheck> {
+  const now = new Date()
+  const quota = await getQuotaStatus(supabase, user, now)
+
+  const exceeded = ([
+    ['minute', quota.minute.remaining < 1],
+    ['day', quota.day.remaining < generations],
+    ['month', quota.month.remaining < generations],
+  ] as [QuotaWindowId, boolean][])
+    .filter(([, isExceeded]) => isExceeded)
+    .map(([windowId]) => windowId)
+
+  if (exceeded.length > 0) {
+    // The longest wait: a request over the monthly quota is not helped by the next minute
+    const windowId = exceeded[exceeded.length - 1]
+    const retryAfter = Math.max(1, Math.ceil((new Date(quota[windowId].resetsAt).getTime() - now.getTime()) / 1000))
+    return { allowed: false, quota, exceeded: windowId, retryAfter }
+  }
+
+  await recordGenerationUsage(supabase, user, route, generations)
+
+  return {
+    allowed: true,
+    quota: {
+      ...quota,
+      minute: buildWindow(quota.minute.limit, quota.minute.used + 1, new Date(quota.minute.resetsAt)),
+      day: buildWindow(quota.day.limit, quota.day.used + generations, new Date(quota.day.resetsAt)),
+      month: buildWindow(quota.month.limit, quota.month.used + generations, new Date(quota.month.resetsAt)),
+    },
+  }
+}
+
+/**
+ * Record generations without checking the limits
+ */
+async function recordGenerationUsage(
+  supabase: SupabaseClient,
+  user: User,
+  route: string,
+  generations: number
+): Promise<void> {
+  if (generations < 1) return
+
+  const { error } = await supabase
+    .from('generation_usage')
+    .insert({ user_id: user.id, route, generations })
+
+  if (error) {
+    throw new Error(`Failed to record generation usage: ${error.message}`)
+  }
+}
+
+const EXCEEDED_MESSAGES: Record<QuotaWindowId, string> = {
+  minute: 'Too many generation requests this minute.',
+  day: 'Daily generation quota reached.',
+  month: 'Monthly generation quota reached.',
+}
+
+/**
+ * 429 response for a refused request, with Retry-After and the user's quota
+ */
+export function quotaExceededResponse(check: Extract<QuotaCheck, { allowed: false }>): Response {
+  return new Response(
+    JSON.stringify({
+      error: 'Generation limit reached',
+      message: `${EXCEEDED_MESSAGES[check.exceeded]} Try again in ${check.retryAfter} seconds.`,
+      exceeded: check.exceeded,
+      retryAfter: check.retryAfter,
+      quota: check.quota,
+    }),
+    {
+      status: 429,
+      headers: { 'Content-Type': 'application/json', 'Retry-After': String(check.retryAfter) },
+    }
+  )
+}
@@ -12,6 +12,10 @@ import { DND_REFERENCE } from "@/lib/dnd-reference"
 const classEnum = z.enum(DND_REFERENCE.classes)
 const raceEnum = z.enum(DND_REFERENCE.races)
 const backgroundEnum = z.enum(DND_REFERENCE.backgrounds)
+const alignmentEnum = z.enum(DND_REFERENCE.alignments)
+
+const isSubclassOf = (className: string | undefined, subclass: string) =>
+  !!className && (DND_REFERENCE.subclasses[className] ?? []).includes(subclass)
 
 export const advancedCharacterInputSchema = z
   .object({
@@ -24,10 +28,64 @@ export const advancedCharacterInputSchema = z
       .describe("Character level (1-20)"),
 
     class: classEnum.optional().describe("D&D 5e class"),
+
+    classes: z
+      .array(
+        z
+          .object({
+            name: classEnum,
+            level: z.number().int().min(1).max(20),
+            subclass: z.string().optional(),
+          })
+          .strict()
+      )
+      .min(2)
+      .max(4)
+      .optional()
+      .describe("Multiclass breakdown (2-4 classes, total level 20 or less)"),
+
+    subclass: z.string().optional().describe("Subclass of the selected class"),
     race: raceEnum.optional().describe("D&D 5e race"),
     background: backgroundEnum.optional().describe("Character background"),
+    alignment: alignmentEnum.optional().describe("Character alignment"),
+
+    ideal: z.string().trim().max(200).optional().describe("An ideal the character holds"),
+    bond: z.string().trim().max(200).optional().describe("A bond the character has"),
+    flaw: z.string().trim().max(200).optional().describe("A flaw the character has"),
   })
   .strict()
+  .superRefine((input, ctx) => {
+    // Subclasses must belong to their class
+    if (input.subclass && !isSubclassOf(input.class, input.subclass)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["subclass"],
+        message: "Subclass does not belong to the selected class",
+      })
+    }
+    input.classes?.forEach((cls, idx) => {
+      if (cls.subclass && !isSubclassOf(cls.name, cls.subclass)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["classes", idx, "subclass"],
+          message: "Subclass does not belong to the class",
+        })
+      }
+    })
+
+    if (!input.classes) return
+    const totalLevel = input.classes.reduce((sum, c) => sum + c.level, 0)
+    if (totalLevel > 20) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.too_big,
+        maximum: 20,
+        inclusive: true,
+        type: "number",
+        path: ["classes"],
+        message: "Total character level must be 20 or less",
+      })
+    }
+  })
 
 /* =======================
    Environment
@@ -94,6 +152,62 @@ export const advancedMissionInputSchema = z
   })
   .strict()
 
+/* =======================
+   Item
+======================= */
+const itemRarityEnum = z.enum(DND_REFERENCE.itemRarities)
+
+export const advancedItemInputSchema = z
+  .object({
+    rarity: itemRarityEnum.optional().describe("Magic item rarity"),
+
+    requiresAttunement: z
+      .boolean()
+      .optional()
+      .describe("Whether the item requires attunement"),
+  })
+  .strict()
+
+/* =======================
+   Monster
+======================= */
+const creatureSizeEnum = z.enum(DND_REFERENCE.creatureSizes)
+const challengeRatingEnum = z.enum(DND_REFERENCE.challengeRatings)
+
+export const advancedMonsterInputSchema = z
+  .object({
+    challengeRating: challengeRatingEnum
+      .optional()
+      .describe("Target challenge rating (0-30)"),
+
+    size: creatureSizeEnum.optional().describe("Creature size"),
+
+    legendary: z
+      .boolean()
+      .optional()
+      .describe("Whether the monster has legendary and lair actions"),
+  })
+  .strict()
+
+/* =======================
+   Faction
+======================= */
+const factionInfluenceEnum = z.enum(DND_REFERENCE.factionInfluences)
+
+export const advancedFactionInputSchema = z
+  .object({
+    influence: factionInfluenceEnum.optional().describe("Reach of the faction's power"),
+
+    leaderCount: z
+      .number()
+      .int()
+      .min(1)
+      .max(5)
+      .optional()
+      .describe("Number of leaders (1-5)"),
+  })
+  .strict()
+
 /* =======================
    Types
 ======================= */
@@ -106,3 +220,12 @@ export type AdvancedEnvironmentInputSchema = z.infer<
 export type AdvancedMissionInputSchema = z.infer<
   typeof advancedMissionInputSchema
 >
+export type AdvancedItemInputSchema = z.infer<
+  typeof advancedItemInputSchema
+>
+export type AdvancedMonsterInputSchema = z.infer<
+  typeof advancedMonsterInputSchema
+>
+export type AdvancedFactionInputSchema = z.infer<
+  typeof advancedFactionInputSchema
+>
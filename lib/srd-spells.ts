@@ -0,0 +1,445 @@
+/**
+ * D&D 5e SRD 5.1 spell list
+ * Every SRD spell with its level, school, casting details and the classes whose spell list includes it.
+ * Names are English SRD names; PHB names of renamed spells (e.g. "Melf's Acid Arrow") are kept as aliases.
+ */
+
+import type { Spell, SpellSchool } from '@/types/rpg'
+
+export interface SrdSpell {
+  name: string
+  level: number // 0 = cantrip
+  school: SpellSchool
+  castingTime: string
+  range: string
+  components: string
+  duration: string
+  concentration: boolean
+  ritual: boolean
+  classes: readonly string[] // Canonical class names whose spell list includes the spell
+  aliases?: readonly string[]
+}
+
+// Class codes used in the table below; Warlock is K so that W stays Wizard
+const CLASS_CODES: Record<string, string> = {
+  B: 'Bard',
+  C: 'Cleric',
+  D: 'Druid',
+  P: 'Paladin',
+  R: 'Ranger',
+  S: 'Sorcerer',
+  K: 'Warlock',
+  W: 'Wizard',
+}
+
+const spell = (
+  name: string,
+  level: number,
+  school: SpellSchool,
+  castingTime: string,
+  range: string,
+  components: string,
+  duration: string,
+  classCodes: string,
+  options: { ritual?: boolean; aliases?: string[] } = {}
+): SrdSpell => ({
+  name,
+  level,
+  school,
+  castingTime,
+  range,
+  components,
+  duration,
+  concentration: duration.startsWith('Concentration'),
+  ritual: options.ritual ?? false,
+  classes: classCodes.split('').map((code) => CLASS_CODES[code]),
+  aliases: options.aliases,
+})
+
+export const SRD_SPELLS: readonly SrdSpell[] = [
+  // Cantrips
+  spell('Acid Splash', 0, 'conjuration', '1 action', '60 feet', 'V, S', 'Instantaneous', 'SW'),
+  spell('Chill Touch', 0, 'necromancy', '1 action', '120 feet', 'V, S', '1 round', 'SKW'),
+  spell('Dancing Lights', 0, 'evocation', '1 action', '120 feet', 'V, S, M', 'Concentration, up to 1 minute', 'BSW'),
+  spell('Druidcraft', 0, 'transmutation', '1 action', '30 feet', 'V, S', 'Instantaneous', 'D'),
+  spell('Eldritch Blast', 0, 'evocation', '1 action', '120 feet', 'V, S', 'Instantaneous', 'K'),
+  spell('Fire Bolt', 0, 'evocation', '1 action', '120 feet', 'V, S', 'Instantaneous', 'SW'),
+  spell('Guidance', 0, 'divination', '1 action', 'Touch', 'V, S', 'Concentration, up to 1 minute', 'CD'),
+  spell('Light', 0, 'evocation', '1 action', 'Touch', 'V, M', '1 hour', 'BCSW'),
+  spell('Mage Hand', 0, 'conjuration', '1 action', '30 feet', 'V, S', '1 minute', 'BSKW'),
+  spell('Mending', 0, 'transmutation', '1 minute', 'Touch', 'V, S, M', 'Instantaneous', 'BCDSW'),
+  spell('Message', 0, 'transmutation', '1 action', '120 feet', 'V, S, M', '1 round', 'BSW'),
+  spell('Minor Illusion', 0, 'illusion', '1 action', '30 feet', 'S, M', '1 minute', 'BSKW'),
+  spell('Poison Spray', 0, 'conjuration', '1 action', '10 feet', 'V, S', 'Instantaneous', 'DSKW'),
+  spell('Prestidigitation', 0, 'transmutation', '1 action', '10 feet', 'V, S', 'Up to 1 hour', 'BSKW'),
+  spell('Produce Flame', 0, 'conjuration', '1 action', 'Self', 'V, S', '10 minutes', 'D'),
+  spell('Ray of Frost', 0, 'evocation', '1 action', '60 feet', 'V, S', 'Instantaneous', 'SW'),
+  spell('Resistance', 0, 'abjuration', '1 action', 'Touch', 'V, S, M', 'Concentration, up to 1 minute', 'CD'),
+  spell('Sacred Flame', 0, 'evocation', '1 action', '60 feet', 'V, S', 'Instantaneous', 'C'),
+  spell('Shillelagh', 0, 'transmutation', '1 bonus action', 'Touch', 'V, S, M', '1 minute', 'D'),
+  spell('Shocking Grasp', 0, 'evocation', '1 action', 'Touch', 'V, S', 'Instantaneous', 'SW'),
+  spell('Spare the Dying', 0, 'necromancy', '1 action', 'Touch', 'V, S', 'Instantaneous', 'C'),
+  spell('Thaumaturgy', 0, 'transmutation', '1 action', '30 feet', 'V', 'Up to 1 minute', 'C'),
+  spell('True Strike', 0, 'divination', '1 action', '30 feet', 'S', 'Concentration, up to 1 round', 'BSKW'),
+  spell('Vicious Mockery', 0, 'enchantment', '1 action', '60 feet', 'V', 'Instantaneous', 'B'),
+
+  // 1st level
+  spell('Alarm', 1, 'abjuration', '1 minute', '30 feet', 'V, S, M', '8 hours', 'RW', { ritual: true }),
+  spell('Animal Friendship', 1, 'enchantment', '1 action', '30 feet', 'V, S, M', '24 hours', 'BDR'),
+  spell('Bane', 1, 'enchantment', '1 action', '30 feet', 'V, S, M', 'Concentration, up to 1 minute', 'BC'),
+  spell('Bless', 1, 'enchantment', '1 action', '30 feet', 'V, S, M', 'Concentration, up to 1 minute', 'CP'),
+  spell('Burning Hands', 1, 'evocation', '1 action', 'Self (15-foot cone)', 'V, S', 'Instantaneous', 'SW'),
+  spell('Charm Person', 1, 'enchantment', '1 action', '30 feet', 'V, S', '1 hour', 'BDSKW'),
+  spell('Color Spray', 1, 'illusion', '1 action', 'Self (15-foot cone)', 'V, S, M', '1 round', 'SW'),
+  spell('Command', 1, 'enchantment', '1 action', '60 feet', 'V', '1 round', 'CP'),
+  spell('Comprehend Languages', 1, 'divination', '1 action', 'Self', 'V, S, M', '1 hour', 'BSKW', { ritual: true }),
+  spell('Create or Destroy Water', 1, 'transmutation', '1 action', '30 feet', 'V, S, M', 'Instantaneous', 'CD'),
+  spell('Cure Wounds', 1, 'evocation', '1 action', 'Touch', 'V, S', 'Instantaneous', 'BCDPR'),
+  spell('Detect Evil and Good', 1, 'divination', '1 action', 'Self', 'V, S', 'Concentration, up to 10 minutes', 'CP'),
+  spell('Detect Magic', 1, 'divination', '1 action', 'Self', 'V, S', 'Concentration, up to 10 minutes', 'BCDPRSW', { ritual: true }),
+  spell('Detect Poison and Disease', 1, 'divination', '1 action', 'Self', 'V, S, M', 'Concentration, up to 10 minutes', 'CDPR', { ritual: true }),
+  spell('Disguise Self', 1, 'illusion', '1 action', 'Self', 'V, S', '1 hour', 'BSW'),
+  spell('Divine Favor', 1, 'evocation', '1 bonus action', 'Self', 'V, S', 'Concentration, up to 1 minute', 'P'),
+  spell('Entangle', 1, 'conjuration', '1 action', '90 feet', 'V, S', 'Concentration, up to 1 minute', 'D'),
+  spell('Expeditious Retreat', 1, 'transmutation', '1 bonus action', 'Self', 'V, S', 'Concentration, up to 10 minutes', 'SKW'),
+  spell('Faerie Fire', 1, 'evocation', '1 action', '60 feet', 'V', 'Concentration, up to 1 minute', 'BD'),
+  spell('False Life', 1, 'necromancy', '1 action', 'Self', 'V, S, M', '1 hour', 'SW'),
+  spell('Feather Fall', 1, 'transmutation', '1 reaction', '60 feet', 'V, M', '1 minute', 'BSW'),
+  spell('Find Familiar', 1, 'conjuration', '1 hour', '10 feet', 'V, S, M', 'Instantaneous', 'W', { ritual: true }),
+  spell('Floating Disk', 1, 'conjuration', '1 action', '30 feet', 'V, S, M', '1 hour', 'W', { ritual: true, aliases: ["Tenser's Floating Disk"] }),
+  spell('Fog Cloud', 1, 'conjuration', '1 action', '120 feet', 'V, S', 'Concentration, up to 1 hour', 'DRSW'),
+  spell('Goodberry', 1, 'transmutation', '1 action', 'Touch', 'V, S, M', 'Instantaneous', 'DR'),
+  spell('Grease', 1, 'conjuration', '1 action', '60 feet', 'V, S, M', '1 minute', 'W'),
+  spell('Guiding Bolt', 1, 'evocation', '1 action', '120 feet', 'V, S', '1 round', 'C'),
+  spell('Healing Word', 1, 'evocation', '1 bonus action', '60 feet', 'V', 'Instantaneous', 'BCD'),
+  spell('Hellish Rebuke', 1, 'evocation', '1 reaction', '60 feet', 'V, S', 'Instantaneous', 'K'),
+  spell('Heroism', 1, 'enchantment', '1 action', 'Touch', 'V, S', 'Concentration, up to 1 minute', 'BP'),
+  spell('Hideous Laughter', 1, 'enchantment', '1 action', '30 feet', 'V, S, M', 'Concentration, up to 1 minute', 'BW', { aliases: ["Tasha's Hideous Laughter"] }),
+  spell("Hunter's Mark", 1, 'divination', '1 bonus action', '90 feet', 'V', 'Concentration, up to 1 hour', 'R'),
+  spell('Identify', 1, 'divination', '1 minute', 'Touch', 'V, S, M', 'Instantaneous', 'BW', { ritual: true }),
+  spell('Illusory Script', 1, 'illusion', '1 minute', 'Touch', 'S, M', '10 days', 'BKW', { ritual: true }),
+  spell('Inflict Wounds', 1, 'necromancy', '1 action', 'Touch', 'V, S', 'Instantaneous', 'C'),
+  spell('Jump', 1, 'transmutation', '1 action', 'Touch', 'V, S, M', '1 minute', 'DRSW'),
+  spell('Longstrider', 1, 'transmutation', '1 action', 'Touch', 'V, S, M', '1 hour', 'BDRW'),
+  spell('Mage Armor', 1, 'abjuration', '1 action', 'Touch', 'V, S, M', '8 hours', 'SW'),
+  spell('Magic Missile', 1, 'evocation', '1 action', '120 feet', 'V, S', 'Instantaneous', 'SW'),
+  spell('Protection from Evil and Good', 1, 'abjuration', '1 action', 'Touch', 'V, S, M', 'Concentration, up to 10 minutes', 'CPKW'),
+  spell('Purify Food and Drink', 1, 'transmutation', '1 action', '10 feet', 'V, S', 'Instantaneous', 'CDP', { ritual: true }),
+  spell('Sanctuary', 1, 'abjuration', '1 bonus action', '30 feet', 'V, S, M', '1 minute', 'C'),
+  spell('Shield', 1, 'abjuration', '1 reaction', 'Self', 'V, S', '1 round', 'SW'),
+  spell('Shield of Faith', 1, 'abjuration', '1 bonus action', '60 feet', 'V, S, M', 'Concentration, up to 10 minutes', 'CP'),
+  spell('Silent Image', 1, 'illusion', '1 action', '60 feet', 'V, S, M', 'Concentration, up to 10 minutes', 'BSW'),
+  spell('Sleep', 1, 'enchantment', '1 action', '90 feet', 'V, S, M', '1 minute', 'BSW'),
+  spell('Speak with Animals', 1, 'divination', '1 action', 'Self', 'V, S', '10 minutes', 'BDR', { ritual: true }),
+  spell('Thunderwave', 1, 'evocation', '1 action', 'Self (15-foot cube)', 'V, S', 'Instantaneous', 'BDSW'),
+  spell('Unseen Servant', 1, 'conjuration', '1 action', '60 feet', 'V, S, M', '1 hour', 'BKW', { ritual: true }),
+
+  // 2nd level
+  spell('Acid Arrow', 2, 'evocation', '1 action', '90 feet', 'V, S, M', 'Instantaneous', 'W', { aliases: ["Melf's Acid Arrow"] }),
+  spell('Aid', 2, 'abjuration', '1 action', '30 feet', 'V, S, M', '8 hours', 'CP'),
+  spell('Alter Self', 2, 'transmutation', '1 action', 'Self', 'V, S', 'Concentration, up to 1 hour', 'SW'),
+  spell('Animal Messenger', 2, 'enchantment', '1 action', '30 feet', 'V, S, M', '24 hours', 'BDR', { ritual: true }),
+  spell('Arcane Lock', 2, 'abjuration', '1 action', 'Touch', 'V, S, M', 'Until dispelled', 'W'),
+  spell("Arcanist's Magic Aura", 2, 'illusion', '1 action', 'Touch', 'V, S, M', '24 hours', 'W', { aliases: ["Nystul's Magic Aura"] }),
+  spell('Augury', 2, 'divination', '1 minute', 'Self', 'V, S, M', 'Instantaneous', 'C', { ritual: true }),
+  spell('Barkskin', 2, 'transmutation', '1 action', 'Touch', 'V, S, M', 'Concentration, up to 1 hour', 'DR'),
+  spell('Blindness/Deafness', 2, 'necromancy', '1 action', '30 feet', 'V', '1 minute', 'BCSW'),
+  spell('Blur', 2, 'illusion', '1 action', 'Self', 'V', 'Concentration, up to 1 minute', 'SW'),
+  spell('Branding Smite', 2, 'evocation', '1 bonus action', 'Self', 'V', 'Concentration, up to 1 minute', 'P'),
+  spell('Calm Emotions', 2, 'enchantment', '1 action', '60 feet', 'V, S', 'Concentration, up to 1 minute', 'BC'),
+  spell('Continual Flame', 2, 'evocation', '1 action', 'Touch', 'V, S, M', 'Until dispelled', 'CW'),
+  spell('Darkness', 2, 'evocation', '1 action', '60 feet', 'V, M', 'Concentration, up to 10 minutes', 'SKW'),
+  spell('Darkvision', 2, 'transmutation', '1 action', 'Touch', 'V, S, M', '8 hours', 'DRSW'),
+  spell('Detect Thoughts', 2, 'divination', '1 action', 'Self', 'V, S, M', 'Concentration, up to 1 minute', 'BSW'),
+  spell('Enhance Ability', 2, 'transmutation', '1 action', 'Touch', 'V, S, M', 'Concentration, up to 1 hour', 'BCDS'),
+  spell('Enlarge/Reduce', 2, 'transmutation', '1 action', '30 feet', 'V, S, M', 'Concentration, up to 1 minute', 'SW'),
+  spell('Enthrall', 2, 'enchantment', '1 action', '60 feet', 'V, S', '1 minute', 'BK'),
+  spell('Find Steed', 2, 'conjuration', '10 minutes', '30 feet', 'V, S', 'Instantaneous', 'P'),
+  spell('Find Traps', 2, 'divination', '1 action', '120 feet', 'V, S', 'Instantaneous', 'CDR'),
+  spell('Flame Blade', 2, 'evocation', '1 bonus action', 'Self', 'V, S, M', 'Concentration, up to 10 minutes', 'D'),
+  spell('Flaming Sphere', 2, 'conjuration', '1 action', '60 feet', 'V, S, M', 'Concentration, up to 1 minute', 'DW'),
+  spell('Gentle Repose', 2, 'necromancy', '1 action', 'Touch', 'V, S, M', '10 days', 'CW', { ritual: true }),
+  spell('Gust of Wind', 2, 'evocation', '1 action', 'Self (60-foot line)', 'V, S, M', 'Concentration, up to 1 minute', 'DSW'),
+  spell('Heat Metal', 2, 'transmutation', '1 action', '60 feet', 'V, S, M', 'Concentration, up to 1 minute', 'BD'),
+  spell('Hold Person', 2, 'enchantment', '1 action', '60 feet', 'V, S, M', 'Concentration, up to 1 minute', 'BCDSKW'),
+  spell('Invisibility', 2, 'illusion', '1 action', 'Touch', 'V, S, M', 'Concentration, up to 1 hour', 'BSKW'),
+  spell('Knock', 2, 'transmutation', '1 action', '60 feet', 'V', 'Instantaneous', 'BSW'),
+  spell('Lesser Restoration', 2, 'abjuration', '1 action', 'Touch', 'V, S', 'Instantaneous', 'BCDPR'),
+  spell('Levitate', 2, 'transmutation', '1 action', '60 feet', 'V, S, M', 'Concentration, up to 10 minutes', 'SW'),
+  spell('Locate Animals or Plants', 2, 'divination', '1 action', 'Self', 'V, S, M', 'Instantaneous', 'BDR', { ritual: true }),
+  spell('Locate Object', 2, 'divination', '1 action', 'Self', 'V, S, M', 'Concentration, up to 10 minutes', 'BCDPRW'),
+  spell('Magic Mouth', 2, 'illusion', '1 minute', '30 feet', 'V, S, M', 'Until dispelled', 'BW', { ritual: true }),
+  spell('Magic Weapon', 2, 'transmutation', '1 bonus action', 'Touch', 'V, S', 'Concentration, up to 1 hour', 'PW'),
+  spell('Mirror Image', 2, 'illusion', '1 action', 'Self', 'V, S', '1 minute', 'SKW'),
+  spell('Misty Step', 2, 'conjuration', '1 bonus action', 'Self', 'V', 'Instantaneous', 'SKW'),
+  spell('Moonbeam', 2, 'evocation', '1 action', '120 feet', 'V, S, M', 'Concentration, up to 1 minute', 'D'),
+  spell('Pass without Trace', 2, 'abjuration', '1 action', 'Self', 'V, S, M', 'Concentration, up to 1 hour', 'DR'),
+  spell('Prayer of Healing', 2, 'evocation', '10 minutes', '30 feet', 'V', 'Instantaneous', 'C'),
+  spell('Protection from Poison', 2, 'abjuration', '1 action', 'Touch', 'V, S', '1 hour', 'CDPR'),
+  spell('Ray of Enfeeblement', 2, 'necromancy', '1 action', '60 feet', 'V, S', 'Concentration, up to 1 minute', 'KW'),
+  spell('Rope Trick', 2, 'transmutation', '1 action', 'Touch', 'V, S, M', '1 hour', 'W'),
+  spell('Scorching Ray', 2, 'evocation', '1 action', '120 feet', 'V, S', 'Instantaneous', 'SW'),
+  spell('See Invisibility', 2, 'divination', '1 action', 'Self', 'V, S, M', '1 hour', 'BSW'),
+  spell('Shatter', 2, 'evocation', '1 action', '60 feet', 'V, S, M', 'Instantaneous', 'BSKW'),
+  spell('Silence', 2, 'illusion', '1 action', '120 feet', 'V, S', 'Concentration, up to 10 minutes', 'BCR', { ritual: true }),
+  spell('Spider Climb', 2, 'transmutation', '1 action', 'Touch', 'V, S, M', 'Concentration, up to 1 hour', 'SKW'),
+  spell('Spike Growth', 2, 'transmutation', '1 action', '150 feet', 'V, S, M', 'Concentration, up to 10 minutes', 'DR'),
+  spell('Spiritual Weapon', 2, 'evocation', '1 bonus action', '60 feet', 'V, S', '1 minute', 'C'),
+  spell('Suggestion', 2, 'enchantment', '1 action', '30 feet', 'V, M', 'Concentration, up to 8 hours', 'BSKW'),
+  spell('Warding Bond', 2, 'abjuration', '1 action', 'Touch', 'V, S, M', '1 hour', 'C'),
+  spell('Web', 2, 'conjuration', '1 action', '60 feet', 'V, S, M', 'Concentration, up to 1 hour', 'SW'),
+  spell('Zone of Truth', 2, 'enchantment', '1 action', '60 feet', 'V, S', '10 minutes', 'BCP'),
+
+  // 3rd level
+  spell('Animate Dead', 3, 'necromancy', '1 minute', '10 feet', 'V, S, M', 'Instantaneous', 'CW'),
+  spell('Beacon of Hope', 3, 'abjuration', '1 action', '30 feet', 'V, S', 'Concentration, up to 1 minute', 'C'),
+  spell('Bestow Curse', 3, 'necromancy', '1 action', 'Touch', 'V, S', 'Concentration, up to 1 minute', 'BCW'),
+  spell('Blink', 3, 'transmutation', '1 action', 'Self', 'V, S', '1 minute', 'SW'),
+  spell('Call Lightning', 3, 'conjuration', '1 action', '120 feet', 'V, S', 'Concentration, up to 10 minutes', 'D'),
+  spell('Clairvoyance', 3, 'divination', '10 minutes', '1 mile', 'V, S, M', 'Concentration, up to 10 minutes', 'BCSW'),
+  spell('Conjure Animals', 3, 'conjuration', '1 action', '60 feet', 'V, S', 'Concentration, up to 1 hour', 'DR'),
+  spell('Counterspell', 3, 'abjuration', '1 reaction', '60 feet', 'S', 'Instantaneous', 'SKW'),
+  spell('Create Food and Water', 3, 'conjuration', '1 action', '30 feet', 'V, S', 'Instantaneous', 'CP'),
+  spell('Daylight', 3, 'evocation', '1 action', '60 feet', 'V, S', '1 hour', 'CDPRS'),
+  spell('Dispel Magic', 3, 'abjuration', '1 action', '120 feet', 'V, S', 'Instantaneous', 'BCDPSKW'),
+  spell('Fear', 3, 'illusion', '1 action', 'Self (30-foot cone)', 'V, S, M', 'Concentration, up to 1 minute', 'BSKW'),
+  spell('Fireball', 3, 'evocation', '1 action', '150 feet', 'V, S, M', 'Instantaneous', 'SW'),
+  spell('Fly', 3, 'transmutation', '1 action', 'Touch', 'V, S, M', 'Concentration, up to 10 minutes', 'SKW'),
+  spell('Gaseous Form', 3, 'transmutation', '1 action', 'Touch', 'V, S, M', 'Concentration, up to 1 hour', 'SKW'),
+  spell('Glyph of Warding', 3, 'abjuration', '1 hour', 'Touch', 'V, S, M', 'Until dispelled or triggered', 'BCW'),
+  spell('Haste', 3, 'transmutation', '1 action', '30 feet', 'V, S, M', 'Concentration, up to 1 minute', 'SW'),
+  spell('Hypnotic Pattern', 3, 'illusion', '1 action', '120 feet', 'S, M', 'Concentration, up to 1 minute', 'BSKW'),
+  spell('Lightning Bolt', 3, 'evocation', '1 action', 'Self (100-foot line)', 'V, S, M', 'Instantaneous', 'SW'),
+  spell('Magic Circle', 3, 'abjuration', '1 minute', '10 feet', 'V, S, M', '1 hour', 'CPKW'),
+  spell('Major Image', 3, 'illusion', '1 action', '120 feet', 'V, S, M', 'Concentration, up to 10 minutes', 'BSKW'),
+  spell('Mass Healing Word', 3, 'evocation', '1 bonus action', '60 feet', 'V', 'Instantaneous', 'C'),
+  spell('Meld into Stone', 3, 'transmutation', '1 action', 'Touch', 'V, S', '8 hours', 'CD', { ritual: true }),
+  spell('Nondetection', 3, 'abjuration', '1 action', 'Touch', 'V, S, M', '8 hours', 'BRW'),
+  spell('Phantom Steed', 3, 'illusion', '1 minute', '30 feet', 'V, S', '1 hour', 'W', { ritual: true }),
+  spell('Plant Growth', 3, 'transmutation', '1 action or 8 hours', '150 feet', 'V, S', 'Instantaneous', 'BDR'),
+  spell('Protection from Energy', 3, 'abjuration', '1 action', 'Touch', 'V, S', 'Concentration, up to 1 hour', 'CDRSW'),
+  spell('Remove Curse', 3, 'abjuration', '1 action', 'Touch', 'V, S', 'Instantaneous', 'CPKW'),
+  spell('Revivify', 3, 'necromancy', '1 action', 'Touch', 'V, S, M', 'Instantaneous', 'CP'),
+  spell('Sending', 3, 'evocation', '1 action', 'Unlimited', 'V, S, M', '1 round', 'BCW'),
+  spell('Sleet Storm', 3, 'conjuration', '1 action', '150 feet', 'V, S, M', 'Concentration, up to 1 minute', 'DSW'),
+  spell('Slow', 3, 'transmutation', '1 action', '120 feet', 'V, S, M', 'Concentration, up to 1 minute', 'SW'),
+  spell('Speak with Dead', 3, 'necromancy', '1 action', '10 feet', 'V, S, M', '10 minutes', 'BC'),
+  spell('Speak with Plants', 3, 'transmutation', '1 action', 'Self (30-foot radius)', 'V, S', '10 minutes', 'BDR'),
+  spell('Spirit Guardians', 3, 'conjuration', '1 action', 'Self (15-foot radius)', 'V, S, M', 'Concentration, up to 10 minutes', 'C'),
+  spell('Stinking Cloud', 3, 'conjuration', '1 action', '90 feet', 'V, S, M', 'Concentration, up to 1 minute', 'BSW'),
+  spell('Tiny Hut', 3, 'evocation', '1 minute', 'Self (10-foot-radius hemisphere)', 'V, S, M', '8 hours', 'BW', { ritual: true, aliases: ["Leomund's Tiny Hut"] }),
+  spell('Tongues', 3, 'divination', '1 action', 'Touch', 'V, M', '1 hour', 'BCSKW'),
+  spell('Vampiric Touch', 3, 'necromancy', '1 action', 'Self', 'V, S', 'Concentration, up to 1 minute', 'KW'),
+  spell('Water Breathing', 3, 'transmutation', '1 action', '30 feet', 'V, S, M', '24 hours', 'DRSW', { ritual: true }),
+  spell('Water Walk', 3, 'transmutation', '1 action', '30 feet', 'V, S, M', '1 hour', 'CDRS', { ritual: true }),
+  spell('Wind Wall', 3, 'evocation', '1 action', '120 feet', 'V, S, M', 'Concentration, up to 1 minute', 'DR'),
+
+  // 4th level
+  spell('Arcane Eye', 4, 'divination', '1 action', '30 feet', 'V, S, M', 'Concentration, up to 1 hour', 'W'),
+  spell('Banishment', 4, 'abjuration', '1 action', '60 feet', 'V, S, M', 'Concentration, up to 1 minute', 'CPSKW'),
+  spell('Black Tentacles', 4, 'conjuration', '1 action', '90 feet', 'V, S, M', 'Concentration, up to 1 minute', 'W', { aliases: ["Evard's Black Tentacles"] }),
+  spell('Blight', 4, 'necromancy', '1 action', '30 feet', 'V, S', 'Instantaneous', 'DSKW'),
+  spell('Compulsion', 4, 'enchantment', '1 action', '30 feet', 'V, S', 'Concentration, up to 1 minute', 'B'),
+  spell('Confusion', 4, 'enchantment', '1 action', '90 feet', 'V, S, M', 'Concentration, up to 1 minute', 'BDSW'),
+  spell('Conjure Minor Elementals', 4, 'conjuration', '1 minute', '90 feet', 'V, S', 'Concentration, up to 1 hour', 'DW'),
+  spell('Conjure Woodland Beings', 4, 'conjuration', '1 action', '60 feet', 'V, S, M', 'Concentration, up to 1 hour', 'DR'),
+  spell('Control Water', 4, 'transmutation', '1 action', '300 feet', 'V, S, M', 'Concentration, up to 10 minutes', 'CDW'),
+  spell('Death Ward', 4, 'abjuration', '1 action', 'Touch', 'V, S', '8 hours', 'CP'),
+  spell('Dimension Door', 4, 'conjuration', '1 action', '500 feet', 'V', 'Instantaneous', 'BSKW'),
+  spell('Divination', 4, 'divination', '1 action', 'Self', 'V, S, M', 'Instantaneous', 'C', { ritual: true }),
+  spell('Dominate Beast', 4, 'enchantment', '1 action', '60 feet', 'V, S', 'Concentration, up to 1 minute', 'DS'),
+  spell('Fabricate', 4, 'transmutation', '10 minutes', '120 feet', 'V, S', 'Instantaneous', 'W'),
+  spell('Faithful Hound', 4, 'conjuration', '1 action', '30 feet', 'V, S, M', '8 hours', 'W', { aliases: ["Mordenkainen's Faithful Hound"] }),
+  spell('Fire Shield', 4, 'evocation', '1 action', 'Self', 'V, S, M', '10 minutes', 'W'),
+  spell('Freedom of Movement', 4, 'abjuration', '1 action', 'Touch', 'V, S, M', '1 hour', 'BCDR'),
+  spell('Giant Insect', 4, 'transmutation', '1 action', '30 feet', 'V, S', 'Concentration, up to 10 minutes', 'D'),
+  spell('Greater Invisibility', 4, 'illusion', '1 action', 'Touch', 'V, S', 'Concentration, up to 1 minute', 'BSW'),
+  spell('Guardian of Faith', 4, 'conjuration', '1 action', '30 feet', 'V', '8 hours', 'C'),
+  spell('Hallucinatory Terrain', 4, 'illusion', '10 minutes', '300 feet', 'V, S, M', '24 hours', 'BDKW'),
+  spell('Ice Storm', 4, 'evocation', '1 action', '300 feet', 'V, S, M', 'Instantaneous', 'DSW'),
+  spell('Locate Creature', 4, 'divination', '1 action', 'Self', 'V, S, M', 'Concentration, up to 1 hour', 'BCDPRW'),
+  spell('Phantasmal Killer', 4, 'illusion', '1 action', '120 feet', 'V, S', 'Concentration, up to 1 minute', 'W'),
+  spell('Polymorph', 4, 'transmutation', '1 action', '60 feet', 'V, S, M', 'Concentration, up to 1 hour', 'BDSW'),
+  spell('Private Sanctum', 4, 'abjuration', '10 minutes', '120 feet', 'V, S, M', '24 hours', 'W', { aliases: ["Mordenkainen's Private Sanctum"] }),
+  spell('Resilient Sphere', 4, 'evocation', '1 action', '30 feet', 'V, S, M', 'Concentration, up to 1 minute', 'W', { aliases: ["Otiluke's Resilient Sphere"] }),
+  spell('Secret Chest', 4, 'conjuration', '1 action', 'Touch', 'V, S, M', 'Instantaneous', 'W', { aliases: ["Leomund's Secret Chest"] }),
+  spell('Stone Shape', 4, 'transmutation', '1 action', 'Touch', 'V, S, M', 'Instantaneous', 'CDW'),
+  spell('Stoneskin', 4, 'abjuration', '1 action', 'Touch', 'V, S, M', 'Concentration, up to 1 hour', 'DRSW'),
+  spell('Wall of Fire', 4, 'evocation', '1 action', '120 feet', 'V, S, M', 'Concentration, up to 1 minute', 'DSW'),
+
+  // 5th level
+  spell('Animate Objects', 5, 'transmutation', '1 action', '120 feet', 'V, S', 'Concentration, up to 1 minute', 'BSW'),
+  spell('Antilife Shell', 5, 'abjuration', '1 action', 'Self (10-foot radius)', 'V, S', 'Concentration, up to 1 hour', 'D'),
+  spell('Arcane Hand', 5, 'evocation', '1 action', '120 feet', 'V, S, M', 'Concentration, up to 1 minute', 'W', { aliases: ["Bigby's Hand"] }),
+  spell('Awaken', 5, 'transmutation', '8 hours', 'Touch', 'V, S, M', 'Instantaneous', 'BD'),
+  spell('Cloudkill', 5, 'conjuration', '1 action', '120 feet', 'V, S', 'Concentration, up to 10 minutes', 'SW'),
+  spell('Commune', 5, 'divination', '1 minute', 'Self', 'V, S, M', '1 minute', 'C', { ritual: true }),
+  spell('Commune with Nature', 5, 'divination', '1 minute', 'Self', 'V, S', 'Instantaneous', 'DR', { ritual: true }),
+  spell('Cone of Cold', 5, 'evocation', '1 action', 'Self (60-foot cone)', 'V, S, M', 'Instantaneous', 'SW'),
+  spell('Conjure Elemental', 5, 'conjuration', '1 minute', '90 feet', 'V, S, M', 'Concentration, up to 1 hour', 'DW'),
+  spell('Contact Other Plane', 5, 'divination', '1 minute', 'Self', 'V', '1 minute', 'KW', { ritual: true }),
+  spell('Contagion', 5, 'necromancy', '1 action', 'Touch', 'V, S', '7 days', 'CD'),
+  spell('Creation', 5, 'illusion', '1 minute', '30 feet', 'V, S, M', 'Special', 'SW'),
+  spell('Dispel Evil and Good', 5, 'abjuration', '1 action', 'Self', 'V, S, M', 'Concentration, up to 1 minute', 'CP'),
+  spell('Dominate Person', 5, 'enchantment', '1 action', '60 feet', 'V, S', 'Concentration, up to 1 minute', 'BSW'),
+  spell('Dream', 5, 'illusion', '1 minute', 'Special', 'V, S, M', '8 hours', 'BKW'),
+  spell('Flame Strike', 5, 'evocation', '1 action', '60 feet', 'V, S, M', 'Instantaneous', 'C'),
+  spell('Geas', 5, 'enchantment', '1 minute', '60 feet', 'V', '30 days', 'BCDPW'),
+  spell('Greater Restoration', 5, 'abjuration', '1 action', 'Touch', 'V, S, M', 'Instantaneous', 'BCD'),
+  spell('Hallow', 5, 'evocation', '24 hours', 'Touch', 'V, S, M', 'Until dispelled', 'C'),
+  spell('Hold Monster', 5, 'enchantment', '1 action', '90 feet', 'V, S, M', 'Concentration, up to 1 minute', 'BSKW'),
+  spell('Insect Plague', 5, 'conjuration', '1 action', '300 feet', 'V, S, M', 'Concentration, up to 10 minutes', 'CDS'),
+  spell('Legend Lore', 5, 'divination', '10 minutes', 'Self', 'V, S, M', 'Instantaneous', 'BCW'),
+  spell('Mass Cure Wounds', 5, 'evocation', '1 action', '60 feet', 'V, S', 'Instantaneous', 'BCD'),
+  spell('Mislead', 5, 'illusion', '1 action', 'Self', 'S', 'Concentration, up to 1 hour', 'BW'),
+  spell('Modify Memory', 5, 'enchantment', '1 action', '30 feet', 'V, S', 'Concentration, up to 1 minute', 'BW'),
+  spell('Passwall', 5, 'transmutation', '1 action', '30 feet', 'V, S, M', '1 hour', 'W'),
+  spell('Planar Binding', 5, 'abjuration', '1 hour', '60 feet', 'V, S, M', '24 hours', 'BCDKW'),
+  spell('Raise Dead', 5, 'necromancy', '1 hour', 'Touch', 'V, S, M', 'Instantaneous', 'BCP'),
+  spell('Reincarnate', 5, 'transmutation', '1 hour', 'Touch', 'V, S, M', 'Instantaneous', 'D'),
+  spell('Scrying', 5, 'divination', '10 minutes', 'Self', 'V, S, M', 'Concentration, up to 10 minutes', 'BCDKW'),
+  spell('Seeming', 5, 'illusion', '1 action', '30 feet', 'V, S', '8 hours', 'BSW'),
+  spell('Telekinesis', 5, 'transmutation', '1 action', '60 feet', 'V, S', 'Concentration, up to 10 minutes', 'SW'),
+  spell('Telepathic Bond', 5, 'divination', '1 action', '30 feet', 'V, S, M', '1 hour', 'W', { ritual: true, aliases: ["Rary's Telepathic Bond"] }),
+  spell('Teleportation Circle', 5, 'conjuration', '1 minute', '10 feet', 'V, M', '1 round', 'BSW'),
+  spell('Tree Stride', 5, 'conjuration', '1 action', 'Self', 'V, S', 'Concentration, up to 1 minute', 'DR'),
+  spell('Wall of Force', 5, 'evocation', '1 action', '120 feet', 'V, S, M', 'Concentration, up to 10 minutes', 'W'),
+  spell('Wall of Stone', 5, 'evocation', '1 action', '120 feet', 'V, S, M', 'Concentration, up to 10 minutes', 'DSW'),
+
+  // 6th level
+  spell('Blade Barrier', 6, 'evocation', '1 action', '90 feet', 'V, S', 'Concentration, up to 10 minutes', 'C'),
+  spell('Chain Lightning', 6, 'evocation', '1 action', '150 feet', 'V, S, M', 'Instantaneous', 'SW'),
+  spell('Circle of Death', 6, 'necromancy', '1 action', '150 feet', 'V, S, M', 'Instantaneous', 'SKW'),
+  spell('Conjure Fey', 6, 'conjuration', '1 minute', '90 feet', 'V, S', 'Concentration, up to 1 hour', 'DK'),
+  spell('Contingency', 6, 'evocation', '10 minutes', 'Self', 'V, S, M', '10 days', 'W'),
+  spell('Create Undead', 6, 'necromancy', '1 minute', '10 feet', 'V, S, M', 'Instantaneous', 'CKW'),
+  spell('Disintegrate', 6, 'transmutation', '1 action', '60 feet', 'V, S, M', 'Instantaneous', 'SW'),
+  spell('Eyebite', 6, 'necromancy', '1 action', 'Self', 'V, S', 'Concentration, up to 1 minute', 'BSKW'),
+  spell('Find the Path', 6, 'divination', '1 minute', 'Self', 'V, S, M', 'Concentration, up to 1 day', 'BCD'),
+  spell('Flesh to Stone', 6, 'transmutation', '1 action', '60 feet', 'V, S, M', 'Concentration, up to 1 minute', 'KW'),
+  spell('Forbiddance', 6, 'abjuration', '10 minutes', 'Touch', 'V, S, M', '1 day', 'C', { ritual: true }),
+  spell('Freezing Sphere', 6, 'evocation', '1 action', '300 feet', 'V, S, M', 'Instantaneous', 'W', { aliases: ["Otiluke's Freezing Sphere"] }),
+  spell('Globe of Invulnerability', 6, 'abjuration', '1 action', 'Self (10-foot radius)', 'V, S, M', 'Concentration, up to 1 minute', 'SW'),
+  spell('Guards and Wards', 6, 'abjuration', '10 minutes', 'Touch', 'V, S, M', '24 hours', 'BW'),
+  spell('Harm', 6, 'necromancy', '1 action', '60 feet', 'V, S', 'Instantaneous', 'C'),
+  spell('Heal', 6, 'evocation', '1 action', '60 feet', 'V, S', 'Instantaneous', 'CD'),
+  spell("Heroes' Feast", 6, 'conjuration', '10 minutes', '30 feet', 'V, S, M', 'Instantaneous', 'CD'),
+  spell('Instant Summons', 6, 'conjuration', '1 minute', 'Touch', 'V, S, M', 'Until dispelled', 'W', { ritual: true, aliases: ["Drawmij's Instant Summons"] }),
+  spell('Irresistible Dance', 6, 'enchantment', '1 action', '30 feet', 'V', 'Concentration, up to 1 minute', 'BW', { aliases: ["Otto's Irresistible Dance"] }),
+  spell('Magic Jar', 6, 'necromancy', '1 minute', 'Self', 'V, S, M', 'Until dispelled', 'W'),
+  spell('Mass Suggestion', 6, 'enchantment', '1 action', '60 feet', 'V, M', '24 hours', 'BSKW'),
+  spell('Move Earth', 6, 'transmutation', '1 action', '120 feet', 'V, S, M', 'Concentration, up to 2 hours', 'DSW'),
+  spell('Planar Ally', 6, 'conjuration', '10 minutes', '60 feet', 'V, S', 'Instantaneous', 'C'),
+  spell('Programmed Illusion', 6, 'illusion', '1 action', '120 feet', 'V, S, M', 'Until dispelled', 'BW'),
+  spell('Sunbeam', 6, 'evocation', '1 action', 'Self (60-foot line)', 'V, S, M', 'Concentration, up to 1 minute', 'DSW'),
+  spell('Transport via Plants', 6, 'conjuration', '1 action', '10 feet', 'V, S', '1 round', 'D'),
+  spell('True Seeing', 6, 'divination', '1 action', 'Touch', 'V, S, M', '1 hour', 'BCSKW'),
+  spell('Wall of Ice', 6, 'evocation', '1 action', '120 feet', 'V, S, M', 'Concentration, up to 10 minutes', 'W'),
+  spell('Wall of Thorns', 6, 'conjuration', '1 action', '120 feet', 'V, S, M', 'Concentration, up to 10 minutes', 'D'),
+  spell('Wind Walk', 6, 'transmutation', '1 minute', '30 feet', 'V, S, M', '8 hours', 'D'),
+  spell('Word of Recall', 6, 'conjuration', '1 action', '5 feet', 'V', 'Instantaneous', 'C'),
+
+  // 7th level
+  spell('Arcane Sword', 7, 'evocation', '1 action', '60 feet', 'V, S, M', 'Concentration, up to 1 minute', 'BW', { aliases: ["Mordenkainen's Sword"] }),
+  spell('Delayed Blast Fireball', 7, 'evocation', '1 action', '150 feet', 'V, S, M', 'Concentration, up to 1 minute', 'SW'),
+  spell('Divine Word', 7, 'evocation', '1 bonus action', '30 feet', 'V', 'Instantaneous', 'C'),
+  spell('Etherealness', 7, 'transmutation', '1 action', 'Self', 'V, S', 'Up to 8 hours', 'BCSKW'),
+  spell('Finger of Death', 7, 'necromancy', '1 action', '60 feet', 'V, S', 'Instantaneous', 'SKW'),
+  spell('Fire Storm', 7, 'evocation', '1 action', '150 feet', 'V, S', 'Instantaneous', 'CDS'),
+  spell('Forcecage', 7, 'evocation', '1 action', '100 feet', 'V, S, M', '1 hour', 'BKW'),
+  spell('Magnificent Mansion', 7, 'conjuration', '1 minute', '300 feet', 'V, S, M', '24 hours', 'BW', { aliases: ["Mordenkainen's Magnificent Mansion"] }),
+  spell('Mirage Arcane', 7, 'illusion', '10 minutes', 'Sight', 'V, S', '10 days', 'BDW'),
+  spell('Plane Shift', 7, 'conjuration', '1 action', 'Touch', 'V, S, M', 'Instantaneous', 'CDSKW'),
+  spell('Prismatic Spray', 7, 'evocation', '1 action', 'Self (60-foot cone)', 'V, S', 'Instantaneous', 'SW'),
+  spell('Project Image', 7, 'illusion', '1 action', '500 miles', 'V, S, M', 'Concentration, up to 1 day', 'BW'),
+  spell('Regenerate', 7, 'transmutation', '1 minute', 'Touch', 'V, S, M', '1 hour', 'BCD'),
+  spell('Resurrection', 7, 'necromancy', '1 hour', 'Touch', 'V, S, M', 'Instantaneous', 'BC'),
+  spell('Reverse Gravity', 7, 'transmutation', '1 action', '100 feet', 'V, S, M', 'Concentration, up to 1 minute', 'DSW'),
+  spell('Sequester', 7, 'transmutation', '1 action', 'Touch', 'V, S, M', 'Until dispelled', 'W'),
+  spell('Simulacrum', 7, 'illusion', '12 hours', 'Touch', 'V, S, M', 'Until dispelled', 'W'),
+  spell('Symbol', 7, 'abjuration', '1 minute', 'Touch', 'V, S, M', 'Until dispelled or triggered', 'BCW'),
+  spell('Teleport', 7, 'conjuration', '1 action', '10 feet', 'V', 'Instantaneous', 'BSW'),
+
+  // 8th level
+  spell('Animal Shapes', 8, 'transmutation', '1 action', '30 feet', 'V, S', 'Concentration, up to 24 hours', 'D'),
+  spell('Antimagic Field', 8, 'abjuration', '1 action', 'Self (10-foot-radius sphere)', 'V, S, M', 'Concentration, up to 1 hour', 'CW'),
+  spell('Antipathy/Sympathy', 8, 'enchantment', '1 hour', '60 feet', 'V, S, M', '10 days', 'DW'),
+  spell('Clone', 8, 'necromancy', '1 hour', 'Touch', 'V, S, M', 'Instantaneous', 'W'),
+  spell('Control Weather', 8, 'transmutation', '10 minutes', 'Self (5-mile radius)', 'V, S, M', 'Concentration, up to 8 hours', 'CDW'),
+  spell('Demiplane', 8, 'conjuration', '1 action', '60 feet', 'S', '1 hour', 'KW'),
+  spell('Dominate Monster', 8, 'enchantment', '1 action', '60 feet', 'V, S', 'Concentration, up to 1 hour', 'BSKW'),
+  spell('Earthquake', 8, 'evocation', '1 action', '500 feet', 'V, S, M', 'Concentration, up to 1 minute', 'CDS'),
+  spell('Feeblemind', 8, 'enchantment', '1 action', '150 feet', 'V, S, M', 'Instantaneous', 'BDKW'),
+  spell('Glibness', 8, 'transmutation', '1 action', 'Self', 'V', '1 hour', 'BK'),
+  spell('Holy Aura', 8, 'abjuration', '1 action', 'Self', 'V, S, M', 'Concentration, up to 1 minute', 'C'),
+  spell('Incendiary Cloud', 8, 'conjuration', '1 action', '150 feet', 'V, S', 'Concentration, up to 1 minute', 'SW'),
+  spell('Maze', 8, 'conjuration', '1 action', '60 feet', 'V, S', 'Concentration, up to 10 minutes', 'W'),
+  spell('Mind Blank', 8, 'abjuration', '1 action', 'Touch', 'V, S', '24 hours', 'BW'),
+  spell('Power Word Stun', 8, 'enchantment', '1 action', '60 feet', 'V', 'Instantaneous', 'BSKW'),
+  spell('Sunburst', 8, 'evocation', '1 action', '150 feet', 'V, S, M', 'Instantaneous', 'DSW'),
+
+  // 9th level
+  spell('Astral Projection', 9, 'necromancy', '1 hour', '10 feet', 'V, S, M', 'Special', 'CKW'),
+  spell('Foresight', 9, 'divination', '1 minute', 'Touch', 'V, S, M', '8 hours', 'BDKW'),
+  spell('Gate', 9, 'conjuration', '1 action', '60 feet', 'V, S, M', 'Concentration, up to 1 minute', 'CSW'),
+  spell('Imprisonment', 9, 'abjuration', '1 minute', '30 feet', 'V, S, M', 'Until dispelled', 'KW'),
+  spell('Mass Heal', 9, 'evocation', '1 action', '60 feet', 'V, S', 'Instantaneous', 'C'),
+  spell('Meteor Swarm', 9, 'evocation', '1 action', '1 mile', 'V, S', 'Instantaneous', 'SW'),
+  spell('Power Word Kill', 9, 'enchantment', '1 action', '60 feet', 'V', 'Instantaneous', 'BSKW'),
+  spell('Prismatic Wall', 9, 'abjuration', '1 action', '60 feet', 'V, S', '10 minutes', 'W'),
+  spell('Shapechange', 9, 'transmutation', '1 action', 'Self', 'V, S, M', 'Concentration, up to 1 hour', 'DW'),
+  spell('Storm of Vengeance', 9, 'conjuration', '1 action', 'Sight', 'V, S', 'Concentration, up to 1 minute', 'D'),
+  spell('Time Stop', 9, 'transmutation', '1 action', 'Self', 'V', 'Instantaneous', 'SW'),
+  spell('True Polymorph', 9, 'transmutation', '1 action', '30 feet', 'V, S, M', 'Concentration, up to 1 hour', 'BKW'),
+  spell('True Resurrection', 9, 'necromancy', '1 hour', 'Touch', 'V, S, M', 'Instantaneous', 'CD'),
+  spell('Weird', 9, 'illusion', '1 action', '120 feet', 'V, S, M', 'Concentration, up to 1 minute', 'W'),
+  spell('Wish', 9, 'conjuration', '1 action', 'Self', 'V', 'Instantaneous', 'SW'),
+]
+
+// "Melf's Acid Arrow", "melfs acid-arrow" and "MELF'S ACID ARROW" all match
+const normalizeSpellName = (name: string) =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+
+const SPELLS_BY_NAME = new Map<string, SrdSpell>()
+for (const srdSpell of SRD_SPELLS) {
+  for (const name of [srdSpell.name, ...(srdSpell.aliases ?? [])]) {
+    SPELLS_BY_NAME.set(normalizeSpellName(name), srdSpell)
+  }
+}
+
+/**
+ * Find the SRD spell for a (possibly PHB-named) spell name, or undefined for homebrew and translated names
+ */
+export function findSrdSpell(name: string): SrdSpell | undefined {
+  return SPELLS_BY_NAME.get(normalizeSpellName(name))
+}
+
+/**
+ * Spells on a class's spell list, by level then name; empty for classes without one
+ */
+export function getClassSpellList(className: string): SrdSpell[] {
+  return SRD_SPELLS.filter((srdSpell) => srdSpell.classes.includes(className))
+}
+
+/**
+ * Fill a spell's school, casting time, range, components, duration, concentration and ritual from the SRD
+ */
+export function enrichSpell(spell: Spell): Spell {
+  const srdSpell = findSrdSpell(spell.name)
+  if (!srdSpell) return spell
+  return {
+    ...spell,
+    school: srdSpell.school,
+    castingTime: srdSpell.castingTime,
+    range: srdSpell.range,
+    components: srdSpell.components,
+    duration: srdSpell.duration,
+    concentration: srdSpell.concentration,
+    ritual: srdSpell.ritual,
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Token Usage Accounting
+ *
+ * Every model call in lib/ai.ts reports its prompt/completion tokens with reportModelUsage. An API route decides
+ * where the reports go by running its AI work inside withUsageRecording, so lib/ai.ts needs no database or user:
+ * createUsageRecorder writes them to token_usage with an estimated cost. Calls made outside a recording
+ * (scripts/) are not recorded.
+ *
+ * summarizeTokenUsage reads token_usage_rollup (totals per day, user, operation, content type, section and model)
+ * into the per-day series and breakdowns served by /api/usage and /api/admin/usage.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+import type { SupabaseClient, User } from '@supabase/supabase-js'
+import type { ContentType, TokenUsage } from '@/types/rpg'
+
+export type UsageOperation = 'generate' | 'section' | 'level-up' | 'translate' | 'continuity'
+
+export interface ModelUsageEvent {
+  operation: UsageOperation
+  contentType?: ContentType
+  section?: string
+  provider: string
+  model: string
+  usage: TokenUsage
+}
+
+// USD per million tokens; models not listed (local OpenAI-compatible servers, the fixture) have no estimated cost
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+}
+
+/**
+ * Estimated cost in USD of a call, or null when the model has no pricing
+ */
+export function estimateCost(model: string, usage: TokenUsage): number | null {
+  const pricing = MODEL_PRICING[model]
+  if (!pricing) return null
+  return (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000
+}
+
+type UsageRecorder = (event: ModelUsageEvent) => Promise<void>
+
+const usageRecorders = new AsyncLocalStorage<UsageRecorder>()
+
+/**
+ * Run `work` with every model call it makes, including later stream completions, reported to `recorder`
+ */
+export function withUsageRecording<T>(recorder: UsageRecorder, work: () => Promise<T>): Promise<T> {
+  return usageRecorders.run(recorder, work)
+}
+
+/**
+ * Report a model call to the current recording, if any
+ * Never throws: a failed usage write is logged and the generation goes on.
+ */
+export async function reportModelUsage(event: ModelUsageEvent): Promise<void> {
+  const recorder = usageRecorders.getStore()
+  if (!recorder) return
+  try {
+    await recorder(event)
+  } catch (error) {
+    console.error('Failed to record token usage:', error)
+  }
+}
+
+/**
+ * Recorder that saves each call to token_usage for `user`; `route` names the API route, e.g. "generate/batch"
+ */
+export function createUsageRecorder(supabase: SupabaseClient, user: User, route: string): UsageRecorder {
+  return async (event) => {
+    const { error } = await supabase
+      .from('token_usage')
+      .insert({
+        user_id: user.id,
+        route,
+        operation: event.operation,
+        content_type: event.contentType ?? null,
+        section: event.section ?? null,
+        provider: event.provider,
+        model: event.model,
+        prompt_tokens: event.usage.promptTokens,
+        completion_tokens: event.usage.completionTokens,
+        total_tokens: event.usage.totalTokens,
+        estimated_cost: estimateCost(event.model, event.usage),
+      })
+
+    if (error) {
+      throw new Error(error.message)
+    }
+  }
+}
+
+/**
+ * Token usage can be read across all users by admins (`app_metadata.role`, only settable with the service role key)
+ */
+export function isUsageAdmin(user: Pick<User, 'app_metadata'>): boolean {
+  return user.app_metadata?.role === 'admin'
+}
+
+export interface UsageTotals {
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  estimatedCost: number // USD; calls to models without pricing add nothing
+}
+
+export interface UsageSummary {
+  since: string // First day included (UTC date)
+  days: ({ date: string } & UsageTotals)[] // Every day from `since` to today, oldest first
+  byContentType: ({ contentType: ContentType | null } & UsageTotals)[] // Most tokens first; null for continuity checks
+  byOperation: ({ operation: UsageOperation; section: string | null } & UsageTotals)[] // Sections are listed separately
+  byModel: ({ provider: string; model: string } & UsageTotals)[]
+  byUser?: ({ userId: string } & UsageTotals)[] // Admin summaries only
+  total: UsageTotals
+}
+
+export const MAX_USAGE_DAYS = 90
+
+// Rows per request; PostgREST caps responses, so the rollup is read in pages, ordered by every column
+const ROLLUP_PAGE_SIZE = 1000
+const ROLLUP_ORDER = ['day', 'user_id', 'operation', 'content_type', 'section', 'provider', 'model']
+
+interface UsageRollupRow {
+  day: string
+  user_id: string
+  operation: UsageOperation
+  content_type: ContentType | null
+  section: string | null
+  provider: string
+  model: string
+  calls: number
+  prompt_tokens: number
+  completion_tokens: number
+  total_tokens: number
+  estimated_cost: number | string | null
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedCost: 0 }
+}
+
+function addRow(totals: UsageTotals, row: UsageRollupRow): void {
+  totals.calls += Number(row.calls) || 0
+  totals.promptTokens += Number(row.prompt_tokens) || 0
+  totals.completionTokens += Number(row.completion_tokens) || 0
+  totals.totalTokens += Number(row.total_tokens) || 0
+  totals.estimatedCost += Number(row.estimated_cost) || 0
+}
+
+/**
+ * Group rows by `key`, most tokens first
+ */
+function groupRows<T extends object>(rows: UsageRollupRow[], key: (row: UsageRollupRow) => T): (T & UsageTotals)[] {
+  const groups = new Map<string, T & UsageTotals>()
+  for (const row of rows) {
+    const fields = key(row)
+    const id = JSON.stringify(fields)
+    if (!groups.has(id)) groups.set(id, { ...fields, ...emptyTotals() })
+    addRow(groups.get(id)!, row)
+  }
+  return [...groups.values()].sort((a, b) => b.totalTokens - a.totalTokens)
+}
+
+/**
+ * Usage over the last `days` days (today included, UTC)
+ * With `userId`, only that user's usage; without it, everything the client can read (all users for an admin),
+ * broken down by user as well.
+ */
+export async function summarizeTokenUsage(
+  supabase: SupabaseClient,
+  days: number,
+  userId?: string
+): Promise<UsageSummary> {
+  const now = new Date()
+  const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - (days - 1)))
+
+  const rows: UsageRollupRow[] = []
+  for (let from = 0; ; from += ROLLUP_PAGE_SIZE) {
+    let query = supabase.rpc('token_usage_rollup', { since: since.toISOString() })
+    if (userId) query = query.eq('user_id', userId)
+    for (const column of ROLLUP_ORDER) query = query.order(column)
+    const { data, error } = await query.range(from, from + ROLLUP_PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to read token usage: ${error.message}`)
+    }
+    rows.push(...((data || []) as UsageRollupRow[]))
+    if (!data || data.length < ROLLUP_PAGE_SIZE) break
+  }
+
+  const dayTotals = new Map<string, UsageTotals>()
+  for (let offset = 0; offset < days; offset++) {
+    const date = new Date(since.getTime() + offset * 86_400_000).toISOString().slice(0, 10)
+    dayTotals.set(date, emptyTotals())
+  }
+  const total = emptyTotals()
+  for (const row of rows) {
+    const totals = dayTotals.get(row.day.slice(0, 10))
+    if (totals) addRow(totals, row)
+    addRow(total, row)
+  }
+
+  return {
+    since: since.toISOString().slice(0, 10),
+    days: [...dayTotals.entries()].map(([date, totals]) => ({ date, ...totals })),
+    byContentType: groupRows(rows, (row) => ({ contentType: row.content_type })),
+    byOperation: groupRows(rows, (row) => ({ operation: row.operation, section: row.section })),
+    byModel: groupRows(rows, (row) => ({ provider: row.provider, model: row.model })),
+    ...(userId ? {} : { byUser: groupRows(rows, (row) => ({ userId: row.user_id })) }),
+    total,
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Compare prompt template versions on the same scenario.
+ * Run: npx tsx scripts/compare-prompts.ts <contentType> "<scenario>" [versions] [locale]
+ *   versions: comma-separated, e.g. 1,2 (default: every registered version of the content type)
+ *   locale: en, es or pt-BR (default: en)
+ * Requires: OPENAI_API_KEY in .env.local (or AI_PROVIDER=openai-compatible / fixture, see lib/ai-provider.ts)
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import type { ContentType } from '../types/rpg'
+
+// Load .env.local
+const envPath = path.join(process.cwd(), '.env.local')
+if (fs.existsSync(envPath)) {
+  fs.readFileSync(envPath, 'utf8').split('\n').forEach((line) => {
+    const m = line.match(/^([^#=]+)=(.*)$/)
+    if (m) {
+      const key = m[1].trim()
+      let val = m[2].trim()
+      if ((val.startsWith('"') && val.endsWith('"')) || (val.startsWith("'") && val.endsWith("'")))
+        val = val.slice(1, -1)
+      process.env[key] = val
+    }
+  })
+}
+
+if (!process.env.OPENAI_API_KEY && !process.env.AI_PROVIDER) {
+  console.error('OPENAI_API_KEY not found. Add it to .env.local or set AI_PROVIDER')
+  process.exit(1)
+}
+
+const CONTENT_TYPES: ContentType[] = ['character', 'environment', 'mission', 'item', 'monster', 'faction']
+
+async function main() {
+  const [contentType, scenario, versionsArg, localeArg] = process.argv.slice(2)
+  if (!CONTENT_TYPES.includes(contentType as ContentType) || !scenario) {
+    console.error('Usage: npx tsx scripts/compare-prompts.ts <contentType> "<scenario>" [versions] [locale]')
+    console.error('Content types:', CONTENT_TYPES.join(', '))
+    process.exit(1)
+  }
+
+  const { generateRPGContent } = await import('../lib/ai')
+  const { getGenerationPrompt, getPromptId, listPromptVersions } = await import('../lib/prompts')
+  const { isLocale } = await import('../i18n/config')
+
+  const type = contentType as ContentType
+  const locale = localeArg && isLocale(localeArg) ? localeArg : undefined
+  const versions = versionsArg ? versionsArg.split(',').map((version) => Number(version.trim())) : listPromptVersions(type)
+
+  console.log(`Comparing ${type} prompt versions ${versions.join(', ')} on scenario:`, scenario)
+  try {
+    for (const version of versions) {
+      const template = getGenerationPrompt(type, version)
+      console.log(`\n=== ${getPromptId(template)}: ${template.description} ===`)
+      const { content, provenance } = await generateRPGContent(scenario, type, undefined, undefined, undefined, locale, version)
+      console.log(JSON.stringify(content, null, 2))
+      console.log('Model:', `${provenance.provider}/${provenance.model}`, '| Tokens:', provenance.usage?.totalTokens ?? 'not reported')
+    }
+  } catch (e) {
+    console.error('Error:', e)
+    process.exit(1)
+  }
+  console.log('\nDone.')
+}
+
+main()
@@ -1,7 +1,7 @@
 /**
  * Test script for generation parameters: temperature, tone, complexity.
  * Run: npx tsx scripts/test-generation-params.ts
- * Requires: OPENAI_API_KEY in .env.local
+ * Requires: OPENAI_API_KEY in .env.local (or AI_PROVIDER=openai-compatible / fixture, see lib/ai-provider.ts)
  */
 
 import * as fs from 'fs'
@@ -23,8 +23,8 @@ if (fs.existsSync(envPath)) {
   })
 }
 
-if (!process.env.OPENAI_API_KEY) {
-  console.error('OPENAI_API_KEY not found. Add it to .env.local')
+if (!process.env.OPENAI_API_KEY && !process.env.AI_PROVIDER) {
+  console.error('OPENAI_API_KEY not found. Add it to .env.local or set AI_PROVIDER')
   process.exit(1)
 }
 
@@ -83,11 +83,13 @@ async function testComplexity(generateRPGContent: (scenario: string, contentType
 
 async function main() {
   const { generateRPGContent } = await import('../lib/ai')
+  // The checks only look at the content, not at its provenance
+  const generateContent = async (...args: Parameters<typeof generateRPGContent>) => (await generateRPGContent(...args)).content
   console.log('Testing generation params (temperature, tone, complexity) with scenario:', scenario.slice(0, 50) + '...')
   try {
-    await testTemperature(generateRPGContent)
-    await testTone(generateRPGContent)
-    await testComplexity(generateRPGContent)
+    await testTemperature(generateContent)
+    await testTone(generateContent)
+    await testComplexity(generateContent)
   } catch (e) {
     console.error('Error:', e)
     process.exit(1)
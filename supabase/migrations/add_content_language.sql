@@ -0,0 +1,16 @@
+-- Add the output language to generated_content
+-- Run this migration in your Supabase SQL Editor
+
+-- Language the content was generated in (a UI locale); NULL for content saved before it was tracked
+ALTER TABLE generated_content
+ADD COLUMN IF NOT EXISTS language TEXT;
+
+ALTER TABLE generated_content
+DROP CONSTRAINT IF EXISTS generated_content_language_check;
+
+ALTER TABLE generated_content
+ADD CONSTRAINT generated_content_language_check
+CHECK (language IS NULL OR language IN ('en', 'pt-BR', 'es'));
+
+-- Add comment for documentation
+COMMENT ON COLUMN generated_content.language IS 'Locale the content was generated in (en, pt-BR or es)';
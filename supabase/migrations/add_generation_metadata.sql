@@ -0,0 +1,10 @@
+-- Add generation provenance to generated_content
+-- Run this migration in your Supabase SQL Editor
+
+-- Model, provider, temperature, tone, complexity, advanced input, campaign context hash, language,
+-- prompt version and token usage of the generation that produced the content (see GenerationProvenance in types/rpg.ts)
+ALTER TABLE generated_content
+ADD COLUMN IF NOT EXISTS generation_metadata JSONB;
+
+-- Add comment for documentation
+COMMENT ON COLUMN generated_content.generation_metadata IS 'Conditions the content was generated under, used to regenerate with the same settings';
@@ -0,0 +1,9 @@
+-- Add field locks to generated_content
+-- Run this migration in your Supabase SQL Editor
+
+-- Top-level content fields kept as they are by "Regenerate all", variations and level-ups (see lib/field-locks.ts)
+ALTER TABLE generated_content
+ADD COLUMN IF NOT EXISTS locked_fields TEXT[] DEFAULT '{}';
+
+-- Add comment for documentation
+COMMENT ON COLUMN generated_content.locked_fields IS 'Content fields locked against regeneration, variations and level-ups';
@@ -0,0 +1,18 @@
+-- Allow monsters as a content type in generated_content and content_templates
+-- Run this migration in your Supabase SQL Editor
+
+-- Replace the generated_content type check
+ALTER TABLE generated_content
+DROP CONSTRAINT IF EXISTS generated_content_type_check;
+
+ALTER TABLE generated_content
+ADD CONSTRAINT generated_content_type_check
+CHECK (type IN ('character', 'environment', 'mission', 'item', 'monster'));
+
+-- Replace the content_templates type check
+ALTER TABLE content_templates
+DROP CONSTRAINT IF EXISTS content_templates_type_check;
+
+ALTER TABLE content_templates
+ADD CONSTRAINT content_templates_type_check
+CHECK (type IN ('character', 'environment', 'mission', 'item', 'monster'));
@@ -0,0 +1,10 @@
+-- Allow translation_of as a link type in content_links
+-- Run this migration in your Supabase SQL Editor
+
+-- Replace the content_links link_type check
+ALTER TABLE content_links
+DROP CONSTRAINT IF EXISTS content_links_link_type_check;
+
+ALTER TABLE content_links
+ADD CONSTRAINT content_links_link_type_check
+CHECK (link_type IN ('related', 'part_of', 'uses', 'located_in', 'involves', 'translation_of'));
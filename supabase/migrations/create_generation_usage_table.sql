@@ -0,0 +1,43 @@
+-- Create generation_usage table for per-user generation quotas
+-- Run this migration in your Supabase SQL Editor
+
+-- One row per accepted AI request; `generations` is the number of generations it asked for
+-- (see lib/quotas.ts). Rows are never updated or deleted by users.
+CREATE TABLE IF NOT EXISTS generation_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  route TEXT NOT NULL,
+  generations INTEGER NOT NULL DEFAULT 1 CHECK (generations > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_generation_usage_user_created_at
+  ON generation_usage(user_id, created_at DESC);
+
+ALTER TABLE generation_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own generation usage"
+  ON generation_usage
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own generation usage"
+  ON generation_usage
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Generations of the calling user since a point in time (daily and monthly quotas)
+CREATE OR REPLACE FUNCTION count_generations_since(since TIMESTAMPTZ)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT COALESCE(SUM(generations), 0)
+  FROM generation_usage
+  WHERE user_id = auth.uid()
+    AND created_at >= since;
+$$;
+
+-- Add comment for documentation
+COMMENT ON TABLE generation_usage IS 'Accepted AI generation requests, counted against per-user rate limits and quotas';
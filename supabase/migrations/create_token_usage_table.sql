@@ -0,0 +1,83 @@
+-- Create token_usage table for token and cost accounting
+-- Run this migration in your Supabase SQL Editor
+
+-- One row per model call made by an API route (see lib/usage.ts); estimated_cost is in USD
+-- and NULL for models without pricing
+CREATE TABLE IF NOT EXISTS token_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  route TEXT NOT NULL,
+  operation TEXT NOT NULL CHECK (operation IN ('generate', 'section', 'level-up', 'translate', 'continuity')),
+  content_type TEXT,
+  section TEXT,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  estimated_cost NUMERIC(12, 6),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_usage_user_created_at
+  ON token_usage(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_token_usage_created_at
+  ON token_usage(created_at DESC);
+
+ALTER TABLE token_usage ENABLE ROW LEVEL SECURITY;
+
+-- Admins (app_metadata.role = 'admin', set with the service role key) can read everyone's usage
+CREATE POLICY "Users can view their own token usage"
+  ON token_usage
+  FOR SELECT
+  USING (
+    auth.uid() = user_id
+    OR (auth.jwt() -> 'app_metadata' ->> 'role') = 'admin'
+  );
+
+CREATE POLICY "Users can insert their own token usage"
+  ON token_usage
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Daily totals per user, operation, content type, section and model since a point in time,
+-- over the rows the caller can read
+CREATE OR REPLACE FUNCTION token_usage_rollup(since TIMESTAMPTZ)
+RETURNS TABLE (
+  day DATE,
+  user_id UUID,
+  operation TEXT,
+  content_type TEXT,
+  section TEXT,
+  provider TEXT,
+  model TEXT,
+  calls BIGINT,
+  prompt_tokens BIGINT,
+  completion_tokens BIGINT,
+  total_tokens BIGINT,
+  estimated_cost NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    (created_at AT TIME ZONE 'UTC')::date AS day,
+    user_id,
+    operation,
+    content_type,
+    section,
+    provider,
+    model,
+    COUNT(*) AS calls,
+    SUM(prompt_tokens) AS prompt_tokens,
+    SUM(completion_tokens) AS completion_tokens,
+    SUM(total_tokens) AS total_tokens,
+    SUM(estimated_cost) AS estimated_cost
+  FROM token_usage
+  WHERE created_at >= since
+  GROUP BY 1, 2, 3, 4, 5, 6, 7;
+$$;
+
+-- Add comment for documentation
+COMMENT ON TABLE token_usage IS 'Tokens and estimated cost of each model call, for usage and cost accounting';
@@ -2,18 +2,41 @@
  * D&D 5e RPG Content Type Definitions
  */
 
-export type ContentType = 'character' | 'environment' | 'mission'
+import type { Locale } from '@/i18n/config'
+
+export type ContentType = 'character' | 'environment' | 'mission' | 'item' | 'monster' | 'faction'
+
+export type SpellSchool = 'abjuration' | 'conjuration' | 'divination' | 'enchantment' | 'evocation' | 'illusion' | 'necromancy' | 'transmutation'
 
 export interface Spell {
   name: string
   level: number
   description: string
+  // Filled from the SRD spell list (lib/srd-spells.ts) when the spell is an SRD spell
+  school?: SpellSchool
+  castingTime?: string
+  range?: string
+  components?: string // e.g. "V, S, M"
+  duration?: string
+  concentration?: boolean
+  ritual?: boolean
+  offClassList?: boolean // Not on the spell list of any of the character's classes (kept, but flagged)
 }
 
 export interface ClassFeature {
   name: string // Feature name (e.g., "Rage", "Sneak Attack")
   description: string // Brief description of what the feature does
-  level: number // Level at which this feature is obtained (1-20)
+  level: number // Level at which this feature is obtained (1-20); the class level for multiclassed characters
+  className?: string // Class that grants the feature (multiclassed characters only)
+}
+
+/**
+ * One class of a multiclassed character
+ */
+export interface CharacterClass {
+  name: string // D&D 5e class (e.g., "Fighter")
+  level: number // Levels taken in this class (1-20)
+  subclass?: string // e.g., "Battle Master", "School of Evocation"
 }
 
 export interface Skill {
@@ -34,11 +57,17 @@ export interface Attributes {
 export interface Character {
   name: string
   race: string
-  class: string
-  level: number
+  class: string // Primary (first) class
+  level: number // Total character level
+  classes?: CharacterClass[] // Multiclassed characters only: every class with its level, primary class first
+  subclass?: string // Single-class characters (e.g., "College of Lore"); only once the class grants it
+  alignment?: string // e.g., "Chaotic Good"
   background: string
   history: string
   personality: string
+  ideals?: string[] // What the character believes in (5e personality: ideals, bonds, flaws)
+  bonds?: string[] // People, places or causes the character is tied to
+  flaws?: string[] // Vices, fears or weaknesses
   attributes: Attributes
   expertise: string[] // Array of skill names with expertise
   spells: Spell[]
@@ -48,8 +77,92 @@ export interface Character {
   classFeatures?: ClassFeature[] // Array of class features with name, description, and level obtained
   voiceDescription: string // Voice description (e.g., "Hoarse voice", "Sweet voice", "Angry voice")
   associatedMission?: string
+  equipment?: Equipment // Weapons, armor, gear and coins carried by the character
+  combatStats?: CombatStats // Derived from class/level/attributes by lib/dnd-rules.ts, never generated
+}
+
+export interface Weapon {
+  name: string
+  damage: string // Damage dice (e.g., "1d8", "2d6")
+  damageType: string // e.g., "slashing", "piercing", "bludgeoning"
+  properties: string[] // e.g., ["Finesse", "Light", "Thrown (20/60)"]
+  weight: number // In pounds
+}
+
+export type ArmorCategory = 'light' | 'medium' | 'heavy' | 'shield'
+
+export interface ArmorPiece {
+  name: string
+  category: ArmorCategory
+  armorClass: number // Base AC for body armor (e.g., 11 leather, 16 chain mail) or the bonus for a shield (usually 2)
+  weight: number // In pounds
+  stealthDisadvantage?: boolean
+}
+
+export interface GearItem {
+  name: string
+  quantity: number
+  weight: number // Weight of one unit in pounds
+}
+
+export interface Currency {
+  cp: number
+  sp: number
+  ep: number
+  gp: number
+  pp: number
+}
+
+export type EncumbranceLevel = 'unencumbered' | 'encumbered' | 'heavilyEncumbered' | 'overloaded'
+
+export interface Equipment {
+  weapons: Weapon[]
+  armor: ArmorPiece[]
+  gear: GearItem[]
+  currency: Currency
+  // Derived from STR by lib/dnd-rules.ts
+  totalWeight?: number // Weapons, armor, gear and coins (50 coins = 1 lb)
+  carryingCapacity?: number // STR x 15
+  encumbrance?: EncumbranceLevel // Variant encumbrance thresholds: STR x 5 / STR x 10 / capacity
+}
+
+export interface SpellSlots {
+  level: number // Spell level (1-9)
+  slots: number // Number of slots of that level
+}
+
+export interface CombatStats {
+  hitPoints: number // Maximum hit points (max hit die at level 1, average afterwards)
+  hitDice: string // e.g., "5d10"
+  armorClass: number // From worn armor and shield, else the class's starting armor or Unarmored Defense
+  speed: number // Walking speed in feet
+  initiative: number
+  passivePerception: number
+  passiveInvestigation: number
+  passiveInsight: number
+  proficiencyBonus: number
+  meleeAttackBonus: number
+  rangedAttackBonus: number
+  spellcastingAbility?: 'INT' | 'WIS' | 'CHA' // Only for characters that cast spells
+  spellSaveDC?: number
+  spellAttackBonus?: number
+  spellSlots: SpellSlots[] // Empty for non-casters; Warlocks list their pact slots
+}
+
+/**
+ * A correction applied by the 5e rules validator (lib/dnd-rules.ts)
+ */
+export interface RulesCorrection {
+  field: string // Character field that was corrected (e.g., "spells", "classFeatures", "skills")
+  message: string
+  flagged?: boolean // Only flagged for review; the value was left unchanged
 }
 
+/**
+ * Ability Score Improvement picked when leveling up: +2 to one ability or +1 to two (e.g., { strength: 2 })
+ */
+export type AbilityScoreIncrease = Partial<Record<keyof Attributes, number>>
+
 export interface Environment {
   name: string
   description: string
@@ -100,7 +213,104 @@ export interface Mission {
   choiceBasedRewards?: ChoiceBasedReward[] // Optional rewards tied to specific choices/paths
 }
 
-export type GeneratedContent = Character | Environment | Mission
+export type ItemRarity = 'common' | 'uncommon' | 'rare' | 'very rare' | 'legendary' | 'artifact'
+
+export interface ItemCharges {
+  max: number // Maximum number of charges
+  recharge: string // How charges are regained (e.g., "1d6+1 at dawn", "Does not recharge")
+}
+
+export interface MagicItem {
+  name: string
+  itemType: string // e.g., "Weapon (longsword)", "Wondrous item", "Ring", "Armor (plate)"
+  rarity: ItemRarity
+  requiresAttunement: boolean
+  attunementRequirement?: string // e.g., "by a spellcaster", "by a cleric or paladin"
+  charges?: ItemCharges // Only for items that use charges
+  properties: string[] // Mechanical properties and effects
+  description: string // Physical appearance
+  lore: string // History and origin of the item
+  status: string // DM-control status (e.g., "Standard magic item", "Dormant Artifact", "DM-controlled", "Narrative-only")
+}
+
+export type CreatureSize = 'Tiny' | 'Small' | 'Medium' | 'Large' | 'Huge' | 'Gargantuan'
+
+export interface MonsterAbilityScores {
+  strength: number // STR value (1-30)
+  dexterity: number // DEX value (1-30)
+  constitution: number // CON value (1-30)
+  intelligence: number // INT value (1-30)
+  wisdom: number // WIS value (1-30)
+  charisma: number // CHA value (1-30)
+}
+
+export interface MonsterFeature {
+  name: string // e.g., "Multiattack", "Bite", "Legendary Resistance (3/Day)"
+  description: string // Rules text (attack bonus, reach, damage, save DC)
+}
+
+export interface Monster {
+  name: string
+  size: CreatureSize
+  creatureType: string // e.g., "dragon", "fiend (demon)", "humanoid (goblinoid)"
+  alignment: string
+  armorClass: number
+  armorType?: string // e.g., "natural armor", "chain mail, shield"
+  hitPoints: number // Average hit points
+  hitDice: string // e.g., "12d10 + 36"
+  speed: string // e.g., "30 ft., fly 60 ft."
+  abilityScores: MonsterAbilityScores
+  savingThrows: string[] // e.g., ["Dex +5", "Wis +3"]
+  skills: string[] // e.g., ["Perception +6", "Stealth +5"]
+  damageVulnerabilities: string[]
+  damageResistances: string[]
+  damageImmunities: string[]
+  conditionImmunities: string[]
+  senses: string // e.g., "darkvision 60 ft., passive Perception 16"
+  languages: string
+  challengeRating: string // e.g., "1/4", "5", "17"
+  experiencePoints: number // XP for the challenge rating
+  proficiencyBonus: number
+  traits: MonsterFeature[] // Special traits (passive abilities)
+  actions: MonsterFeature[]
+  reactions?: MonsterFeature[]
+  legendaryActionsPerRound?: number // Usually 3
+  legendaryActions?: MonsterFeature[]
+  lairActions?: MonsterFeature[]
+  description: string // Appearance and behavior
+  tactics: string // How the creature fights
+}
+
+export type FactionInfluence = 'local' | 'regional' | 'national' | 'global'
+
+export interface FactionLeader {
+  name: string
+  title: string // e.g., "Guildmaster", "High Priestess", "Lord Regent"
+  description: string // Personality and role in the faction
+}
+
+export interface FactionRelationship {
+  name: string // Name of the allied or rival faction
+  relationship: string // Nature of the alliance or rivalry
+}
+
+export interface Faction {
+  name: string
+  factionType: string // e.g., "Thieves' guild", "Doomsday cult", "Noble house"
+  influence: FactionInfluence // Reach of the faction's power
+  motto?: string
+  ideology: string // What the faction believes and stands for
+  headquarters: string // Where the faction is based
+  leadership: FactionLeader[]
+  resources: string[] // Wealth, soldiers, magic, information networks...
+  goals: string[] // What the faction is working toward
+  secrets: string[] // Hidden truths, for the DM
+  allies: FactionRelationship[]
+  rivals: FactionRelationship[]
+  description: string // Public reputation and how the faction operates
+}
+
+export type GeneratedContent = Character | Environment | Mission | MagicItem | Monster | Faction
 
 export interface GenerationRequest {
   scenario: string
@@ -119,8 +329,14 @@ export interface GenerationResponse {
 export interface AdvancedCharacterInput {
   level?: number // Character level (1-20)
   class?: string // D&D 5e class (e.g., "Bard", "Wizard", "Fighter")
+  classes?: CharacterClass[] // Multiclass breakdown; replaces class and level (total level is the sum)
+  subclass?: string // Subclass of the class (e.g., "School of Evocation"); single-class only
   race?: string // D&D 5e race (e.g., "Human", "Elf", "Tiefling")
   background?: string // Character background (e.g., "Entertainer", "Sage", "Noble")
+  alignment?: string // e.g., "Lawful Good", "Chaotic Neutral"
+  ideal?: string // An ideal the character must hold
+  bond?: string // A bond the character must have
+  flaw?: string // A flaw the character must have
 }
 
 /**
@@ -141,10 +357,35 @@ export interface AdvancedMissionInput {
   rewardTypes?: ('xp' | 'gold' | 'items')[] // Types of rewards to include
 }
 
+/**
+ * Advanced structured input for magic item generation
+ */
+export interface AdvancedItemInput {
+  rarity?: ItemRarity // Item rarity
+  requiresAttunement?: boolean // Whether the item must require attunement
+}
+
+/**
+ * Advanced structured input for monster generation
+ */
+export interface AdvancedMonsterInput {
+  challengeRating?: string // Target challenge rating (e.g., "1/2", "5")
+  size?: CreatureSize // Creature size
+  legendary?: boolean // Whether the monster must have legendary and lair actions
+}
+
+/**
+ * Advanced structured input for faction generation
+ */
+export interface AdvancedFactionInput {
+  influence?: FactionInfluence // Reach of the faction's power
+  leaderCount?: number // Number of leaders to generate
+}
+
 /**
  * Union type for all advanced inputs
  */
-export type AdvancedInput = AdvancedCharacterInput | AdvancedEnvironmentInput | AdvancedMissionInput
+export type AdvancedInput = AdvancedCharacterInput | AdvancedEnvironmentInput | AdvancedMissionInput | AdvancedItemInput | AdvancedMonsterInput | AdvancedFactionInput
 
 /**
  * Custom generation parameters
@@ -155,6 +396,96 @@ export interface AdvancedGenerationParams {
   complexity?: 'simple' | 'standard' | 'detailed' // Level of detail in generation
 }
 
+/**
+ * Tokens used by one model call, as reported by the provider
+ */
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+/**
+ * Conditions a piece of content was generated under (generated_content.generation_metadata)
+ * Enough to rerun the generation with the same settings; the campaign context itself is only kept as a hash.
+ */
+export interface GenerationProvenance {
+  provider: string
+  model: string
+  contentType: ContentType
+  scenario: string // Exact scenario sent to the model (variations and adventures wrap the user's scenario)
+  temperature: number // Temperature after clamping, as sent to the model
+  tone?: AdvancedGenerationParams['tone']
+  complexity?: AdvancedGenerationParams['complexity']
+  advancedInput?: AdvancedInput
+  campaignId?: string // Campaign the context was built from on the server
+  campaignContextHash?: string // SHA-256 of the campaign context; absent when generated without context
+  language: Locale
+  promptVersion: string // Prompt template id, e.g. "character@1" (lib/prompts)
+  usage?: TokenUsage // Absent when the provider did not report usage
+  generatedAt: string // ISO timestamp
+}
+
+/**
+ * A campaign entry: linked library content or one of the campaign's session notes
+ */
+export interface CampaignEntryReference {
+  id: string
+  kind: 'content' | 'session'
+  type?: ContentType // Content entries only
+  title: string
+}
+
+/**
+ * A campaign entry the server-side context builder included in a generation prompt (lib/campaign-context.ts)
+ */
+export interface CampaignContextSource extends CampaignEntryReference {
+  score: number // BM25 relevance to the scenario; 0 when included without a match
+}
+
+/**
+ * Continuity problem types found by the campaign continuity check (lib/continuity.ts)
+ */
+export type ContinuityIssueKind = 'name_collision' | 'dangling_npc' | 'dangling_location' | 'contradiction'
+
+/**
+ * A continuity problem and the campaign entries involved
+ */
+export interface ContinuityIssue {
+  kind: ContinuityIssueKind
+  name?: string // Shared name (name_collision) or unmatched reference name (dangling_npc, dangling_location)
+  description?: string // Model explanation (contradiction)
+  entries: CampaignEntryReference[]
+}
+
+/**
+ * Result of a campaign continuity check
+ */
+export interface ContinuityReport {
+  issues: ContinuityIssue[]
+  checkedEntries: number
+  contradictionError?: string // Set when the model check failed; the rule-based issues are still reported
+}
+
+/**
+ * One job of a batch generation request (/api/generate/batch)
+ */
+export interface BatchGenerationJob {
+  scenario: string
+  contentType: ContentType
+  advancedInput?: AdvancedInput
+  generationParams?: AdvancedGenerationParams
+}
+
+/**
+ * One candidate of a multi-candidate generation (/api/generate/candidates)
+ */
+export interface GenerationCandidate {
+  content: GeneratedContent
+  corrections: RulesCorrection[]
+  provenance: GenerationProvenance
+}
+
 
 
 